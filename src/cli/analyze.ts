@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import {
+  ANALYSIS_OUTPUT_FORMATS,
+  AnalysisConfig,
+  AnalysisOutputFormat,
+  DEFAULT_ANALYSIS_CONFIG,
+  analyzeTable,
+  getOutputFileName,
+  isTableFile,
+  parseAnalysisConfig,
+  readTableFile,
+  renderAnalysisOutput,
+} from '@/engine';
+
+// Batch runs without the browser:
+//   analyze <file|folder>... [--config x.json] [--format json|xlsx|pdf] [--out dir]
+
+const USAGE = `Usage: analyze <file|folder>... [options]
+
+Analyzes product data files (.xlsx, .xls, .csv, .tsv, .tab, .txt). Folders are
+scanned for data files (not recursively).
+
+Options:
+  --config <file>    Analysis config JSON: {"profile": "strict", "levels": {...}}
+                     or an AnalysisConfig saved from the app (default: balanced)
+  --format <list>    json, xlsx or pdf - comma-separated for several (default: json)
+  --out <dir>        Output folder (default: next to each input file)
+  --verbose          Show the engine's analysis log
+  --help             Show this message
+`;
+
+interface CliOptions {
+  inputs: string[];
+  configPath: string | null;
+  formats: AnalysisOutputFormat[];
+  outDir: string | null;
+  verbose: boolean;
+}
+
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]): CliOptions | null => {
+  const options: CliOptions = { inputs: [], configPath: null, formats: ['json'], outDir: null, verbose: false };
+  const valueOf = (flag: string, index: number): string => {
+    const value = args[index + 1];
+    if (!value || value.startsWith('--')) throw new UsageError(`${flag} needs a value`);
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') return null;
+    if (arg === '--verbose') {
+      options.verbose = true;
+    } else if (arg === '--config') {
+      options.configPath = valueOf(arg, i++);
+    } else if (arg === '--out') {
+      options.outDir = valueOf(arg, i++);
+    } else if (arg === '--format') {
+      const formats = valueOf(arg, i++).split(',').map(f => f.trim().toLowerCase());
+      const unknown = formats.filter(f => !ANALYSIS_OUTPUT_FORMATS.includes(f as AnalysisOutputFormat));
+      if (unknown.length > 0) {
+        throw new UsageError(`Unknown format "${unknown.join(', ')}" - use ${ANALYSIS_OUTPUT_FORMATS.join(', ')}`);
+      }
+      options.formats = Array.from(new Set(formats)) as AnalysisOutputFormat[];
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) throw new UsageError('No input files given');
+  return options;
+};
+
+// Helper: folders expand to their data files; earlier outputs and Excel lock files are skipped
+const collectFiles = (inputs: string[]): string[] =>
+  inputs.flatMap(input => {
+    if (!statSync(input, { throwIfNoEntry: false })) {
+      throw new UsageError(`${input} does not exist`);
+    }
+    if (!statSync(input).isDirectory()) return [input];
+    return readdirSync(input)
+      .filter(name => isTableFile(name) && !name.startsWith('~$') && !name.includes('.taxonomy.'))
+      .sort()
+      .map(name => path.join(input, name));
+  });
+
+const loadConfig = (configPath: string | null): AnalysisConfig => {
+  if (!configPath) return DEFAULT_ANALYSIS_CONFIG;
+  try {
+    return parseAnalysisConfig(JSON.parse(readFileSync(configPath, 'utf-8')));
+  } catch (error) {
+    throw new UsageError(`${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const main = (): number => {
+  let options: CliOptions | null;
+  let files: string[];
+  let config: AnalysisConfig;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    if (!options) {
+      process.stdout.write(USAGE);
+      return 0;
+    }
+    files = collectFiles(options.inputs);
+    config = loadConfig(options.configPath);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`analyze: ${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  // The engine logs every step for the browser console - too noisy for batch runs
+  if (!options.verbose) {
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+  if (options.outDir) mkdirSync(options.outDir, { recursive: true });
+
+  let failed = 0;
+  files.forEach(file => {
+    try {
+      const buffer = readFileSync(file);
+      const table = readTableFile(
+        path.basename(file),
+        buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+      );
+      const analysis = analyzeTable(table, config);
+      const outputs = options.formats.map(format => {
+        const outputPath = path.join(options.outDir || path.dirname(file), getOutputFileName(file, format));
+        writeFileSync(outputPath, renderAnalysisOutput(analysis, format));
+        return outputPath;
+      });
+
+      const levels = analysis.analysisResult.hierarchy.length;
+      process.stdout.write(
+        `✓ ${file}: ${table.data.length} rows, ${levels} level${levels === 1 ? '' : 's'}, ` +
+        `${analysis.validation.warnings.length} validation warnings → ${outputs.join(', ')}\n`
+      );
+      table.notes.forEach(note => process.stdout.write(`    ${note}\n`));
+    } catch (error) {
+      failed++;
+      process.stderr.write(`✗ ${file}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  });
+
+  if (files.length !== 1) {
+    process.stdout.write(`${files.length - failed} of ${files.length} files analyzed\n`);
+  }
+  return failed > 0 ? 1 : 0;
+};
+
+process.exitCode = main();
@@ -0,0 +1,338 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowRight, ArrowLeftRight, Download, FileUp, GitCompare, Loader2, Search, X } from 'lucide-react';
+import { useAnalysisWorker } from '@/hooks/use-analysis-worker';
+import { useToast } from '@/hooks/use-toast';
+import { AnalysisConfig } from '@/utils/analysisConfig';
+import { PROJECT_FILE_EXTENSION } from '@/utils/projectFile';
+import { readComparisonSource } from '@/utils/comparisonSource';
+import { TABLE_FILE_EXTENSIONS } from '@/utils/tableFile';
+import {
+  AnalysisChange,
+  AnalysisChangeCategory,
+  AnalysisSnapshot,
+  CHANGE_CATEGORY_LABELS,
+  DeltaReportFormat,
+  diffAnalyses,
+  downloadDeltaReport,
+} from '@/utils/analysisDiff';
+
+type Side = 'before' | 'after';
+
+interface ComparisonSlot {
+  status: 'empty' | 'loading' | 'ready' | 'error';
+  label?: string;
+  snapshot?: AnalysisSnapshot;
+  notes: string[];
+  error?: string;
+}
+
+interface AnalysisComparisonProps {
+  current: AnalysisSnapshot | null; // Analysis on screen - offered as either side
+  config: AnalysisConfig; // Settings for analyzing data files
+  onClose: () => void;
+}
+
+const EMPTY_SLOT: ComparisonSlot = { status: 'empty', notes: [] };
+const SIDE_LABELS: Record<Side, string> = { before: 'Before', after: 'After' };
+
+const KIND_STYLES: Record<AnalysisChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  removed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  changed: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+};
+
+export const AnalysisComparison = ({ current, config, onClose }: AnalysisComparisonProps) => {
+  const [slots, setSlots] = useState<Record<Side, ComparisonSlot>>({ before: EMPTY_SLOT, after: EMPTY_SLOT });
+  const [category, setCategory] = useState<AnalysisChangeCategory | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const workers = { before: useAnalysisWorker(), after: useAnalysisWorker() };
+  const { toast } = useToast();
+
+  const setSlot = (side: Side, slot: ComparisonSlot) => setSlots(prev => ({ ...prev, [side]: slot }));
+
+  const handleFile = async (side: Side, file: File) => {
+    setSlot(side, { status: 'loading', label: file.name, notes: [] });
+    try {
+      const source = await readComparisonSource(file.name, await file.arrayBuffer());
+
+      if (source.kind === 'project') {
+        const { project } = source;
+        if (!project.state.analysisResult) {
+          throw new Error(`"${project.name}" was saved before the analysis ran`);
+        }
+        setSlot(side, {
+          status: 'ready',
+          label: project.name,
+          notes: [`Saved project from ${new Date(project.savedAt).toLocaleString()}`],
+          snapshot: {
+            label: project.name,
+            analysisResult: project.state.analysisResult,
+            taxonomyTree: project.state.taxonomyTree,
+            rowCount: project.state.data.length,
+          },
+        });
+        return;
+      }
+
+      // Data files are analyzed with the current settings so both sides are comparable
+      const output = await workers[side].run({
+        headers: source.headers,
+        data: source.data,
+        allHeaders: source.allHeaders,
+        config,
+      });
+      if (!output) {
+        setSlot(side, EMPTY_SLOT);
+        return;
+      }
+      setSlot(side, {
+        status: 'ready',
+        label: source.label,
+        notes: source.notes,
+        snapshot: {
+          label: source.label,
+          analysisResult: output.analysisResult,
+          taxonomyTree: output.taxonomyTree,
+          rowCount: source.data.length,
+        },
+      });
+    } catch (error) {
+      console.error('Comparison load error:', error);
+      setSlot(side, {
+        status: 'error',
+        label: file.name,
+        notes: [],
+        error: error instanceof Error ? error.message : 'The file could not be read.',
+      });
+    }
+  };
+
+  const selectCurrent = (side: Side) => {
+    if (!current) return;
+    workers[side].cancel();
+    setSlot(side, { status: 'ready', label: current.label, notes: ['Analysis on screen, including manual edits'], snapshot: current });
+  };
+
+  const swap = () => setSlots(prev => ({ before: prev.after, after: prev.before }));
+
+  const diff = useMemo(() => {
+    const { before, after } = slots;
+    if (!before.snapshot || !after.snapshot) return null;
+    return diffAnalyses(before.snapshot, after.snapshot);
+  }, [slots]);
+
+  const visibleChanges = useMemo(() => {
+    if (!diff) return [];
+    const query = search.trim().toLowerCase();
+    return diff.changes.filter(change =>
+      (category === 'all' || change.category === category) &&
+      (!query || `${change.subject} ${change.before} ${change.after} ${change.detail || ''}`.toLowerCase().includes(query))
+    );
+  }, [diff, category, search]);
+
+  const handleExport = (format: DeltaReportFormat) => {
+    if (!diff) return;
+    try {
+      downloadDeltaReport(diff, format);
+      toast({
+        title: 'Delta Report Exported',
+        description: `${diff.changes.length} changes between "${diff.before.label}" and "${diff.after.label}".`,
+      });
+    } catch (error) {
+      console.error('Delta report error:', error);
+      toast({
+        title: 'Delta Report Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the delta report.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderSlot = (side: Side) => {
+    const slot = slots[side];
+    const inputId = `comparison-file-${side}`;
+    const result = slot.snapshot?.analysisResult;
+
+    return (
+      <div className="p-4 rounded-lg border bg-muted/20 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">{SIDE_LABELS[side]}</h3>
+          {slot.status === 'ready' && <Badge variant="secondary">{slot.label}</Badge>}
+        </div>
+
+        {slot.status === 'loading' && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Analyzing "{slot.label}"…
+          </div>
+        )}
+        {slot.status === 'error' && (
+          <p className="text-sm text-destructive">{slot.error}</p>
+        )}
+        {slot.status === 'empty' && (
+          <p className="text-sm text-muted-foreground">Load a data file or a saved project ({PROJECT_FILE_EXTENSION}).</p>
+        )}
+        {slot.status === 'ready' && result && (
+          <p className="text-sm text-muted-foreground">
+            {slot.snapshot!.rowCount} rows · {result.cardinalityScores.length} columns · {result.hierarchy.length} levels
+          </p>
+        )}
+        {slot.notes.map(note => (
+          <p key={note} className="text-xs text-muted-foreground">{note}</p>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="file"
+            id={inputId}
+            className="hidden"
+            accept={[...TABLE_FILE_EXTENSIONS, PROJECT_FILE_EXTENSION].join(',')}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(side, file);
+              e.target.value = '';
+            }}
+          />
+          <label htmlFor={inputId}>
+            <Button variant="outline" size="sm" className="gap-2 cursor-pointer" asChild>
+              <span>
+                <FileUp className="w-4 h-4" />
+                Load File
+              </span>
+            </Button>
+          </label>
+          {current && (
+            <Button variant="ghost" size="sm" onClick={() => selectCurrent(side)}>
+              Use current analysis
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <GitCompare className="w-6 h-6 text-primary" />
+                Compare Analyses
+              </h2>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-lg px-4 py-1">
+                  {diff ? `${diff.changes.length} changes` : 'Select two sources'}
+                </Badge>
+                <Button variant="ghost" size="icon" onClick={onClose}>
+                  <X className="w-5 h-5" />
+                </Button>
+              </div>
+            </div>
+            <p className="text-muted-foreground mt-2">
+              Load two datasets or saved analyses to review what changed in columns, level assignment,
+              data types, picklist values, cardinality and the taxonomy tree
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-center">
+            {renderSlot('before')}
+            <Button variant="ghost" size="icon" onClick={swap} title="Swap sides">
+              <ArrowLeftRight className="w-5 h-5" />
+            </Button>
+            {renderSlot('after')}
+          </div>
+
+          {diff && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant={category === 'all' ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategory('all')}
+                >
+                  All ({diff.changes.length})
+                </Button>
+                {(Object.keys(CHANGE_CATEGORY_LABELS) as AnalysisChangeCategory[]).map(key => (
+                  <Button
+                    key={key}
+                    variant={category === key ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setCategory(key)}
+                    disabled={diff.summary[key] === 0}
+                  >
+                    {CHANGE_CATEGORY_LABELS[key]} ({diff.summary[key]})
+                  </Button>
+                ))}
+              </div>
+
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Filter changes by column, path or value"
+                  className="pl-9"
+                />
+              </div>
+
+              {visibleChanges.length === 0 ? (
+                <div className="p-6 text-center bg-muted/30 rounded-lg border border-dashed text-sm text-muted-foreground">
+                  {diff.changes.length === 0 ? 'Both analyses are identical.' : 'No changes match the filter.'}
+                </div>
+              ) : (
+                <ScrollArea className="h-[420px] rounded-lg border p-3 bg-muted/20">
+                  <div className="space-y-3">
+                    {visibleChanges.map((change, index) => (
+                      <div key={`${change.category}-${change.subject}-${index}`} className="text-sm space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Badge className={`text-xs ${KIND_STYLES[change.kind]}`} variant="outline">
+                            {change.kind}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs">
+                            {CHANGE_CATEGORY_LABELS[change.category]}
+                          </Badge>
+                          <span className="font-medium truncate" title={change.subject}>{change.subject}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-muted-foreground pl-1">
+                          <span>{change.before || '—'}</span>
+                          <ArrowRight className="w-3 h-3 shrink-0" />
+                          <span>{change.after || '—'}</span>
+                        </div>
+                        {change.detail && (
+                          <p className="text-xs text-muted-foreground pl-1">{change.detail}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" className="gap-2" onClick={() => handleExport('json')}>
+                  <Download className="w-4 h-4" />
+                  Delta Report (.json)
+                </Button>
+                <Button className="gap-2 bg-gradient-primary" onClick={() => handleExport('xlsx')}>
+                  <Download className="w-4 h-4" />
+                  Delta Report (.xlsx)
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,71 @@
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SlidersHorizontal } from 'lucide-react';
+import {
+  ANALYSIS_PROFILES,
+  AnalysisConfig,
+  AnalysisProfileName,
+  createAnalysisConfig,
+} from '@/utils/analysisConfig';
+
+interface AnalysisProfileSelectorProps {
+  config: AnalysisConfig;
+  onChange: (config: AnalysisConfig) => void;
+  disabled?: boolean;
+}
+
+const CUSTOM_PROFILE = 'custom';
+
+export const AnalysisProfileSelector = ({ config, onChange, disabled }: AnalysisProfileSelectorProps) => {
+  const activeProfile = ANALYSIS_PROFILES.find(p => p.name === config.profile);
+
+  const handleProfileChange = (name: string) => {
+    if (name === CUSTOM_PROFILE) return;
+    // Keep the detection mode - profiles only change thresholds
+    onChange(createAnalysisConfig(name as AnalysisProfileName, { hierarchyMode: config.hierarchyMode }));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="p-4 shadow-elevated">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-center gap-2 shrink-0">
+            <SlidersHorizontal className="w-5 h-5 text-primary" />
+            <Label className="text-sm font-semibold">Analysis profile</Label>
+          </div>
+          <Select value={config.profile} onValueChange={handleProfileChange} disabled={disabled}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYSIS_PROFILES.map(profile => (
+                <SelectItem key={profile.name} value={profile.name}>{profile.label}</SelectItem>
+              ))}
+              {config.profile === CUSTOM_PROFILE && (
+                <SelectItem value={CUSTOM_PROFILE} disabled>Custom</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground flex-1">
+            {activeProfile ? activeProfile.description : 'Custom thresholds - select a profile to reset.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline" className="text-xs">
+              Parent ≥ {Math.round(config.levels.level1MinCompleteness * 100)}% filled
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              Min {config.levels.minPropertiesPerLevel} properties/level
+            </Badge>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
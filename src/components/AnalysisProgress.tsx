@@ -0,0 +1,90 @@
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, CheckCircle2, Circle, X } from 'lucide-react';
+import { ANALYSIS_STAGES, AnalysisStage } from '@/utils/analysisEngine';
+import { AnalysisProgressMessage } from '@/workers/analysisProtocol';
+
+interface AnalysisProgressProps {
+  progress: AnalysisProgressMessage | null;
+  rowCount: number;
+  columnCount: number;
+  onCancel: () => void;
+}
+
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  cardinality: 'Cardinality scores',
+  hierarchy: 'Hierarchy detection',
+  presets: 'Presets & recommendations',
+  validation: 'Data validation',
+  tree: 'Taxonomy tree',
+};
+
+export const AnalysisProgress = ({ progress, rowCount, columnCount, onCancel }: AnalysisProgressProps) => {
+  const currentIndex = progress ? progress.stageIndex : -1;
+  // A stage counts as half done while it runs
+  const percent = progress ? Math.round(((progress.stageIndex + 0.5) / progress.stageCount) * 100) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <Loader2 className="w-6 h-6 text-primary animate-spin" />
+                Analyzing Data
+              </h2>
+              <Badge variant="secondary" className="text-sm px-3 py-1 font-semibold">
+                {rowCount.toLocaleString()} rows × {columnCount} columns
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              The analysis runs in the background - the page stays responsive and you can cancel at any time.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Progress value={percent} className="h-3" />
+            <div className="text-sm text-muted-foreground text-right">{percent}%</div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            {ANALYSIS_STAGES.map((stage, index) => {
+              const isDone = index < currentIndex;
+              const isActive = index === currentIndex;
+              return (
+                <div
+                  key={stage}
+                  className={`flex items-center gap-2 p-3 rounded-lg text-sm ${isActive ? 'bg-primary/10 text-primary font-medium' : 'bg-muted/50'} ${!isDone && !isActive ? 'text-muted-foreground' : ''}`}
+                >
+                  {isDone ? (
+                    <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />
+                  ) : isActive ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Circle className="w-4 h-4" />
+                  )}
+                  {STAGE_LABELS[stage]}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end pt-4 border-t">
+            <Button variant="ghost" onClick={onCancel} className="gap-2">
+              <X className="w-4 h-4" />
+              Cancel Analysis
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -182,9 +182,9 @@ export const BestPracticesRecommendations = ({
     });
   }
 
-  // 7. Mixed Model Suggestion
-  if ((analysisResult as any).mixedModelSuggestion?.shouldUseMixed) {
-    const mixed = (analysisResult as any).mixedModelSuggestion;
+  // 7. Mixed Model Suggestion (projects saved before it existed have none)
+  if (analysisResult.mixedModelSuggestion?.shouldUseMixed) {
+    const mixed = analysisResult.mixedModelSuggestion;
     recommendations.push({
       type: 'important',
       category: 'structure',
@@ -193,7 +193,8 @@ export const BestPracticesRecommendations = ({
       impact: 'Some products fit parent-child, others work better standalone.',
       examples: [
         `${mixed.hierarchicalPercentage.toFixed(1)}% → Use Parent-Variant structure`,
-        `${mixed.standalonePercentage.toFixed(1)}% → Keep as Standalone (Flat Model)`
+        `${mixed.standalonePercentage.toFixed(1)}% → Keep as Standalone (Flat Model)`,
+        `Review and export the ${mixed.standaloneProducts.length} standalone products under Product Models`
       ]
     });
   }
@@ -4,16 +4,7 @@ import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { ChevronDown, ChevronRight } from 'lucide-react';
-
-export interface CardinalityScore {
-  header: string;
-  uniqueCount: number;
-  totalCount: number;
-  cardinality: number;
-  completeness: number; // NEW: % of non-empty values (data density)
-  hierarchyScore: number; // NEW: Combined score for hierarchy placement
-  classification: 'level1' | 'level2' | 'level3';
-}
+import { CardinalityScore } from '@/types';
 
 interface CardinalityAnalysisProps {
   scores: CardinalityScore[];
@@ -22,6 +22,8 @@ interface DataValidationWarningsProps {
   validation: ValidationResult;
 }
 
+const MAX_PARENT_CONFLICTS = 10;
+
 export const DataValidationWarnings = ({ validation }: DataValidationWarningsProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [expandedWarnings, setExpandedWarnings] = useState<Set<number>>(new Set([0]));
@@ -199,7 +201,7 @@ export const DataValidationWarnings = ({ validation }: DataValidationWarningsPro
                         </div>
 
                         {/* Examples */}
-                        {warning.examples && warning.examples.length > 0 && (
+                        {warning.examples && warning.examples.length > 0 && !warning.parentConflicts && (
                           <div>
                             <div className="font-medium text-sm mb-2">Examples:</div>
                             <div className="space-y-1">
@@ -215,6 +217,32 @@ export const DataValidationWarnings = ({ validation }: DataValidationWarningsPro
                           </div>
                         )}
 
+                        {/* Parent Conflicts - values per conflicting parent record */}
+                        {warning.parentConflicts && warning.parentConflicts.length > 0 && (
+                          <div>
+                            <div className="font-medium text-sm mb-2">Conflicting parents:</div>
+                            <div className="rounded border bg-background/50 divide-y">
+                              {warning.parentConflicts.slice(0, MAX_PARENT_CONFLICTS).map((conflict, idx) => (
+                                <div key={idx} className="p-2 text-sm grid grid-cols-3 gap-2">
+                                  <span className="font-mono font-medium truncate">{conflict.parentValue}</span>
+                                  <div className="col-span-2 space-y-1">
+                                    {conflict.values.map(entry => (
+                                      <div key={entry.value} className="font-mono text-xs">
+                                        "{entry.value}" <span className="text-muted-foreground">rows {entry.rows.slice(0, 5).join(', ')}{entry.rows.length > 5 && ` +${entry.rows.length - 5}`}</span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                            {warning.parentConflicts.length > MAX_PARENT_CONFLICTS && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                ... and {warning.parentConflicts.length - MAX_PARENT_CONFLICTS} more parents
+                              </div>
+                            )}
+                          </div>
+                        )}
+
                         {/* Affected Rows Info */}
                         <div className="text-xs text-muted-foreground font-mono">
                           Excel rows: {warning.affectedRows.slice(0, 10).join(', ')}
@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, Play, X, Info } from 'lucide-react';
+import {
+  DelimitedTextDetection,
+  DelimitedTextOptions,
+  TextEncoding,
+  DELIMITER_OPTIONS,
+  QUOTE_OPTIONS,
+  ENCODING_OPTIONS,
+  readDelimitedText,
+} from '@/utils/delimitedTextParser';
+
+interface DelimitedTextImportProps {
+  fileName: string;
+  buffer: ArrayBuffer;
+  detected: DelimitedTextDetection;
+  onConfirm: (rows: string[][], options: DelimitedTextOptions) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 15;
+
+export const DelimitedTextImport = ({ fileName, buffer, detected, onConfirm, onCancel }: DelimitedTextImportProps) => {
+  const [options, setOptions] = useState<DelimitedTextOptions>({
+    encoding: detected.encoding,
+    delimiter: detected.delimiter,
+    quoteChar: detected.quoteChar,
+    hasHeader: detected.hasHeader,
+  });
+
+  // Re-parse only the preview rows whenever an option is overridden
+  const preview = useMemo(() => {
+    try {
+      return readDelimitedText(buffer, options, PREVIEW_ROWS);
+    } catch (error) {
+      console.error('Error parsing delimited text preview:', error);
+      return null;
+    }
+  }, [buffer, options]);
+
+  const updateOption = <K extends keyof DelimitedTextOptions>(key: K, value: DelimitedTextOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleConfirm = () => {
+    const result = readDelimitedText(buffer, options);
+    onConfirm(result.rows, options);
+  };
+
+  const isOverridden = (key: keyof DelimitedTextOptions) => options[key] !== detected[key];
+
+  const previewHeader = preview?.rows[0] || [];
+  const previewBody = preview?.rows.slice(1) || [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <FileText className="w-6 h-6 text-primary" />
+                Text File Import Settings
+              </h2>
+              <Badge variant="secondary" className="text-sm px-3 py-1 font-semibold">
+                {fileName}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              Settings were detected automatically. Check the preview and override anything that looks wrong.
+            </p>
+          </div>
+
+          {/* Dialect Options */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                Encoding
+                {isOverridden('encoding') && <Badge variant="outline" className="text-xs">overridden</Badge>}
+              </Label>
+              <Select value={options.encoding} onValueChange={(value) => updateOption('encoding', value as TextEncoding)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENCODING_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                Delimiter
+                {isOverridden('delimiter') && <Badge variant="outline" className="text-xs">overridden</Badge>}
+              </Label>
+              <Select value={options.delimiter} onValueChange={(value) => updateOption('delimiter', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DELIMITER_OPTIONS.map(option => (
+                    <SelectItem key={option.label} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                Quote Character
+                {isOverridden('quoteChar') && <Badge variant="outline" className="text-xs">overridden</Badge>}
+              </Label>
+              <Select value={options.quoteChar} onValueChange={(value) => updateOption('quoteChar', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUOTE_OPTIONS.map(option => (
+                    <SelectItem key={option.label} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Header Row</Label>
+              <div className="flex items-center space-x-2 h-10 px-3 rounded-md border bg-background">
+                <Checkbox
+                  id="has-header"
+                  checked={options.hasHeader}
+                  onCheckedChange={(checked) => updateOption('hasHeader', checked === true)}
+                />
+                <Label htmlFor="has-header" className="text-sm cursor-pointer">
+                  First row contains column names
+                </Label>
+              </div>
+            </div>
+          </div>
+
+          {detected.confidence < 0.8 && (
+            <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 flex items-start gap-2">
+              <Info className="w-4 h-4 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+              <p className="text-sm text-yellow-800 dark:text-yellow-300">
+                Rows have an inconsistent number of columns with the detected settings ({Math.round(detected.confidence * 100)}% consistent). Please verify the delimiter and quote character.
+              </p>
+            </div>
+          )}
+
+          {/* Preview */}
+          <div className="relative border rounded-lg">
+            <div className="overflow-auto max-h-[400px] w-full">
+              {preview ? (
+                <Table>
+                  <TableHeader className="sticky top-0 bg-muted/90 backdrop-blur-sm z-10 shadow-sm">
+                    <TableRow>
+                      {previewHeader.map((header, index) => (
+                        <TableHead key={index} className="font-semibold whitespace-nowrap px-4 min-w-[120px] border-b-2">
+                          {header || <span className="italic text-muted-foreground">(empty)</span>}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewBody.map((row, rowIndex) => (
+                      <TableRow key={rowIndex} className="hover:bg-muted/30">
+                        {previewHeader.map((_, cellIndex) => (
+                          <TableCell key={cellIndex} className="whitespace-pre-line px-4 min-w-[120px] align-top">
+                            {row[cellIndex] || '-'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="p-8 text-center text-muted-foreground">
+                  Unable to read the file with these settings.
+                </div>
+              )}
+            </div>
+            <div className="bg-muted/30 px-4 py-2 text-xs text-muted-foreground border-t flex items-center justify-between">
+              <span>
+                Showing first {previewBody.length} rows
+                {preview?.headerSynthesized && ' - column names were generated because the file has no header row'}
+              </span>
+              <span className="font-mono">{preview?.maxColumns || 0} columns</span>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="ghost" onClick={onCancel} className="gap-2">
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={!preview} className="gap-2 bg-gradient-primary" size="lg">
+              <Play className="w-5 h-5" />
+              Continue to Column Selection
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { Upload, FileSpreadsheet, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { isDelimitedTextFile } from '@/utils/delimitedTextParser';
+import { PROJECT_FILE_EXTENSION, isProjectFile } from '@/utils/projectFile';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
@@ -30,7 +32,9 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
     if (file && (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
                  file.type === 'application/vnd.ms-excel' ||
                  file.name.endsWith('.xlsx') ||
-                 file.name.endsWith('.xls'))) {
+                 file.name.endsWith('.xls') ||
+                 isDelimitedTextFile(file.name) ||
+                 isProjectFile(file.name))) {
       setSelectedFile(file);
     }
   }, []);
@@ -79,7 +83,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
               <div>
                 <h3 className="text-xl font-semibold mb-2">Upload Product Data</h3>
                 <p className="text-muted-foreground mb-4">
-                  Drag and drop your Excel file here, or click to browse
+                  Drag and drop your Excel, CSV or TSV file or a saved project here, or click to browse
                 </p>
               </div>
               <div>
@@ -87,7 +91,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                   type="file"
                   id="file-upload"
                   className="hidden"
-                  accept=".xlsx,.xls"
+                  accept={`.xlsx,.xls,.csv,.tsv,.tab,.txt,${PROJECT_FILE_EXTENSION}`}
                   onChange={handleFileInput}
                 />
                 <label htmlFor="file-upload">
@@ -97,7 +101,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                 </label>
               </div>
               <p className="text-sm text-muted-foreground">
-                Supported formats: Excel (.xlsx, .xls)
+                Supported formats: Excel (.xlsx, .xls), delimited text (.csv, .tsv, .txt), saved project ({PROJECT_FILE_EXTENSION})
               </p>
             </div>
           ) : (
@@ -124,7 +128,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
                   onClick={handleAnalyze}
                   className="bg-gradient-primary"
                 >
-                  Analyze File
+                  {isProjectFile(selectedFile.name) ? 'Open Project' : 'Analyze File'}
                 </Button>
                 <Button
                   variant="ghost"
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, ChevronRight, GitBranch, AlertTriangle } from 'lucide-react';
+import { DependencyAnalysis, FunctionalDependency, HierarchyDetectionMode } from '@/utils/functionalDependencies';
+
+interface FunctionalDependencyReportProps {
+  mode: HierarchyDetectionMode;
+  analysis?: DependencyAnalysis;
+  onModeChange: (mode: HierarchyDetectionMode) => void;
+}
+
+const formatStrength = (strength: number) => `${(strength * 100).toFixed(1)}%`;
+
+export const FunctionalDependencyReport = ({ mode, analysis, onModeChange }: FunctionalDependencyReportProps) => {
+  const [isExpanded, setIsExpanded] = useState(mode === 'dependency');
+  const [openDependency, setOpenDependency] = useState<string | null>(null);
+
+  const renderDependency = (fd: FunctionalDependency, isNearMiss = false) => {
+    const id = `${fd.determinant.join('|')}→${fd.dependent}`;
+    const isOpen = openDependency === id;
+    const hasViolations = fd.violations.length > 0;
+
+    return (
+      <div key={id} className="border rounded-lg">
+        <div
+          className={`flex items-center justify-between gap-3 px-3 py-2 ${hasViolations ? 'cursor-pointer hover:bg-muted/30' : ''}`}
+          onClick={() => hasViolations && setOpenDependency(isOpen ? null : id)}
+        >
+          <div className="flex items-center gap-2 text-sm min-w-0">
+            {hasViolations
+              ? (isOpen ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />)
+              : <span className="w-4 shrink-0" />}
+            <span className="text-muted-foreground truncate">{fd.determinant.join(', ')}</span>
+            <span className="text-muted-foreground">→</span>
+            <span className="font-medium truncate">{fd.dependent}</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {fd.violatingRows > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {fd.violatingRows} row{fd.violatingRows > 1 ? 's' : ''} in {fd.violatingGroups} group{fd.violatingGroups > 1 ? 's' : ''} differ
+              </span>
+            )}
+            <Badge
+              variant="secondary"
+              className={`text-xs ${isNearMiss ? 'bg-orange-100 text-orange-800 dark:bg-orange-950 dark:text-orange-200' : ''}`}
+            >
+              holds for {formatStrength(fd.strength)}
+            </Badge>
+          </div>
+        </div>
+
+        {isOpen && (
+          <div className="border-t bg-muted/20 px-4 py-3 space-y-2 text-xs">
+            {fd.violations.map((violation, index) => (
+              <div key={index}>
+                <div>
+                  <span className="font-medium">{violation.determinantValues.join(' / ')}</span>
+                  <span className="text-muted-foreground"> usually has </span>
+                  <span className="font-mono">{violation.expectedValue}</span>
+                </div>
+                {violation.conflictingValues.map(conflict => (
+                  <div key={conflict.value} className="pl-4 text-orange-700 dark:text-orange-300">
+                    <span className="font-mono">{conflict.value}</span> in row{conflict.rows.length > 1 ? 's' : ''} {conflict.rows.join(', ')}
+                  </div>
+                ))}
+              </div>
+            ))}
+            {fd.violatingGroups > fd.violations.length && (
+              <div className="text-muted-foreground">
+                …and {fd.violatingGroups - fd.violations.length} more groups
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2 gap-4">
+              <h2
+                className="text-2xl font-semibold flex items-center gap-2 cursor-pointer"
+                onClick={() => setIsExpanded(!isExpanded)}
+              >
+                {isExpanded ? <ChevronDown className="w-6 h-6" /> : <ChevronRight className="w-6 h-6" />}
+                <GitBranch className="w-6 h-6 text-primary" />
+                Column Dependencies
+              </h2>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="dependency-mode"
+                  checked={mode === 'dependency'}
+                  onCheckedChange={(checked) => {
+                    onModeChange(checked ? 'dependency' : 'cardinality');
+                    if (checked) setIsExpanded(true);
+                  }}
+                />
+                <Label htmlFor="dependency-mode" className="text-sm cursor-pointer">
+                  Build levels from dependencies
+                </Label>
+              </div>
+            </div>
+            <p className="text-muted-foreground">
+              A column belongs to a parent level only if its value stays the same for every row of that parent (e.g. Style Code → Fabric).
+              Low-cardinality columns that vary inside a parent are kept at SKU-level.
+            </p>
+          </div>
+
+          {isExpanded && mode === 'cardinality' && (
+            <div className="p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+              Levels are currently based on cardinality. Turn on dependency mode to rebuild them from functional dependencies and see the rows that break them.
+            </div>
+          )}
+
+          {isExpanded && mode === 'dependency' && analysis && (
+            <div className="space-y-6">
+              {analysis.levels.length === 0 && (
+                <div className="p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+                  No column determines other columns at {formatStrength(analysis.threshold)} or more, so every property stays at SKU-level.
+                </div>
+              )}
+
+              {analysis.levels.map((level, index) => (
+                <div key={level.key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">
+                      Level {index + 1}: {level.determinant.join(' → ')}
+                    </h3>
+                    <Badge variant="outline">{level.recordCount} records</Badge>
+                  </div>
+                  <div className="space-y-2">
+                    {level.attributes.map(fd => renderDependency(fd))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">SKU-Level{analysis.skuKey ? `: ${analysis.skuKey}` : ''}</h3>
+                  <Badge variant="outline">{analysis.analyzedRows} rows</Badge>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {analysis.skuAttributes.map(header => (
+                    <Badge key={header} variant="secondary" className="text-xs">{header}</Badge>
+                  ))}
+                </div>
+              </div>
+
+              {analysis.nearMisses.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold flex items-center gap-2 text-orange-700 dark:text-orange-300">
+                    <AlertTriangle className="w-4 h-4" />
+                    Almost parent-level (below {formatStrength(analysis.threshold)})
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    These columns mostly repeat within a parent but vary in some rows. Fix the listed rows if they should be parent-level.
+                  </p>
+                  <div className="space-y-2">
+                    {analysis.nearMisses.map(fd => renderDependency(fd, true))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
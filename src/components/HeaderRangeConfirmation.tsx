@@ -0,0 +1,262 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Rows3, Play, X, Info } from 'lucide-react';
+import {
+  HeaderRange,
+  HeaderRangeDetection,
+  MAX_HEADER_ROWS,
+  flattenHeaders,
+  applyHeaderRange,
+} from '@/utils/headerDetection';
+
+interface HeaderRangeConfirmationProps {
+  sourceLabel: string;
+  rows: unknown[][];
+  detected: HeaderRangeDetection;
+  onConfirm: (rows: unknown[][], range: HeaderRange) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_DATA_ROWS = 10;
+const PREVIEW_TAIL_ROWS = 3;
+
+export const HeaderRangeConfirmation = ({ sourceLabel, rows, detected, onConfirm, onCancel }: HeaderRangeConfirmationProps) => {
+  const lastIndex = rows.length - 1;
+  const [range, setRange] = useState<HeaderRange>({
+    headerRowIndex: detected.headerRowIndex,
+    headerRowCount: detected.headerRowCount,
+    dataStartIndex: detected.dataStartIndex,
+    dataEndIndex: detected.dataEndIndex,
+    fillGroupLabels: detected.fillGroupLabels,
+  });
+
+  // Keep header, data start and data end in order after every edit
+  const updateRange = (changes: Partial<HeaderRange>) => {
+    setRange(prev => {
+      const next = { ...prev, ...changes };
+      next.headerRowIndex = clamp(next.headerRowIndex, 0, Math.max(0, lastIndex - 1));
+      next.headerRowCount = clamp(next.headerRowCount, 1, MAX_HEADER_ROWS);
+      const headerEnd = next.headerRowIndex + next.headerRowCount - 1;
+      if ('headerRowIndex' in changes || 'headerRowCount' in changes) {
+        next.dataStartIndex = headerEnd + 1;
+      }
+      next.dataStartIndex = clamp(next.dataStartIndex, headerEnd + 1, lastIndex);
+      next.dataEndIndex = clamp(next.dataEndIndex, next.dataStartIndex, lastIndex);
+      return next;
+    });
+  };
+
+  const flattenedHeaders = useMemo(() => flattenHeaders(rows, range), [rows, range]);
+  const columnCount = Math.max(flattenedHeaders.length, ...rows.slice(0, 50).map(row => row.length));
+
+  // Show the top of the sheet through the first data rows, plus the last rows of the file
+  const visibleIndexes = useMemo(() => {
+    const headEnd = Math.min(lastIndex, Math.max(range.dataStartIndex + PREVIEW_DATA_ROWS - 1, 15));
+    const indexes = Array.from({ length: headEnd + 1 }, (_, i) => i);
+    for (let i = Math.max(headEnd + 1, lastIndex - PREVIEW_TAIL_ROWS + 1); i <= lastIndex; i++) {
+      indexes.push(i);
+    }
+    return indexes;
+  }, [lastIndex, range.dataStartIndex]);
+
+  const getRowRole = (index: number): 'header' | 'data' | 'ignored' => {
+    if (index >= range.headerRowIndex && index < range.headerRowIndex + range.headerRowCount) return 'header';
+    if (index >= range.dataStartIndex && index <= range.dataEndIndex) return 'data';
+    return 'ignored';
+  };
+
+  const dataRowCount = range.dataEndIndex - range.dataStartIndex + 1;
+  const emptyHeaderCount = flattenedHeaders.filter(h => !h).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <Rows3 className="w-6 h-6 text-primary" />
+                Confirm Header & Data Range
+              </h2>
+              <Badge variant="secondary" className="text-sm px-3 py-1 font-semibold">
+                {sourceLabel}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              The header is not a single row at the top of this file. Check the detected header rows and data range before continuing.
+            </p>
+          </div>
+
+          {/* Range Options */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Header starts at row</Label>
+              <Input
+                type="number"
+                min={1}
+                max={lastIndex}
+                value={range.headerRowIndex + 1}
+                onChange={(e) => updateRange({ headerRowIndex: (parseInt(e.target.value) || 1) - 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Header rows</Label>
+              <Select
+                value={String(range.headerRowCount)}
+                onValueChange={(value) => updateRange({ headerRowCount: parseInt(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_HEADER_ROWS }, (_, i) => i + 1).map(count => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1 ? '1 row' : `${count} rows (grouped)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">First data row</Label>
+              <Input
+                type="number"
+                min={range.headerRowIndex + range.headerRowCount + 1}
+                max={lastIndex + 1}
+                value={range.dataStartIndex + 1}
+                onChange={(e) => updateRange({ dataStartIndex: (parseInt(e.target.value) || 1) - 1 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Last data row</Label>
+              <Input
+                type="number"
+                min={range.dataStartIndex + 1}
+                max={lastIndex + 1}
+                value={range.dataEndIndex + 1}
+                onChange={(e) => updateRange({ dataEndIndex: (parseInt(e.target.value) || 1) - 1 })}
+              />
+            </div>
+          </div>
+
+          {range.headerRowCount > 1 && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="fill-group-labels"
+                checked={range.fillGroupLabels}
+                onCheckedChange={(checked) => updateRange({ fillGroupLabels: checked === true })}
+              />
+              <Label htmlFor="fill-group-labels" className="text-sm cursor-pointer">
+                Carry group labels across empty cells to the right (for unmerged grouped headers)
+              </Label>
+            </div>
+          )}
+
+          {/* Flattened Headers */}
+          <div className="p-4 rounded-lg bg-primary/10 border border-primary/20">
+            <div className="text-sm font-semibold text-primary mb-3">
+              Resulting columns ({flattenedHeaders.length}) · {dataRowCount} data rows
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {flattenedHeaders.map((header, index) => (
+                <Badge key={index} variant="outline" className="text-xs bg-background">
+                  {header || <span className="italic text-muted-foreground">(empty)</span>}
+                </Badge>
+              ))}
+            </div>
+            {emptyHeaderCount > 0 && (
+              <p className="text-xs text-muted-foreground mt-3 flex items-center gap-1">
+                <Info className="w-3 h-3" />
+                {emptyHeaderCount} column{emptyHeaderCount > 1 ? 's have' : ' has'} no name in the selected header rows.
+              </p>
+            )}
+          </div>
+
+          {/* Raw Rows */}
+          <div className="relative border rounded-lg">
+            <div className="overflow-auto max-h-[400px] w-full">
+              <Table>
+                <TableHeader className="sticky top-0 bg-muted/90 backdrop-blur-sm z-10 shadow-sm">
+                  <TableRow>
+                    <TableHead className="font-semibold whitespace-nowrap px-4 w-20 border-b-2">Row</TableHead>
+                    <TableHead className="font-semibold whitespace-nowrap px-4 w-24 border-b-2">Role</TableHead>
+                    {Array.from({ length: columnCount }, (_, c) => (
+                      <TableHead key={c} className="font-semibold whitespace-nowrap px-4 min-w-[120px] border-b-2">
+                        {flattenedHeaders[c] || `#${c + 1}`}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleIndexes.map((rowIndex, position) => {
+                    const role = getRowRole(rowIndex);
+                    const isGap = position > 0 && rowIndex !== visibleIndexes[position - 1] + 1;
+                    return (
+                      <TableRow
+                        key={rowIndex}
+                        className={`${role === 'header' ? 'bg-primary/10 font-medium' : ''} ${role === 'ignored' ? 'opacity-50' : ''} ${isGap ? 'border-t-4 border-dashed' : ''}`}
+                      >
+                        <TableCell className="px-4 font-mono text-xs text-muted-foreground">{rowIndex + 1}</TableCell>
+                        <TableCell className="px-4">
+                          <Badge
+                            variant={role === 'data' ? 'secondary' : 'outline'}
+                            className={`text-xs ${role === 'header' ? 'bg-primary text-primary-foreground' : ''}`}
+                          >
+                            {role === 'header' ? 'Header' : role === 'data' ? 'Data' : 'Ignored'}
+                          </Badge>
+                        </TableCell>
+                        {Array.from({ length: columnCount }, (_, c) => {
+                          const value = (rows[rowIndex] || [])[c];
+                          return (
+                            <TableCell key={c} className="whitespace-nowrap px-4 min-w-[120px]">
+                              {value !== null && value !== undefined && value !== '' ? String(value) : '-'}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="bg-muted/30 px-4 py-2 text-xs text-muted-foreground border-t">
+              Showing {visibleIndexes.length} of {rows.length} rows
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="ghost" onClick={onCancel} className="gap-2">
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onConfirm(applyHeaderRange(rows, range), range)}
+              disabled={dataRowCount < 1}
+              className="gap-2 bg-gradient-primary"
+              size="lg"
+            >
+              <Play className="w-5 h-5" />
+              Continue to Column Selection
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(Math.max(value, min), Math.max(min, max));
+};
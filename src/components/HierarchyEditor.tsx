@@ -0,0 +1,255 @@
+import { useState, useEffect, useRef, DragEvent } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, GripVertical, Pencil, Plus, Trash2, Undo2, AlertTriangle } from 'lucide-react';
+import { HierarchyLevel } from '@/types';
+import {
+  RecordField,
+  addLevel,
+  moveProperty,
+  removeLevel,
+  renameLevel,
+  setRecordField,
+} from '@/utils/hierarchyEditing';
+
+interface HierarchyEditorProps {
+  hierarchy: HierarchyLevel[];
+  onChange: (hierarchy: HierarchyLevel[]) => void;
+}
+
+const NONE_VALUE = '__none__'; // Select items cannot use an empty string
+const MAX_UNDO_STEPS = 20;
+
+// Helper: what an edit can change - the parent may hand back a copy with recomputed fields (variant axes)
+const getStructureKey = (hierarchy: HierarchyLevel[] | null): string =>
+  JSON.stringify(hierarchy?.map(level => [level.name, level.recordId, level.recordName, level.headers]) ?? null);
+
+export const HierarchyEditor = ({ hierarchy, onChange }: HierarchyEditorProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [history, setHistory] = useState<HierarchyLevel[][]>([]);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({}); // Level names being typed
+  const lastEmittedRef = useRef<HierarchyLevel[] | null>(null);
+
+  // A new analysis, preset or SKU forcing replaces the hierarchy - older edits cannot be undone
+  useEffect(() => {
+    if (getStructureKey(hierarchy) !== getStructureKey(lastEmittedRef.current)) {
+      setHistory([]);
+      setNameDrafts({});
+    }
+  }, [hierarchy]);
+
+  const emit = (updated: HierarchyLevel[]) => {
+    lastEmittedRef.current = updated;
+    onChange(updated);
+  };
+
+  // Every edit is applied immediately - the parent revalidates and rebuilds the tree
+  const applyEdit = (updated: HierarchyLevel[]) => {
+    if (updated === hierarchy) return;
+    setHistory(prev => [...prev.slice(-(MAX_UNDO_STEPS - 1)), hierarchy]);
+    emit(updated);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(prev => prev.slice(0, -1));
+    emit(previous);
+  };
+
+  const handleDragStart = (event: DragEvent, property: string) => {
+    event.dataTransfer.setData('text/plain', property);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (event: DragEvent, levelIndex: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+    const property = event.dataTransfer.getData('text/plain');
+    if (!property || hierarchy[levelIndex].headers.includes(property)) return;
+    applyEdit(moveProperty(hierarchy, property, levelIndex));
+  };
+
+  const handleRecordFieldChange = (levelIndex: number, field: RecordField, value: string) => {
+    applyEdit(setRecordField(hierarchy, levelIndex, field, value === NONE_VALUE ? undefined : value));
+  };
+
+  // Level names are committed on blur or Enter, so typing doesn't revalidate per keystroke
+  const commitLevelName = (levelIndex: number) => {
+    const draft = nameDrafts[levelIndex];
+    if (draft === undefined) return;
+    setNameDrafts(prev => {
+      const next = { ...prev };
+      delete next[levelIndex];
+      return next;
+    });
+    const name = draft.trim();
+    if (!name || name === hierarchy[levelIndex].name) return;
+    applyEdit(renameLevel(hierarchy, levelIndex, name));
+  };
+
+  const handleAddLevel = () => {
+    applyEdit(addLevel(hierarchy, `Level ${hierarchy.length}`));
+  };
+
+  const getRecordOptions = (level: HierarchyLevel, field: RecordField) =>
+    [level[field], ...level.headers].filter(Boolean) as string[];
+
+  const totalProperties = hierarchy.reduce(
+    (sum, level) => sum + level.headers.length + (level.recordId ? 1 : 0) + (level.recordName ? 1 : 0),
+    0
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.3 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div
+            className="cursor-pointer"
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                {isExpanded ? <ChevronDown className="w-6 h-6" /> : <ChevronRight className="w-6 h-6" />}
+                <Pencil className="w-6 h-6 text-primary" />
+                Edit Hierarchy
+              </h2>
+              <Badge variant="secondary" className="text-lg px-4 py-1">
+                {hierarchy.length} {hierarchy.length === 1 ? 'level' : 'levels'} · {totalProperties} properties
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-2">
+              Drag properties between levels, add, remove or rename levels and choose each level's Record ID and Record Name.
+              Validation, the taxonomy tree and all exports update as you edit.
+            </p>
+          </div>
+
+          {isExpanded && (
+            <>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleUndo} disabled={history.length === 0}>
+                  <Undo2 className="w-4 h-4" />
+                  Undo
+                </Button>
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleAddLevel}>
+                  <Plus className="w-4 h-4" />
+                  Add Level
+                </Button>
+              </div>
+
+              <div className="space-y-4">
+                {hierarchy.map((level, index) => {
+                  const isSkuLevel = index === hierarchy.length - 1;
+                  return (
+                    <div
+                      key={index}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(index);
+                      }}
+                      onDragLeave={() => setDropTarget(current => (current === index ? null : current))}
+                      onDrop={(e) => handleDrop(e, index)}
+                      className={`p-4 rounded-lg border-2 transition-colors ${
+                        dropTarget === index ? 'border-primary bg-primary/5' : 'border-dashed border-muted-foreground/30'
+                      }`}
+                    >
+                      <div className="flex flex-col md:flex-row md:items-center gap-3 mb-3">
+                        <Badge variant="outline" className="shrink-0">
+                          Level {level.level}{isSkuLevel && hierarchy.length > 1 ? ' · SKU' : ''}
+                        </Badge>
+                        <Input
+                          value={nameDrafts[index] ?? level.name}
+                          onChange={(e) => setNameDrafts(prev => ({ ...prev, [index]: e.target.value }))}
+                          onBlur={() => commitLevelName(index)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                          }}
+                          className="md:max-w-xs font-semibold"
+                          aria-label={`Name of level ${level.level}`}
+                        />
+                        <div className="flex-1" />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-2 text-muted-foreground hover:text-destructive"
+                          onClick={() => applyEdit(removeLevel(hierarchy, index))}
+                          disabled={hierarchy.length <= 1}
+                          title={isSkuLevel ? 'Properties move to the level above' : 'Properties move to the level below'}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Remove
+                        </Button>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                        {(['recordId', 'recordName'] as RecordField[]).map(field => (
+                          <div key={field} className="space-y-1">
+                            <Label className="text-xs text-muted-foreground">
+                              {field === 'recordId' ? 'Record ID' : 'Record Name'}
+                            </Label>
+                            <Select
+                              value={level[field] || NONE_VALUE}
+                              onValueChange={(value) => handleRecordFieldChange(index, field, value)}
+                            >
+                              <SelectTrigger className="h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE_VALUE}>None</SelectItem>
+                                {getRecordOptions(level, field).map(header => (
+                                  <SelectItem key={header} value={header}>{header}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+
+                      {!level.recordId && (
+                        <div className="flex items-center gap-2 text-xs text-yellow-700 dark:text-yellow-400 mb-3">
+                          <AlertTriangle className="w-4 h-4" />
+                          Every level needs a Record ID
+                        </div>
+                      )}
+
+                      <div className="flex flex-wrap gap-2 min-h-[2.5rem]">
+                        {level.headers.length === 0 && (
+                          <span className="text-sm text-muted-foreground italic self-center">
+                            Drop properties here
+                          </span>
+                        )}
+                        {level.headers.map(header => (
+                          <Badge
+                            key={header}
+                            variant="secondary"
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, header)}
+                            onDragEnd={() => setDropTarget(null)}
+                            className="gap-1 cursor-grab active:cursor-grabbing"
+                          >
+                            <GripVertical className="w-3 h-3 opacity-60" />
+                            {header}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -1,19 +1,72 @@
-import { useState } from 'react';
+import { ReactNode, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ChevronRight, ChevronDown, Database, Layers, Tag } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChevronRight, ChevronDown, Database, KeyRound, Layers, Tag, SlidersHorizontal } from 'lucide-react';
 import { HierarchyLevel } from '@/types';
+import { VariantAxisReport } from '@/utils/variantAxes';
+import { PLACEMENT_RULE_LABELS, PlacementLevel, PlacementTrace, isMovedAfterAnalysis } from '@/utils/placementTrace';
 
 interface HierarchyProposalProps {
   hierarchy: HierarchyLevel[];
   properties: string[];
   propertiesWithoutValues?: string[];
+  variantAxisReport?: VariantAxisReport;
+  placementTrace?: PlacementTrace[];
 }
 
-export const HierarchyProposal = ({ hierarchy, properties, propertiesWithoutValues = [] }: HierarchyProposalProps) => {
+const MAX_SHOWN_ISSUES = 3;
+
+const ROLE_LABELS: Record<PlacementLevel['role'], string> = {
+  record_id: 'Record ID',
+  record_name: 'Record Name',
+  property: 'property',
+};
+
+const describeLevel = (placement: PlacementLevel | null) =>
+  placement ? `Level ${placement.level} (${placement.name}) as ${ROLE_LABELS[placement.role]}` : 'not assigned';
+
+export const HierarchyProposal = ({ hierarchy, properties, propertiesWithoutValues = [], variantAxisReport, placementTrace = [] }: HierarchyProposalProps) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
+  // "Why here?" - the header's placement trace in a popover, or the plain badge when there is none
+  const renderWhyHere = (header: string, badge: ReactNode) => {
+    const trace = placementTrace.find(t => t.header === header);
+    if (!trace) return badge;
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" title="Why here?" className="cursor-pointer">{badge}</button>
+        </PopoverTrigger>
+        <PopoverContent className="w-96 space-y-3 text-sm">
+          <div>
+            <div className="font-semibold">Why here? {header}</div>
+            <div className="text-xs text-muted-foreground">
+              hierarchyScore {trace.hierarchyScore} · cardinality {Math.round(trace.cardinality * 100)}% · completeness {Math.round(trace.completeness * 100)}%
+            </div>
+            {trace.keywordMatches.length > 0 && (
+              <div className="text-xs text-muted-foreground">Item-level keywords: {trace.keywordMatches.join(', ')}</div>
+            )}
+          </div>
+          <ol className="space-y-1 list-decimal pl-4">
+            {trace.steps.map((step, index) => (
+              <li key={index}>
+                <span className="font-medium">{PLACEMENT_RULE_LABELS[step.rule]}:</span> {step.detail}
+              </li>
+            ))}
+          </ol>
+          <div className="text-xs">
+            <span className="font-medium">Final:</span> {describeLevel(trace.finalLevel)}
+            {isMovedAfterAnalysis(trace) && (
+              <div className="text-muted-foreground">Moved after analysis - the analysis placed it on {describeLevel(trace.analyzedLevel)}</div>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
   const getLevelIcon = (level: number) => {
     switch (level) {
       case 1:
@@ -66,12 +119,12 @@ export const HierarchyProposal = ({ hierarchy, properties, propertiesWithoutValu
               </h2>
               <Badge variant="secondary" className="text-lg px-4 py-1">
                 {(() => {
-                  // Count ALL unique properties (headers + Record IDs + Record Names)
+                  // Count ALL unique properties (headers + Record IDs + Record Names) - generated keys are not source columns
                   const allProps = new Set<string>();
                   hierarchy.forEach(level => {
                     level.headers.forEach(h => allProps.add(h));
-                    if (level.recordId) allProps.add(level.recordId);
-                    if (level.recordName) allProps.add(level.recordName);
+                    if (level.recordId && level.recordId !== level.generatedKey?.idHeader) allProps.add(level.recordId);
+                    if (level.recordName && level.recordName !== level.generatedKey?.nameHeader) allProps.add(level.recordName);
                   });
                   return allProps.size;
                 })()} properties
@@ -79,6 +132,7 @@ export const HierarchyProposal = ({ hierarchy, properties, propertiesWithoutValu
             </div>
             <p className="text-muted-foreground">
               Data inheritance structure based on cardinality analysis
+              {placementTrace.length > 0 && ' - click a property to see why it was placed there'}
             </p>
           </div>
 
@@ -113,28 +167,79 @@ export const HierarchyProposal = ({ hierarchy, properties, propertiesWithoutValu
                       <div className="flex gap-4 text-sm">
                         <div>
                           <span className="font-medium">Record ID:</span>{' '}
-                          <Badge variant="secondary" className="ml-1">{level.recordId}</Badge>
+                          {renderWhyHere(level.recordId, <Badge variant="secondary" className="ml-1">{level.recordId}</Badge>)}
                         </div>
                         {level.recordName && (
                           <div>
                             <span className="font-medium">Record Name:</span>{' '}
-                            <Badge variant="secondary" className="ml-1">{level.recordName}</Badge>
+                            {renderWhyHere(level.recordName, <Badge variant="secondary" className="ml-1">{level.recordName}</Badge>)}
                           </div>
                         )}
                       </div>
+                      {level.generatedKey && (
+                        <div className="flex items-center gap-2 mt-2 text-xs">
+                          <KeyRound className="w-3 h-3" />
+                          Generated from <span className="font-mono">{level.generatedKey.idTemplate}</span>
+                          {level.generatedKey.idMode === 'hash' && ' (hashed)'}
+                          {level.generatedKey.nameTemplate && <>, name from <span className="font-mono">{level.generatedKey.nameTemplate}</span></>}
+                        </div>
+                      )}
                     </div>
                     
                     <div className="flex flex-wrap gap-2">
                       {level.headers.map((header) => (
-                        <Badge 
-                          key={header} 
-                          variant="outline"
-                          className="bg-background/20 border-background/30"
-                        >
-                          {header}
-                        </Badge>
+                        <span key={header}>
+                          {renderWhyHere(header, (
+                            <Badge 
+                              variant="outline"
+                              className="bg-background/20 border-background/30"
+                            >
+                              {header}
+                            </Badge>
+                          ))}
+                        </span>
                       ))}
                     </div>
+
+                    {/* Variant axes - what tells this level's children apart */}
+                    {level.variantAxes && level.variantAxes.length > 0 && (() => {
+                      const axisLevel = variantAxisReport?.levels.find(l => l.levelName === level.name);
+                      const misplaced = level.variantAxes.filter(axis => level.headers.includes(axis));
+                      return (
+                        <div className="mt-3 p-3 bg-background/30 rounded-md border border-background/40 space-y-1 text-sm">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <SlidersHorizontal className="w-4 h-4" />
+                            <span className="font-medium">Variants by:</span>
+                            {level.variantAxes.map(axis => (
+                              <Badge key={axis} variant="secondary">{axis}</Badge>
+                            ))}
+                          </div>
+                          {misplaced.length > 0 && (
+                            <div className="text-xs">
+                              {misplaced.join(', ')} {misplaced.length === 1 ? 'varies' : 'vary'} between the children of one record - consider moving {misplaced.length === 1 ? 'it' : 'them'} down a level.
+                            </div>
+                          )}
+                          {axisLevel && axisLevel.duplicateCount > 0 && (
+                            <div className="text-xs">
+                              {axisLevel.duplicateCount} duplicate combination{axisLevel.duplicateCount > 1 ? 's' : ''}:{' '}
+                              {axisLevel.duplicates.slice(0, MAX_SHOWN_ISSUES)
+                                .map(issue => `${issue.parentId} ${issue.values.join(' / ')} (rows ${issue.rows.join(', ')})`)
+                                .join('; ')}
+                              {axisLevel.duplicateCount > MAX_SHOWN_ISSUES && '; …'}
+                            </div>
+                          )}
+                          {axisLevel && axisLevel.missingCount > 0 && (
+                            <div className="text-xs">
+                              {axisLevel.missingCount} missing combination{axisLevel.missingCount > 1 ? 's' : ''}:{' '}
+                              {axisLevel.missing.slice(0, MAX_SHOWN_ISSUES)
+                                .map(issue => `${issue.parentId} ${issue.values.join(' / ')}`)
+                                .join('; ')}
+                              {axisLevel.missingCount > MAX_SHOWN_ISSUES && '; …'}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })()}
                   </Card>
                 </div>
               </motion.div>
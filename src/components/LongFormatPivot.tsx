@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Repeat, X, AlertTriangle, Info } from 'lucide-react';
+import {
+  LongFormatDetection,
+  LongFormatMapping,
+  LongFormatPivotResult,
+  MULTI_VALUE_SEPARATORS,
+  pivotLongFormat,
+} from '@/utils/longFormatPivot';
+
+interface LongFormatPivotProps {
+  headers: string[];
+  data: unknown[][];
+  detected: LongFormatDetection;
+  onApply: (result: LongFormatPivotResult) => void;
+  onDismiss: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 8;
+const NO_UOM = '__none__';
+
+export const LongFormatPivot = ({ headers, data, detected, onApply, onDismiss }: LongFormatPivotProps) => {
+  const [mapping, setMapping] = useState<LongFormatMapping>({
+    entityColumn: detected.entityColumn,
+    attributeColumn: detected.attributeColumn,
+    valueColumn: detected.valueColumn,
+    uomColumn: detected.uomColumn,
+  });
+  const [separator, setSeparator] = useState(MULTI_VALUE_SEPARATORS[0].value);
+
+  const pivot = useMemo(() => {
+    if (!mapping.entityColumn || !mapping.attributeColumn || !mapping.valueColumn) return null;
+    try {
+      return pivotLongFormat(headers, data, mapping, { multiValueSeparator: separator });
+    } catch (error) {
+      console.error('Error pivoting long-format data:', error);
+      return null;
+    }
+  }, [headers, data, mapping, separator]);
+
+  const updateMapping = (key: keyof LongFormatMapping, value: string) => {
+    setMapping(prev => ({ ...prev, [key]: key === 'uomColumn' && value === NO_UOM ? null : value }));
+  };
+
+  const columnSelect = (key: keyof LongFormatMapping, label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">{label}</Label>
+      <Select
+        value={mapping[key] || (optional ? NO_UOM : undefined)}
+        onValueChange={(value) => updateMapping(key, value)}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_UOM}>None</SelectItem>}
+          {headers.filter(h => h).map(header => (
+            <SelectItem key={header} value={header}>{header}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const previewHeaders = pivot ? pivot.headers.slice(0, PREVIEW_COLUMNS) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <Repeat className="w-6 h-6 text-primary" />
+                {detected.isLongFormat ? 'Long-Format Data Detected' : 'Pivot Long-Format Data'}
+              </h2>
+              {detected.isLongFormat && (
+                <Badge variant="secondary" className="text-sm px-3 py-1 font-semibold">
+                  {Math.round(detected.confidence * 100)}% confidence
+                </Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground">
+              This table stores one attribute per row ({detected.rowsPerEntity.toFixed(1)} rows per item). Pivot it to one column per attribute so hierarchy analysis can run.
+            </p>
+          </div>
+
+          {/* Column Mapping */}
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            {columnSelect('entityColumn', 'Item / SKU column')}
+            {columnSelect('attributeColumn', 'Attribute name column')}
+            {columnSelect('valueColumn', 'Value column')}
+            {columnSelect('uomColumn', 'Unit (UoM) column', true)}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Multi-value separator</Label>
+              <Select value={separator} onValueChange={setSeparator}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MULTI_VALUE_SEPARATORS.map(option => (
+                    <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {pivot ? (
+            <>
+              {/* Pivot Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <div className="text-sm text-muted-foreground mb-1">Items</div>
+                  <div className="text-2xl font-bold">{pivot.entityCount}</div>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <div className="text-sm text-muted-foreground mb-1">Attributes</div>
+                  <div className="text-2xl font-bold">{pivot.attributeCount}</div>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <div className="text-sm text-muted-foreground mb-1">Multi-valued</div>
+                  <div className="text-2xl font-bold">{pivot.multiValuedAttributes.length}</div>
+                </div>
+                <div className="p-4 rounded-lg bg-muted/50">
+                  <div className="text-sm text-muted-foreground mb-1">With UoM column</div>
+                  <div className="text-2xl font-bold">{pivot.uomAttributes.length}</div>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                {pivot.multiValuedAttributes.length > 0 && (
+                  <p className="flex items-start gap-2">
+                    <Info className="w-4 h-4 text-primary mt-0.5" />
+                    <span>
+                      Multiple values are joined with "{separator.trim()}" for: {pivot.multiValuedAttributes.join(', ')}
+                    </span>
+                  </p>
+                )}
+                {pivot.passthroughColumns.length > 0 && (
+                  <p className="flex items-start gap-2">
+                    <Info className="w-4 h-4 text-primary mt-0.5" />
+                    <span>Item-level columns kept: {pivot.passthroughColumns.join(', ')}</span>
+                  </p>
+                )}
+                {pivot.mixedUomAttributes.length > 0 && (
+                  <p className="flex items-start gap-2 text-orange-700 dark:text-orange-300">
+                    <AlertTriangle className="w-4 h-4 mt-0.5" />
+                    <span>Recorded in more than one unit: {pivot.mixedUomAttributes.join(', ')}</span>
+                  </p>
+                )}
+                {pivot.droppedColumns.length > 0 && (
+                  <p className="flex items-start gap-2 text-orange-700 dark:text-orange-300">
+                    <AlertTriangle className="w-4 h-4 mt-0.5" />
+                    <span>Dropped (values differ within an item): {pivot.droppedColumns.join(', ')}</span>
+                  </p>
+                )}
+                {pivot.skippedRows > 0 && (
+                  <p className="flex items-start gap-2 text-orange-700 dark:text-orange-300">
+                    <AlertTriangle className="w-4 h-4 mt-0.5" />
+                    <span>{pivot.skippedRows} rows skipped because the item or attribute is empty</span>
+                  </p>
+                )}
+              </div>
+
+              {/* Pivot Preview */}
+              <div className="relative border rounded-lg">
+                <div className="overflow-auto max-h-[300px] w-full">
+                  <Table>
+                    <TableHeader className="sticky top-0 bg-muted/90 backdrop-blur-sm z-10 shadow-sm">
+                      <TableRow>
+                        {previewHeaders.map(header => (
+                          <TableHead key={header} className="font-semibold whitespace-nowrap px-4 min-w-[120px] border-b-2">
+                            {header}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pivot.data.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                        <TableRow key={rowIndex} className="hover:bg-muted/30">
+                          {previewHeaders.map((_, cellIndex) => (
+                            <TableCell key={cellIndex} className="whitespace-nowrap px-4 min-w-[120px]">
+                              {row[cellIndex] !== null && row[cellIndex] !== undefined ? String(row[cellIndex]) : '-'}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="bg-muted/30 px-4 py-2 text-xs text-muted-foreground border-t flex items-center justify-between">
+                  <span>Showing first {Math.min(PREVIEW_ROWS, pivot.data.length)} of {pivot.data.length} rows</span>
+                  <span className="font-mono">{pivot.headers.length} columns</span>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="p-8 text-center text-muted-foreground border rounded-lg">
+              Select distinct item, attribute and value columns to preview the pivot.
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="ghost" onClick={onDismiss} className="gap-2">
+              <X className="w-4 h-4" />
+              Keep Table As Is
+            </Button>
+            <Button
+              onClick={() => pivot && onApply(pivot)}
+              disabled={!pivot}
+              className="gap-2 bg-gradient-primary"
+              size="lg"
+            >
+              <Repeat className="w-5 h-5" />
+              Pivot to Wide Format
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Boxes, ChevronDown, ChevronRight, Download, Search } from 'lucide-react';
+import { HierarchyLevel } from '@/types';
+import { MixedModelSuggestion, ProductModelType, StandaloneProduct } from '@/utils/analysisEngine';
+import { ProductModelFileFormat, STANDALONE_REASON_LABELS } from '@/utils/productModelExport';
+
+interface MixedModelReviewProps {
+  suggestion: MixedModelSuggestion;
+  hierarchy: HierarchyLevel[];
+  headers: string[];
+  data: unknown[][];
+  onExport: (model: ProductModelType, format: ProductModelFileFormat) => void;
+}
+
+type ReasonFilter = StandaloneProduct['reason'] | 'all';
+
+const MAX_VISIBLE_ROWS = 200; // Longer lists are in the export
+
+export const MixedModelReview = ({ suggestion, hierarchy, headers, data, onExport }: MixedModelReviewProps) => {
+  const [isExpanded, setIsExpanded] = useState(suggestion.shouldUseMixed);
+  const [reasonFilter, setReasonFilter] = useState<ReasonFilter>('all');
+  const [search, setSearch] = useState('');
+
+  const standaloneCount = suggestion.standaloneProducts.length;
+  const hierarchicalCount = suggestion.rowModels.length - standaloneCount;
+
+  // Label each row with the SKU-level Record Name, falling back to its Record ID
+  const skuLevel = hierarchy[hierarchy.length - 1];
+  const labelIndex = [skuLevel?.recordName, skuLevel?.recordId]
+    .map(header => (header ? headers.indexOf(header) : -1))
+    .find(index => index >= 0) ?? -1;
+
+  const products = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return suggestion.standaloneProducts
+      .map(product => ({
+        ...product,
+        label: labelIndex >= 0 ? String(data[product.row - 2]?.[labelIndex] ?? '') : '',
+      }))
+      .filter(product => reasonFilter === 'all' || product.reason === reasonFilter)
+      .filter(product => !query
+        || product.label.toLowerCase().includes(query)
+        || String(product.row) === query
+        || product.missingHeaders.some(header => header.toLowerCase().includes(query)));
+  }, [suggestion, data, labelIndex, reasonFilter, search]);
+
+  const reasonCounts = (reason: StandaloneProduct['reason']) =>
+    suggestion.standaloneProducts.filter(product => product.reason === reason).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2 gap-4">
+              <h2
+                className="text-2xl font-semibold flex items-center gap-2 cursor-pointer"
+                onClick={() => setIsExpanded(!isExpanded)}
+              >
+                {isExpanded ? <ChevronDown className="w-6 h-6" /> : <ChevronRight className="w-6 h-6" />}
+                <Boxes className="w-6 h-6 text-primary" />
+                Product Models
+              </h2>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{hierarchicalCount} hierarchical</Badge>
+                <Badge variant="secondary">{standaloneCount} standalone</Badge>
+              </div>
+            </div>
+            <p className="text-muted-foreground">{suggestion.reasoning}</p>
+          </div>
+
+          {isExpanded && (
+            <div className="space-y-4">
+              <div className="h-2 rounded-full bg-muted overflow-hidden flex">
+                <div className="bg-primary" style={{ width: `${suggestion.hierarchicalPercentage}%` }} />
+                <div className="bg-orange-400" style={{ width: `${suggestion.standalonePercentage}%` }} />
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant={reasonFilter === 'all' ? 'default' : 'outline'}
+                    onClick={() => setReasonFilter('all')}
+                  >
+                    All ({standaloneCount})
+                  </Button>
+                  {(Object.keys(STANDALONE_REASON_LABELS) as StandaloneProduct['reason'][])
+                    .filter(reason => reasonCounts(reason) > 0)
+                    .map(reason => (
+                      <Button
+                        key={reason}
+                        size="sm"
+                        variant={reasonFilter === reason ? 'default' : 'outline'}
+                        onClick={() => setReasonFilter(reason)}
+                      >
+                        {STANDALONE_REASON_LABELS[reason]} ({reasonCounts(reason)})
+                      </Button>
+                    ))}
+                </div>
+                <div className="relative w-full sm:w-64">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search row, product or column"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+
+              {products.length === 0 ? (
+                <div className="p-4 rounded-lg bg-muted/50 text-sm text-muted-foreground">
+                  {standaloneCount === 0
+                    ? 'Every product fits the proposed hierarchy.'
+                    : 'No standalone products match the current filter.'}
+                </div>
+              ) : (
+                <ScrollArea className="h-72 border rounded-lg">
+                  <div className="divide-y">
+                    {products.slice(0, MAX_VISIBLE_ROWS).map(product => (
+                      <div key={product.row} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="flex items-center gap-3 min-w-0">
+                          <span className="font-mono text-xs text-muted-foreground shrink-0">Row {product.row}</span>
+                          <span className="font-medium truncate">{product.label || '—'}</span>
+                        </div>
+                        <span className="text-xs text-muted-foreground text-right">
+                          {product.reason === 'missing_parent_values'
+                            ? `No ${product.missingHeaders.join(', ')}`
+                            : STANDALONE_REASON_LABELS[product.reason]}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {products.length > MAX_VISIBLE_ROWS && (
+                    <div className="px-3 py-2 text-xs text-muted-foreground border-t">
+                      …and {products.length - MAX_VISIBLE_ROWS} more - export the subset to see all rows
+                    </div>
+                  )}
+                </ScrollArea>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" disabled={standaloneCount === 0} onClick={() => onExport('standalone', 'csv')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Standalone Products (.csv)
+                </Button>
+                <Button size="sm" variant="outline" disabled={standaloneCount === 0} onClick={() => onExport('standalone', 'xlsx')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Standalone Products (.xlsx)
+                </Button>
+                <Button size="sm" variant="outline" disabled={hierarchicalCount === 0} onClick={() => onExport('hierarchical', 'xlsx')}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Hierarchical Products (.xlsx)
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,293 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ChevronDown, ChevronRight, KeyRound, Sparkles, Trash2 } from 'lucide-react';
+import { GeneratedIdMode, HierarchyLevel } from '@/types';
+import {
+  GeneratedKeyCheck,
+  KeyTemplate,
+  addGeneratedKeyColumns,
+  applyGeneratedKey,
+  isLikelyKeyColumn,
+  renderKeyId,
+  renderKeyName,
+  suggestKeyTemplate,
+} from '@/utils/generatedKeys';
+
+interface ParentKeyGeneratorProps {
+  hierarchy: HierarchyLevel[];
+  headers: string[]; // Source headers - templates cannot use generated columns
+  data: unknown[][];
+  checks: GeneratedKeyCheck[];
+  onGenerate: (levelIndex: number, template: KeyTemplate) => void;
+  onRemove: (levelIndex: number) => void;
+}
+
+type TemplateField = 'idTemplate' | 'nameTemplate';
+
+const MAX_PREVIEW_KEYS = 5;
+const MAX_SHOWN_ISSUES = 3;
+
+const ID_MODES: { mode: GeneratedIdMode; label: string }[] = [
+  { mode: 'concat', label: 'Concatenate values' },
+  { mode: 'hash', label: 'Hash values' },
+];
+
+// Helper: what the user sees for a check - one line per problem
+const describeCheck = (check: GeneratedKeyCheck): string[] => [
+  ...(check.collisionCount > 0 ? [`${check.collisionCount} ID${check.collisionCount > 1 ? 's' : ''} built from different values: ${check.collisions
+    .slice(0, MAX_SHOWN_ISSUES)
+    .map(collision => `${collision.id} (${collision.sources.map(source => source.join(' / ')).join(' vs ')})`)
+    .join('; ')}${check.collisionCount > MAX_SHOWN_ISSUES ? '; …' : ''}`] : []),
+  ...(check.parentConflictCount > 0 ? [`${check.parentConflictCount} ID${check.parentConflictCount > 1 ? 's' : ''} under several parents: ${check.parentConflicts
+    .slice(0, MAX_SHOWN_ISSUES)
+    .map(conflict => `${conflict.id} (${conflict.values.join(', ')})`)
+    .join('; ')}${check.parentConflictCount > MAX_SHOWN_ISSUES ? '; …' : ''} - add a parent attribute to the template`] : []),
+  ...(check.nameConflictCount > 0 ? [`${check.nameConflictCount} ID${check.nameConflictCount > 1 ? 's' : ''} with more than one name: ${check.nameConflicts
+    .slice(0, MAX_SHOWN_ISSUES)
+    .map(conflict => `${conflict.id} (${conflict.values.join(' / ')})`)
+    .join('; ')}${check.nameConflictCount > MAX_SHOWN_ISSUES ? '; …' : ''}`] : []),
+  ...(check.blankRowCount > 0 ? [`${check.blankRowCount} row${check.blankRowCount > 1 ? 's have' : ' has'} an empty template value and no ID (rows ${check.blankRows
+    .slice(0, MAX_SHOWN_ISSUES * 2)
+    .join(', ')}${check.blankRowCount > MAX_SHOWN_ISSUES * 2 ? ', …' : ''})`] : []),
+];
+
+export const ParentKeyGenerator = ({ hierarchy, headers, data, checks, onGenerate, onRemove }: ParentKeyGeneratorProps) => {
+  const parentLevels = hierarchy.slice(0, -1);
+  const needsKey = (level: HierarchyLevel) => !level.generatedKey && !isLikelyKeyColumn(level.recordId);
+
+  const [isExpanded, setIsExpanded] = useState(() => parentLevels.some(needsKey));
+  const [selectedLevel, setSelectedLevel] = useState(() => Math.max(parentLevels.findIndex(needsKey), 0));
+  const [activeField, setActiveField] = useState<TemplateField>('idTemplate');
+
+  // Template being edited - starts from the level's key, or a suggestion
+  const getInitialDraft = (index: number): KeyTemplate => {
+    const level = hierarchy[index];
+    if (!level) return { idMode: 'concat', idTemplate: '' };
+    return level.generatedKey
+      ? { idMode: level.generatedKey.idMode, idTemplate: level.generatedKey.idTemplate, nameTemplate: level.generatedKey.nameTemplate }
+      : suggestKeyTemplate(level, headers, data);
+  };
+  const [draft, setDraft] = useState<KeyTemplate>(() => getInitialDraft(selectedLevel));
+
+  const selectLevel = (index: number) => {
+    setSelectedLevel(index);
+    setDraft(getInitialDraft(index));
+  };
+
+  // Edits can remove levels - stay on a parent level
+  const selectedIndex = Math.min(selectedLevel, Math.max(parentLevels.length - 1, 0));
+
+  const level = hierarchy[selectedIndex];
+  const appliedCheck = checks.find(check => check.idHeader === level?.generatedKey?.idHeader);
+
+  // Columns a template can use: this level and the levels above it
+  const placeholders = useMemo(() => {
+    const virtual = new Set(checks.flatMap(check => [check.idHeader, check.nameHeader]));
+    return Array.from(new Set(hierarchy.slice(0, selectedIndex + 1)
+      .reverse()
+      .flatMap(l => [l.recordName, l.recordId, ...l.headers])))
+      .filter((header): header is string => !!header && !virtual.has(header) && headers.includes(header));
+  }, [hierarchy, selectedIndex, headers, checks]);
+
+  // Live preview and uniqueness check of the draft, before it is applied
+  const preview = useMemo(() => {
+    if (!level || !draft.idTemplate.trim()) return null;
+    try {
+      const previewHierarchy = applyGeneratedKey(hierarchy, selectedIndex, headers, draft);
+      const { checks: previewChecks } = addGeneratedKeyColumns(previewHierarchy, headers, data);
+      const key = previewHierarchy[selectedIndex].generatedKey!;
+      const columnIndex = new Map(headers.map((h, i) => [h, i]));
+      const samples = new Map<string, string | undefined>();
+      for (const row of data) {
+        const id = renderKeyId(key.idMode, key.idTemplate, row, columnIndex);
+        if (id && !samples.has(id)) samples.set(id, key.nameTemplate ? renderKeyName(key.nameTemplate, row, columnIndex) : undefined);
+        if (samples.size >= MAX_PREVIEW_KEYS) break;
+      }
+      return { check: previewChecks.find(c => c.idHeader === key.idHeader)!, samples: Array.from(samples.entries()), error: null };
+    } catch (error) {
+      return { check: null, samples: [], error: error instanceof Error ? error.message : 'Invalid template' };
+    }
+  }, [level, draft, hierarchy, selectedIndex, headers, data]);
+
+  const insertPlaceholder = (header: string) => {
+    const current = draft[activeField] || '';
+    const separator = current === '' ? '' : activeField === 'idTemplate' ? '-' : ' ';
+    setDraft({ ...draft, [activeField]: `${current}${separator}{${header}}` });
+  };
+
+  if (parentLevels.length === 0) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.3 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2 gap-4">
+              <h2
+                className="text-2xl font-semibold flex items-center gap-2 cursor-pointer"
+                onClick={() => setIsExpanded(!isExpanded)}
+              >
+                {isExpanded ? <ChevronDown className="w-6 h-6" /> : <ChevronRight className="w-6 h-6" />}
+                <KeyRound className="w-6 h-6 text-primary" />
+                Parent Keys
+              </h2>
+              <Badge variant="secondary">{checks.length} generated</Badge>
+            </div>
+            <p className="text-muted-foreground">
+              Parent levels without a code column can get a Record ID built from their attributes - concatenated or hashed,
+              always the same for the same values - and a Record Name like "{'{Brand} {Model} {Material}'}".
+              Generated columns are added to every export.
+            </p>
+          </div>
+
+          {isExpanded && level && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {parentLevels.map((l, index) => (
+                  <Button
+                    key={`${l.name}-${index}`}
+                    size="sm"
+                    variant={index === selectedIndex ? 'default' : 'outline'}
+                    onClick={() => selectLevel(index)}
+                    className="gap-2"
+                  >
+                    {l.name}
+                    {l.generatedKey && <Badge variant="secondary">generated</Badge>}
+                    {needsKey(l) && <Badge variant="destructive">no key column</Badge>}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="p-3 rounded-lg bg-muted/50 text-sm">
+                {level.generatedKey
+                  ? <>Record ID is generated into <span className="font-medium">{level.generatedKey.idHeader}</span>{level.generatedKey.replacedRecordId && <> (replaces {level.generatedKey.replacedRecordId})</>}.</>
+                  : level.recordId
+                    ? <>Record ID is <span className="font-medium">{level.recordId}</span>{needsKey(level) && ' - this does not look like a key column, it was picked as a fallback'}.</>
+                    : 'This level has no Record ID - its properties move to the next level in exports.'}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {ID_MODES.map(({ mode, label }) => (
+                  <Button
+                    key={mode}
+                    size="sm"
+                    variant={draft.idMode === mode ? 'default' : 'outline'}
+                    onClick={() => setDraft({ ...draft, idMode: mode })}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                <Button size="sm" variant="ghost" className="gap-2" onClick={() => setDraft(suggestKeyTemplate(level, headers, data))}>
+                  <Sparkles className="w-4 h-4" />
+                  Suggest
+                </Button>
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="key-id-template">Record ID template</Label>
+                  <Input
+                    id="key-id-template"
+                    value={draft.idTemplate}
+                    onFocus={() => setActiveField('idTemplate')}
+                    onChange={(e) => setDraft({ ...draft, idTemplate: e.target.value })}
+                    placeholder={draft.idMode === 'hash' ? 'STY-{Brand}{Model}' : '{Brand}-{Model}'}
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {draft.idMode === 'hash'
+                      ? 'Text before the first placeholder is kept as prefix, the values become an 8-character hash.'
+                      : 'Values replace their placeholders, spaces become hyphens.'}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="key-name-template">Record Name template (optional)</Label>
+                  <Input
+                    id="key-name-template"
+                    value={draft.nameTemplate || ''}
+                    onFocus={() => setActiveField('nameTemplate')}
+                    onChange={(e) => setDraft({ ...draft, nameTemplate: e.target.value })}
+                    placeholder="{Brand} {Model} {Material}"
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">Leave empty to keep the current Record Name.</p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {placeholders.map(header => (
+                  <Badge
+                    key={header}
+                    variant="outline"
+                    className="cursor-pointer hover:bg-accent"
+                    onClick={() => insertPlaceholder(header)}
+                  >
+                    {`{${header}}`}
+                  </Badge>
+                ))}
+              </div>
+
+              {preview && (
+                <div className="p-3 rounded-lg border text-sm space-y-2">
+                  {preview.error ? (
+                    <div className="text-destructive">{preview.error}</div>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">Preview:</span>
+                        <span>{preview.check.keyCount} IDs</span>
+                        <Badge variant={preview.check.isUnique ? 'secondary' : 'destructive'}>
+                          {preview.check.isUnique ? 'unique' : 'not unique'}
+                        </Badge>
+                      </div>
+                      <div className="space-y-1 font-mono text-xs">
+                        {preview.samples.map(([id, name]) => (
+                          <div key={id}>{id}{name && <span className="text-muted-foreground"> - {name}</span>}</div>
+                        ))}
+                      </div>
+                      {describeCheck(preview.check).map(line => (
+                        <div key={line} className="text-xs text-muted-foreground">{line}</div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+
+              {appliedCheck && !appliedCheck.isUnique && (
+                <div className="p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+                  The applied key for {level.name} is not unique - exports merge the records that share an ID.
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  disabled={!preview || !!preview.error}
+                  onClick={() => onGenerate(selectedIndex, draft)}
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  {level.generatedKey ? 'Update Generated Key' : 'Generate Record ID'}
+                </Button>
+                {level.generatedKey && (
+                  <Button size="sm" variant="outline" onClick={() => onRemove(selectedIndex)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Remove Generated Key
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -110,6 +110,9 @@ export const PresetSelector = ({ presets, onSelectPreset, selectedPreset }: Pres
                       <div key={idx} className="flex items-center gap-1">
                         <span className="font-medium">L{level.level}:</span>
                         <span>{level.name}</span>
+                        {level.variantAxes?.length > 0 && (
+                          <span className="truncate">- variants by {level.variantAxes.join(' + ')}</span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,57 @@
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { History, RotateCcw, Trash2 } from 'lucide-react';
+import { AnalysisProject } from '@/utils/projectFile';
+
+interface ProjectRestoreProps {
+  project: AnalysisProject;
+  onRestore: (project: AnalysisProject) => void;
+  onDiscard: () => void;
+}
+
+export const ProjectRestore = ({ project, onRestore, onDiscard }: ProjectRestoreProps) => {
+  const { state } = project;
+  const savedAt = new Date(project.savedAt);
+  const stage = state.analysisResult
+    ? `${state.analysisResult.hierarchy.length}-level hierarchy`
+    : state.showHeaderSelection
+      ? 'column selection'
+      : 'not analyzed yet';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="space-y-1">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Continue where you left off?
+            </h2>
+            <p className="text-muted-foreground">
+              "{project.name}" was autosaved {savedAt.toLocaleString()} - {state.data.length} rows, {(state.headers.length || state.allHeaders.length)} columns.
+            </p>
+            <Badge variant="secondary" className="text-sm px-3 py-1">
+              {stage}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" className="gap-2" onClick={onDiscard}>
+              <Trash2 className="w-4 h-4" />
+              Discard
+            </Button>
+            <Button className="gap-2 bg-gradient-primary" onClick={() => onRestore(project)}>
+              <RotateCcw className="w-4 h-4" />
+              Restore
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
@@ -0,0 +1,389 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Layers, Link2, Play, X, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { HeaderRangeConfirmation } from '@/components/HeaderRangeConfirmation';
+import { HeaderRange } from '@/utils/headerDetection';
+import {
+  SheetTable,
+  SheetJoinConfig,
+  getSheetHeaders,
+  suggestJoinKey,
+  joinSheets,
+  withHeaderRange,
+} from '@/utils/sheetJoin';
+
+interface SheetSelectorProps {
+  fileName: string;
+  sheets: SheetTable[];
+  onSelectSheet: (sheet: SheetTable) => void;
+  onJoin: (rows: unknown[][], sourceLabel: string) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 10;
+const MAX_KEY_EXAMPLES = 10;
+
+export const SheetSelector = ({ fileName, sheets, onSelectSheet, onJoin, onCancel }: SheetSelectorProps) => {
+  const [tables, setTables] = useState(sheets);
+  const [confirmedRanges, setConfirmedRanges] = useState<Set<string>>(new Set());
+  const [reviewingRanges, setReviewingRanges] = useState(false);
+  const [activeSheet, setActiveSheet] = useState(sheets[0]?.name || '');
+  const [joinEnabled, setJoinEnabled] = useState(false);
+  const [baseKey, setBaseKey] = useState('');
+  const [joinKeys, setJoinKeys] = useState<Record<string, string>>({});
+
+  const baseSheet = tables.find(s => s.name === activeSheet);
+  const baseHeaders = baseSheet ? getSheetHeaders(baseSheet).filter(h => h) : [];
+  const otherSheets = tables.filter(s => s.name !== activeSheet);
+
+  const handleBaseSheetChange = (sheetName: string) => {
+    setActiveSheet(sheetName);
+    setBaseKey('');
+    setJoinKeys({});
+  };
+
+  const handleBaseKeyChange = (keyColumn: string) => {
+    setBaseKey(keyColumn);
+    // Re-suggest keys for sheets already selected for joining
+    if (!baseSheet) return;
+    setJoinKeys(prev => {
+      const next: Record<string, string> = {};
+      Object.keys(prev).forEach(sheetName => {
+        const sheet = tables.find(s => s.name === sheetName);
+        if (sheet) next[sheetName] = suggestJoinKey(sheet, baseSheet, keyColumn);
+      });
+      return next;
+    });
+  };
+
+  const toggleJoinSheet = (sheet: SheetTable, checked: boolean) => {
+    setJoinKeys(prev => {
+      const next = { ...prev };
+      if (checked && baseSheet) {
+        next[sheet.name] = suggestJoinKey(sheet, baseSheet, baseKey);
+      } else {
+        delete next[sheet.name];
+      }
+      return next;
+    });
+  };
+
+  const joinResult = useMemo(() => {
+    if (!joinEnabled || !baseKey || Object.keys(joinKeys).length === 0) return null;
+    const config: SheetJoinConfig = {
+      base: { sheetName: activeSheet, keyColumn: baseKey },
+      joins: Object.entries(joinKeys).map(([sheetName, keyColumn]) => ({ sheetName, keyColumn })),
+    };
+    try {
+      return joinSheets(tables, config);
+    } catch (error) {
+      console.error('Error joining sheets:', error);
+      return null;
+    }
+  }, [tables, joinEnabled, activeSheet, baseKey, joinKeys]);
+
+  // Joined sheets go through the same header range confirmation as a single sheet
+  const joinedSheets = [activeSheet, ...Object.keys(joinKeys)]
+    .map(name => tables.find(s => s.name === name))
+    .filter((sheet): sheet is SheetTable => !!sheet);
+  const unconfirmedSheets = joinedSheets.filter(sheet => !sheet.headerRange.isDefault && !confirmedRanges.has(sheet.name));
+
+  const handleRangeConfirm = (sheet: SheetTable, range: HeaderRange) => {
+    setTables(prev => prev.map(s => (s.name === sheet.name ? withHeaderRange(s, range) : s)));
+    setConfirmedRanges(prev => new Set(prev).add(sheet.name));
+    // Back to the join report, now built from the confirmed rows
+    if (unconfirmedSheets.length <= 1) setReviewingRanges(false);
+  };
+
+  const handleConfirm = () => {
+    if (joinEnabled) {
+      if (unconfirmedSheets.length > 0) {
+        setReviewingRanges(true);
+        return;
+      }
+      if (!joinResult) return;
+      onJoin(joinResult.rows, [activeSheet, ...Object.keys(joinKeys)].join(' + '));
+    } else if (baseSheet) {
+      onSelectSheet(baseSheet);
+    }
+  };
+
+  const canConfirm = joinEnabled ? !!joinResult : !!baseSheet;
+
+  if (reviewingRanges && unconfirmedSheets.length > 0) {
+    const sheet = unconfirmedSheets[0];
+    return (
+      <HeaderRangeConfirmation
+        key={sheet.name}
+        sourceLabel={sheet.name}
+        rows={sheet.rawRows}
+        detected={sheet.headerRange}
+        onConfirm={(_, range) => handleRangeConfirm(sheet, range)}
+        onCancel={() => setReviewingRanges(false)}
+      />
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.1 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                <Layers className="w-6 h-6 text-primary" />
+                Select Worksheet
+              </h2>
+              <Badge variant="secondary" className="text-sm px-3 py-1 font-semibold">
+                {tables.length} sheets
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              <span className="font-medium">{fileName}</span> contains several sheets. Pick the sheet to analyze, or join sheets on a shared key column.
+            </p>
+          </div>
+
+          {/* Sheet Preview */}
+          <Tabs value={activeSheet} onValueChange={handleBaseSheetChange}>
+            <TabsList className="flex-wrap h-auto">
+              {tables.map(sheet => (
+                <TabsTrigger key={sheet.name} value={sheet.name} className="gap-2">
+                  {sheet.name}
+                  <span className="text-xs text-muted-foreground">
+                    {sheet.rowCount} × {sheet.columnCount}
+                  </span>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {tables.map(sheet => {
+              const headers = getSheetHeaders(sheet);
+              return (
+                <TabsContent key={sheet.name} value={sheet.name}>
+                  <div className="relative border rounded-lg">
+                    <div className="overflow-auto max-h-[320px] w-full">
+                      <Table>
+                        <TableHeader className="sticky top-0 bg-muted/90 backdrop-blur-sm z-10 shadow-sm">
+                          <TableRow>
+                            {headers.map((header, index) => (
+                              <TableHead key={index} className="font-semibold whitespace-nowrap px-4 min-w-[120px] border-b-2">
+                                {header || <span className="italic text-muted-foreground">(empty)</span>}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {sheet.rows.slice(1, PREVIEW_ROWS + 1).map((row, rowIndex) => (
+                            <TableRow key={rowIndex} className="hover:bg-muted/30">
+                              {headers.map((_, cellIndex) => (
+                                <TableCell key={cellIndex} className="whitespace-nowrap px-4 min-w-[120px]">
+                                  {row[cellIndex] !== null && row[cellIndex] !== undefined && row[cellIndex] !== ''
+                                    ? String(row[cellIndex])
+                                    : '-'}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <div className="bg-muted/30 px-4 py-2 text-xs text-muted-foreground border-t flex items-center justify-between">
+                      <span>Showing first {Math.min(PREVIEW_ROWS, sheet.rowCount)} of {sheet.rowCount} rows</span>
+                      {!sheet.headerRange.isDefault && (
+                        <span>
+                          {confirmedRanges.has(sheet.name) ? 'Confirmed' : 'Detected'}: {describeHeaderRange(sheet.headerRange)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+
+          {/* Join Options */}
+          {tables.length > 1 && (
+            <div className="space-y-4 p-4 rounded-lg border bg-muted/20">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Link2 className="w-5 h-5 text-primary" />
+                  <Label htmlFor="join-sheets" className="font-semibold cursor-pointer">
+                    Join other sheets onto "{activeSheet}"
+                  </Label>
+                </div>
+                <Switch id="join-sheets" checked={joinEnabled} onCheckedChange={setJoinEnabled} />
+              </div>
+
+              {joinEnabled && (
+                <>
+                  <div className="space-y-2 max-w-sm">
+                    <Label className="text-sm font-medium">Key column in "{activeSheet}"</Label>
+                    <Select value={baseKey} onValueChange={handleBaseKeyChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select key column (e.g. material number)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {baseHeaders.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {baseKey && (
+                    <div className="space-y-2">
+                      {otherSheets.map(sheet => {
+                        const isSelected = sheet.name in joinKeys;
+                        return (
+                          <div key={sheet.name} className="flex items-center gap-4 p-3 rounded-lg border bg-background">
+                            <Checkbox
+                              id={`join-${sheet.name}`}
+                              checked={isSelected}
+                              onCheckedChange={(checked) => toggleJoinSheet(sheet, checked === true)}
+                            />
+                            <Label htmlFor={`join-${sheet.name}`} className="flex-1 cursor-pointer font-medium">
+                              {sheet.name}
+                              {!sheet.headerRange.isDefault && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                  {describeHeaderRange(sheet.headerRange)}
+                                  {confirmedRanges.has(sheet.name) ? ' (confirmed)' : ' - confirmed before joining'}
+                                </span>
+                              )}
+                            </Label>
+                            {isSelected && (
+                              <div className="w-64">
+                                <Select
+                                  value={joinKeys[sheet.name]}
+                                  onValueChange={(value) => setJoinKeys(prev => ({ ...prev, [sheet.name]: value }))}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Key column" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {getSheetHeaders(sheet).filter(h => h).map(header => (
+                                      <SelectItem key={header} value={header}>{header}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {/* Unmatched Key Report */}
+                  {joinResult && (
+                    <div className="space-y-3">
+                      <h3 className="font-semibold">Join Report</h3>
+                      {joinResult.baseRowsWithoutKey > 0 && (
+                        <div className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300">
+                          {joinResult.baseRowsWithoutKey} rows in "{activeSheet}" have no value in "{baseKey}" and could not be matched.
+                        </div>
+                      )}
+                      {joinResult.reports.map(report => {
+                        const baseRowCount = joinResult.rows.length - 1;
+                        const hasIssues = report.baseKeysWithoutMatch.length > 0 ||
+                          report.sheetKeysWithoutMatch.length > 0 ||
+                          report.duplicateKeys.length > 0;
+                        return (
+                          <div key={report.sheetName} className="p-4 rounded-lg border bg-background space-y-2">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center gap-2 font-medium">
+                                {hasIssues
+                                  ? <AlertTriangle className="w-4 h-4 text-orange-500" />
+                                  : <CheckCircle2 className="w-4 h-4 text-green-600" />}
+                                {report.sheetName}
+                                <span className="text-xs text-muted-foreground">on "{report.keyColumn}"</span>
+                              </div>
+                              <Badge variant="outline">
+                                {report.matchedRows} / {baseRowCount} rows matched
+                              </Badge>
+                            </div>
+                            <KeyList
+                              label={`Keys in "${activeSheet}" missing from "${report.sheetName}"`}
+                              keys={report.baseKeysWithoutMatch}
+                            />
+                            <KeyList
+                              label={`Keys only in "${report.sheetName}" (data dropped)`}
+                              keys={report.sheetKeysWithoutMatch}
+                            />
+                            <KeyList
+                              label={`Duplicate keys in "${report.sheetName}" (first row used)`}
+                              keys={report.duplicateKeys}
+                            />
+                            {report.renamedHeaders.length > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                Renamed to avoid clashes: {report.renamedHeaders.map(r => `${r.original} → ${r.renamed}`).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t">
+            <Button variant="ghost" onClick={onCancel} className="gap-2">
+              <X className="w-4 h-4" />
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={!canConfirm} className="gap-2 bg-gradient-primary" size="lg">
+              <Play className="w-5 h-5" />
+              {joinEnabled
+                ? unconfirmedSheets.length > 0 ? 'Confirm Header Rows' : 'Continue with Joined Data'
+                : `Continue with "${activeSheet}"`}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
+
+// Helper: header and data rows as 1-based spreadsheet row numbers
+const describeHeaderRange = (range: HeaderRange): string => {
+  const headerEnd = range.headerRowIndex + range.headerRowCount;
+  const headerRows = range.headerRowCount > 1 ? `rows ${range.headerRowIndex + 1}-${headerEnd}` : `row ${headerEnd}`;
+  return `header in ${headerRows}, data in rows ${range.dataStartIndex + 1}-${range.dataEndIndex + 1}`;
+};
+
+interface KeyListProps {
+  label: string;
+  keys: string[];
+}
+
+const KeyList = ({ label, keys }: KeyListProps) => {
+  if (keys.length === 0) return null;
+  return (
+    <div className="text-sm">
+      <span className="text-muted-foreground">{label}: </span>
+      <span className="font-semibold">{keys.length}</span>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {keys.slice(0, MAX_KEY_EXAMPLES).map(key => (
+          <Badge key={key} variant="outline" className="text-xs font-mono">{key}</Badge>
+        ))}
+        {keys.length > MAX_KEY_EXAMPLES && (
+          <Badge variant="outline" className="text-xs">+{keys.length - MAX_KEY_EXAMPLES} more</Badge>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,20 +2,44 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
-import { ChevronRight, ChevronDown, Folder, FolderOpen, FileText } from 'lucide-react';
+import { ChevronRight, ChevronDown, Folder, FolderOpen, FileText, ListChecks } from 'lucide-react';
 import { TaxonomyTreeNode } from '@/utils/exportReport';
+import { AttributeSetAnalysis, getNodePathKey } from '@/utils/attributeSets';
 
 interface TaxonomyTreeVisualizationProps {
   tree: TaxonomyTreeNode;
+  attributeSets?: AttributeSetAnalysis | null;
 }
 
 interface TreeNodeProps {
   node: TaxonomyTreeNode;
   depth: number;
+  path: string[];
+  attributeSets?: AttributeSetAnalysis | null;
 }
 
-const TreeNode = ({ node, depth }: TreeNodeProps) => {
+// Attribute chips: required solid, optional outlined, shared attributes left out
+const AttributeChips = ({ required, optional, shared }: { required: string[]; optional: string[]; shared: string[] }) => {
+  const specificRequired = required.filter(header => !shared.includes(header));
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {specificRequired.map(header => (
+        <Badge key={header} className="text-xs">{header}</Badge>
+      ))}
+      {optional.map(header => (
+        <Badge key={header} variant="outline" className="text-xs">{header} (optional)</Badge>
+      ))}
+      {specificRequired.length === 0 && optional.length === 0 && (
+        <span className="text-xs text-muted-foreground">Only shared attributes</span>
+      )}
+    </div>
+  );
+};
+
+const TreeNode = ({ node, depth, path, attributeSets }: TreeNodeProps) => {
   const [isExpanded, setIsExpanded] = useState(depth < 2); // Auto-expand first 2 levels
+  const [showAttributes, setShowAttributes] = useState(false);
+  const profile = attributeSets?.profiles[getNodePathKey(path)];
 
   const hasChildren = node.children.length > 0;
   const indentWidth = depth * 24;
@@ -76,8 +100,42 @@ const TreeNode = ({ node, depth }: TreeNodeProps) => {
             L{node.level}
           </Badge>
         )}
+
+        {/* Attribute set toggle */}
+        {profile && (
+          <button
+            type="button"
+            className={`p-1 rounded hover:bg-muted ${showAttributes ? 'text-primary' : 'text-muted-foreground'}`}
+            title="Attributes in this category"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowAttributes(!showAttributes);
+            }}
+          >
+            <ListChecks className="w-4 h-4" />
+          </button>
+        )}
       </motion.div>
 
+      {/* Attribute completeness within this category */}
+      {profile && showAttributes && (
+        <div className="mb-2 mr-3 p-3 rounded-lg border bg-muted/30 space-y-2" style={{ marginLeft: `${indentWidth + 44}px` }}>
+          <AttributeChips
+            required={profile.attributes.filter(a => a.status === 'required').map(a => a.header)}
+            optional={profile.attributes.filter(a => a.status === 'optional').map(a => a.header)}
+            shared={attributeSets.sharedHeaders}
+          />
+          {profile.attributes.some(a => a.status === 'not_relevant') && (
+            <div className="text-xs text-muted-foreground">
+              Not relevant: {profile.attributes
+                .filter(a => a.status === 'not_relevant')
+                .map(a => `${a.header} (${(a.completeness * 100).toFixed(0)}%)`)
+                .join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Children */}
       {hasChildren && isExpanded && (
         <motion.div
@@ -87,7 +145,13 @@ const TreeNode = ({ node, depth }: TreeNodeProps) => {
           transition={{ duration: 0.2 }}
         >
           {node.children.map((child, index) => (
-            <TreeNode key={`${child.name}-${index}`} node={child} depth={depth + 1} />
+            <TreeNode
+              key={`${child.name}-${index}`}
+              node={child}
+              depth={depth + 1}
+              path={[...path, child.name]}
+              attributeSets={attributeSets}
+            />
           ))}
         </motion.div>
       )}
@@ -95,7 +159,7 @@ const TreeNode = ({ node, depth }: TreeNodeProps) => {
   );
 };
 
-export const TaxonomyTreeVisualization = ({ tree }: TaxonomyTreeVisualizationProps) => {
+export const TaxonomyTreeVisualization = ({ tree, attributeSets }: TaxonomyTreeVisualizationProps) => {
   const [isExpanded, setIsExpanded] = useState(true);
 
   const countTotalNodes = (node: TaxonomyTreeNode): number => {
@@ -179,14 +243,50 @@ export const TaxonomyTreeVisualization = ({ tree }: TaxonomyTreeVisualizationPro
             </div>
           </div>
 
+          {/* Proposed attribute sets - only worth showing when categories differ */}
+          {attributeSets && attributeSets.sets.length > 1 && (
+            <div className="p-4 rounded-lg border space-y-3">
+              <div>
+                <div className="text-sm font-semibold flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-primary" />
+                  Proposed Attribute Sets ({attributeSets.sets.length})
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Categories with the same relevant attributes share a set (like Akeneo families or Salsify product types).
+                  {attributeSets.sharedHeaders.length > 0 && ` ${attributeSets.sharedHeaders.length} attributes are required everywhere and left out below.`}
+                  {' '}Click <ListChecks className="w-3 h-3 inline" /> on a category for its completeness.
+                </p>
+              </div>
+              <div className="space-y-2 max-h-[320px] overflow-y-auto">
+                {attributeSets.sets.map(set => (
+                  <div key={set.nodePaths.map(getNodePathKey).join('|')} className="p-3 rounded-lg bg-muted/50 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium" title={set.nodePaths.map(getNodePathKey).join('\n')}>{set.name}</span>
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        {set.productCount} products · {set.nodePaths.length} {set.nodePaths.length === 1 ? 'category' : 'categories'}
+                      </Badge>
+                    </div>
+                    <AttributeChips required={set.required} optional={set.optional} shared={attributeSets.sharedHeaders} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Tree */}
           <div className="border rounded-lg p-4 bg-background max-h-[600px] overflow-y-auto">
             {tree.name === 'Root' && tree.children.length > 0 ? (
               tree.children.map((child, index) => (
-                <TreeNode key={`${child.name}-${index}`} node={child} depth={0} />
+                <TreeNode
+                  key={`${child.name}-${index}`}
+                  node={child}
+                  depth={0}
+                  path={[child.name]}
+                  attributeSets={attributeSets}
+                />
               ))
             ) : (
-              <TreeNode node={tree} depth={0} />
+              <TreeNode node={tree} depth={0} path={[]} />
             )}
           </div>
 
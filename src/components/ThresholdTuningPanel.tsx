@@ -0,0 +1,378 @@
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChevronDown, ChevronRight, Gauge, RefreshCw, RotateCcw, ArrowRight, AlertTriangle } from 'lucide-react';
+import { CardinalityScore } from '@/types';
+import { AnalysisConfig, validateAnalysisConfig } from '@/utils/analysisConfig';
+import { previewHierarchy, rescoreCardinality } from '@/utils/analysisEngine';
+import { diffLevelAssignments } from '@/utils/hierarchyEditing';
+
+interface ThresholdTuningPanelProps {
+  headers: string[];
+  data: unknown[][];
+  cardinalityScores: CardinalityScore[];
+  config: AnalysisConfig;
+  forcedSkuHeaders?: string[];
+  onApply: (config: AnalysisConfig) => void;
+  disabled?: boolean;
+}
+
+type SliderSection = 'thresholds' | 'scoring' | 'levels';
+
+interface SliderSpec {
+  section: SliderSection;
+  key: string;
+  label: string;
+  hint: string;
+}
+
+// Level and completeness cutoffs decide the hierarchy - the preview diff follows them
+const LEVEL_SLIDER_GROUPS: { title: string; sliders: SliderSpec[] }[] = [
+  {
+    title: 'Level cutoffs',
+    sliders: [
+      { section: 'levels', key: 'level1MaxCardinality', label: 'Level 1 max cardinality', hint: 'Higher = more parent candidates' },
+      { section: 'levels', key: 'level2MaxCardinality', label: 'Level 2 max cardinality', hint: 'At or above = SKU-level' },
+    ],
+  },
+  {
+    title: 'Completeness cutoffs',
+    sliders: [
+      { section: 'levels', key: 'level1MinCompleteness', label: 'Level 1 min completeness', hint: 'Share of rows filled' },
+      { section: 'levels', key: 'level2MinCompleteness', label: 'Level 2 min completeness', hint: 'Below = SKU-level' },
+      { section: 'scoring', key: 'highCompleteness', label: 'Dense column', hint: 'At or above = scored by cardinality' },
+      { section: 'scoring', key: 'mediumCompleteness', label: 'Sparse column', hint: 'Below = sparse attribute' },
+    ],
+  },
+];
+
+// Cardinality thresholds only drive the Level 1/2/3 classification shown in Data Pattern Analysis
+const CLASSIFICATION_SLIDERS: SliderSpec[] = [
+  { section: 'thresholds', key: 'parent', label: 'Parent', hint: 'At or below = Parent (Level 1)' },
+  { section: 'thresholds', key: 'childrenMin', label: 'Children start', hint: 'From here = Child/Variant' },
+  { section: 'thresholds', key: 'childrenMax', label: 'Children end', hint: 'Upper bound of the child band' },
+  { section: 'thresholds', key: 'sku', label: 'SKU', hint: 'At or above = SKU/Attribute' },
+];
+
+const PREVIEW_DELAY_MS = 250; // Recompute the preview once sliders settle
+const LEVEL_COLORS = ['#3b82f6', '#22c55e', '#eab308', '#f97316']; // Match HierarchyProposal
+const SKU_COLOR = '#ef4444';
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const ThresholdTuningPanel = ({
+  headers,
+  data,
+  cardinalityScores,
+  config,
+  forcedSkuHeaders,
+  onApply,
+  disabled,
+}: ThresholdTuningPanelProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [draft, setDraft] = useState<AnalysisConfig>(config);
+  const [previewConfig, setPreviewConfig] = useState<AnalysisConfig>(config);
+
+  // A new analysis resets the draft
+  useEffect(() => {
+    setDraft(config);
+    setPreviewConfig(config);
+  }, [config]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewConfig(draft), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft]);
+
+  const errors = useMemo(() => validateAnalysisConfig(draft), [draft]);
+  const previewErrors = useMemo(() => validateAnalysisConfig(previewConfig), [previewConfig]);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(config);
+  const isDependencyMode = config.hierarchyMode === 'dependency';
+
+  // Baseline: the automatic hierarchy under the applied config (presets and edits are not thresholds)
+  const baseline = useMemo(
+    () => (isExpanded ? previewHierarchy(headers, data, cardinalityScores, config, forcedSkuHeaders) : []),
+    [isExpanded, headers, data, cardinalityScores, config, forcedSkuHeaders]
+  );
+
+  const preview = useMemo(() => {
+    if (!isExpanded || previewErrors.length > 0) return baseline;
+    if (previewConfig === config) return baseline;
+    return previewHierarchy(headers, data, cardinalityScores, previewConfig, forcedSkuHeaders);
+  }, [isExpanded, previewErrors, previewConfig, config, baseline, headers, data, cardinalityScores, forcedSkuHeaders]);
+
+  const changes = useMemo(() => diffLevelAssignments(baseline, preview), [baseline, preview]);
+
+  const classificationChanges = useMemo(() => {
+    if (previewErrors.length > 0) return 0;
+    const rescored = rescoreCardinality(cardinalityScores, previewConfig);
+    return rescored.filter((score, i) => score.classification !== cardinalityScores[i].classification).length;
+  }, [cardinalityScores, previewConfig, previewErrors]);
+
+  // One scatter series per preview level so colors match the hierarchy display
+  const scatterSeries = useMemo(() => {
+    const scoreByHeader = new Map(cardinalityScores.map(s => [s.header, s]));
+    return preview.map((level, index) => {
+      const isSkuLevel = index === preview.length - 1 && preview.length > 1;
+      const levelHeaders = [level.recordId, level.recordName, ...level.headers].filter(Boolean) as string[];
+      return {
+        name: `Level ${level.level}: ${level.name}`,
+        color: isSkuLevel ? SKU_COLOR : LEVEL_COLORS[index % LEVEL_COLORS.length],
+        points: levelHeaders
+          .map(header => scoreByHeader.get(header))
+          .filter(Boolean)
+          .map(score => ({
+            header: score!.header,
+            cardinality: score!.cardinality,
+            completeness: score!.completeness,
+          })),
+      };
+    });
+  }, [preview, cardinalityScores]);
+
+  const updateDraft = (section: SliderSection, key: string, value: number) => {
+    setDraft(prev => ({
+      ...prev,
+      profile: 'custom',
+      [section]: { ...prev[section], [key]: value },
+    }));
+  };
+
+  const getValue = (spec: SliderSpec): number =>
+    (draft[spec.section] as Record<string, number>)[spec.key];
+
+  const renderSlider = (spec: SliderSpec) => (
+    <div key={`${spec.section}.${spec.key}`} className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{spec.label}</Label>
+        <span className="text-sm font-mono">{formatPercent(getValue(spec))}</span>
+      </div>
+      <Slider
+        min={0}
+        max={1}
+        step={0.01}
+        value={[getValue(spec)]}
+        onValueChange={([value]) => updateDraft(spec.section, spec.key, value)}
+        disabled={disabled}
+      />
+      <p className="text-xs text-muted-foreground">{spec.hint}</p>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <Card className="p-6 shadow-elevated">
+        <div className="space-y-6">
+          <div
+            className="cursor-pointer"
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-semibold flex items-center gap-2">
+                {isExpanded ? <ChevronDown className="w-6 h-6" /> : <ChevronRight className="w-6 h-6" />}
+                <Gauge className="w-6 h-6 text-primary" />
+                Threshold Tuning
+              </h2>
+              <Badge variant="secondary" className="text-lg px-4 py-1">
+                {isExpanded ? `${changes.length} level changes` : `${config.profile} profile`}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-2">
+              Move the cutoffs and preview which properties change level before re-running the analysis
+            </p>
+          </div>
+
+          {isExpanded && (
+            <>
+              {isDependencyMode && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  Levels are currently built from functional dependencies. The preview shows the cardinality-based
+                  hierarchy; switch the detection mode back to cardinality for these thresholds to take effect.
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {LEVEL_SLIDER_GROUPS.map(group => (
+                  <div key={group.title} className="space-y-4">
+                    <h3 className="font-semibold">{group.title}</h3>
+                    {group.sliders.map(renderSlider)}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2 max-w-md">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm">Min properties per level</Label>
+                  <span className="text-sm font-mono">{draft.levels.minPropertiesPerLevel}</span>
+                </div>
+                <Slider
+                  min={1}
+                  max={20}
+                  step={1}
+                  value={[draft.levels.minPropertiesPerLevel]}
+                  onValueChange={([value]) => updateDraft('levels', 'minPropertiesPerLevel', value)}
+                  disabled={disabled}
+                />
+                <p className="text-xs text-muted-foreground">Smaller levels are merged into the next level</p>
+              </div>
+
+              <div className="space-y-4 p-4 rounded-lg border bg-muted/20">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Classification thresholds</h3>
+                  <Badge variant="outline" className="text-xs">
+                    {classificationChanges} classification changes
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  These only change the Level 1/2/3 classification in Data Pattern Analysis - the hierarchy
+                  preview and level changes follow the level and completeness cutoffs above.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                  {CLASSIFICATION_SLIDERS.map(renderSlider)}
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-sm text-destructive space-y-1">
+                  {errors.map(error => (
+                    <div key={error}>{error}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Cardinality vs completeness with the active cutoffs */}
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Cardinality vs. completeness</h3>
+                  <div className="h-[320px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis
+                          type="number"
+                          dataKey="cardinality"
+                          domain={[0, 1]}
+                          tickFormatter={formatPercent}
+                          label={{ value: 'Cardinality', position: 'insideBottom', offset: -10 }}
+                        />
+                        <YAxis
+                          type="number"
+                          dataKey="completeness"
+                          domain={[0, 1]}
+                          tickFormatter={formatPercent}
+                          label={{ value: 'Completeness', angle: -90, position: 'insideLeft' }}
+                        />
+                        <ZAxis range={[50, 50]} />
+                        <Tooltip
+                          cursor={{ strokeDasharray: '3 3' }}
+                          content={({ payload }) => {
+                            const point = payload?.[0]?.payload;
+                            if (!point) return null;
+                            return (
+                              <div className="rounded-md border bg-background p-2 text-xs shadow-md">
+                                <div className="font-semibold">{point.header}</div>
+                                <div>Cardinality: {formatPercent(point.cardinality)}</div>
+                                <div>Completeness: {formatPercent(point.completeness)}</div>
+                              </div>
+                            );
+                          }}
+                        />
+                        <ReferenceLine x={draft.thresholds.parent} stroke={LEVEL_COLORS[0]} strokeDasharray="4 4" />
+                        <ReferenceLine x={draft.thresholds.childrenMin} stroke={LEVEL_COLORS[1]} strokeDasharray="4 4" />
+                        <ReferenceLine x={draft.thresholds.childrenMax} stroke={LEVEL_COLORS[1]} strokeDasharray="4 4" />
+                        <ReferenceLine x={draft.thresholds.sku} stroke={SKU_COLOR} strokeDasharray="4 4" />
+                        <ReferenceLine x={draft.levels.level1MaxCardinality} stroke={LEVEL_COLORS[0]} />
+                        <ReferenceLine x={draft.levels.level2MaxCardinality} stroke={LEVEL_COLORS[1]} />
+                        <ReferenceLine y={draft.levels.level1MinCompleteness} stroke={LEVEL_COLORS[0]} />
+                        <ReferenceLine y={draft.levels.level2MinCompleteness} stroke={LEVEL_COLORS[1]} />
+                        {scatterSeries.map(series => (
+                          <Scatter key={series.name} name={series.name} data={series.points} fill={series.color} />
+                        ))}
+                      </ScatterChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    {scatterSeries.map(series => (
+                      <span key={series.name} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: series.color }} />
+                        {series.name}
+                      </span>
+                    ))}
+                    <span>Solid: level and completeness cutoffs · Dashed: classification thresholds</span>
+                  </div>
+                </div>
+
+                {/* Live diff against the applied config */}
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Level changes</h3>
+                  {changes.length === 0 ? (
+                    <div className="p-6 text-center bg-muted/30 rounded-lg border border-dashed text-sm text-muted-foreground">
+                      {isDirty ? 'These settings keep every property in its current level.' : 'Move a slider to preview changes.'}
+                    </div>
+                  ) : (
+                    <ScrollArea className="h-[320px] rounded-lg border p-3 bg-muted/20">
+                      <div className="space-y-2">
+                        {changes.map(change => (
+                          <div key={change.header} className="flex items-center gap-2 text-sm">
+                            <span className="font-medium flex-1 truncate" title={change.header}>{change.header}</span>
+                            <Badge variant="secondary" className="text-xs">
+                              {change.from ? change.from.name : 'Unassigned'}
+                            </Badge>
+                            <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0" />
+                            <Badge variant="secondary" className="text-xs">
+                              {change.to ? change.to.name : 'Unassigned'}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {baseline.length} → {preview.length} levels
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4 border-t">
+                <Button variant="ghost" className="gap-2" onClick={() => setDraft(config)} disabled={!isDirty}>
+                  <RotateCcw className="w-4 h-4" />
+                  Reset
+                </Button>
+                <Button
+                  onClick={() => onApply(draft)}
+                  disabled={!isDirty || errors.length > 0 || disabled}
+                  className="gap-2 bg-gradient-primary"
+                  size="lg"
+                >
+                  <RefreshCw className="w-5 h-5" />
+                  Apply & Rerun Analysis
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </Card>
+    </motion.div>
+  );
+};
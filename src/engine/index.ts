@@ -0,0 +1,76 @@
+// UI-free entry point: the analysis engine without React, the DOM or browser downloads.
+// Used by the Node CLI (src/cli) and built as dist-lib/engine.js for scripts.
+
+export type { CardinalityScore, GeneratedIdMode, GeneratedKeyConfig, HierarchyLevel } from '@/types';
+
+// Analysis
+export {
+  analyzeProductData,
+  detectMixedModel,
+  findItemLevelKeywords,
+  getAxisHeaders,
+  withHierarchy,
+  ANALYSIS_STAGES,
+} from '@/utils/analysisEngine';
+export type {
+  AnalysisResult,
+  AnalysisStage,
+  PropertyRecommendation,
+  HierarchyAlternative,
+  RecordIdNameSuggestion,
+  MixedModelSuggestion,
+  ProductModelType,
+  StandaloneProduct,
+} from '@/utils/analysisEngine';
+export { runAnalysisPipeline } from '@/utils/analysisPipeline';
+export type { AnalysisPipelineInput, AnalysisPipelineOutput } from '@/utils/analysisPipeline';
+export {
+  ANALYSIS_PROFILES,
+  DEFAULT_ANALYSIS_CONFIG,
+  createAnalysisConfig,
+  parseAnalysisConfig,
+  validateAnalysisConfig,
+} from '@/utils/analysisConfig';
+export type { AnalysisConfig, AnalysisConfigOverrides, AnalysisProfileName } from '@/utils/analysisConfig';
+
+// Validation and taxonomy
+export { validateData } from '@/utils/dataValidation';
+export type { DataValidationWarning, ValidationResult } from '@/utils/dataValidation';
+export { buildTaxonomyTree, buildCustomTaxonomyTree, treeToAscii } from '@/utils/exportReport';
+export type { TaxonomyTreeNode, CustomTaxonomyConfig } from '@/utils/exportReport';
+export { analyzeAttributeSets, getNodePathKey } from '@/utils/attributeSets';
+export type { AttributeSet, AttributeSetAnalysis, NodeAttributeProfile } from '@/utils/attributeSets';
+export { detectVariantAxes } from '@/utils/variantAxes';
+export type { AxisCombinationIssue, LevelVariantAxes, VariantAxisReport } from '@/utils/variantAxes';
+export {
+  addGeneratedKeyColumns,
+  applyGeneratedKey,
+  removeGeneratedKey,
+  suggestKeyTemplate,
+  hashKey,
+} from '@/utils/generatedKeys';
+export type { GeneratedKeyCheck, KeyTemplate, KeyedTable } from '@/utils/generatedKeys';
+export { PLACEMENT_RULE_LABELS, isMovedAfterAnalysis } from '@/utils/placementTrace';
+export type { PlacementLevel, PlacementRule, PlacementStep, PlacementTrace } from '@/utils/placementTrace';
+
+// Reports
+export {
+  generateExportReport,
+  EXPORT_REPORT_SCHEMA_VERSION,
+  EXPORT_REPORT_SCHEMA_URL,
+} from '@/utils/exportReport';
+export type { ExportReport, ExportReportContext } from '@/utils/exportReport';
+export { buildDataModelWorkbook, createDataModelXlsx } from '@/utils/dataModelExport';
+export { buildPDFReport } from '@/utils/pdfExport';
+export { buildProductModelSubset, describeStandaloneReason } from '@/utils/productModelExport';
+
+// Files and batch runs
+export { readTableFile, isTableFile, TABLE_FILE_EXTENSIONS } from '@/utils/tableFile';
+export type { TableFile } from '@/utils/tableFile';
+export {
+  analyzeTable,
+  renderAnalysisOutput,
+  getOutputFileName,
+  ANALYSIS_OUTPUT_FORMATS,
+} from '@/utils/headlessAnalysis';
+export type { AnalysisOutputFormat, TableAnalysis } from '@/utils/headlessAnalysis';
@@ -0,0 +1,94 @@
+import * as React from "react";
+import { AnalysisPipelineInput, AnalysisPipelineOutput, runAnalysisPipeline } from "@/utils/analysisPipeline";
+import { AnalysisProgressMessage, AnalysisWorkerRequest, AnalysisWorkerResponse } from "@/workers/analysisProtocol";
+
+interface PendingRun {
+  requestId: number;
+  resolve: (output: AnalysisPipelineOutput | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs the analysis pipeline in a Web Worker. `run` resolves with null when the
+ * run is cancelled or superseded by a newer run.
+ */
+export function useAnalysisWorker() {
+  const workerRef = React.useRef<Worker | null>(null);
+  const pendingRef = React.useRef<PendingRun | null>(null);
+  const requestIdRef = React.useRef(0);
+  const [progress, setProgress] = React.useState<AnalysisProgressMessage | null>(null);
+  const [isRunning, setIsRunning] = React.useState(false);
+
+  const finish = React.useCallback(() => {
+    pendingRef.current = null;
+    setProgress(null);
+    setIsRunning(false);
+  }, []);
+
+  const stopWorker = React.useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const getWorker = React.useCallback((): Worker => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = new Worker(new URL("../workers/analysisWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      const pending = pendingRef.current;
+      if (!pending || pending.requestId !== message.requestId) return;
+
+      if (message.type === "progress") {
+        setProgress(message);
+      } else if (message.type === "result") {
+        console.log(`⚙️ Analysis worker finished in ${Math.round(message.durationMs)}ms`);
+        pending.resolve(message.output);
+        finish();
+      } else {
+        pending.reject(new Error(message.message));
+        finish();
+      }
+    };
+    worker.onerror = (event) => {
+      pendingRef.current?.reject(new Error(event.message || "Analysis worker failed"));
+      finish();
+      stopWorker();
+    };
+
+    workerRef.current = worker;
+    return worker;
+  }, [finish, stopWorker]);
+
+  // The pipeline is synchronous inside the worker, so cancelling means terminating it
+  const cancel = React.useCallback(() => {
+    if (!pendingRef.current) return;
+    stopWorker();
+    pendingRef.current.resolve(null);
+    finish();
+  }, [finish, stopWorker]);
+
+  const run = React.useCallback((input: AnalysisPipelineInput): Promise<AnalysisPipelineOutput | null> => {
+    cancel();
+
+    // Fallback for environments without worker support - errors reject, as on the worker route
+    if (typeof Worker === "undefined") {
+      return new Promise(resolve => resolve(runAnalysisPipeline(input)));
+    }
+
+    const requestId = ++requestIdRef.current;
+    const worker = getWorker();
+    setIsRunning(true);
+    setProgress(null);
+
+    return new Promise((resolve, reject) => {
+      pendingRef.current = { requestId, resolve, reject };
+      const request: AnalysisWorkerRequest = { type: "analyze", requestId, input };
+      worker.postMessage(request);
+    });
+  }, [cancel, getWorker]);
+
+  React.useEffect(() => stopWorker, [stopWorker]);
+
+  return { run, cancel, progress, isRunning };
+}
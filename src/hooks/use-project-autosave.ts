@@ -0,0 +1,46 @@
+import * as React from "react";
+import { AnalysisProject } from "@/utils/projectFile";
+import { clearAutosavedProject, loadAutosavedProject, saveAutosavedProject } from "@/utils/projectStorage";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Autosaves the current project to IndexedDB (debounced) and exposes the autosave found
+ * at startup so it can be restored. Pass null while there is nothing worth saving.
+ */
+export function useProjectAutosave(project: AnalysisProject | null) {
+  const [restorable, setRestorable] = React.useState<AnalysisProject | null>(null);
+  const [lastSavedAt, setLastSavedAt] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let active = true;
+    loadAutosavedProject()
+      .then((saved) => {
+        if (active) setRestorable(saved);
+      })
+      .catch((error) => console.warn("⚠️ Autosave unavailable:", error));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  React.useEffect(() => {
+    if (!project) return;
+    // New work replaces the old autosave, so it is no longer offered
+    setRestorable(null);
+
+    const timer = window.setTimeout(() => {
+      saveAutosavedProject(project)
+        .then(() => setLastSavedAt(project.savedAt))
+        .catch((error) => console.warn("⚠️ Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [project]);
+
+  const discard = React.useCallback(() => {
+    setRestorable(null);
+    clearAutosavedProject().catch((error) => console.warn("⚠️ Could not clear autosave:", error));
+  }, []);
+
+  return { restorable, lastSavedAt, discard };
+}
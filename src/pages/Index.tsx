@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import * as XLSX from 'xlsx';
 import { FileUpload } from '@/components/FileUpload';
@@ -13,12 +13,49 @@ import { DataValidationWarnings } from '@/components/DataValidationWarnings';
 import { BestPracticesRecommendations } from '@/components/BestPracticesRecommendations';
 import { PresetSelector } from '@/components/PresetSelector';
 import { SkuLevelForcing } from '@/components/SkuLevelForcing';
-import { analyzeProductData, AnalysisResult } from '@/utils/analysisEngine';
-import { generateExportReport, buildTaxonomyTree, buildCustomTaxonomyTree } from '@/utils/exportReport';
+import { HierarchyEditor } from '@/components/HierarchyEditor';
+import { ThresholdTuningPanel } from '@/components/ThresholdTuningPanel';
+import { DelimitedTextImport } from '@/components/DelimitedTextImport';
+import { SheetSelector } from '@/components/SheetSelector';
+import { HeaderRangeConfirmation } from '@/components/HeaderRangeConfirmation';
+import { LongFormatPivot } from '@/components/LongFormatPivot';
+import { FunctionalDependencyReport } from '@/components/FunctionalDependencyReport';
+import { AnalysisProgress } from '@/components/AnalysisProgress';
+import { AnalysisProfileSelector } from '@/components/AnalysisProfileSelector';
+import { ProjectRestore } from '@/components/ProjectRestore';
+import { AnalysisComparison } from '@/components/AnalysisComparison';
+import { MixedModelReview } from '@/components/MixedModelReview';
+import { ParentKeyGenerator } from '@/components/ParentKeyGenerator';
+import { AnalysisResult, ProductModelType, withHierarchy } from '@/utils/analysisEngine';
+import { HierarchyLevel } from '@/types';
+import { downloadExportReport, buildTaxonomyTree, buildCustomTaxonomyTree } from '@/utils/exportReport';
 import { validateData } from '@/utils/dataValidation';
 import { generatePDFReport } from '@/utils/pdfExport';
+import { downloadSalsifyImport } from '@/utils/salsifyExport';
+import { AkeneoFileFormat, downloadAkeneoImport } from '@/utils/akeneoExport';
+import { downloadShopifyExport } from '@/utils/shopifyExport';
+import { downloadDataModelWorkbook } from '@/utils/dataModelExport';
+import { LevelRecordFileFormat, downloadLevelRecordExport } from '@/utils/levelRecordExport';
+import { ProductModelFileFormat, downloadProductModelSubset } from '@/utils/productModelExport';
+import { analyzeAttributeSets } from '@/utils/attributeSets';
+import { KeyTemplate, addGeneratedKeyColumns, applyGeneratedKey, removeGeneratedKey, syncGeneratedKeys } from '@/utils/generatedKeys';
+import {
+  DelimitedTextDetection,
+  isDelimitedTextFile,
+  detectDelimitedTextOptions,
+  describeDelimiter,
+} from '@/utils/delimitedTextParser';
+import { SheetTable, extractSheetTables } from '@/utils/sheetJoin';
+import { HeaderRangeDetection, detectHeaderRange } from '@/utils/headerDetection';
+import { LongFormatDetection, LongFormatPivotResult, detectLongFormat } from '@/utils/longFormatPivot';
+import { HierarchyDetectionMode } from '@/utils/functionalDependencies';
+import { AnalysisConfig, DEFAULT_ANALYSIS_CONFIG } from '@/utils/analysisConfig';
+import { AnalysisProject, createProject, downloadProject, isProjectFile, parseProjectFile } from '@/utils/projectFile';
+import { AnalysisSnapshot } from '@/utils/analysisDiff';
 import { useToast } from '@/hooks/use-toast';
-import { Download, CheckCircle2, XCircle, Play, FileText } from 'lucide-react';
+import { useAnalysisWorker } from '@/hooks/use-analysis-worker';
+import { useProjectAutosave } from '@/hooks/use-project-autosave';
+import { Download, CheckCircle2, XCircle, Play, FileText, FileSpreadsheet, FileJson, Repeat, Save, GitCompare } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
@@ -42,80 +79,289 @@ const Index = () => {
   const [forcedSkuHeaders, setForcedSkuHeaders] = useState<string[]>([]);
   const [selectedPreset, setSelectedPreset] = useState<any>(null);
   const [taxonomyConfig, setTaxonomyConfig] = useState<TaxonomyConfig | null>(null);
+  const [pendingTextImport, setPendingTextImport] = useState<{
+    uploadId: number; // Per upload, so re-uploading a file of the same name starts from the new sniffed defaults
+    fileName: string;
+    buffer: ArrayBuffer;
+    detected: DelimitedTextDetection;
+  } | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    uploadId: number; // Per upload, so re-uploading a workbook of the same name starts from the new sheets
+    fileName: string;
+    sheets: SheetTable[];
+  } | null>(null);
+  const [longFormatDetection, setLongFormatDetection] = useState<LongFormatDetection | null>(null);
+  const [showLongFormatPivot, setShowLongFormatPivot] = useState(false);
+  const [analysisConfig, setAnalysisConfig] = useState<AnalysisConfig>(DEFAULT_ANALYSIS_CONFIG);
+  const [pendingHeaderRange, setPendingHeaderRange] = useState<{
+    uploadId: number; // Per upload, so re-ingesting the same file or sheet starts from the newly detected range
+    sourceLabel: string;
+    rows: unknown[][];
+    detected: HeaderRangeDetection;
+  } | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [showComparison, setShowComparison] = useState(false);
   const { toast } = useToast();
+  const analysisWorker = useAnalysisWorker();
+
+  // Snapshot of everything needed to reopen this screen - autosaved while data is loaded
+  const currentProject = useMemo<AnalysisProject | null>(() => {
+    if (data.length === 0 || analysisWorker.isRunning) return null;
+    return createProject(projectName || 'Untitled project', {
+      allHeaders,
+      selectedHeaders,
+      headers,
+      data,
+      showHeaderSelection,
+      analysisConfig,
+      forcedSkuHeaders,
+      selectedPreset,
+      taxonomyConfig,
+      analysisResult,
+      taxonomyTree,
+      validationResult,
+    });
+  }, [
+    projectName, allHeaders, selectedHeaders, headers, data, showHeaderSelection, analysisConfig,
+    forcedSkuHeaders, selectedPreset, taxonomyConfig, analysisResult, taxonomyTree, validationResult,
+    analysisWorker.isRunning,
+  ]);
+  const autosave = useProjectAutosave(currentProject);
+
+  // The analysis on screen, offered as one side of a comparison
+  const currentSnapshot = useMemo<AnalysisSnapshot | null>(() => {
+    if (!analysisResult) return null;
+    return { label: projectName || 'Current analysis', analysisResult, taxonomyTree, rowCount: data.length };
+  }, [projectName, analysisResult, taxonomyTree, data.length]);
+
+  // Source table plus the virtual columns of generated parent keys - what every export reads
+  const keyedTable = useMemo(
+    () => addGeneratedKeyColumns(analysisResult?.hierarchy ?? [], headers, data),
+    [analysisResult?.hierarchy, headers, data]
+  );
+
+  // Attribute completeness per taxonomy node - follows the tree shown (custom or automatic)
+  const attributeSets = useMemo(() => {
+    if (!taxonomyTree) return null;
+    const taxonomyProperties = taxonomyConfig && taxonomyConfig.levels.length > 0
+      ? taxonomyConfig.levels.map(level => level.property)
+      : taxonomyTree.taxonomyProperties || [];
+    return taxonomyProperties.length > 0 ? analyzeAttributeSets(taxonomyProperties, headers, data) : null;
+  }, [taxonomyTree, taxonomyConfig, headers, data]);
+
+  // Shared loader for every input format: rows[0] is the header row
+  const loadTableRows = (jsonData: unknown[][], sourceLabel?: string) => {
+    if (jsonData.length < 2) {
+      toast({
+        title: 'Invalid File',
+        description: 'The file must contain at least a header row and one data row.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const extractedHeaders = (jsonData[0] as string[]).map(h => 
+      h ? h.toString().trim() : ''
+    );
+    
+    // CRITICAL: Filter out completely empty rows from Excel (trailing empty rows)
+    const rawData = jsonData.slice(1);
+    const extractedData = rawData.filter((row: unknown[]) => 
+      row && row.some(cell => cell !== null && cell !== undefined && String(cell).trim() !== '')
+    );
+    
+    console.log(`📊 Data loaded: ${rawData.length} raw rows → ${extractedData.length} non-empty rows`);
+    
+    // Check for duplicate headers and warn user with details
+    const headerPositions = new Map<string, number[]>();
+    extractedHeaders.forEach((h, idx) => {
+      if (!headerPositions.has(h)) {
+        headerPositions.set(h, []);
+      }
+      headerPositions.get(h)!.push(idx + 1); // 1-indexed for user
+    });
+    
+    const duplicates = Array.from(headerPositions.entries()).filter(([_, positions]) => positions.length > 1);
+    if (duplicates.length > 0) {
+      const duplicateDetails = duplicates.map(([name, positions]) => 
+        `"${name}" in columns ${positions.join(', ')}`
+      ).join(' | ');
+      
+      toast({
+        title: `⚠️ ${duplicates.length} Duplicate Column Name${duplicates.length > 1 ? 's' : ''} Detected`,
+        description: `${duplicateDetails}. Only the first occurrence of each will be analyzed. Please fix the Excel file for complete analysis.`,
+        variant: 'destructive',
+      });
+      console.warn('⚠️ Duplicate headers detected:', duplicates);
+    }
+
+    // EAV exports (SKU, Attribute, Value, UoM) need pivoting before analysis
+    const longFormat = detectLongFormat(extractedHeaders, extractedData);
+    setLongFormatDetection(longFormat);
+    setShowLongFormatPivot(longFormat.isLongFormat);
+
+    // Store all headers and data, show header selection
+    setProjectName(sourceLabel || 'Untitled project');
+    setAllHeaders(extractedHeaders);
+    setData(extractedData);
+    setShowHeaderSelection(true);
+    setAnalysisResult(null);
+
+    toast({
+      title: 'File Loaded',
+      description: sourceLabel
+        ? `Loaded "${sourceLabel}". Select the columns you want to analyze.`
+        : 'Select the columns you want to analyze.',
+    });
+  };
 
   const handleFileUpload = async (file: File) => {
     try {
       const arrayBuffer = await file.arrayBuffer();
+      setPendingTextImport(null);
+      setPendingWorkbook(null);
+      setPendingHeaderRange(null);
+
+      // Saved projects reopen the analysis screen instead of importing data
+      if (isProjectFile(file.name)) {
+        applyProject(await parseProjectFile(arrayBuffer));
+        return;
+      }
+
+      // CSV/TSV/TXT: sniff the dialect and let the user confirm it before loading
+      if (isDelimitedTextFile(file.name)) {
+        const detected = detectDelimitedTextOptions(arrayBuffer, file.name);
+        console.log(`📄 Delimited text detected: encoding=${detected.encoding}, delimiter=${describeDelimiter(detected.delimiter)}, header=${detected.hasHeader}`);
+        setPendingTextImport({ uploadId: Date.now(), fileName: file.name, buffer: arrayBuffer, detected });
+        setShowHeaderSelection(false);
+        setAnalysisResult(null);
+        return;
+      }
+
       const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-      const firstSheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[firstSheetName];
-      const jsonData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-      if (jsonData.length < 2) {
-        toast({
-          title: 'Invalid File',
-          description: 'The file must contain at least a header row and one data row.',
-          variant: 'destructive',
-        });
+      const sheets = extractSheetTables(workbook);
+
+      // Several non-empty sheets: let the user pick one or join them on a key
+      if (sheets.length > 1) {
+        console.log(`📑 Workbook has ${sheets.length} sheets: ${sheets.map(s => s.name).join(', ')}`);
+        setPendingWorkbook({ uploadId: Date.now(), fileName: file.name, sheets });
+        setShowHeaderSelection(false);
+        setAnalysisResult(null);
         return;
       }
 
-      const extractedHeaders = (jsonData[0] as string[]).map(h => 
-        h ? h.toString().trim() : ''
-      );
-      
-      // CRITICAL: Filter out completely empty rows from Excel (trailing empty rows)
-      const rawData = jsonData.slice(1);
-      const extractedData = rawData.filter((row: any[]) => 
-        row && row.some(cell => cell !== null && cell !== undefined && String(cell).trim() !== '')
-      );
-      
-      console.log(`📊 Data loaded: ${rawData.length} raw rows → ${extractedData.length} non-empty rows`);
-      
-      // Check for duplicate headers and warn user with details
-      const headerPositions = new Map<string, number[]>();
-      extractedHeaders.forEach((h, idx) => {
-        if (!headerPositions.has(h)) {
-          headerPositions.set(h, []);
-        }
-        headerPositions.get(h)!.push(idx + 1); // 1-indexed for user
-      });
-      
-      const duplicates = Array.from(headerPositions.entries()).filter(([_, positions]) => positions.length > 1);
-      if (duplicates.length > 0) {
-        const duplicateDetails = duplicates.map(([name, positions]) => 
-          `"${name}" in columns ${positions.join(', ')}`
-        ).join(' | ');
-        
-        toast({
-          title: `⚠️ ${duplicates.length} Duplicate Column Name${duplicates.length > 1 ? 's' : ''} Detected`,
-          description: `${duplicateDetails}. Only the first occurrence of each will be analyzed. Please fix the Excel file for complete analysis.`,
-          variant: 'destructive',
-        });
-        console.warn('⚠️ Duplicate headers detected:', duplicates);
+      if (sheets.length === 1) {
+        handleSheetSelect(sheets[0]);
+      } else {
+        loadTableRows([]);
       }
+    } catch (error) {
+      console.error('Error processing file:', error);
+      toast({
+        title: 'Error',
+        description: isProjectFile(file.name) && error instanceof Error
+          ? error.message
+          : 'Failed to process the file. Please ensure it is a valid Excel, CSV or TSV file.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Restores every piece of state a project captured - no re-analysis, so manual edits survive
+  const applyProject = (project: AnalysisProject) => {
+    const { state } = project;
+    analysisWorker.cancel();
+    setPendingTextImport(null);
+    setPendingWorkbook(null);
+    setPendingHeaderRange(null);
 
-      // Store all headers and data, show header selection
-      setAllHeaders(extractedHeaders);
-      setData(extractedData);
-      setShowHeaderSelection(true);
-      setAnalysisResult(null);
+    setProjectName(project.name);
+    setAllHeaders(state.allHeaders);
+    setSelectedHeaders(state.selectedHeaders);
+    setHeaders(state.headers);
+    setData(state.data);
+    setShowHeaderSelection(state.showHeaderSelection);
+    const longFormat = state.showHeaderSelection ? detectLongFormat(state.allHeaders, state.data) : null;
+    setLongFormatDetection(longFormat);
+    setShowLongFormatPivot(false);
+    setAnalysisConfig(state.analysisConfig);
+    setForcedSkuHeaders(state.forcedSkuHeaders);
+    setSelectedPreset(state.selectedPreset);
+    setTaxonomyConfig(state.taxonomyConfig);
+    setAnalysisResult(state.analysisResult);
+    setTaxonomyTree(state.taxonomyTree);
+    setValidationResult(state.validationResult);
 
+    toast({
+      title: 'Project Restored',
+      description: `"${project.name}" from ${new Date(project.savedAt).toLocaleString()} - ${state.data.length} rows.`,
+    });
+  };
+
+  const handleSaveProject = async () => {
+    if (!currentProject) return;
+
+    try {
+      await downloadProject(currentProject);
       toast({
-        title: 'File Loaded',
-        description: 'Select the columns you want to analyze.',
+        title: 'Project Saved',
+        description: `Reopen the .taxproj file with the file upload to continue where you left off.`,
       });
     } catch (error) {
-      console.error('Error processing file:', error);
+      console.error('Project save error:', error);
       toast({
-        title: 'Error',
-        description: 'Failed to process the file. Please ensure it is a valid Excel file.',
+        title: 'Project Save Failed',
+        description: error instanceof Error ? error.message : 'There was an error saving the project.',
         variant: 'destructive',
       });
     }
   };
 
+  // Rows whose header is not a single row at the top go through range confirmation first
+  const ingestRows = (rows: unknown[][], sourceLabel: string, detected: HeaderRangeDetection = detectHeaderRange(rows)) => {
+    if (detected.isDefault) {
+      loadTableRows(rows, sourceLabel);
+      return;
+    }
+    setPendingHeaderRange({ uploadId: Date.now(), sourceLabel, rows, detected });
+    setShowHeaderSelection(false);
+    setAnalysisResult(null);
+  };
+
+  const handleTextImportConfirm = (rows: string[][]) => {
+    const fileName = pendingTextImport?.fileName || 'Text file';
+    setPendingTextImport(null);
+    ingestRows(rows, fileName);
+  };
+
+  const handleSheetSelect = (sheet: SheetTable) => {
+    setPendingWorkbook(null);
+    ingestRows(sheet.rawRows, sheet.name, sheet.headerRange);
+  };
+
+  const handleSheetJoin = (rows: unknown[][], sourceLabel: string) => {
+    setPendingWorkbook(null);
+    loadTableRows(rows, sourceLabel);
+  };
+
+  const handleLongFormatPivot = (result: LongFormatPivotResult) => {
+    setAllHeaders(result.headers);
+    setData(result.data);
+    setShowLongFormatPivot(false);
+    setLongFormatDetection(null);
+
+    toast({
+      title: 'Data Pivoted',
+      description: `${result.entityCount} items × ${result.attributeCount} attributes. Select the columns you want to analyze.`,
+    });
+  };
+
+  const handleHeaderRangeConfirm = (rows: unknown[][]) => {
+    const sourceLabel = pendingHeaderRange?.sourceLabel;
+    setPendingHeaderRange(null);
+    loadTableRows(rows, sourceLabel);
+  };
+
   const handleHeaderSelection = (selected: string[]) => {
     setSelectedHeaders(selected);
     setHeaders(selected);  // Only selected headers
@@ -133,43 +379,61 @@ const Index = () => {
     runAnalysis(selected, filteredData);
   };
 
-  const runAnalysis = (
+  const runAnalysis = async (
     headersToAnalyze: string[], 
     dataToAnalyze: any[][], 
-    customThresholds?: { parent: number; childrenMin: number; childrenMax: number; sku: number; minPropertiesPerLevel?: number },
-    selectedHeaders?: string[],  // Optional: user-selected headers for preference
+    config: AnalysisConfig = analysisConfig,
     forcedHeaders?: string[]  // Optional: user-forced SKU-level headers
   ) => {
-    // Perform analysis with ALL headers
+    // Perform analysis with ALL headers in the analysis worker (hierarchy, validation, taxonomy tree)
     // Pass forced headers to maintain user selections across threshold changes
-    const result = analyzeProductData(headersToAnalyze, dataToAnalyze, customThresholds, forcedHeaders);
-    setAnalysisResult(result);
+    try {
+      const output = await analysisWorker.run({
+        headers: headersToAnalyze,
+        data: dataToAnalyze,
+        allHeaders, // Original headers including duplicates
+        config,
+        forcedSkuHeaders: forcedHeaders,
+        taxonomyConfig,
+      });
+      if (!output) return; // Cancelled or replaced by a newer run
 
-    // Build taxonomy tree - use custom config if available, otherwise automatic
-    const tree = taxonomyConfig && taxonomyConfig.levels.length > 0
-      ? buildCustomTaxonomyTree(taxonomyConfig, dataToAnalyze, headersToAnalyze)
-      : buildTaxonomyTree(result.hierarchy, dataToAnalyze, headersToAnalyze);
-    setTaxonomyTree(tree);
+      setAnalysisResult(output.analysisResult);
+      setTaxonomyTree(output.taxonomyTree);
+      setValidationResult(output.validation);
 
-    // Validate data quality with Salsify compliance checks
-    // CRITICAL: Pass allHeaders to detect duplicate column names in original file
-    const hierarchyHeaders = result.hierarchy.flatMap(h => h.headers);
-    const validation = validateData(
-      headersToAnalyze, 
-      dataToAnalyze, 
-      hierarchyHeaders,
-      result.recordIdSuggestion || undefined,
-      result.recordNameSuggestion || undefined,
-      allHeaders // Original headers including duplicates
-    );
-    setValidationResult(validation);
+      toast({
+        title: 'Analysis Complete',
+        description: `Analyzed ${headersToAnalyze.length} attributes from ${dataToAnalyze.length} products.`,
+      });
+    } catch (error) {
+      console.error('Error running analysis:', error);
+      toast({
+        title: 'Analysis Failed',
+        description: error instanceof Error ? error.message : 'The analysis could not be completed.',
+        variant: 'destructive',
+      });
+    }
+  };
 
+  const handleCancelAnalysis = () => {
+    analysisWorker.cancel();
     toast({
-      title: 'Analysis Complete',
-      description: `Analyzed ${headersToAnalyze.length} attributes from ${dataToAnalyze.length} products.`,
+      title: 'Analysis Cancelled',
+      description: analysisResult ? 'The previous analysis results are kept.' : 'Run the analysis again when ready.',
     });
   };
 
+  const handleHierarchyModeChange = (mode: HierarchyDetectionMode) => {
+    handleAnalysisConfigChange({ ...analysisConfig, hierarchyMode: mode });
+  };
+
+  const handleAnalysisConfigChange = (config: AnalysisConfig) => {
+    setAnalysisConfig(config);
+    setSelectedPreset(null);
+    // Re-run with the new settings, keeping forced SKU-level headers
+    runAnalysis(headers, data, config, forcedSkuHeaders.length > 0 ? forcedSkuHeaders : undefined);
+  };
 
   const handleSkuLevelForcing = (forcedHeaders: string[]) => {
     if (!analysisResult || forcedHeaders.length === 0) return;
@@ -231,7 +495,7 @@ const Index = () => {
     // Minimum properties per level = 6 (same as analysis engine)
     // CRITICAL: NEVER lose data - all properties must be accounted for
     // ============================================================================
-    const MIN_PROPERTIES_PER_LEVEL = 6;
+    const MIN_PROPERTIES_PER_LEVEL = analysisResult.config.levels.minPropertiesPerLevel;
     let consolidatedHierarchy = [...currentHierarchy];
     let structureChanged = false;
     
@@ -333,10 +597,8 @@ const Index = () => {
         : 'Multi-Level';
     
     // Update analysis result with modified hierarchy
-    const updatedResult = {
-      ...analysisResult,
-      hierarchy: consolidatedHierarchy,
-    };
+    const keyed = addGeneratedKeyColumns(consolidatedHierarchy, headers, data);
+    const updatedResult = withHierarchy(analysisResult, consolidatedHierarchy, keyed.headers, keyed.data);
     
     setAnalysisResult(updatedResult);
     
@@ -348,7 +610,7 @@ const Index = () => {
     // Rebuild taxonomy tree with updated hierarchy
     const tree = taxonomyConfig && taxonomyConfig.levels.length > 0
       ? buildCustomTaxonomyTree(taxonomyConfig, data, headers)
-      : buildTaxonomyTree(consolidatedHierarchy, data, headers);
+      : buildTaxonomyTree(consolidatedHierarchy, keyed.data, keyed.headers);
     setTaxonomyTree(tree);
     
     // Revalidate data
@@ -357,7 +619,7 @@ const Index = () => {
     const hierarchyHeaders = consolidatedHierarchy.flatMap((h: any) => h.headers);
     const recordId = finalSkuLevel.recordId;
     const recordName = finalSkuLevel.recordName;
-    const validation = validateData(headers, data, hierarchyHeaders, recordId, recordName, allHeaders);
+    const validation = validateData(keyed.headers, keyed.data, hierarchyHeaders, recordId, recordName, allHeaders, consolidatedHierarchy);
     setValidationResult(validation);
     
     // Show appropriate toast message
@@ -374,6 +636,70 @@ const Index = () => {
     }
   };
 
+  const handleHierarchyEdit = (edits: HierarchyLevel[]) => {
+    if (!analysisResult) return;
+
+    // The edited hierarchy becomes the result hierarchy, so every export picks it up
+    // Generated keys whose Record ID/Name was replaced in the edit are dropped
+    const editedHierarchy = syncGeneratedKeys(analysisResult.hierarchy, edits);
+    const keyed = addGeneratedKeyColumns(editedHierarchy, headers, data);
+    setAnalysisResult(withHierarchy(analysisResult, editedHierarchy, keyed.headers, keyed.data));
+
+    // Rebuild taxonomy tree live - custom taxonomy configs do not depend on the hierarchy
+    if (!taxonomyConfig || taxonomyConfig.levels.length === 0) {
+      setTaxonomyTree(buildTaxonomyTree(editedHierarchy, keyed.data, keyed.headers));
+    }
+
+    // Revalidate data
+    // CRITICAL: Pass allHeaders to detect duplicate column names
+    const skuLevel = editedHierarchy[editedHierarchy.length - 1];
+    const validation = validateData(
+      keyed.headers,
+      keyed.data,
+      editedHierarchy.flatMap(h => h.headers),
+      skuLevel?.recordId,
+      skuLevel?.recordName,
+      allHeaders,
+      editedHierarchy
+    );
+    setValidationResult(validation);
+  };
+
+  const handleGenerateKey = (levelIndex: number, template: KeyTemplate) => {
+    if (!analysisResult) return;
+
+    try {
+      const updated = applyGeneratedKey(analysisResult.hierarchy, levelIndex, headers, template);
+      handleHierarchyEdit(updated);
+      const { checks } = addGeneratedKeyColumns(updated, headers, data);
+      const check = checks.find(c => c.idHeader === updated[levelIndex].generatedKey?.idHeader);
+
+      toast({
+        title: 'Record ID Generated',
+        description: check
+          ? `${check.keyCount} ${updated[levelIndex].name} IDs in "${check.idHeader}".${check.isUnique ? '' : ` ${check.collisionCount} collisions and ${check.parentConflictCount} IDs under several parents - refine the template.`}${check.blankRowCount > 0 ? ` ${check.blankRowCount} rows have an empty template value.` : ''}`
+          : `${updated[levelIndex].name} now uses a generated Record ID.`,
+        variant: check && !check.isUnique ? 'destructive' : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: 'Record ID Not Generated',
+        description: error instanceof Error ? error.message : 'The template could not be applied.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemoveKey = (levelIndex: number) => {
+    if (!analysisResult) return;
+    const levelName = analysisResult.hierarchy[levelIndex]?.name;
+    handleHierarchyEdit(removeGeneratedKey(analysisResult.hierarchy, levelIndex));
+    toast({
+      title: 'Generated Record ID Removed',
+      description: `${levelName} is back on its source Record ID column.`,
+    });
+  };
+
   const handleTaxonomyConfigChange = (config: TaxonomyConfig) => {
     setTaxonomyConfig(config);
     
@@ -381,7 +707,7 @@ const Index = () => {
     if (analysisResult && data.length > 0 && headers.length > 0) {
       const tree = config.levels.length > 0
         ? buildCustomTaxonomyTree(config, data, headers)
-        : buildTaxonomyTree(analysisResult.hierarchy, data, headers);
+        : buildTaxonomyTree(analysisResult.hierarchy, keyedTable.data, keyedTable.headers);
       setTaxonomyTree(tree);
       
       toast({
@@ -441,8 +767,7 @@ const Index = () => {
     
     // Update analysis result with deduplicated preset hierarchy
     const updatedResult = {
-      ...analysisResult,
-      hierarchy: deduplicatedHierarchy,
+      ...withHierarchy(analysisResult, deduplicatedHierarchy, headers, data),
       properties: preset.properties,
       hierarchyConfidence: preset.confidence,
     };
@@ -460,7 +785,7 @@ const Index = () => {
     const hierarchyHeaders = preset.hierarchy.flatMap((h: any) => h.headers);
     const recordId = preset.hierarchy[preset.hierarchy.length - 1]?.recordId;
     const recordName = preset.hierarchy[preset.hierarchy.length - 1]?.recordName;
-    const validation = validateData(headers, data, hierarchyHeaders, recordId, recordName, allHeaders);
+    const validation = validateData(headers, data, hierarchyHeaders, recordId, recordName, allHeaders, deduplicatedHierarchy);
     setValidationResult(validation);
     
     toast({
@@ -473,7 +798,7 @@ const Index = () => {
     if (!analysisResult || !taxonomyTree) return;
 
     try {
-      generatePDFReport(analysisResult, headers, data, taxonomyTree, validationResult);
+      generatePDFReport(analysisResult, keyedTable.headers, keyedTable.data, taxonomyTree, validationResult);
       
       toast({
         title: 'PDF Export Successful',
@@ -489,6 +814,155 @@ const Index = () => {
     }
   };
 
+  const handleExportJSON = () => {
+    if (!analysisResult) return;
+
+    try {
+      const report = downloadExportReport(analysisResult, keyedTable.headers, keyedTable.data, {
+        taxonomyTree,
+        taxonomyConfig,
+        selectedPreset,
+        forcedSkuHeaders,
+        validationResult,
+      });
+
+      toast({
+        title: 'JSON Export Successful',
+        description: `Report (schema v${report.schema_version}) with ${report.hierarchy_structure.levels.length} levels and ${report.property_to_hierarchy_mapping.summary.total_properties} properties.`,
+      });
+    } catch (error) {
+      console.error('JSON export error:', error);
+      toast({
+        title: 'JSON Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the JSON report.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportDataModel = () => {
+    if (!analysisResult) return;
+
+    try {
+      const { summary } = downloadDataModelWorkbook(analysisResult, keyedTable.headers, keyedTable.data, validationResult);
+
+      toast({
+        title: 'Excel Export Successful',
+        description: `${summary.levelCount} level sheets with ${summary.propertyCount} properties, ${summary.picklistValueCount} picklist values, ${summary.issueCount} validation issues and ${summary.dataRows} data rows.`,
+      });
+    } catch (error) {
+      console.error('Excel export error:', error);
+      toast({
+        title: 'Excel Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the data model workbook.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportLevelRecords = (format: LevelRecordFileFormat) => {
+    if (!analysisResult) return;
+
+    try {
+      const { summary } = downloadLevelRecordExport(analysisResult.hierarchy, keyedTable.headers, keyedTable.data, format);
+      summary.levels
+        .filter(level => level.conflicts > 0)
+        .forEach(level => console.warn(`⚠️ Level records: ${level.conflicts} conflicting values in "${level.name}"`));
+
+      toast({
+        title: 'Level Records Export Successful',
+        description: `${summary.levels.map(level => `${level.records} ${level.name}`).join(', ')}.${summary.conflictCount > 0 ? ` ${summary.conflictCount} conflicting values kept the first value - see the conflicts ${format === 'xlsx' ? 'sheet' : 'file'}.` : ''}${summary.skippedRows > 0 ? ` ${summary.skippedRows} rows without Record ID were skipped.` : ''}`,
+      });
+    } catch (error) {
+      console.error('Level records export error:', error);
+      toast({
+        title: 'Level Records Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the level record files.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportProductModel = (model: ProductModelType, format: ProductModelFileFormat) => {
+    if (!analysisResult?.mixedModelSuggestion) return;
+
+    try {
+      const count = downloadProductModelSubset(keyedTable.headers, keyedTable.data, analysisResult.mixedModelSuggestion, model, format);
+      toast({
+        title: 'Product Subset Export Successful',
+        description: `${count} ${model} products exported with their source row numbers.`,
+      });
+    } catch (error) {
+      console.error('Product subset export error:', error);
+      toast({
+        title: 'Product Subset Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error exporting the product subset.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportSalsify = () => {
+    if (!analysisResult) return;
+
+    try {
+      const { summary } = downloadSalsifyImport(analysisResult, keyedTable.headers, keyedTable.data);
+
+      toast({
+        title: 'Salsify Export Successful',
+        description: `${summary.propertyCount} properties, ${summary.picklistValueCount} picklist values, ${summary.parentCount} parents and ${summary.productCount} products.${summary.skippedRows > 0 ? ` ${summary.skippedRows} rows without Record ID were skipped.` : ''}`,
+      });
+    } catch (error) {
+      console.error('Salsify export error:', error);
+      toast({
+        title: 'Salsify Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the Salsify import.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportAkeneo = (format: AkeneoFileFormat) => {
+    if (!analysisResult) return;
+
+    try {
+      const { files, summary } = downloadAkeneoImport(analysisResult, keyedTable.headers, keyedTable.data, taxonomyTree, format);
+      summary.warnings.forEach(warning => console.warn(`⚠️ Akeneo export: ${warning}`));
+
+      toast({
+        title: 'Akeneo Export Successful',
+        description: `${files.length} import files: ${summary.attributeCount} attributes, ${summary.optionCount} options, ${summary.variantLevels} variant levels, ${summary.categoryCount} categories.${summary.warnings.length > 0 ? ` ${summary.warnings[0]}` : ''}`,
+      });
+    } catch (error) {
+      console.error('Akeneo export error:', error);
+      toast({
+        title: 'Akeneo Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the Akeneo import files.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportShopify = () => {
+    if (!analysisResult) return;
+
+    try {
+      const { summary } = downloadShopifyExport(analysisResult, keyedTable.headers, keyedTable.data);
+
+      toast({
+        title: 'Shopify Export Successful',
+        description: `${summary.productCount} products with ${summary.variantCount} variants. Options: ${summary.optionNames.join(', ') || 'none'}.${summary.skippedRows > 0 ? ` ${summary.skippedRows} rows without Record ID were skipped.` : ''}`,
+      });
+    } catch (error) {
+      console.error('Shopify export error:', error);
+      toast({
+        title: 'Shopify Export Failed',
+        description: error instanceof Error ? error.message : 'There was an error generating the Shopify product CSV.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-subtle">
       {/* Header */}
@@ -503,12 +977,70 @@ const Index = () => {
                 Data-driven hierarchy and taxonomy proposer
               </p>
             </div>
-            {analysisResult && (
-              <Button className="gap-2" onClick={handleExportPDF}>
-                <FileText className="w-4 h-4" />
-                <span className="hidden sm:inline">Export PDF Report</span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={showComparison ? 'secondary' : 'ghost'}
+                className="gap-2"
+                onClick={() => setShowComparison(prev => !prev)}
+              >
+                <GitCompare className="w-4 h-4" />
+                <span className="hidden sm:inline">Compare</span>
               </Button>
-            )}
+              {currentProject && (
+                <Button variant="outline" className="gap-2" onClick={handleSaveProject}>
+                  <Save className="w-4 h-4" />
+                  <span className="hidden sm:inline">Save Project</span>
+                </Button>
+              )}
+              {analysisResult && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button className="gap-2">
+                      <Download className="w-4 h-4" />
+                      <span className="hidden sm:inline">Export</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem className="gap-2" onClick={handleExportPDF}>
+                      <FileText className="w-4 h-4" />
+                      PDF Report
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={handleExportJSON}>
+                      <FileJson className="w-4 h-4" />
+                      JSON Report (.json)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={handleExportDataModel}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Data Model Workbook (.xlsx)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={() => handleExportLevelRecords('csv')}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Level Records (.csv)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={() => handleExportLevelRecords('xlsx')}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Level Records (.xlsx)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={handleExportSalsify}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Salsify Import (.xlsx)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={() => handleExportAkeneo('csv')}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Akeneo Import (.csv)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={() => handleExportAkeneo('xlsx')}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Akeneo Import (.xlsx)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="gap-2" onClick={handleExportShopify}>
+                      <FileSpreadsheet className="w-4 h-4" />
+                      Shopify Products (.csv)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -516,10 +1048,80 @@ const Index = () => {
       {/* Main Content */}
       <main className="container mx-auto px-6 py-8">
         <div className="space-y-8">
+          {showComparison && (
+            <AnalysisComparison
+              current={currentSnapshot}
+              config={analysisConfig}
+              onClose={() => setShowComparison(false)}
+            />
+          )}
+
+          {autosave.restorable && data.length === 0 && (
+            <ProjectRestore
+              project={autosave.restorable}
+              onRestore={applyProject}
+              onDiscard={autosave.discard}
+            />
+          )}
+
           <FileUpload onFileUpload={handleFileUpload} />
 
+          {pendingTextImport && (
+            <DelimitedTextImport
+              key={pendingTextImport.uploadId}
+              fileName={pendingTextImport.fileName}
+              buffer={pendingTextImport.buffer}
+              detected={pendingTextImport.detected}
+              onConfirm={handleTextImportConfirm}
+              onCancel={() => setPendingTextImport(null)}
+            />
+          )}
+
+          {pendingWorkbook && (
+            <SheetSelector
+              key={pendingWorkbook.uploadId}
+              fileName={pendingWorkbook.fileName}
+              sheets={pendingWorkbook.sheets}
+              onSelectSheet={handleSheetSelect}
+              onJoin={handleSheetJoin}
+              onCancel={() => setPendingWorkbook(null)}
+            />
+          )}
+
+          {pendingHeaderRange && (
+            <HeaderRangeConfirmation
+              key={pendingHeaderRange.uploadId}
+              sourceLabel={pendingHeaderRange.sourceLabel}
+              rows={pendingHeaderRange.rows}
+              detected={pendingHeaderRange.detected}
+              onConfirm={handleHeaderRangeConfirm}
+              onCancel={() => setPendingHeaderRange(null)}
+            />
+          )}
+
+          {showHeaderSelection && allHeaders.length > 0 && longFormatDetection && (
+            showLongFormatPivot ? (
+              <LongFormatPivot
+                key={allHeaders.join('|')}
+                headers={allHeaders}
+                data={data}
+                detected={longFormatDetection}
+                onApply={handleLongFormatPivot}
+                onDismiss={() => setShowLongFormatPivot(false)}
+              />
+            ) : (
+              <div className="flex justify-end">
+                <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground" onClick={() => setShowLongFormatPivot(true)}>
+                  <Repeat className="w-4 h-4" />
+                  Data in attribute/value (long) format? Pivot it
+                </Button>
+              </div>
+            )
+          )}
+
           {showHeaderSelection && allHeaders.length > 0 && (
             <HeaderSelector 
+              key={allHeaders.join('|')}
               headers={allHeaders}
               data={data}
               onConfirm={handleHeaderSelection}
@@ -530,8 +1132,33 @@ const Index = () => {
             <>
               <DataPreview headers={headers} data={data} />
 
+              {analysisWorker.isRunning && (
+                <AnalysisProgress
+                  progress={analysisWorker.progress}
+                  rowCount={data.length}
+                  columnCount={headers.length}
+                  onCancel={handleCancelAnalysis}
+                />
+              )}
+
+              {!analysisWorker.isRunning && !analysisResult && (
+                <div className="flex justify-center">
+                  <Button className="gap-2 bg-gradient-primary" size="lg" onClick={() => runAnalysis(headers, data)}>
+                    <Play className="w-5 h-5" />
+                    Run Analysis
+                  </Button>
+                </div>
+              )}
+
               {analysisResult && (
                 <>
+                  {/* Analysis Profile - Named, validated threshold settings */}
+                  <AnalysisProfileSelector
+                    config={analysisResult.config}
+                    onChange={handleAnalysisConfigChange}
+                    disabled={analysisWorker.isRunning}
+                  />
+
                   {/* NEW: Preset Selector - Choose structure type */}
                   {analysisResult.hierarchyPresets && analysisResult.hierarchyPresets.length > 0 && (
                     <PresetSelector
@@ -551,7 +1178,25 @@ const Index = () => {
                   {/* Data Pattern Analysis - CORE for hierarchy decisions */}
                   <CardinalityAnalysis 
                     scores={analysisResult.cardinalityScores}
-                    thresholds={analysisResult.thresholds}
+                    thresholds={analysisResult.config.thresholds}
+                  />
+                  
+                  {/* Threshold Tuning - Preview level changes before re-running */}
+                  <ThresholdTuningPanel
+                    headers={headers}
+                    data={data}
+                    cardinalityScores={analysisResult.cardinalityScores}
+                    config={analysisResult.config}
+                    forcedSkuHeaders={forcedSkuHeaders}
+                    onApply={handleAnalysisConfigChange}
+                    disabled={analysisWorker.isRunning}
+                  />
+                  
+                  {/* Functional Dependencies - Optional dependency-based level detection */}
+                  <FunctionalDependencyReport
+                    mode={analysisResult.config.hierarchyMode}
+                    analysis={analysisResult.dependencyAnalysis}
+                    onModeChange={handleHierarchyModeChange}
                   />
                   
                   {/* Main Hierarchy Proposal */}
@@ -559,6 +1204,35 @@ const Index = () => {
                     hierarchy={analysisResult.hierarchy}
                     properties={analysisResult.properties}
                     propertiesWithoutValues={analysisResult.propertiesWithoutValues}
+                    variantAxisReport={analysisResult.variantAxisReport}
+                    placementTrace={analysisResult.placementTrace}
+                  />
+                  
+                  {/* Product Models - Hierarchical vs standalone rows, exportable separately */}
+                  {analysisResult.mixedModelSuggestion && (
+                    <MixedModelReview
+                      suggestion={analysisResult.mixedModelSuggestion}
+                      hierarchy={analysisResult.hierarchy}
+                      headers={keyedTable.headers}
+                      data={keyedTable.data}
+                      onExport={handleExportProductModel}
+                    />
+                  )}
+                  
+                  {/* Hierarchy Editor - Drag properties between levels, edit levels and record fields */}
+                  <HierarchyEditor
+                    hierarchy={analysisResult.hierarchy}
+                    onChange={handleHierarchyEdit}
+                  />
+                  
+                  {/* Parent Keys - Generate Record IDs/Names for parent levels without a key column */}
+                  <ParentKeyGenerator
+                    hierarchy={analysisResult.hierarchy}
+                    headers={headers}
+                    data={data}
+                    checks={keyedTable.checks}
+                    onGenerate={handleGenerateKey}
+                    onRemove={handleRemoveKey}
                   />
                   
                   {/* Taxonomy Configuration - Allow custom taxonomy setup */}
@@ -570,7 +1244,7 @@ const Index = () => {
                   
                   {/* Taxonomy Tree - Shows result based on configuration */}
                   {taxonomyTree && (
-                    <TaxonomyTreeVisualization tree={taxonomyTree} />
+                    <TaxonomyTreeVisualization tree={taxonomyTree} attributeSets={attributeSets} />
                   )}
                   
                   {/* Property Type Recommendations - BEFORE Best Practices */}
@@ -0,0 +1,285 @@
+import { PropertyRecommendation, ProductDomain } from '@/utils/analysisEngine';
+
+// Synthetic catalogs for the regression suite. Generated from a fixed seed so the
+// rows - and therefore every golden AnalysisResult - are identical on every run.
+
+export interface CatalogFixture {
+  name: string; // Also the golden file name (src/test/golden/<name>.json)
+  description: string;
+  headers: string[];
+  data: unknown[][];
+  expected: {
+    domain: ProductDomain['type'];
+    recordIds: string[]; // Record ID per level, top level first
+    variantAxes: string[]; // Top level's variant axes, without duplicated or missing combinations
+    levelHeaders: Record<string, number>; // Property → 1-based level (Record ID/Name columns are not listed)
+    dataTypes: Record<string, PropertyRecommendation['dataType']>;
+  };
+}
+
+// Helper: mulberry32 - small, fast and stable across platforms
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pad = (value: number, length: number): string => String(value).padStart(length, '0');
+
+// Helper: deterministic but check-digit-free 13-digit barcode
+const barcode = (prefix: string, index: number): string => `${prefix}${pad(index, 13 - prefix.length)}`;
+
+const apparel = (): CatalogFixture => {
+  const random = createRandom(101);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const headers = [
+    'Brand', 'Department', 'Style Number', 'Style Name', 'Style Description', 'Fabric', 'Care Instructions',
+    'Color Code', 'Color', 'Size', 'SKU', 'EAN', 'Retail Price', 'Organic', 'Launch Date', 'Image URL',
+  ];
+  const departments = ['Womens Tops', 'Mens Tops', 'Womens Bottoms', 'Mens Bottoms', 'Outerwear'];
+  const fabrics = ['100% Cotton', 'Cotton/Elastane', 'Merino Wool', 'Recycled Polyester', 'Linen'];
+  const colors = [['BLK', 'Black'], ['NVY', 'Navy'], ['WHT', 'White'], ['OLV', 'Olive'], ['RST', 'Rust']];
+  const sizes = ['XS', 'S', 'M', 'L', 'XL'];
+
+  const data: unknown[][] = [];
+  let skuIndex = 0;
+  for (let style = 1; style <= 18; style++) {
+    const brand = style <= 9 ? 'Northfold' : 'Tidewater';
+    const department = departments[style % departments.length];
+    const styleNumber = `ST-${pad(style, 4)}`;
+    const styleName = `${pick(['Essential', 'Harbor', 'Summit', 'Drift', 'Field'])} ${department.split(' ').pop().replace(/s$/, '')} ${style}`;
+    const fabric = pick(fabrics);
+    const description = `${styleName} in ${fabric.toLowerCase()} with a relaxed fit and reinforced seams.`;
+    const care = pick(['Machine wash cold', 'Hand wash only', 'Dry clean only']);
+    const price = (29 + style * 3.5).toFixed(2);
+    const organic = fabric === '100% Cotton' || fabric === 'Linen' ? 'Yes' : 'No';
+    const launch = `2024-${pad((style % 12) + 1, 2)}-01`;
+
+    colors.slice(0, 3 + (style % 3)).forEach(([code, color]) => {
+      sizes.forEach(size => {
+        skuIndex++;
+        data.push([
+          brand, department, styleNumber, styleName, description, fabric, care,
+          code, color, size, `${styleNumber}-${code}-${size}`, barcode('500', skuIndex),
+          price, organic, launch, `https://cdn.example.com/apparel/${styleNumber}-${code}.jpg`,
+        ]);
+      });
+    });
+  }
+
+  return {
+    name: 'apparel',
+    description: 'Style → color → size fashion catalog',
+    headers,
+    data,
+    expected: {
+      domain: 'Apparel',
+      recordIds: ['Style Number', 'SKU'],
+      variantAxes: ['Size', 'Color'],
+      levelHeaders: { 'Brand': 1, 'Fabric': 1, 'Size': 2, 'EAN': 2 },
+      dataTypes: {
+        'Department': 'picklist',
+        'Size': 'picklist',
+        'Retail Price': 'number',
+        'Organic': 'yes_no',
+        'Launch Date': 'date',
+        'Image URL': 'digital_asset',
+      },
+    },
+  };
+};
+
+const fmcg = (): CatalogFixture => {
+  const random = createRandom(202);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const headers = [
+    'Brand', 'Category', 'Sub Category', 'Family Code', 'Family Name', 'Flavour', 'Product Name',
+    'Pack Size', 'Pack Type', 'Units per Case', 'Cases per Pallet', 'GTIN', 'Net Weight (g)',
+    'List Price', 'Vegan', 'Allergens', 'Ingredients',
+  ];
+  const lines = [
+    ['Crunchies', 'Snacks', 'Crisps', ['Sea Salt', 'Paprika', 'Cheese & Onion', 'Sour Cream']],
+    ['Crunchies', 'Snacks', 'Popcorn', ['Sweet', 'Salted', 'Caramel']],
+    ['Morning Sun', 'Breakfast', 'Cereal', ['Honey', 'Chocolate', 'Original']],
+    ['Morning Sun', 'Breakfast', 'Granola', ['Berry', 'Nut', 'Coconut']],
+    ['Fizzwell', 'Beverages', 'Soft Drinks', ['Cola', 'Lemon', 'Orange', 'Ginger']],
+    ['Fizzwell', 'Beverages', 'Juice', ['Apple', 'Orange', 'Mango']],
+  ] as const;
+  const packs = [['150g', 'Bag', 150], ['300g', 'Bag', 300], ['6x25g', 'Multipack', 150]] as const;
+  const drinkPacks = [['330ml', 'Can', 330], ['1L', 'Bottle', 1000], ['6x330ml', 'Multipack', 1980]] as const;
+
+  const data: unknown[][] = [];
+  let gtinIndex = 0;
+  lines.forEach(([brand, category, subCategory, flavours], lineIndex) => {
+    for (let family = 1; family <= 3; family++) {
+      const familyCode = `PF-${pad(lineIndex * 10 + family, 3)}`;
+      const familyName = `${brand} ${subCategory} ${['Classic', 'Light', 'Organic'][family - 1]}`;
+      const vegan = family === 2 ? 'N' : 'Y';
+      (category === 'Beverages' ? drinkPacks : packs).forEach(([packSize, packType, weight]) => {
+        flavours.forEach(flavour => {
+          gtinIndex++;
+          data.push([
+            brand, category, subCategory, familyCode, familyName, flavour, `${familyName} ${flavour} ${packSize}`,
+            packSize, packType, packType === 'Multipack' ? 4 : 12, pick([40, 60, 80]), barcode('871', gtinIndex),
+            weight, (1.49 + family * 0.5 + weight / 500).toFixed(2), vegan,
+            category === 'Beverages' ? '' : pick(['Milk', 'Gluten', 'Nuts', 'Milk, Nuts']),
+            `${flavour} flavouring, ${pick(['sunflower oil', 'rice flour', 'cane sugar'])}, sea salt`,
+          ]);
+        });
+      });
+    }
+  });
+
+  return {
+    name: 'fmcg',
+    description: 'Consumer goods with product families, flavours and pack variants',
+    headers,
+    data,
+    expected: {
+      domain: 'Food',
+      recordIds: ['Family Code', 'GTIN'],
+      variantAxes: ['Flavour', 'Pack Size'],
+      levelHeaders: { 'Family Name': 1, 'Sub Category': 1, 'Pack Size': 2, 'Pack Type': 2, 'Ingredients': 2 },
+      dataTypes: {
+        'Category': 'picklist',
+        'Pack Type': 'picklist',
+        'Product Name': 'string',
+        'List Price': 'number',
+        'Vegan': 'yes_no',
+      },
+    },
+  };
+};
+
+const electronics = (): CatalogFixture => {
+  const random = createRandom(303);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const headers = [
+    'Brand', 'Category', 'Series', 'Model Number', 'Model Name', 'Screen Size (in)', 'Processor',
+    'RAM (GB)', 'Storage (GB)', 'Color', 'SKU', 'UPC', 'Price', 'Release Date', 'Warranty (months)',
+    'Product Page URL', 'Spec Sheet',
+  ];
+  const categories = [
+    ['Laptops', ['Aero', 'Forge'], [13, 14, 16]],
+    ['Tablets', ['Slate'], [10, 11, 12]],
+    ['Monitors', ['Vista', 'Pano'], [24, 27, 32]],
+  ] as const;
+  const configs = [[8, 256], [16, 512], [32, 1024]] as const;
+
+  const data: unknown[][] = [];
+  let skuIndex = 0;
+  let modelIndex = 0;
+  categories.forEach(([category, seriesList, screenSizes]) => {
+    seriesList.forEach(series => {
+      screenSizes.forEach(screen => {
+        modelIndex++;
+        const brand = modelIndex % 2 === 0 ? 'Voltra' : 'Kestrel';
+        const modelNumber = `${series.slice(0, 2).toUpperCase()}${screen}-${pad(modelIndex, 3)}`;
+        const modelName = `${brand} ${series} ${screen}"`;
+        const processor = category === 'Monitors' ? '' : pick(['Octa X2', 'Octa X3', 'Quad M1']);
+        const release = `2025-${pad((modelIndex % 9) + 1, 2)}-15`;
+        (category === 'Monitors' ? [[0, 0]] : configs).forEach(([ram, storage]) => {
+          ['Silver', 'Graphite'].forEach(color => {
+            skuIndex++;
+            data.push([
+              brand, category, series, modelNumber, modelName, screen, processor,
+              ram || '', storage || '', color, `${modelNumber}-${ram || 'STD'}-${color.slice(0, 3).toUpperCase()}`,
+              barcode('0', 880000 + skuIndex).slice(0, 12), (199 + screen * 40 + ram * 12 + storage / 8).toFixed(2),
+              release, category === 'Laptops' ? 24 : 12,
+              `https://shop.example.com/p/${modelNumber.toLowerCase()}`,
+              `https://docs.example.com/specs/${modelNumber.toLowerCase()}.pdf`,
+            ]);
+          });
+        });
+      });
+    });
+  });
+
+  return {
+    name: 'electronics',
+    description: 'Models with memory/storage configurations and colors',
+    headers,
+    data,
+    expected: {
+      domain: 'Electronics',
+      recordIds: ['Model Number', 'SKU'],
+      variantAxes: ['Storage (GB)', 'Color'],
+      levelHeaders: { 'Brand': 1, 'Series': 1, 'UPC': 2, 'Price': 2 },
+      dataTypes: {
+        'Category': 'picklist',
+        'SKU': 'string',
+        'Price': 'number',
+        'Release Date': 'date',
+      },
+    },
+  };
+};
+
+const furniture = (): CatalogFixture => {
+  const random = createRandom(404);
+  const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+  const headers = [
+    'Collection', 'Room', 'Product Type', 'Item Code', 'Item Name', 'Description', 'Material',
+    'Width (cm)', 'Depth (cm)', 'Height (cm)', 'Assembly Required', 'Finish', 'Upholstery',
+    'SKU', 'Price', 'Lifestyle Image',
+  ];
+  const collections = ['Fjord', 'Alder', 'Marlow', 'Sable'];
+  const types = [
+    ['Living Room', 'Sofa', 'Solid Oak', [220, 95, 85]],
+    ['Living Room', 'Armchair', 'Solid Oak', [90, 85, 90]],
+    ['Dining Room', 'Dining Table', 'Walnut Veneer', [180, 90, 75]],
+    ['Dining Room', 'Dining Chair', 'Beech', [48, 52, 82]],
+    ['Bedroom', 'Bed Frame', 'Pine', [160, 210, 100]],
+  ] as const;
+  const finishes = ['Natural', 'Smoked', 'White Wash'];
+  const upholsteries = ['Linen Sand', 'Velvet Moss', 'Boucle Cream'];
+
+  const data: unknown[][] = [];
+  let itemIndex = 0;
+  collections.forEach(collection => {
+    types.forEach(([room, type, material, [width, depth, height]]) => {
+      itemIndex++;
+      const itemCode = `${collection.slice(0, 3).toUpperCase()}-${pad(itemIndex, 4)}`;
+      const itemName = `${collection} ${type}`;
+      const description = `<p>The <strong>${itemName}</strong> pairs ${material.toLowerCase()} with ${pick(['clean lines', 'soft curves', 'tapered legs'])}.</p>`;
+      const assembly = type === 'Sofa' || type === 'Armchair' ? 'No' : 'Yes';
+      const upholstered = type !== 'Dining Table' && type !== 'Bed Frame';
+      finishes.forEach(finish => {
+        (upholstered ? upholsteries : ['']).forEach(upholstery => {
+          data.push([
+            collection, room, type, itemCode, itemName, description, material,
+            width, depth, height, assembly, finish, upholstery,
+            `${itemCode}-${finish.slice(0, 2).toUpperCase()}${upholstery ? `-${upholstery.slice(0, 2).toUpperCase()}` : ''}`,
+            (width * 4.5 + (upholstery ? 150 : 0)).toFixed(2),
+            `https://cdn.example.com/furniture/${itemCode.toLowerCase()}-${finish.toLowerCase().replace(' ', '-')}.png`,
+          ]);
+        });
+      });
+    });
+  });
+
+  return {
+    name: 'furniture',
+    description: 'Collections of items with finish and upholstery variants',
+    headers,
+    data,
+    expected: {
+      domain: 'Furniture',
+      recordIds: ['Item Code', 'SKU'],
+      variantAxes: ['Finish', 'Upholstery'],
+      levelHeaders: { 'Collection': 1, 'Material': 1, 'Upholstery': 2, 'Price': 2 },
+      dataTypes: {
+        'Room': 'picklist',
+        'SKU': 'string',
+        'Assembly Required': 'yes_no',
+        'Lifestyle Image': 'digital_asset',
+      },
+    },
+  };
+};
+
+export const CATALOG_FIXTURES: CatalogFixture[] = [apparel(), fmcg(), electronics(), furniture()];
@@ -0,0 +1,129 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { AnalysisResult } from '@/utils/analysisEngine';
+import { CHANGE_CATEGORY_LABELS, diffAnalyses } from '@/utils/analysisDiff';
+
+// Golden AnalysisResults live in src/test/golden/<name>.json. A missing file fails the
+// test; `UPDATE_GOLDEN=1 npm test` writes new files and rewrites all existing ones.
+
+const GOLDEN_DIR = fileURLToPath(new URL('./golden', import.meta.url));
+const MAX_FIELD_CHANGES = 15; // Lines shown
+const MAX_COLLECTED_CHANGES = 2000; // Stop walking huge diffs early
+
+const goldenPath = (name: string): string => path.join(GOLDEN_DIR, `${name}.json`);
+
+// Helper: what JSON.stringify keeps - drops undefined fields so files round-trip
+const normalize = (result: AnalysisResult): AnalysisResult => JSON.parse(JSON.stringify(result));
+
+const formatValue = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  return text === undefined ? 'missing' : text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const isContainer = (value: unknown) => value !== null && typeof value === 'object';
+
+// Helper: value lists (headers, paths) as added/removed instead of index-by-index shifts
+const describeListChange = (before: unknown[], after: unknown[]): string => {
+  const added = after.filter(v => !before.includes(v));
+  const removed = before.filter(v => !after.includes(v));
+  if (added.length === 0 && removed.length === 0) return 'same values, new order';
+  return [
+    added.length > 0 ? `added ${added.map(formatValue).join(', ')}` : '',
+    removed.length > 0 ? `removed ${removed.map(formatValue).join(', ')}` : '',
+  ].filter(Boolean).join('; ');
+};
+
+// Helper: leaf-level differences as "path: before → after"
+const collectFieldChanges = (before: unknown, after: unknown, at: string, changes: string[]): void => {
+  if (changes.length >= MAX_COLLECTED_CHANGES) return;
+  if (Array.isArray(before) && Array.isArray(after) && ![...before, ...after].some(isContainer)) {
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push(`${at}: ${describeListChange(before, after)}`);
+    }
+    return;
+  }
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before as object), ...Object.keys(after as object)]);
+    keys.forEach(key => {
+      const childPath = Array.isArray(before) ? `${at}[${key}]` : at ? `${at}.${key}` : key;
+      collectFieldChanges((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key], childPath, changes);
+    });
+    return;
+  }
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push(`${at}: ${formatValue(before)} → ${formatValue(after)}`);
+  }
+};
+
+const describeLevels = (result: AnalysisResult): string[] =>
+  result.hierarchy.map(level =>
+    `Level ${level.level} "${level.name}" - ID ${level.recordId || '-'}, name ${level.recordName || '-'}: ${level.headers.join(', ')}`
+  );
+
+/**
+ * Readable explanation of how an AnalysisResult moved away from its golden:
+ * hierarchy outline, the analysis change list and the first raw field changes.
+ */
+export const describeGoldenDiff = (name: string, golden: AnalysisResult, actual: AnalysisResult): string => {
+  const lines = [`AnalysisResult for "${name}" no longer matches src/test/golden/${name}.json`];
+
+  const goldenLevels = describeLevels(golden);
+  const actualLevels = describeLevels(actual);
+  if (goldenLevels.join('\n') !== actualLevels.join('\n')) {
+    lines.push('', 'Hierarchy (golden):', ...goldenLevels.map(l => `  ${l}`));
+    lines.push('Hierarchy (now):', ...actualLevels.map(l => `  ${l}`));
+  }
+  if (golden.productDomain.type !== actual.productDomain.type) {
+    lines.push('', `Product domain: ${golden.productDomain.type} → ${actual.productDomain.type}`);
+  }
+
+  const snapshot = (label: string, result: AnalysisResult) => ({ label, analysisResult: result, taxonomyTree: null, rowCount: 0 });
+  const { changes } = diffAnalyses(snapshot('golden', golden), snapshot('now', actual));
+  if (changes.length > 0) {
+    lines.push('', 'Changes:');
+    changes.forEach(change => {
+      lines.push(`  [${CHANGE_CATEGORY_LABELS[change.category]}] ${change.subject}: ${change.before || '-'} → ${change.after || '-'}`);
+      if (change.detail) lines.push(`      ${change.detail}`);
+    });
+  }
+
+  // Same change on many rows (e.g. every taxonomy path) collapses to one "[*]" line
+  const fieldChanges: string[] = [];
+  collectFieldChanges(golden, actual, '', fieldChanges);
+  const pattern = (change: string) => change.replace(/\[\d+\]/g, '[*]');
+  const counts = new Map<string, number>();
+  fieldChanges.forEach(change => counts.set(pattern(change), (counts.get(pattern(change)) || 0) + 1));
+  const fieldLines = Array.from(new Set(fieldChanges.map(change => {
+    const count = counts.get(pattern(change));
+    return count > 1 ? `${pattern(change)} (${count}×)` : change;
+  })));
+  lines.push('', 'Field changes:', ...fieldLines.slice(0, MAX_FIELD_CHANGES).map(c => `  ${c}`));
+  if (fieldLines.length > MAX_FIELD_CHANGES) lines.push(`  ... ${fieldLines.length - MAX_FIELD_CHANGES} more`);
+
+  lines.push('', 'If the change is intended, accept it with: UPDATE_GOLDEN=1 npm test');
+  return lines.join('\n');
+};
+
+/**
+ * Compares a result with its golden file. Returns null when they match (or the
+ * golden was just written with UPDATE_GOLDEN), otherwise the readable diff.
+ */
+export const compareWithGolden = (name: string, result: AnalysisResult): string | null => {
+  const actual = normalize(result);
+  const file = goldenPath(name);
+
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, JSON.stringify(actual, null, 2) + '\n');
+    return null;
+  }
+  // A deleted or renamed golden must not pass silently
+  if (!existsSync(file)) {
+    return `Golden file for "${name}" is missing (${path.relative(process.cwd(), file)}). Create it with: UPDATE_GOLDEN=1 npm test`;
+  }
+
+  const golden: AnalysisResult = JSON.parse(readFileSync(file, 'utf-8'));
+  if (JSON.stringify(golden) === JSON.stringify(actual)) return null;
+  return describeGoldenDiff(name, golden, actual);
+};
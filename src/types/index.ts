@@ -7,4 +7,29 @@ export interface HierarchyLevel {
   recordId?: string;
   recordName?: string;
   cardinality?: number;
+  variantAxes?: string[]; // Parent levels: child attributes that tell the children apart (e.g. Color + Size)
+  generatedKey?: GeneratedKeyConfig; // Record ID (and Name) built from a template instead of a key column
+}
+
+export type GeneratedIdMode = 'concat' | 'hash';
+
+// Templates use {Header} placeholders, e.g. "{Brand}-{Model}" or "{Brand} {Model} {Material}"
+export interface GeneratedKeyConfig {
+  idMode: GeneratedIdMode; // concat: values joined as written, hash: leading text + hash of the values
+  idTemplate: string;
+  nameTemplate?: string;
+  idHeader: string; // Virtual column holding the generated Record ID
+  nameHeader?: string; // Virtual column holding the generated Record Name
+  replacedRecordId?: string; // Restored when the generated key is removed
+  replacedRecordName?: string;
+}
+
+export interface CardinalityScore {
+  header: string;
+  uniqueCount: number;
+  totalCount: number;
+  cardinality: number;
+  completeness: number; // NEW: % of non-empty values (data density)
+  hierarchyScore: number; // NEW: Combined score for hierarchy placement
+  classification: 'level1' | 'level2' | 'level3';
 }
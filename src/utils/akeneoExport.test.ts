@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { AnalysisResult } from './analysisEngine';
+import { buildAkeneoImport, formatAkeneoCsv } from './akeneoExport';
+import { TaxonomyTreeNode } from './exportReport';
+
+const headers = ['Style', 'Title', 'Family', 'Item Number', 'Color', 'Size', 'EAN'];
+const hierarchyWith = (variantAxes?: string[]): HierarchyLevel[] => [
+  { level: 1, name: 'Style', headers: ['Family'], recordId: 'Style', recordName: 'Title', variantAxes },
+  { level: 2, name: 'SKU', headers: ['Color', 'Size', 'EAN'], recordId: 'Item Number' },
+];
+const resultWith = (hierarchy: HierarchyLevel[]) => ({
+  hierarchy,
+  productDomain: { type: 'Apparel', confidence: 0.9, indicators: [] },
+  propertyRecommendations: [
+    { header: 'Family', dataType: 'picklist', isPicklist: true, picklistValues: ['Tops'], confidence: 0.9 },
+    { header: 'Color', dataType: 'picklist', isPicklist: true, picklistValues: ['Navy Blue', 'Red'], confidence: 0.9 },
+    { header: 'Size', dataType: 'string', isPicklist: false, confidence: 0.9 },
+  ],
+}) as AnalysisResult;
+const data = ['T1', 'T2'].flatMap((style, s) =>
+  ['Navy Blue', 'Red'].flatMap((color, c) =>
+    ['S', 'M'].map((size, z) => [style, `Tee ${style}`, 'Tops', `${style}-${c}${z}`, color, size, String(4000 + s * 10 + c * 2 + z)])
+  )
+);
+const tree: TaxonomyTreeNode = {
+  name: 'Root',
+  level: 0,
+  productCount: 8,
+  children: [{ name: 'Tops', level: 1, productCount: 8, children: [{ name: 'Tees', level: 2, productCount: 8, children: [] }] }],
+};
+
+describe('buildAkeneoImport', () => {
+  const akeneo = buildAkeneoImport(resultWith(hierarchyWith(['Color', 'Size'])), headers, data, tree);
+  const file = (name: string) => akeneo.files.find(f => f.name === name)!.rows;
+
+  it('uses the parent level\'s variant axes as selects in the family variant', () => {
+    expect(akeneo.variantAxes).toEqual([['color', 'size']]);
+    expect(file('family_variants')).toEqual([
+      ['code', 'family', 'label-en_US', 'variant-axes_1', 'variant-attributes_1'],
+      ['apparel_by_color_size', 'apparel', 'SKU', 'color,size', 'color,size,ean'],
+    ]);
+    const types = Object.fromEntries(file('attributes').slice(1).map(row => [row[0], row[2]]));
+    expect(types).toMatchObject({ color: 'pim_catalog_simpleselect', size: 'pim_catalog_simpleselect', ean: 'pim_catalog_text' });
+  });
+
+  it('detects axes for projects saved without them, never picking identifiers', () => {
+    const detected = buildAkeneoImport(resultWith(hierarchyWith()), headers, data, tree);
+    expect([...detected.variantAxes[0]].sort()).toEqual(['color', 'size']);
+  });
+
+  it('maps the SKU Record ID to the reserved sku identifier and prefixes reserved codes', () => {
+    const attributes = file('attributes');
+    expect(attributes[1].slice(0, 5)).toEqual(['sku', 'Item Number', 'pim_catalog_identifier', 'other', '1']);
+    expect(attributes.map(row => row[0])).toContain('attr_family');
+    expect(file('families')[1]).toEqual(['apparel', 'Apparel Products', 'sku,style,title,attr_family,color,size,ean', 'title', '']);
+  });
+
+  it('exports picklist options, and data values for axes without a picklist', () => {
+    expect(file('attribute_options').slice(1)).toEqual([
+      ['attr_family', 'tops', 1, 'Tops'],
+      ['color', 'navy_blue', 1, 'Navy Blue'],
+      ['color', 'red', 2, 'Red'],
+      ['size', 's', 1, 'S'],
+      ['size', 'm', 2, 'M'],
+    ]);
+  });
+
+  it('builds categories from the taxonomy path', () => {
+    expect(file('categories')).toEqual([
+      ['code', 'parent', 'label-en_US'],
+      ['product_taxonomy', '', 'Product Taxonomy'],
+      ['tops', 'product_taxonomy', 'Tops'],
+      ['tops_tees', 'tops', 'Tees'],
+    ]);
+  });
+
+  it('writes semicolon-delimited CSV', () => {
+    const csv = formatAkeneoCsv(akeneo.files.find(f => f.name === 'attribute_options')!).split('\n');
+    expect(csv[0]).toBe('attribute;code;sort_order;label-en_US');
+    expect(csv[2]).toBe('color;navy_blue;1;Navy Blue');
+  });
+});
@@ -0,0 +1,316 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult, PropertyRecommendation } from './analysisEngine';
+import { downloadBlob } from './fileDownload';
+import { TaxonomyTreeNode } from './exportReport';
+import { LevelRecordTable, buildLevelRecords, findDistinguishingAttributes, isIdentifierLike } from './hierarchyRecords';
+
+export type AkeneoFileFormat = 'csv' | 'xlsx';
+
+export interface AkeneoImportFile {
+  name: string; // Without extension, e.g. 'attributes'
+  rows: unknown[][];
+}
+
+export interface AkeneoImport {
+  files: AkeneoImportFile[];
+  familyCode: string;
+  variantAxes: string[][]; // Axis attribute codes per variant level
+  summary: {
+    attributeCount: number;
+    optionCount: number;
+    categoryCount: number;
+    variantLevels: number;
+    warnings: string[];
+  };
+}
+
+// Akeneo attribute types for the analyzer's property types
+const AKENEO_ATTRIBUTE_TYPES: Record<PropertyRecommendation['dataType'], string> = {
+  string: 'pim_catalog_text',
+  picklist: 'pim_catalog_simpleselect',
+  number: 'pim_catalog_number',
+  date: 'pim_catalog_date',
+  yes_no: 'pim_catalog_boolean',
+  rich_text: 'pim_catalog_textarea',
+  html: 'pim_catalog_textarea',
+  link: 'pim_catalog_text',
+  digital_asset: 'pim_catalog_file',
+};
+
+// Attribute codes Akeneo reserves for product fields
+const RESERVED_CODES = [
+  'id', 'uuid', 'identifier', 'associations', 'associationtypes', 'categories', 'categoryid',
+  'completeness', 'enabled', 'family', 'groups', 'products', 'scope', 'treeid', 'values',
+  'category', 'parent', 'label', 'attributes', 'entity_type',
+];
+
+const LOCALE = 'en_US';
+const MAX_VARIANT_LEVELS = 2; // Akeneo supports a root model plus two variant levels
+const MAX_AXES_PER_LEVEL = 5;
+const MAX_AXIS_OPTIONS = 100; // Axes become simple selects - keep option lists reasonable
+
+// Helper: Akeneo codes allow letters, digits and underscores only
+const toAkeneoCode = (value: string): string => {
+  const code = String(value)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+  return code || 'value';
+};
+
+// Helper: hands out unique codes within one namespace
+const createCodeRegistry = (reserved: string[] = []) => {
+  const used = new Set<string>();
+  return (value: string, prefix = ''): string => {
+    const base = `${prefix}${toAkeneoCode(value)}`;
+    const stem = reserved.includes(base) ? `attr_${base}` : base;
+    let code = stem;
+    let suffix = 2;
+    while (used.has(code)) code = `${stem}_${suffix++}`;
+    used.add(code);
+    return code;
+  };
+};
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// Helper: only fully filled, low-cardinality attributes can be axes - identifiers like EAN never are
+const detectLevelAxes = (table: LevelRecordTable): { axes: string[]; ambiguousRecords: number } => {
+  const records = table.records;
+  const candidates = table.properties.filter(property => {
+    const values = records.map(r => r.values[property]);
+    if (values.some(isEmptyValue)) return false;
+    const distinct = new Set(values.map(v => String(v).trim())).size;
+    return distinct > 1 && distinct <= MAX_AXIS_OPTIONS && !isIdentifierLike(property, records, r => r.values[property]);
+  });
+
+  const { attributes, ambiguousRecords } = findDistinguishingAttributes(records, candidates, MAX_AXES_PER_LEVEL);
+  return { axes: attributes, ambiguousRecords };
+};
+
+/**
+ * Builds Akeneo import files: attributes, attribute options, family, family variant and categories.
+ * Variant levels follow the chosen hierarchy; levels above Akeneo's two variant levels join the root model.
+ */
+export const buildAkeneoImport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  taxonomyTree: TaxonomyTreeNode | null
+): AkeneoImport => {
+  const tables = buildLevelRecords(analysisResult.hierarchy, headers, data);
+  if (tables.length === 0) {
+    throw new Error('No hierarchy to export');
+  }
+
+  const warnings: string[] = [];
+  const recommendations = new Map(analysisResult.propertyRecommendations.map(r => [r.header, r]));
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const skuTable = tables[tables.length - 1];
+  const identifier = skuTable.idHeader;
+
+  // Level structure: root model (all levels above the variant levels) + up to two variant levels
+  const variantTables = tables.length > 1 ? tables.slice(-Math.min(MAX_VARIANT_LEVELS, tables.length - 1)) : [];
+  const rootTables = tables.slice(0, tables.length - variantTables.length);
+  if (tables.length - 1 > MAX_VARIANT_LEVELS) {
+    warnings.push(`${tables.length} levels found - the top ${rootTables.length} levels were merged into the root product model`);
+  }
+
+  const levelAttributes = (table: LevelRecordTable, isSkuLevel: boolean): string[] => [
+    ...(isSkuLevel ? [] : [table.idHeader]), // The SKU identifier is implicit on products
+    ...(table.nameHeader ? [table.nameHeader] : []),
+    ...table.properties,
+  ];
+  const rootAttributes = rootTables.flatMap(t => levelAttributes(t, t === skuTable));
+  const variantAttributes = variantTables.map(t => levelAttributes(t, t === skuTable));
+
+  // Variant axes per variant level - the parent level's variantAxes, detected here for projects saved without them
+  const axesHeaders = variantTables.map(table => {
+    const parentAxes = tables[tables.indexOf(table) - 1].level.variantAxes;
+    let axes: string[];
+    let ambiguousRecords: number;
+    if (parentAxes) {
+      // Akeneo axes must belong to the variant level itself - a parent property that varies
+      // between the parent's children is an axis the hierarchy still has to move down
+      const foreignAxes = parentAxes.filter(axis => !table.properties.includes(axis));
+      if (foreignAxes.length > 0) {
+        warnings.push(`${foreignAxes.join(', ')} ${foreignAxes.length === 1 ? 'tells' : 'tell'} "${table.level.name}" records apart but ${foreignAxes.length === 1 ? 'sits' : 'sit'} on the level above - move to "${table.level.name}" to use as axis`);
+      }
+      axes = parentAxes.filter(axis => !foreignAxes.includes(axis)).slice(0, MAX_AXES_PER_LEVEL);
+      const combinations = new Set(table.records.map(r => [r.parentId ?? '', ...axes.map(a => String(r.values[a] ?? '').trim())].join('\u0000')));
+      ambiguousRecords = axes.length > 0 ? table.records.length - combinations.size : 0;
+    } else {
+      ({ axes, ambiguousRecords } = detectLevelAxes(table));
+    }
+    if (axes.length === 0) {
+      warnings.push(`No variant axis found for "${table.level.name}" - pick one in Akeneo before importing product models`);
+    } else if (ambiguousRecords > 0) {
+      warnings.push(`"${table.level.name}" axes (${axes.join(', ')}) leave ${ambiguousRecords} records indistinguishable`);
+    }
+    return axes;
+  });
+  const axisSet = new Set(axesHeaders.flat());
+
+  // Attribute codes
+  const nextAttributeCode = createCodeRegistry([...RESERVED_CODES, 'sku']); // 'sku' is the identifier
+  const allAttributes = Array.from(new Set([identifier, ...rootAttributes, ...variantAttributes.flat()]));
+  const codes = new Map(allAttributes.map(h => [h, h === identifier ? 'sku' : nextAttributeCode(h)]));
+  if (toAkeneoCode(identifier) !== 'sku') {
+    console.log(`🏷️ Akeneo identifier "sku" maps to "${identifier}"`);
+  }
+
+  const columnValues = (header: string): unknown[] =>
+    columnIndex.has(header) ? data.map(row => row[columnIndex.get(header)!]).filter(v => !isEmptyValue(v)) : [];
+
+  // attributes + attribute_options
+  const attributes: unknown[][] = [[
+    'code', `label-${LOCALE}`, 'type', 'group', 'unique', 'useable_as_grid_filter',
+    'localizable', 'scopable', 'decimals_allowed', 'negative_allowed', 'wysiwyg_enabled',
+  ]];
+  const options: unknown[][] = [['attribute', 'code', 'sort_order', `label-${LOCALE}`]];
+
+  allAttributes.forEach(header => {
+    const recommendation = recommendations.get(header);
+    const dataType = recommendation?.dataType || 'string';
+    const isIdentifier = header === identifier;
+    // CRITICAL: Variant axes must be selects in Akeneo, whatever their detected type
+    const type = isIdentifier
+      ? 'pim_catalog_identifier'
+      : axisSet.has(header) ? 'pim_catalog_simpleselect' : AKENEO_ATTRIBUTE_TYPES[dataType];
+
+    let decimalsAllowed = '';
+    let negativeAllowed = '';
+    if (type === 'pim_catalog_number') {
+      const numbers = columnValues(header).map(v => Number(v)).filter(n => !isNaN(n));
+      decimalsAllowed = numbers.some(n => !Number.isInteger(n)) ? '1' : '0';
+      negativeAllowed = numbers.some(n => n < 0) ? '1' : '0';
+    }
+
+    attributes.push([
+      codes.get(header), header, type, 'other',
+      isIdentifier ? '1' : '0', isIdentifier || type === 'pim_catalog_simpleselect' ? '1' : '0',
+      '0', '0', decimalsAllowed, negativeAllowed,
+      type === 'pim_catalog_textarea' ? (dataType === 'html' ? '1' : '0') : '',
+    ]);
+
+    if (type === 'pim_catalog_simpleselect') {
+      // Picklist values from the recommendation; axes outside the picklist list come from the data
+      const values = recommendation?.isPicklist && recommendation.picklistValues
+        ? recommendation.picklistValues
+        : Array.from(new Set(columnValues(header).map(v => String(v).trim())));
+      const nextOptionCode = createCodeRegistry();
+      values
+        .filter(value => value.trim() !== '')
+        .forEach((value, index) => options.push([codes.get(header), nextOptionCode(value), index + 1, value]));
+    }
+  });
+
+  // families
+  const familyCode = toAkeneoCode(analysisResult.productDomain.type);
+  const labelHeader = [skuTable.nameHeader, ...tables.map(t => t.nameHeader)]
+    .find(h => h && ['pim_catalog_text', 'pim_catalog_identifier'].includes(attributes.find(a => a[1] === h)?.[2] as string));
+  const imageHeader = allAttributes.find(h => recommendations.get(h)?.dataType === 'digital_asset');
+  const families: unknown[][] = [
+    ['code', `label-${LOCALE}`, 'attributes', 'attribute_as_label', 'attribute_as_image'],
+    [
+      familyCode,
+      `${analysisResult.productDomain.type} Products`,
+      allAttributes.map(h => codes.get(h)).join(','),
+      codes.get(labelHeader || identifier),
+      imageHeader ? codes.get(imageHeader) : '',
+    ],
+  ];
+
+  const files: AkeneoImportFile[] = [
+    { name: 'attributes', rows: attributes },
+    { name: 'attribute_options', rows: options },
+    { name: 'families', rows: families },
+  ];
+
+  // family_variants - only for hierarchical models
+  if (variantTables.length > 0) {
+    const familyVariantCode = `${familyCode}_by_${axesHeaders.map(axes => axes.map(a => codes.get(a)).join('_')).filter(Boolean).join('_') || 'variant'}`;
+    const familyVariantHeader: unknown[] = ['code', 'family', `label-${LOCALE}`];
+    const familyVariantRow: unknown[] = [familyVariantCode, familyCode, variantTables.map(t => t.level.name).join(' > ')];
+    variantTables.forEach((_, index) => {
+      familyVariantHeader.push(`variant-axes_${index + 1}`, `variant-attributes_${index + 1}`);
+      familyVariantRow.push(
+        axesHeaders[index].map(a => codes.get(a)).join(','),
+        variantAttributes[index].map(h => codes.get(h)).join(',')
+      );
+    });
+    files.push({ name: 'family_variants', rows: [familyVariantHeader, familyVariantRow] });
+  } else {
+    warnings.push('Flat model - products are imported without product models, so no family variant is needed');
+  }
+
+  // categories - from the taxonomy tree, codes built from the path so they stay unique
+  const categories: unknown[][] = [['code', 'parent', `label-${LOCALE}`]];
+  const rootCode = 'product_taxonomy';
+  if (taxonomyTree && taxonomyTree.children.length > 0) {
+    const nextCategoryCode = createCodeRegistry([rootCode]);
+    categories.push([rootCode, '', 'Product Taxonomy']);
+    const addCategory = (node: TaxonomyTreeNode, parentCode: string, path: string) => {
+      const nodePath = path ? `${path} ${node.name}` : node.name;
+      const code = nextCategoryCode(nodePath);
+      categories.push([code, parentCode, node.name]);
+      node.children.forEach(child => addCategory(child, code, nodePath));
+    };
+    taxonomyTree.children.forEach(child => addCategory(child, rootCode, ''));
+    files.push({ name: 'categories', rows: categories });
+  } else {
+    warnings.push('No taxonomy tree - categories file skipped');
+  }
+
+  console.log(`📦 Akeneo import: ${attributes.length - 1} attributes, ${options.length - 1} options, ${variantTables.length} variant levels, ${Math.max(categories.length - 1, 0)} categories`);
+
+  return {
+    files,
+    familyCode,
+    variantAxes: axesHeaders.map(axes => axes.map(a => codes.get(a)!)),
+    summary: {
+      attributeCount: attributes.length - 1,
+      optionCount: options.length - 1,
+      categoryCount: Math.max(categories.length - 1, 0),
+      variantLevels: variantTables.length,
+      warnings,
+    },
+  };
+};
+
+/**
+ * One import file as CSV with Akeneo's default semicolon delimiter.
+ */
+export const formatAkeneoCsv = (file: AkeneoImportFile): string =>
+  XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(file.rows), { FS: ';' });
+
+/**
+ * Downloads each Akeneo import file separately - Akeneo imports one entity type per job.
+ * CSV files use Akeneo's default semicolon delimiter.
+ */
+export const downloadAkeneoImport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  taxonomyTree: TaxonomyTreeNode | null,
+  format: AkeneoFileFormat = 'csv'
+): AkeneoImport => {
+  const akeneoImport = buildAkeneoImport(analysisResult, headers, data, taxonomyTree);
+
+  akeneoImport.files.forEach(file => {
+    const fileName = `akeneo-${file.name}.${format}`;
+    if (format === 'xlsx') {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(file.rows), file.name);
+      XLSX.writeFile(workbook, fileName);
+      return;
+    }
+
+    downloadBlob(new Blob([formatAkeneoCsv(file)], { type: 'text/csv;charset=utf-8' }), fileName);
+  });
+
+  return akeneoImport;
+};
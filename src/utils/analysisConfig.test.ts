@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ANALYSIS_PROFILES,
+  AnalysisConfig,
+  DEFAULT_ANALYSIS_CONFIG,
+  createAnalysisConfig,
+  parseAnalysisConfig,
+  validateAnalysisConfig,
+} from './analysisConfig';
+
+describe('analysis profiles', () => {
+  it.each(ANALYSIS_PROFILES.map(p => [p.name, p.config] as const))('ships a valid %s profile', (name, config) => {
+    expect(config.profile).toBe(name);
+    expect(validateAnalysisConfig(config)).toEqual([]);
+  });
+
+  it('defaults to the balanced profile', () => {
+    expect(createAnalysisConfig()).toEqual(DEFAULT_ANALYSIS_CONFIG);
+    expect(DEFAULT_ANALYSIS_CONFIG.profile).toBe('balanced');
+  });
+
+  it('derives strict and lenient from balanced', () => {
+    const strict = createAnalysisConfig('strict');
+    const lenient = createAnalysisConfig('lenient');
+    expect(strict.thresholds).toEqual(DEFAULT_ANALYSIS_CONFIG.thresholds);
+    expect(strict.levels.level1MaxCardinality).toBeLessThan(DEFAULT_ANALYSIS_CONFIG.levels.level1MaxCardinality);
+    expect(lenient.levels.minPropertiesPerLevel).toBeLessThan(DEFAULT_ANALYSIS_CONFIG.levels.minPropertiesPerLevel);
+  });
+
+  it('rejects an unknown profile', () => {
+    expect(() => createAnalysisConfig('fast' as never)).toThrow('Unknown analysis profile "fast"');
+  });
+});
+
+describe('createAnalysisConfig overrides', () => {
+  it('merges sections without touching the profile', () => {
+    const config = createAnalysisConfig('strict', { levels: { minPropertiesPerLevel: 2 } });
+    expect(config.profile).toBe('custom');
+    expect(config.levels.minPropertiesPerLevel).toBe(2);
+    expect(config.levels.level1MaxCardinality).toBe(0.15);
+    expect(ANALYSIS_PROFILES.find(p => p.name === 'strict')!.config.levels.minPropertiesPerLevel).toBe(8);
+  });
+
+  it('keeps the profile name when only the mode changes', () => {
+    expect(createAnalysisConfig('lenient', { hierarchyMode: 'dependency' })).toMatchObject({
+      profile: 'lenient',
+      hierarchyMode: 'dependency',
+    });
+  });
+
+  it('lists every problem of an inconsistent result', () => {
+    expect(() => createAnalysisConfig('balanced', { thresholds: { sku: 1.5 }, dependency: { threshold: -1 } })).toThrow(
+      'Invalid analysis config: thresholds.sku must be between 0 and 1; dependency.threshold must be between 0 and 1'
+    );
+  });
+});
+
+describe('parseAnalysisConfig', () => {
+  it('round-trips a custom config through JSON', () => {
+    const custom = createAnalysisConfig('lenient', { thresholds: { parent: 0.05 }, levels: { minPropertiesPerLevel: 4 } });
+    expect(parseAnalysisConfig(JSON.parse(JSON.stringify(custom)))).toEqual(custom);
+  });
+
+  it('overrides the named base profile', () => {
+    expect(parseAnalysisConfig({ profile: 'strict', dependency: { threshold: 0.9 } })).toEqual({
+      ...createAnalysisConfig('strict'),
+      profile: 'custom',
+      dependency: { threshold: 0.9 },
+    });
+  });
+
+  it('rejects non-objects and unknown profiles', () => {
+    expect(() => parseAnalysisConfig([])).toThrow('Analysis config must be a JSON object');
+    expect(() => parseAnalysisConfig({ profile: 'fast' })).toThrow('Unknown analysis profile "fast"');
+    expect(() => parseAnalysisConfig({ thresholds: 0.5 })).toThrow('Analysis config "thresholds" must be a JSON object');
+  });
+
+  it('lists unknown top-level and nested keys', () => {
+    expect(() => parseAnalysisConfig({
+      threshold: {},
+      thresholds: { bogus: 1 },
+      levels: { minPropertyPerLevel: 3 },
+    })).toThrow('Unknown analysis config keys: threshold, thresholds.bogus, levels.minPropertyPerLevel');
+  });
+});
+
+describe('validateAnalysisConfig', () => {
+  const withSection = <K extends 'thresholds' | 'scoring' | 'levels'>(
+    section: K,
+    values: Partial<AnalysisConfig[K]>
+  ): AnalysisConfig => ({ ...DEFAULT_ANALYSIS_CONFIG, [section]: { ...DEFAULT_ANALYSIS_CONFIG[section], ...values } });
+
+  it('requires parent ≤ childrenMin ≤ childrenMax ≤ sku', () => {
+    expect(validateAnalysisConfig(withSection('thresholds', { childrenMin: 0.8 }))).toEqual([
+      'thresholds must satisfy parent ≤ childrenMin ≤ childrenMax ≤ sku',
+    ]);
+    expect(validateAnalysisConfig(withSection('thresholds', { parent: 0.5, childrenMax: 0.5 }))).toEqual([]);
+  });
+
+  it('requires ordered completeness and cardinality scoring bands', () => {
+    expect(validateAnalysisConfig(withSection('scoring', { mediumCompleteness: 0.9 }))).toEqual([
+      'scoring.mediumCompleteness cannot exceed scoring.highCompleteness',
+    ]);
+    expect(validateAnalysisConfig(withSection('scoring', { midLevelCardinality: 0.8 }))).toEqual([
+      'scoring cardinalities must satisfy topLevel ≤ midLevel ≤ variant',
+    ]);
+  });
+
+  it('requires level 2 to score below level 1 and whole minimum level sizes', () => {
+    expect(validateAnalysisConfig(withSection('levels', { level2MinScore: 50, minPropertiesPerLevel: 2.5 }))).toEqual([
+      'levels.level2MinScore must be lower than levels.level1MinScore',
+      'levels.minPropertiesPerLevel must be a whole number of at least 1',
+    ]);
+  });
+
+  it('rejects an unknown hierarchy mode', () => {
+    expect(validateAnalysisConfig({ ...DEFAULT_ANALYSIS_CONFIG, hierarchyMode: 'guess' as never })).toEqual([
+      'Unknown hierarchy mode "guess"',
+    ]);
+  });
+});
@@ -0,0 +1,235 @@
+import { HierarchyDetectionMode } from './functionalDependencies';
+
+export interface AnalysisConfig {
+  profile: AnalysisProfileName | 'custom'; // Profile the config started from ('custom' once edited)
+  hierarchyMode: HierarchyDetectionMode;
+
+  // Cardinality classification shown in Data Pattern Analysis (unique values / filled values)
+  thresholds: {
+    parent: number; // ≤ parent = Parent (Level 1)
+    childrenMin: number; // Children start (Level 2) - between parent and here, dense columns stay Parent
+    childrenMax: number; // Children end - between here and sku, dense columns stay Children
+    sku: number; // ≥ sku = SKU/Attribute
+  };
+
+  // hierarchyScore bands in calculateCardinalityScores
+  scoring: {
+    highCompleteness: number; // ≥ this share filled = dense column
+    mediumCompleteness: number; // ≥ this share filled = variant/attribute, below = sparse
+    topLevelCardinality: number; // dense + ≤ this = Top level (score 100)
+    midLevelCardinality: number; // dense + ≤ this = Mid level (score 75)
+    variantCardinality: number; // dense + ≤ this = Variant level (score 50)
+  };
+
+  // Level assignment in determineHierarchy
+  levels: {
+    level1MinScore: number;
+    level1MinCompleteness: number;
+    level1MaxCardinality: number;
+    level2MinScore: number; // Level 2 takes scores from here up to level1MinScore
+    level2MinCompleteness: number;
+    level2MaxCardinality: number; // At or above = SKU-level
+    minPropertiesPerLevel: number; // Smaller levels are merged into the next level
+  };
+
+  // Dependency mode (functionalDependencies.ts)
+  dependency: {
+    threshold: number; // Minimum strength for X → Y to hold
+  };
+}
+
+export type AnalysisProfileName = 'balanced' | 'strict' | 'lenient';
+
+export interface AnalysisProfile {
+  name: AnalysisProfileName;
+  label: string;
+  description: string;
+  config: AnalysisConfig;
+}
+
+// Partial overrides per section - used to derive configs from a profile
+export type AnalysisConfigOverrides = {
+  [K in keyof AnalysisConfig]?: AnalysisConfig[K] extends object ? Partial<AnalysisConfig[K]> : AnalysisConfig[K];
+};
+
+// Helper: section-wise merge, never mutating the base config
+const mergeConfig = (base: AnalysisConfig, overrides: AnalysisConfigOverrides): AnalysisConfig => ({
+  profile: overrides.profile ?? base.profile,
+  hierarchyMode: overrides.hierarchyMode ?? base.hierarchyMode,
+  thresholds: { ...base.thresholds, ...overrides.thresholds },
+  scoring: { ...base.scoring, ...overrides.scoring },
+  levels: { ...base.levels, ...overrides.levels },
+  dependency: { ...base.dependency, ...overrides.dependency },
+});
+
+const BALANCED_CONFIG: AnalysisConfig = {
+  profile: 'balanced',
+  hierarchyMode: 'cardinality',
+  thresholds: {
+    parent: 0.02,
+    childrenMin: 0.50,
+    childrenMax: 0.75,
+    sku: 0.98,
+  },
+  scoring: {
+    highCompleteness: 0.8,
+    mediumCompleteness: 0.5,
+    topLevelCardinality: 0.05,
+    midLevelCardinality: 0.30,
+    variantCardinality: 0.70,
+  },
+  levels: {
+    level1MinScore: 50,
+    level1MinCompleteness: 0.60,
+    level1MaxCardinality: 0.30,
+    level2MinScore: 25,
+    level2MinCompleteness: 0.50,
+    level2MaxCardinality: 0.70,
+    minPropertiesPerLevel: 6,
+  },
+  dependency: {
+    threshold: 0.98,
+  },
+};
+
+export const ANALYSIS_PROFILES: AnalysisProfile[] = [
+  {
+    name: 'balanced',
+    label: 'Balanced',
+    description: 'Default settings - favors a Parent + SKU model and tolerates some missing data',
+    config: BALANCED_CONFIG,
+  },
+  {
+    name: 'strict',
+    label: 'Strict',
+    description: 'Only dense, clearly repeating columns become parent-level - fewer, cleaner levels',
+    config: mergeConfig(BALANCED_CONFIG, {
+      profile: 'strict',
+      levels: { level1MinCompleteness: 0.9, level1MaxCardinality: 0.15, level2MinCompleteness: 0.8, minPropertiesPerLevel: 8 },
+      dependency: { threshold: 0.995 },
+    }),
+  },
+  {
+    name: 'lenient',
+    label: 'Lenient',
+    description: 'Accepts sparser and less repetitive columns as parents - more levels on messy data',
+    config: mergeConfig(BALANCED_CONFIG, {
+      profile: 'lenient',
+      scoring: { highCompleteness: 0.7 },
+      levels: { level1MinCompleteness: 0.5, level1MaxCardinality: 0.4, level2MinCompleteness: 0.4, level2MaxCardinality: 0.8, minPropertiesPerLevel: 3 },
+      dependency: { threshold: 0.95 },
+    }),
+  },
+];
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = BALANCED_CONFIG;
+
+/**
+ * Builds a validated config from a named profile plus optional overrides.
+ * Throws with every problem listed when the result is inconsistent.
+ */
+export const createAnalysisConfig = (
+  profileName: AnalysisProfileName = 'balanced',
+  overrides: AnalysisConfigOverrides = {}
+): AnalysisConfig => {
+  const profile = ANALYSIS_PROFILES.find(p => p.name === profileName);
+  if (!profile) {
+    throw new Error(`Unknown analysis profile "${profileName}"`);
+  }
+
+  const hasOverrides = Object.keys(overrides).some(key => key !== 'profile' && key !== 'hierarchyMode');
+  const config = mergeConfig(profile.config, {
+    ...overrides,
+    profile: overrides.profile || (hasOverrides ? 'custom' : profile.name),
+  });
+
+  const errors = validateAnalysisConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid analysis config: ${errors.join('; ')}`);
+  }
+  return config;
+};
+
+/**
+ * Builds a config from parsed JSON (a config file or a saved AnalysisConfig):
+ * "profile" picks the base profile, every other section overrides it.
+ */
+export const parseAnalysisConfig = (value: unknown): AnalysisConfig => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Analysis config must be a JSON object');
+  }
+
+  const { profile, ...overrides } = value as AnalysisConfigOverrides;
+
+  // Saved configs carry 'custom' - their sections are complete, so any base works
+  const baseProfile = ANALYSIS_PROFILES.find(p => p.name === profile) ?? ANALYSIS_PROFILES[0];
+  if (profile && profile !== 'custom' && baseProfile.name !== profile) {
+    throw new Error(`Unknown analysis profile "${profile}"`);
+  }
+
+  // Nested keys are checked against the base profile so a typo is not silently merged
+  const sections: string[] = ['hierarchyMode', 'thresholds', 'scoring', 'levels', 'dependency'];
+  const unknownKeys = Object.keys(overrides).filter(key => !sections.includes(key));
+  (['thresholds', 'scoring', 'levels', 'dependency'] as const).forEach(section => {
+    const sectionOverrides: unknown = overrides[section];
+    if (sectionOverrides === undefined) return;
+    if (!sectionOverrides || typeof sectionOverrides !== 'object' || Array.isArray(sectionOverrides)) {
+      throw new Error(`Analysis config "${section}" must be a JSON object`);
+    }
+    Object.keys(sectionOverrides)
+      .filter(key => !(key in baseProfile.config[section]))
+      .forEach(key => unknownKeys.push(`${section}.${key}`));
+  });
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown analysis config keys: ${unknownKeys.join(', ')}`);
+  }
+
+  return createAnalysisConfig(baseProfile.name, overrides);
+};
+
+/**
+ * Returns every inconsistency in a config (empty when valid).
+ */
+export const validateAnalysisConfig = (config: AnalysisConfig): string[] => {
+  const errors: string[] = [];
+  const ratio = (value: number, name: string) => {
+    if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 1) {
+      errors.push(`${name} must be between 0 and 1`);
+    }
+  };
+
+  const { thresholds, scoring, levels, dependency } = config;
+  ratio(thresholds.parent, 'thresholds.parent');
+  ratio(thresholds.childrenMin, 'thresholds.childrenMin');
+  ratio(thresholds.childrenMax, 'thresholds.childrenMax');
+  ratio(thresholds.sku, 'thresholds.sku');
+  if (!(thresholds.parent <= thresholds.childrenMin && thresholds.childrenMin <= thresholds.childrenMax && thresholds.childrenMax <= thresholds.sku)) {
+    errors.push('thresholds must satisfy parent ≤ childrenMin ≤ childrenMax ≤ sku');
+  }
+
+  Object.entries(scoring).forEach(([key, value]) => ratio(value, `scoring.${key}`));
+  if (scoring.mediumCompleteness > scoring.highCompleteness) {
+    errors.push('scoring.mediumCompleteness cannot exceed scoring.highCompleteness');
+  }
+  if (!(scoring.topLevelCardinality <= scoring.midLevelCardinality && scoring.midLevelCardinality <= scoring.variantCardinality)) {
+    errors.push('scoring cardinalities must satisfy topLevel ≤ midLevel ≤ variant');
+  }
+
+  ratio(levels.level1MinCompleteness, 'levels.level1MinCompleteness');
+  ratio(levels.level1MaxCardinality, 'levels.level1MaxCardinality');
+  ratio(levels.level2MinCompleteness, 'levels.level2MinCompleteness');
+  ratio(levels.level2MaxCardinality, 'levels.level2MaxCardinality');
+  if (levels.level2MinScore >= levels.level1MinScore) {
+    errors.push('levels.level2MinScore must be lower than levels.level1MinScore');
+  }
+  if (!Number.isInteger(levels.minPropertiesPerLevel) || levels.minPropertiesPerLevel < 1) {
+    errors.push('levels.minPropertiesPerLevel must be a whole number of at least 1');
+  }
+
+  ratio(dependency.threshold, 'dependency.threshold');
+  if (!['cardinality', 'dependency'].includes(config.hierarchyMode)) {
+    errors.push(`Unknown hierarchy mode "${config.hierarchyMode}"`);
+  }
+
+  return errors;
+};
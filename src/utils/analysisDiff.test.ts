@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, analyzeProductData } from './analysisEngine';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { diffAnalyses } from './analysisDiff';
+import { TaxonomyTreeNode } from './exportReport';
+import { moveProperty } from './hierarchyEditing';
+
+const tree = (children: [string, number][]): TaxonomyTreeNode => ({
+  name: 'Root',
+  level: 0,
+  productCount: 0,
+  children: children.map(([name, productCount]) => ({ name, level: 1, productCount, children: [] })),
+});
+
+// Style → color → size catalog: 18 styles, 3-5 colors each, 5 sizes
+const headers = [
+  'Brand', 'Department', 'Style Number', 'Style Name', 'Fabric', 'Retail Price', 'Launch Date',
+  'Color Code', 'Color', 'Size', 'SKU', 'EAN',
+];
+const colors = [['BLK', 'Black'], ['NVY', 'Navy'], ['WHT', 'White'], ['OLV', 'Olive'], ['RST', 'Rust']];
+const data: unknown[][] = [];
+for (let style = 1; style <= 18; style++) {
+  const styleNumber = `ST-${String(style).padStart(4, '0')}`;
+  const department = ['Womens Tops', 'Mens Tops', 'Womens Bottoms', 'Mens Bottoms', 'Outerwear'][style % 5];
+  const fabric = ['100% Cotton', 'Cotton/Elastane', 'Merino Wool', 'Recycled Polyester', 'Linen'][(style * 3) % 5];
+  colors.slice(0, 3 + (style % 3)).forEach(([code, color]) => {
+    ['XS', 'S', 'M', 'L', 'XL'].forEach(size => {
+      data.push([
+        style <= 9 ? 'Northfold' : 'Tidewater', department, styleNumber, `Style ${style}`, fabric,
+        (29 + style * 3.5).toFixed(2), `2024-${String((style % 12) + 1).padStart(2, '0')}-01`,
+        code, color, size, `${styleNumber}-${code}-${size}`, `500${String(data.length + 1).padStart(10, '0')}`,
+      ]);
+    });
+  });
+}
+
+describe('diffAnalyses', () => {
+  const before = analyzeProductData(headers, data, DEFAULT_ANALYSIS_CONFIG);
+  const snapshot = (analysisResult: AnalysisResult, taxonomyTree: TaxonomyTreeNode | null = null) =>
+    ({ label: 'catalog', analysisResult, taxonomyTree, rowCount: data.length });
+
+  it('finds no changes between identical analyses', () => {
+    const diff = diffAnalyses(snapshot(before), snapshot(before));
+    expect(diff.changes).toEqual([]);
+    expect(Object.values(diff.summary).every(count => count === 0)).toBe(true);
+  });
+
+  it('lists column, level, picklist, cardinality and taxonomy changes', () => {
+    const after: AnalysisResult = {
+      ...before,
+      hierarchy: moveProperty(before.hierarchy, 'Brand', 1),
+      cardinalityScores: before.cardinalityScores
+        .filter(s => s.header !== 'Launch Date')
+        .map(s => (s.header === 'Fabric' ? { ...s, completeness: s.completeness - 0.2 } : s)),
+      propertyRecommendations: before.propertyRecommendations.map(r =>
+        r.header === 'Size' ? { ...r, picklistValues: [...(r.picklistValues || []), 'XXXL'] } : r
+      ),
+    };
+    const diff = diffAnalyses(
+      snapshot(before, tree([['Tops', 10], ['Pants', 5]])),
+      snapshot(after, tree([['Tops', 12], ['Shoes', 3]]))
+    );
+    const change = (category: string, subject: string) => diff.changes.find(c => c.category === category && c.subject === subject);
+
+    expect(change('property', 'Launch Date')).toMatchObject({ kind: 'removed' });
+    expect(change('level', 'Brand')).toMatchObject({ kind: 'changed', after: 'SKU level (SKU-Level Properties)' });
+    expect(change('picklist', 'Size')).toMatchObject({ kind: 'changed', detail: 'Added: XXXL' });
+    expect(change('cardinality', 'Fabric')).toMatchObject({ kind: 'changed' });
+    expect(diff.changes.filter(c => c.category === 'taxonomy').map(c => [c.kind, c.subject])).toEqual([
+      ['changed', 'Tops'],
+      ['removed', 'Pants'],
+      ['added', 'Shoes'],
+    ]);
+    expect(diff.summary).toMatchObject({ property: 1, level: 1, picklist: 1, cardinality: 1, taxonomy: 3 });
+  });
+
+  it('ignores cardinality moves below the tolerance', () => {
+    const after: AnalysisResult = {
+      ...before,
+      cardinalityScores: before.cardinalityScores.map(s => ({ ...s, cardinality: s.cardinality + 0.01 })),
+    };
+    expect(diffAnalyses(snapshot(before), snapshot(after)).summary.cardinality).toBe(0);
+  });
+});
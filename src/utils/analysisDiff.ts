@@ -0,0 +1,245 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult } from './analysisEngine';
+import { TaxonomyTreeNode } from './exportReport';
+import { downloadBlob } from './fileDownload';
+import { LevelAssignment, diffLevelAssignments } from './hierarchyEditing';
+
+export type AnalysisChangeCategory = 'property' | 'level' | 'data_type' | 'picklist' | 'cardinality' | 'taxonomy';
+
+export interface AnalysisChange {
+  category: AnalysisChangeCategory;
+  kind: 'added' | 'removed' | 'changed';
+  subject: string; // Header, or taxonomy path for taxonomy changes
+  before: string; // '' when added
+  after: string; // '' when removed
+  detail?: string;
+}
+
+export interface AnalysisSnapshot {
+  label: string; // File or project name
+  analysisResult: AnalysisResult;
+  taxonomyTree: TaxonomyTreeNode | null;
+  rowCount: number;
+}
+
+export interface AnalysisDiff {
+  before: { label: string; rowCount: number; levelCount: number; propertyCount: number };
+  after: { label: string; rowCount: number; levelCount: number; propertyCount: number };
+  changes: AnalysisChange[];
+  summary: Record<AnalysisChangeCategory, number>;
+}
+
+export type DeltaReportFormat = 'xlsx' | 'json';
+
+export const CHANGE_CATEGORY_LABELS: Record<AnalysisChangeCategory, string> = {
+  property: 'Columns',
+  level: 'Level Assignment',
+  data_type: 'Data Types',
+  picklist: 'Picklists',
+  cardinality: 'Cardinality',
+  taxonomy: 'Taxonomy Tree',
+};
+
+// Cardinality/completeness moves below this are noise from a few changed rows
+export const DEFAULT_CARDINALITY_TOLERANCE = 0.05;
+const MAX_LISTED_VALUES = 10;
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const describeAssignment = (assignment: LevelAssignment | null): string =>
+  !assignment ? 'Not assigned' : assignment.isSkuLevel ? `SKU level (${assignment.name})` : `Level ${assignment.level} (${assignment.name})`;
+
+// Helper: "a, b, c +4 more"
+const listValues = (values: string[]): string =>
+  values.slice(0, MAX_LISTED_VALUES).join(', ') + (values.length > MAX_LISTED_VALUES ? ` +${values.length - MAX_LISTED_VALUES} more` : '');
+
+// Helper: every taxonomy path below the root with its product count
+const flattenTree = (tree: TaxonomyTreeNode | null): Map<string, number> => {
+  const paths = new Map<string, number>();
+  const walk = (node: TaxonomyTreeNode, path: string[]) => {
+    node.children.forEach(child => {
+      const childPath = [...path, child.name];
+      paths.set(childPath.join(' > '), child.productCount);
+      walk(child, childPath);
+    });
+  };
+  if (tree) walk(tree, []);
+  return paths;
+};
+
+/**
+ * Lists what changed between two analyses: columns, level assignment, data types,
+ * picklist values, cardinality scores and taxonomy tree nodes.
+ */
+export const diffAnalyses = (
+  before: AnalysisSnapshot,
+  after: AnalysisSnapshot,
+  tolerance: number = DEFAULT_CARDINALITY_TOLERANCE
+): AnalysisDiff => {
+  const changes: AnalysisChange[] = [];
+  const beforeResult = before.analysisResult;
+  const afterResult = after.analysisResult;
+
+  // Columns present in only one of the analyses
+  const beforeScores = new Map(beforeResult.cardinalityScores.map(s => [s.header, s]));
+  const afterScores = new Map(afterResult.cardinalityScores.map(s => [s.header, s]));
+  beforeResult.cardinalityScores
+    .filter(s => !afterScores.has(s.header))
+    .forEach(s => changes.push({ category: 'property', kind: 'removed', subject: s.header, before: 'Column present', after: '' }));
+  afterResult.cardinalityScores
+    .filter(s => !beforeScores.has(s.header))
+    .forEach(s => changes.push({ category: 'property', kind: 'added', subject: s.header, before: '', after: 'Column present' }));
+  const isShared = (header: string) => beforeScores.has(header) && afterScores.has(header);
+
+  // Level assignment - added/removed columns are already listed above
+  diffLevelAssignments(beforeResult.hierarchy, afterResult.hierarchy)
+    .filter(change => isShared(change.header))
+    .forEach(change => changes.push({
+      category: 'level',
+      kind: 'changed',
+      subject: change.header,
+      before: describeAssignment(change.from),
+      after: describeAssignment(change.to),
+    }));
+
+  // Data types and picklists
+  const afterRecommendations = new Map(afterResult.propertyRecommendations.map(r => [r.header, r]));
+  beforeResult.propertyRecommendations.forEach(beforeRec => {
+    const afterRec = afterRecommendations.get(beforeRec.header);
+    if (!afterRec) return;
+
+    if (beforeRec.dataType !== afterRec.dataType) {
+      changes.push({
+        category: 'data_type',
+        kind: 'changed',
+        subject: beforeRec.header,
+        before: beforeRec.dataType,
+        after: afterRec.dataType,
+      });
+    }
+
+    if (beforeRec.isPicklist !== afterRec.isPicklist) {
+      changes.push({
+        category: 'picklist',
+        kind: afterRec.isPicklist ? 'added' : 'removed',
+        subject: beforeRec.header,
+        before: beforeRec.isPicklist ? `Picklist (${beforeRec.picklistValues?.length ?? 0} values)` : 'Free text',
+        after: afterRec.isPicklist ? `Picklist (${afterRec.picklistValues?.length ?? 0} values)` : 'Free text',
+      });
+    } else if (beforeRec.isPicklist) {
+      const beforeValues = new Set(beforeRec.picklistValues || []);
+      const afterValues = new Set(afterRec.picklistValues || []);
+      const added = Array.from(afterValues).filter(v => !beforeValues.has(v));
+      const removed = Array.from(beforeValues).filter(v => !afterValues.has(v));
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({
+          category: 'picklist',
+          kind: 'changed',
+          subject: beforeRec.header,
+          before: `${beforeValues.size} values`,
+          after: `${afterValues.size} values`,
+          detail: [
+            added.length > 0 ? `Added: ${listValues(added)}` : '',
+            removed.length > 0 ? `Removed: ${listValues(removed)}` : '',
+          ].filter(Boolean).join(' | '),
+        });
+      }
+    }
+  });
+
+  // Cardinality scores
+  beforeResult.cardinalityScores.forEach(beforeScore => {
+    const afterScore = afterScores.get(beforeScore.header);
+    if (!afterScore) return;
+    const classificationChanged = beforeScore.classification !== afterScore.classification;
+    const cardinalityMoved = Math.abs(beforeScore.cardinality - afterScore.cardinality) >= tolerance;
+    const completenessMoved = Math.abs(beforeScore.completeness - afterScore.completeness) >= tolerance;
+    if (!classificationChanged && !cardinalityMoved && !completenessMoved) return;
+
+    changes.push({
+      category: 'cardinality',
+      kind: 'changed',
+      subject: beforeScore.header,
+      before: `${percent(beforeScore.cardinality)} unique, ${percent(beforeScore.completeness)} filled (${beforeScore.classification})`,
+      after: `${percent(afterScore.cardinality)} unique, ${percent(afterScore.completeness)} filled (${afterScore.classification})`,
+      detail: classificationChanged ? `Classification ${beforeScore.classification} → ${afterScore.classification}` : undefined,
+    });
+  });
+
+  // Taxonomy tree nodes
+  const beforePaths = flattenTree(before.taxonomyTree);
+  const afterPaths = flattenTree(after.taxonomyTree);
+  beforePaths.forEach((count, path) => {
+    if (!afterPaths.has(path)) {
+      changes.push({ category: 'taxonomy', kind: 'removed', subject: path, before: `${count} products`, after: '' });
+    } else if (afterPaths.get(path) !== count) {
+      changes.push({ category: 'taxonomy', kind: 'changed', subject: path, before: `${count} products`, after: `${afterPaths.get(path)} products` });
+    }
+  });
+  afterPaths.forEach((count, path) => {
+    if (!beforePaths.has(path)) {
+      changes.push({ category: 'taxonomy', kind: 'added', subject: path, before: '', after: `${count} products` });
+    }
+  });
+
+  const summary = Object.fromEntries(
+    (Object.keys(CHANGE_CATEGORY_LABELS) as AnalysisChangeCategory[]).map(category => [
+      category,
+      changes.filter(c => c.category === category).length,
+    ])
+  ) as Record<AnalysisChangeCategory, number>;
+
+  const describe = (snapshot: AnalysisSnapshot) => ({
+    label: snapshot.label,
+    rowCount: snapshot.rowCount,
+    levelCount: snapshot.analysisResult.hierarchy.length,
+    propertyCount: snapshot.analysisResult.cardinalityScores.length,
+  });
+
+  console.log(`🔀 Analysis diff: ${changes.length} changes (${Object.entries(summary).map(([c, n]) => `${c} ${n}`).join(', ')})`);
+  return { before: describe(before), after: describe(after), changes, summary };
+};
+
+/**
+ * Downloads the delta report - a Summary and a Changes sheet, or the diff as JSON
+ */
+export const downloadDeltaReport = (diff: AnalysisDiff, format: DeltaReportFormat): void => {
+  const date = new Date().toISOString().split('T')[0];
+
+  if (format === 'json') {
+    const report = { generated_at: new Date().toISOString(), ...diff };
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `analysis-delta-${date}.json`);
+    return;
+  }
+
+  const summaryRows: unknown[][] = [
+    ['', 'Before', 'After'],
+    ['Source', diff.before.label, diff.after.label],
+    ['Rows', diff.before.rowCount, diff.after.rowCount],
+    ['Columns', diff.before.propertyCount, diff.after.propertyCount],
+    ['Hierarchy levels', diff.before.levelCount, diff.after.levelCount],
+    [],
+    ['Category', 'Changes'],
+    ...(Object.keys(CHANGE_CATEGORY_LABELS) as AnalysisChangeCategory[]).map(category => [
+      CHANGE_CATEGORY_LABELS[category],
+      diff.summary[category],
+    ]),
+  ];
+  const changeRows: unknown[][] = [
+    ['Category', 'Change', 'Subject', 'Before', 'After', 'Details'],
+    ...diff.changes.map(change => [
+      CHANGE_CATEGORY_LABELS[change.category],
+      change.kind,
+      change.subject,
+      change.before,
+      change.after,
+      change.detail || '',
+    ]),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summaryRows), 'Summary');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(changeRows), 'Changes');
+  XLSX.writeFile(workbook, `analysis-delta-${date}.xlsx`);
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeProductData, detectMixedModel, detectUomAndLogistics, rescoreCardinality } from './analysisEngine';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { CATALOG_FIXTURES } from '@/test/catalogs';
+import { compareWithGolden } from '@/test/golden';
+
+describe.each(CATALOG_FIXTURES)('$name catalog ($description)', fixture => {
+  const result = analyzeProductData(fixture.headers, fixture.data, DEFAULT_ANALYSIS_CONFIG);
+
+  it('detects the product domain', () => {
+    expect(result.productDomain.type).toBe(fixture.expected.domain);
+  });
+
+  it('picks the expected Record ID per level', () => {
+    expect(result.hierarchy.map(level => level.recordId)).toEqual(fixture.expected.recordIds);
+  });
+
+  it('tells the top level\'s children apart by the expected variant axes', () => {
+    expect(result.hierarchy[0].variantAxes).toEqual(fixture.expected.variantAxes);
+    expect(result.variantAxisReport.levels[0]).toMatchObject({ duplicateCount: 0, missingCount: 0 });
+  });
+
+  it('places key headers on the expected levels', () => {
+    const placement = Object.fromEntries(
+      Object.keys(fixture.expected.levelHeaders).map(header => [
+        header,
+        result.hierarchy.find(level => level.headers.includes(header))?.level ?? null,
+      ])
+    );
+    expect(placement).toEqual(fixture.expected.levelHeaders);
+  });
+
+  it('recommends the expected data types', () => {
+    const dataTypes = Object.fromEntries(
+      Object.keys(fixture.expected.dataTypes).map(header => [
+        header,
+        result.propertyRecommendations.find(r => r.header === header)?.dataType ?? null,
+      ])
+    );
+    expect(dataTypes).toEqual(fixture.expected.dataTypes);
+  });
+
+  it('matches the golden AnalysisResult', () => {
+    const diff = compareWithGolden(fixture.name, result);
+    if (diff) throw new Error(diff);
+  });
+});
+
+describe('detectUomAndLogistics', () => {
+  it.each([
+    'SKU', 'EAN', 'GTIN', 'Net Weight (g)', 'Width (cm)', 'Pack Size', 'Units per Case', 'Cases per Pallet',
+  ])('treats "%s" as item-level', header => {
+    expect(detectUomAndLogistics(header)).toBe(true);
+  });
+
+  it.each(['Brand', 'Category', 'Style Name', 'Color', 'L1', 'Level 2'])('keeps "%s" in hierarchy analysis', header => {
+    expect(detectUomAndLogistics(header)).toBe(false);
+  });
+});
+
+describe('rescoreCardinality', () => {
+  const score = (cardinality: number, completeness: number) =>
+    rescoreCardinality([{ header: 'Column', uniqueCount: 0, totalCount: 0, cardinality, completeness, hierarchyScore: 0, classification: 'level1' }], DEFAULT_ANALYSIS_CONFIG)[0].classification;
+
+  it.each([
+    [0.01, 0.3, 'level1'],
+    [0.6, 0.3, 'level2'],
+    [0.99, 0.3, 'level3'],
+  ])('classifies cardinality %s inside a band regardless of completeness', (cardinality, completeness, expected) => {
+    expect(score(cardinality, completeness)).toBe(expected);
+  });
+
+  it.each([
+    [0.2, 0.9, 'level1'],
+    [0.2, 0.6, 'level2'],
+    [0.9, 0.9, 'level2'],
+    [0.9, 0.6, 'level3'],
+  ])('settles cardinality %s between bands by completeness %s', (cardinality, completeness, expected) => {
+    expect(score(cardinality, completeness)).toBe(expected);
+  });
+});
+
+describe('detectMixedModel', () => {
+  const headers = ['Style ID', 'Style Name', 'Category', 'SKU', 'Size', 'Lining'];
+  const hierarchy = [
+    { level: 1, name: 'Style', headers: ['Category'], recordId: 'Style ID', recordName: 'Style Name' },
+    { level: 2, name: 'SKU', headers: ['Size', 'Lining'], recordId: 'SKU' },
+  ];
+  const data = [
+    ['S1', 'Parka', 'Coats', 'S1-S', 'S', 'Down'],
+    ['S1', 'Parka', 'Coats', 'S1-M', 'M', ''],
+    ['S2', 'Scarf', 'Accessories', 'S2-OS', 'One Size', ''],
+    ['', '', 'Accessories', 'GIFT-1', '', ''],
+  ];
+  const result = detectMixedModel(hierarchy, data, headers);
+
+  it('tags every row, ignoring blank SKU-level values', () => {
+    expect(result.rowModels).toEqual(['hierarchical', 'hierarchical', 'standalone', 'standalone']);
+  });
+
+  it('only counts blank parent Record ID/Name as missing, not optional parent properties', () => {
+    const optional = detectMixedModel(hierarchy, data.map(row => [row[0], row[1], '', ...row.slice(3)]), headers);
+    expect(optional.rowModels).toEqual(result.rowModels);
+    expect(optional.standaloneProducts).toEqual(result.standaloneProducts);
+  });
+
+  it('explains each standalone row by Excel row number', () => {
+    expect(result.standaloneProducts).toEqual([
+      { row: 4, reason: 'single_variant', missingHeaders: [] },
+      { row: 5, reason: 'missing_parent_values', missingHeaders: ['Style ID', 'Style Name'] },
+    ]);
+    expect(result.shouldUseMixed).toBe(true);
+    expect(result.standalonePercentage).toBe(50);
+  });
+
+  it('treats a single-level hierarchy as fully standalone', () => {
+    const flat = detectMixedModel([hierarchy[1]], data, headers);
+    expect(flat.rowModels.every(model => model === 'standalone')).toBe(true);
+    expect(flat.standaloneProducts.map(product => product.reason)).toEqual(Array(4).fill('no_parent_level'));
+    expect(flat.shouldUseMixed).toBe(false);
+  });
+});
+
+describe('dependency mode', () => {
+  const fixture = CATALOG_FIXTURES.find(f => f.name === 'apparel')!;
+  const result = analyzeProductData(fixture.headers, fixture.data, { ...DEFAULT_ANALYSIS_CONFIG, hierarchyMode: 'dependency' });
+
+  it('keys levels by codes, never by URLs, and splits off no single-attribute parent', () => {
+    expect(result.hierarchy.map(level => level.recordId)).toEqual(['Style Number', 'Color Code', 'SKU']);
+    expect(result.hierarchy[0].headers).toEqual(expect.arrayContaining(['Brand', 'Fabric']));
+  });
+});
@@ -1,5 +1,15 @@
-import { CardinalityScore } from '@/components/CardinalityAnalysis';
-import { HierarchyLevel } from '@/types';
+import { CardinalityScore, HierarchyLevel } from '@/types';
+import { DependencyAnalysis, analyzeFunctionalDependencies } from './functionalDependencies';
+import { AnalysisConfig, DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { VariantAxisReport, detectVariantAxes } from './variantAxes';
+import {
+  PlacementRule,
+  PlacementSteps,
+  PlacementTrace,
+  buildPlacementTrace,
+  recordPlacementStep,
+  relocatePlacementTrace,
+} from './placementTrace';
 
 export interface TaxonomyPath {
   path: string[];
@@ -56,6 +66,23 @@ export interface OrphanedRecord {
   severity: 'low' | 'medium' | 'high';
 }
 
+export type ProductModelType = 'hierarchical' | 'standalone';
+
+export interface StandaloneProduct {
+  row: number; // Excel row number (header is row 1)
+  reason: 'missing_parent_values' | 'single_variant' | 'no_parent_level';
+  missingHeaders: string[]; // Parent-level headers without a value
+}
+
+export interface MixedModelSuggestion {
+  shouldUseMixed: boolean;
+  reasoning: string;
+  standalonePercentage: number;
+  hierarchicalPercentage: number;
+  rowModels: ProductModelType[]; // One entry per data row, in data order
+  standaloneProducts: StandaloneProduct[];
+}
+
 export interface AnalysisResult {
   cardinalityScores: CardinalityScore[];
   hierarchy: HierarchyLevel[];
@@ -72,26 +99,16 @@ export interface AnalysisResult {
   hierarchyPresets: HierarchyAlternative[]; // NEW: 3 preset structures (Flat, Parent-Variant, Multi-Level PIM)
   alternativeHierarchies: HierarchyAlternative[];
   orphanedRecords: OrphanedRecord[];
-  thresholds: {
-    parent: number;
-    childrenMin: number;
-    childrenMax: number;
-    sku: number;
-  };
+  mixedModelSuggestion: MixedModelSuggestion; // Per-row hierarchical/standalone split
+  variantAxisReport: VariantAxisReport; // Duplicate/missing axis combinations per parent level
+  placementTrace: PlacementTrace[]; // Why each header sits on its level, in column order
+  dependencyAnalysis?: DependencyAnalysis; // Only set in 'dependency' mode
+  config: AnalysisConfig; // Settings this result was produced with
 }
 
-// Thresholds for 4-level cardinality classification
-export let PARENT_THRESHOLD = 0.02; // ≤2% unique = Parent (Level 1)
-export let CHILDREN_THRESHOLD_MIN = 0.50; // 50% unique = Children start (Level 2)
-export let CHILDREN_THRESHOLD_MAX = 0.75; // 75% unique = Children end (Level 3)
-export let SKU_THRESHOLD = 0.98; // ≥98% unique = SKU/Attribute (Level 4)
-
-export const updateThresholds = (parent: number, childrenMin: number, childrenMax: number, sku: number) => {
-  PARENT_THRESHOLD = parent;
-  CHILDREN_THRESHOLD_MIN = childrenMin;
-  CHILDREN_THRESHOLD_MAX = childrenMax;
-  SKU_THRESHOLD = sku;
-};
+// Pipeline stages reported while an analysis runs (validation and tree are run by the caller)
+export type AnalysisStage = 'cardinality' | 'hierarchy' | 'presets' | 'validation' | 'tree';
+export const ANALYSIS_STAGES: AnalysisStage[] = ['cardinality', 'hierarchy', 'presets', 'validation', 'tree'];
 
 // Centralized keyword lists for filtering and validation
 const EXCLUDE_KEYWORDS = {
@@ -153,52 +170,59 @@ const EXCLUDE_KEYWORDS_RECORD_NAME = ALL_EXCLUDE_KEYWORDS;
 export const analyzeProductData = (
   headers: string[],
   data: any[][],
-  customThresholds?: { parent: number; childrenMin: number; childrenMax: number; sku: number; minPropertiesPerLevel?: number },
-  forcedSkuHeaders?: string[]
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG,
+  forcedSkuHeaders?: string[],
+  onStage?: (stage: AnalysisStage) => void
 ): AnalysisResult => {
-  // Use custom thresholds if provided
-  if (customThresholds) {
-    updateThresholds(customThresholds.parent, customThresholds.childrenMin, customThresholds.childrenMax, customThresholds.sku);
-  }
-  
-  // CRITICAL: Minimum 6 properties per level to favor 2-level hierarchies (Parent + SKU)
-  // Levels with < 6 properties will be merged into the next level
-  const MIN_PROPERTIES_PER_LEVEL = customThresholds?.minPropertiesPerLevel || 6;
+  // All thresholds come from the config - nothing is stored at module level,
+  // so analyses with different settings can run side by side
 
   // Detect product domain
   const productDomain = detectProductDomain(headers, data);
 
   // Calculate cardinality scores for ALL headers (including item-level)
-  const cardinalityScores = calculateCardinalityScores(headers, data);
+  onStage?.('cardinality');
+  const cardinalityScores = calculateCardinalityScores(headers, data, config);
 
   // Determine which headers to force to SKU-level
   // Priority: forcedSkuHeaders (user selection) > auto-detected item-level
   let itemLevelHeaders: string[];
+  const forcedByUser = !!forcedSkuHeaders && forcedSkuHeaders.length > 0;
   
-  if (forcedSkuHeaders && forcedSkuHeaders.length > 0) {
+  if (forcedByUser) {
     // Use user-selected forced headers
     itemLevelHeaders = forcedSkuHeaders;
-    console.log('🔍 DEBUG - Using user-forced SKU headers:', itemLevelHeaders.length, itemLevelHeaders);
   } else {
     // Auto-detect item-level headers (SKU, EAN, measurements, etc.)
     itemLevelHeaders = headers.filter(h => detectUomAndLogistics(h));
-    console.log('🔍 DEBUG - Item-level headers auto-detected:', itemLevelHeaders.length, itemLevelHeaders);
   }
 
-  // Determine hierarchy based on cardinality
+  // Determine hierarchy based on cardinality, or on functional dependencies between columns
   // Item-level headers are analyzed but will be forced to SKU-level
-  const { hierarchy, properties, confidence, propertiesWithoutValues } = determineHierarchy(
-    cardinalityScores, 
-    headers, 
-    productDomain,
-    data,
-    MIN_PROPERTIES_PER_LEVEL,
-    itemLevelHeaders  // Pass as hint, not exclusion
-  );
+  onStage?.('hierarchy');
+  const dependencyAnalysis = config.hierarchyMode === 'dependency'
+    ? analyzeFunctionalDependencies(headers, data, { threshold: config.dependency.threshold, excludeKeys: itemLevelHeaders })
+    : undefined;
+
+  const placementSteps: PlacementSteps = new Map();
+  const itemLevelRule: ItemLevelRule = forcedByUser ? 'user_forced_sku' : 'item_level_keyword';
+  const { hierarchy: detectedHierarchy, properties, confidence, propertiesWithoutValues } = dependencyAnalysis
+    ? determineDependencyHierarchy(dependencyAnalysis, cardinalityScores, headers, data, itemLevelHeaders, placementSteps, itemLevelRule)
+    : determineHierarchy(
+        cardinalityScores,
+        headers,
+        productDomain,
+        data,
+        config,
+        itemLevelHeaders,  // Pass as hint, not exclusion
+        placementSteps,
+        itemLevelRule
+      );
 
   // NEW: Generate 3 preset hierarchy structures (Flat, Parent-Variant, Multi-Level PIM)
   // CRITICAL: Pass actual hierarchy to ensure presets match initial analysis distribution
-  const hierarchyPresets = generateHierarchyPresets(cardinalityScores, headers, hierarchy);
+  onStage?.('presets');
+  const presets = generateHierarchyPresets(cardinalityScores, headers, detectedHierarchy, config);
   
   // Generate alternative hierarchies (legacy - keep for backward compatibility)
   const alternativeHierarchies = generateAlternativeHierarchies(
@@ -207,9 +231,6 @@ export const analyzeProductData = (
     productDomain
   );
 
-  // Generate taxonomy paths
-  const taxonomyPaths = generateTaxonomyPaths(hierarchy, data, headers);
-
   // Suggest Record ID and Name
   const recordIdSuggestion = suggestRecordId(headers, data);
   const recordNameSuggestion = suggestRecordName(headers, data);
@@ -217,6 +238,20 @@ export const analyzeProductData = (
   // Analyze property data types and picklists
   const propertyRecommendations = analyzePropertyTypes(headers, data, cardinalityScores);
 
+  // Variant axes per parent level (e.g. Color + Size) - only picklist columns qualify
+  const axisHeaders = getAxisHeaders(propertyRecommendations);
+  const { hierarchy, report: variantAxisReport } = detectVariantAxes(detectedHierarchy, headers, data, axisHeaders);
+  const hierarchyPresets = presets.map(preset => ({
+    ...preset,
+    hierarchy: detectVariantAxes(preset.hierarchy, headers, data, axisHeaders).hierarchy,
+  }));
+
+  // Why each header landed where it did (UI "Why here?" and JSON export)
+  const placementTrace = buildPlacementTrace(headers, cardinalityScores, hierarchy, placementSteps, findItemLevelKeywords);
+
+  // Generate taxonomy paths
+  const taxonomyPaths = generateTaxonomyPaths(hierarchy, data, headers);
+
   // Detect UOM patterns and suggest conversions
   const uomSuggestions = analyzeUomPatterns(headers, data);
 
@@ -226,6 +261,9 @@ export const analyzeProductData = (
   // Generate Record ID/Name suggestions per level
   const recordIdNameSuggestions = generateRecordIdNameSuggestions(hierarchy, headers, data);
 
+  // Tag every row as hierarchical or standalone
+  const mixedModelSuggestion = detectMixedModel(hierarchy, data, headers);
+
   return {
     cardinalityScores,
     hierarchy,
@@ -242,18 +280,71 @@ export const analyzeProductData = (
     hierarchyPresets,
     alternativeHierarchies,
     orphanedRecords,
-    thresholds: {
-      parent: PARENT_THRESHOLD,
-      childrenMin: CHILDREN_THRESHOLD_MIN,
-      childrenMax: CHILDREN_THRESHOLD_MAX,
-      sku: SKU_THRESHOLD,
-    },
+    mixedModelSuggestion,
+    variantAxisReport,
+    placementTrace,
+    dependencyAnalysis,
+    config,
   };
 };
 
+// Helper: hierarchyScore and classification only depend on cardinality, completeness and config
+const scoreColumn = (
+  cardinality: number,
+  completeness: number,
+  config: AnalysisConfig
+): Pick<CardinalityScore, 'hierarchyScore' | 'classification'> => {
+  const { scoring, thresholds } = config;
+
+  // NEW: Calculate hierarchy score (multi-factor)
+  // Formula: Completeness weight * Cardinality weight
+  // High completeness + Low cardinality = Top hierarchy level
+  // High completeness + High cardinality = SKU/Attribute level
+  // Low completeness = Variant/Attribute (regardless of cardinality)
+  let hierarchyScore = 0;
+  
+  if (completeness >= scoring.highCompleteness) {
+    // High completeness (default ≥80% filled)
+    if (cardinality <= scoring.topLevelCardinality) {
+      hierarchyScore = 100; // Top level (Brand, Category)
+    } else if (cardinality <= scoring.midLevelCardinality) {
+      hierarchyScore = 75;  // Mid level (Subcategory, Material)
+    } else if (cardinality <= scoring.variantCardinality) {
+      hierarchyScore = 50;  // Variant level (Color, Size)
+    } else {
+      hierarchyScore = 25;  // SKU/Attribute level (EAN, SKU)
+    }
+  } else if (completeness >= scoring.mediumCompleteness) {
+    // Medium completeness (default 50-80% filled)
+    hierarchyScore = 40; // Likely variant/attribute
+  } else {
+    // Low completeness (<50% filled)
+    hierarchyScore = 10; // Sparse attribute (never top-level)
+  }
+
+  // CRITICAL: 3-level classification (max 3 levels per user requirement)
+  // Between the bands (parent-childrenMin, childrenMax-sku) dense columns take the upper level, sparse ones the lower
+  const isDense = completeness >= scoring.highCompleteness;
+  let classification: 'level1' | 'level2' | 'level3';
+  if (cardinality >= thresholds.sku) {
+    classification = 'level3'; // SKU/Attribute level (≥98%)
+  } else if (cardinality > thresholds.childrenMax) {
+    classification = isDense ? 'level2' : 'level3'; // Between children end and SKU (75%-98%)
+  } else if (cardinality >= thresholds.childrenMin) {
+    classification = 'level2'; // Child/Variant (50%-75%)
+  } else if (cardinality > thresholds.parent) {
+    classification = isDense ? 'level1' : 'level2'; // Between parent and children start (2%-50%)
+  } else {
+    classification = 'level1'; // Parent level (≤2%)
+  }
+
+  return { hierarchyScore, classification };
+};
+
 const calculateCardinalityScores = (
   headers: string[],
-  data: any[][]
+  data: any[][],
+  config: AnalysisConfig
 ): CardinalityScore[] => {
   return headers.map((header, index) => {
     const columnData = data.map((row) => row[index]);
@@ -266,42 +357,6 @@ const calculateCardinalityScores = (
     
     // NEW: Calculate completeness (data density)
     const completeness = allValues > 0 ? totalCount / allValues : 0;
-    
-    // NEW: Calculate hierarchy score (multi-factor)
-    // Formula: Completeness weight * Cardinality weight
-    // High completeness + Low cardinality = Top hierarchy level
-    // High completeness + High cardinality = SKU/Attribute level
-    // Low completeness = Variant/Attribute (regardless of cardinality)
-    let hierarchyScore = 0;
-    
-    if (completeness >= 0.8) {
-      // High completeness (≥80% filled)
-      if (cardinality <= 0.05) {
-        hierarchyScore = 100; // Top level (Brand, Category)
-      } else if (cardinality <= 0.30) {
-        hierarchyScore = 75;  // Mid level (Subcategory, Material)
-      } else if (cardinality <= 0.70) {
-        hierarchyScore = 50;  // Variant level (Color, Size)
-      } else {
-        hierarchyScore = 25;  // SKU/Attribute level (EAN, SKU)
-      }
-    } else if (completeness >= 0.50) {
-      // Medium completeness (50-80% filled)
-      hierarchyScore = 40; // Likely variant/attribute
-    } else {
-      // Low completeness (<50% filled)
-      hierarchyScore = 10; // Sparse attribute (never top-level)
-    }
-
-    // CRITICAL: 3-level classification (max 3 levels per user requirement)
-    let classification: 'level1' | 'level2' | 'level3';
-    if (cardinality >= SKU_THRESHOLD) {
-      classification = 'level3'; // SKU/Attribute level (≥98%)
-    } else if (cardinality >= CHILDREN_THRESHOLD_MIN) {
-      classification = 'level2'; // Child/Variant (50%-98%)
-    } else {
-      classification = 'level1'; // Parent level (≤50%)
-    }
 
     return {
       header,
@@ -309,12 +364,42 @@ const calculateCardinalityScores = (
       totalCount,
       cardinality,
       completeness,
-      hierarchyScore,
-      classification,
+      ...scoreColumn(cardinality, completeness, config),
     };
   });
 };
 
+/**
+ * Re-scores existing cardinality scores under another config without re-reading the data.
+ */
+export const rescoreCardinality = (scores: CardinalityScore[], config: AnalysisConfig): CardinalityScore[] =>
+  scores.map(score => ({ ...score, ...scoreColumn(score.cardinality, score.completeness, config) }));
+
+/**
+ * Cardinality-mode hierarchy for a candidate config - used by the threshold tuning preview.
+ * Skips presets, recommendations and validation so it is cheap enough to run while sliders move.
+ */
+export const previewHierarchy = (
+  headers: string[],
+  data: unknown[][],
+  cardinalityScores: CardinalityScore[],
+  config: AnalysisConfig,
+  forcedSkuHeaders?: string[]
+): HierarchyLevel[] => {
+  const itemLevelHeaders = forcedSkuHeaders && forcedSkuHeaders.length > 0
+    ? forcedSkuHeaders
+    : headers.filter(h => detectUomAndLogistics(h));
+
+  return determineHierarchy(
+    rescoreCardinality(cardinalityScores, config),
+    headers,
+    detectProductDomain(headers, data),
+    data,
+    config,
+    itemLevelHeaders
+  ).hierarchy;
+};
+
 const detectProductDomain = (headers: string[], data: any[][]): ProductDomain => {
   const headerText = headers.join(' ').toLowerCase();
   const sampleData = data.slice(0, 20).flat().map(v => String(v).toLowerCase()).join(' ');
@@ -489,7 +574,6 @@ const scoreHeaderForRecordName = (header: string, recordId: string, usedRecordNa
   
   // CRITICAL: Never reuse Record Name from another level
   if (usedRecordNames.includes(header)) {
-    console.log(`🚫 BLOCKED - "${header}" already used as Record Name in another level`);
     return -1000;
   }
   
@@ -535,7 +619,13 @@ const scoreHeaderForRecordName = (header: string, recordId: string, usedRecordNa
 };
 
 // Helper: Detect UoM, logistics, and SKU-level identifiers
-export const detectUomAndLogistics = (header: string): boolean => {
+export const detectUomAndLogistics = (header: string): boolean => findItemLevelKeywords(header).length > 0;
+
+/**
+ * Item-level keywords (identifiers, UoM, logistics, pricing, dates, technical specs) found
+ * in a header name. Taxonomy level headers (L1, Level 2) never match.
+ */
+export const findItemLevelKeywords = (header: string): string[] => {
   const headerLower = header.toLowerCase();
   
   // IMPORTANT: Exclude taxonomy/hierarchy level indicators (L1, L2, L3, L4, etc.)
@@ -545,7 +635,7 @@ export const detectUomAndLogistics = (header: string): boolean => {
                           /^hierarchy\s*\d+$/i.test(headerLower.trim());
   
   if (isTaxonomyLevel) {
-    return false; // DO NOT exclude taxonomy levels from hierarchy analysis
+    return []; // DO NOT exclude taxonomy levels from hierarchy analysis
   }
   
   // SKU-level identifiers (always item-level)
@@ -654,7 +744,20 @@ export const detectUomAndLogistics = (header: string): boolean => {
     ...technicalKeywords
   ];
   
-  return allKeywords.some(kw => headerLower.includes(kw));
+  return Array.from(new Set(allKeywords.filter(kw => headerLower.includes(kw))));
+};
+
+// Helper: ratio as a whole percentage for placement trace details
+const formatPercent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
+
+type ItemLevelRule = Extract<PlacementRule, 'item_level_keyword' | 'user_forced_sku'>;
+
+// Helper: placement trace detail for a header forced to SKU-level
+const describeItemLevelStep = (header: string, rule: ItemLevelRule): string => {
+  const keywords = findItemLevelKeywords(header);
+  return rule === 'user_forced_sku' || keywords.length === 0
+    ? 'Selected by the user as a forced SKU-level header'
+    : `Header name matches item-level keywords (${keywords.join(', ')}) - forced to SKU-level`;
 };
 
 const determineHierarchy = (
@@ -662,9 +765,17 @@ const determineHierarchy = (
   headers: string[],
   productDomain: ProductDomain,
   data: any[][],
-  minPropertiesPerLevel: number = 6,
-  itemLevelHeaders: string[] = []  // Renamed: these are hints, not exclusions
+  config: AnalysisConfig,
+  itemLevelHeaders: string[] = [],  // Renamed: these are hints, not exclusions
+  steps?: PlacementSteps,  // Collects the placement trace - omitted by previews
+  itemLevelRule: ItemLevelRule = 'item_level_keyword'
 ): { hierarchy: HierarchyLevel[]; properties: string[]; confidence: number; propertiesWithoutValues: string[] } => {
+  const { levels } = config;
+  const record = (header: string, rule: PlacementRule, detail: string, level?: string) =>
+    recordPlacementStep(steps, header, { rule, detail, level });
+  // CRITICAL: Minimum properties per level (default 6) to favor 2-level hierarchies (Parent + SKU)
+  // Levels with fewer properties will be merged into the next level
+  const minPropertiesPerLevel = levels.minPropertiesPerLevel;
   // ANALYZE ALL HEADERS (including item-level)
   // Item-level headers will be analyzed for Record ID detection
   // but will be forced to SKU-level at the end
@@ -697,17 +808,17 @@ const determineHierarchy = (
   // Level 1: TOLERANT criteria - Accept lower completeness (≥60%) and hierarchyScore (≥50)
   // This allows more data patterns to be detected as hierarchical
   const level1Headers = sortedScores
-    .filter((score) => score.hierarchyScore >= 50 && score.completeness >= 0.60 && score.cardinality <= 0.30)
+    .filter((score) => score.hierarchyScore >= levels.level1MinScore && score.completeness >= levels.level1MinCompleteness && score.cardinality <= levels.level1MaxCardinality)
     .map((score) => score.header);
 
   // Level 2: TOLERANT - Accept mid-level properties with moderate completeness
   // Lower thresholds to capture more potential hierarchy structures
   const level2Headers = sortedScores
     .filter((score) => 
-      score.hierarchyScore >= 25 && 
-      score.hierarchyScore < 50 && 
-      score.completeness >= 0.50 &&
-      score.cardinality < 0.70  // More tolerant cardinality threshold
+      score.hierarchyScore >= levels.level2MinScore && 
+      score.hierarchyScore < levels.level1MinScore && 
+      score.completeness >= levels.level2MinCompleteness &&
+      score.cardinality < levels.level2MaxCardinality  // More tolerant cardinality threshold
     )
     .map((score) => score.header);
 
@@ -715,12 +826,33 @@ const determineHierarchy = (
   // Includes: logistics, dates, technical specs, item-level attributes
   const skuHeaders = sortedScores
     .filter((score) => 
-      score.hierarchyScore < 25 ||  // Very low hierarchy score
-      score.cardinality >= 0.70 ||   // High uniqueness
-      score.completeness < 0.50     // Sparse data
+      score.hierarchyScore < levels.level2MinScore ||  // Very low hierarchy score
+      score.cardinality >= levels.level2MaxCardinality ||   // High uniqueness
+      score.completeness < levels.level2MinCompleteness     // Sparse data
     )
     .map((score) => score.header);
 
+  // Trace: which bucket each header fell into and the values compared
+  validScores.forEach(score => {
+    const scoreText = `hierarchyScore ${score.hierarchyScore}`;
+    const completenessText = `completeness ${formatPercent(score.completeness)}`;
+    const cardinalityText = `cardinality ${formatPercent(score.cardinality)}`;
+    if (level1Headers.includes(score.header)) {
+      record(score.header, 'score_classification', `Level 1 candidate: ${scoreText} ≥ ${levels.level1MinScore}, ${completenessText} ≥ ${formatPercent(levels.level1MinCompleteness)}, ${cardinalityText} ≤ ${formatPercent(levels.level1MaxCardinality)}`);
+    }
+    if (level2Headers.includes(score.header)) {
+      record(score.header, 'score_classification', `Level 2 candidate: ${scoreText} in ${levels.level2MinScore}-${levels.level1MinScore - 1}, ${completenessText} ≥ ${formatPercent(levels.level2MinCompleteness)}, ${cardinalityText} < ${formatPercent(levels.level2MaxCardinality)}`);
+    }
+    if (skuHeaders.includes(score.header)) {
+      const reasons = [
+        score.hierarchyScore < levels.level2MinScore ? `${scoreText} < ${levels.level2MinScore}` : '',
+        score.cardinality >= levels.level2MaxCardinality ? `${cardinalityText} ≥ ${formatPercent(levels.level2MaxCardinality)}` : '',
+        score.completeness < levels.level2MinCompleteness ? `${completenessText} < ${formatPercent(levels.level2MinCompleteness)}` : '',
+      ].filter(Boolean);
+      record(score.header, 'score_classification', `SKU-level candidate: ${reasons.join(', ')}`);
+    }
+  });
+
   // For backward compatibility in logging (level3Headers is now empty - merged into level2)
   const level3Headers: string[] = [];
 
@@ -928,14 +1060,6 @@ const determineHierarchy = (
       .map(h => ({ header: h, score: scoreHeaderForRecordName(h, recordId, usedRecordNames) }))
       .sort((a, b) => b.score - a.score);
     
-    // DEBUG: Show top 10 scored headers
-    if (isLowestLevel) {
-      console.log(`🔍 DEBUG - Top 10 Record Name candidates (SKU-level):`);
-      scoredHeaders.slice(0, 10).forEach((h, i) => {
-        console.log(`  ${i + 1}. "${h.header}" (score: ${h.score})`);
-      });
-    }
-    
     // PRIORITY 1: Try to find a header with positive score
     let recordName = scoredHeaders.find(h => h.score > 0)?.header;
     
@@ -981,9 +1105,6 @@ const determineHierarchy = (
   const hierarchyLevels: { name: string; headers: string[]; isLowest: boolean }[] = [];
   let orphanedHeaders: string[] = [];
   
-  console.log(`🔍 DEBUG - Building hierarchy with minPropertiesPerLevel = ${minPropertiesPerLevel}`);
-  console.log(`🔍 DEBUG - Level 1 candidates: ${level1Headers.length}, Level 2 candidates: ${level2Headers.length}, SKU candidates: ${skuHeaders.length}`);
-  
   // Add Level 1 (Parent/Taxonomy) if exists AND has enough properties
   if (level1Headers.length >= minPropertiesPerLevel) {
     hierarchyLevels.push({
@@ -993,8 +1114,8 @@ const determineHierarchy = (
     });
     console.log(`✅ Level 1 created with ${level1Headers.length} properties`);
   } else if (level1Headers.length > 0) {
-    console.log(`🔍 DEBUG - Level 1 has < ${minPropertiesPerLevel} properties (${level1Headers.length}). Merging to next level.`);
     orphanedHeaders.push(...level1Headers);
+    level1Headers.forEach(h => record(h, 'level_merged', `Level 1 had ${level1Headers.length} properties (< ${minPropertiesPerLevel}) - merged into the next level`));
   }
   
   // Add Level 2 (Child/Variant) if exists AND has enough properties (including orphaned)
@@ -1008,8 +1129,8 @@ const determineHierarchy = (
     console.log(`✅ Level 2 created with ${level2Combined.length} properties (${orphanedHeaders.length} orphaned + ${level2Headers.length} native)`);
     orphanedHeaders = [];
   } else if (level2Headers.length > 0) {
-    console.log(`🔍 DEBUG - Level 2 has < ${minPropertiesPerLevel} properties (${level2Combined.length}). Merging to SKU level.`);
     orphanedHeaders = level2Combined;
+    level2Combined.forEach(h => record(h, 'level_merged', `Level 2 had ${level2Combined.length} properties (< ${minPropertiesPerLevel}) - merged into SKU-level`));
   }
   
   // MAXIMUM 2 hierarchy levels - everything else goes to SKU
@@ -1017,7 +1138,6 @@ const determineHierarchy = (
   // If NO hierarchy levels were created, all non-SKU headers become orphaned
   if (hierarchyLevels.length === 0 && (level1Headers.length > 0 || level2Headers.length > 0)) {
     const allNonSkuHeaders = [...level1Headers, ...level2Headers];
-    console.log(`🔍 DEBUG - No hierarchy levels created. ${allNonSkuHeaders.length} headers will go to SKU level.`);
     orphanedHeaders = allNonSkuHeaders;
   }
   
@@ -1033,50 +1153,31 @@ const determineHierarchy = (
     console.warn(`⚠️ WARNING - ${unclassifiedHeaders.length} unclassified headers found, forcing to SKU-level:`, unclassifiedHeaders);
     // Add unclassified headers to SKU level
     skuHeaders.push(...unclassifiedHeaders);
+    unclassifiedHeaders.forEach(h => record(h, 'unclassified', 'Matched neither a parent-level nor the SKU-level criteria - placed at SKU-level'));
   }
   
   // Always add SKU level (even if empty, properties will be added later)
   // CRITICAL: Add any orphaned headers from skipped levels
-  if (orphanedHeaders.length > 0) {
-    console.log(`🔍 DEBUG - Adding ${orphanedHeaders.length} orphaned headers to SKU-level:`, orphanedHeaders);
-  }
-  
   hierarchyLevels.push({
     name: 'SKU-Level Properties',
     headers: [...orphanedHeaders, ...skuHeaders],
     isLowest: true,
   });
   
-  console.log('🔍 DEBUG - Total classified headers:', classifiedHeaders.size);
-  console.log('🔍 DEBUG - Total valid headers:', validHeaders.length);
-  console.log('🔍 DEBUG - Unclassified headers:', unclassifiedHeaders.length);
-  
   // Mark last level as lowest
   if (hierarchyLevels.length > 0) {
     hierarchyLevels[hierarchyLevels.length - 1].isLowest = true;
   }
   
   // Build hierarchy from dynamic levels
-  console.log('🔍 DEBUG - Building hierarchy from', hierarchyLevels.length, 'levels');
-  console.log('🔍 DEBUG - Total headers to distribute:', headers.length);
   
   // Track Record Names already used to prevent duplication
   const usedRecordNames: string[] = [];
   
   hierarchyLevels.forEach((levelData, index) => {
-    console.log(`\n🔍 DEBUG - ========== LEVEL ${index + 1} ==========`);
-    console.log(`🔍 DEBUG - Level headers (${levelData.headers.length}):`, levelData.headers.slice(0, 10));
-    console.log(`🔍 DEBUG - Used Record Names so far:`, usedRecordNames);
     
     let { recordId, recordName } = findRecordIdAndName(levelData.headers, levelData.isLowest, usedRecordNames);
     
-    console.log(`🔍 DEBUG - findRecordIdAndName returned:`);
-    console.log(`  - Record ID: "${recordId}"`);
-    console.log(`  - Record Name: "${recordName}"`);
-    console.log(`  - Is duplicate? ${recordName && usedRecordNames.includes(recordName) ? 'YES ❌' : 'NO ✅'}`);
-    
-    console.log(`🔍 DEBUG - Selected Record Name for level ${index + 1}: "${recordName}"`);
-    
     // CRITICAL: Check if Record Name was already used (double-check safety)
     if (recordName && usedRecordNames.includes(recordName)) {
       console.error(`❌ CRITICAL ERROR - Record Name "${recordName}" was already used in another level!`);
@@ -1098,24 +1199,22 @@ const determineHierarchy = (
       }
     }
     
+    if (recordId) {
+      record(recordId, 'record_id', `Best Record ID candidate among the ${levelData.headers.length} ${levelData.name} headers`, levelData.name);
+    }
+
     // Add this Record Name to the used list
     if (recordName) {
+      record(recordName, 'record_name', `Highest Record Name score (${scoreHeaderForRecordName(recordName, recordId, usedRecordNames)}) among the ${levelData.name} headers`, levelData.name);
       usedRecordNames.push(recordName);
-      console.log(`🔍 DEBUG - Added "${recordName}" to usedRecordNames. Total used:`, usedRecordNames.length);
     }
     
-    console.log(`🔍 DEBUG - Level ${index + 1} BEFORE cleaning:`, levelData.headers.length, 'headers');
-    console.log(`🔍 DEBUG - Level ${index + 1} Record ID:`, recordId);
-    console.log(`🔍 DEBUG - Level ${index + 1} Record Name:`, recordName);
-    
     // Remove Record ID and Record Name from headers list to avoid duplication
     const cleanHeaders = levelData.headers.filter(h => {
       if (recordId && h === recordId) {
-        console.log(`🔍 DEBUG - Removing Record ID "${recordId}" from level ${index + 1} headers`);
         return false;
       }
       if (recordName && h === recordName) {
-        console.log(`🔍 DEBUG - Removing Record Name "${recordName}" from level ${index + 1} headers`);
         return false;
       }
       return true;
@@ -1129,8 +1228,6 @@ const determineHierarchy = (
       console.error(`❌ ERROR - Record Name "${recordName}" still in headers after cleaning!`);
     }
     
-    console.log(`🔍 DEBUG - Level ${index + 1} AFTER cleaning:`, cleanHeaders.length, 'headers');
-    
     hierarchy.push({
       level: index + 1,
       name: levelData.name,
@@ -1182,8 +1279,6 @@ const determineHierarchy = (
     });
   });
   
-  console.log('🔍 DEBUG - Properties without values (kept in hierarchy):', propertiesWithoutValues.length, propertiesWithoutValues);
-  
   // DO NOT REMOVE properties without values - keep them in hierarchy
   // This ensures we maintain the total property count
 
@@ -1191,9 +1286,6 @@ const determineHierarchy = (
   // These headers were analyzed for Record ID but must appear at the lowest level
   const itemLevelFields = itemLevelHeaders.filter(h => headers.includes(h));
   
-  console.log('🔍 DEBUG - Item-level fields to force to SKU:', itemLevelFields.length, itemLevelFields);
-  console.log('🔍 DEBUG - Last level before forcing:', consolidatedHierarchy.length > 0 ? consolidatedHierarchy[consolidatedHierarchy.length - 1].headers.length : 'NO LEVELS');
-  
   if (consolidatedHierarchy.length > 0 && itemLevelFields.length > 0) {
     const lastLevel = consolidatedHierarchy[consolidatedHierarchy.length - 1];
     
@@ -1211,66 +1303,44 @@ const determineHierarchy = (
             !lower.includes('code') && 
             !recordNamesToPreserve.includes(level.recordName)) {
           recordNamesToPreserve.push(level.recordName);
-          console.log(`🔍 DEBUG - Record Name to preserve: "${level.recordName}"`);
         }
       }
     });
     
-    console.log(`🔍 DEBUG - Record Names to preserve during merge (${recordNamesToPreserve.length}):`, recordNamesToPreserve);
-    
     // CRITICAL: Remove item-level fields from ALL levels (including last level to avoid duplicates)
     // This includes BOTH auto-detected AND user-forced fields
-    consolidatedHierarchy.forEach((level, index) => {
-      const beforeCount = level.headers.length;
+    consolidatedHierarchy.forEach(level => {
       level.headers = level.headers.filter(h => !itemLevelFields.includes(h));
-      const afterCount = level.headers.length;
-      
-      if (beforeCount !== afterCount) {
-        console.log(`🔍 DEBUG - Removed ${beforeCount - afterCount} item-level fields from level ${index + 1}`);
-      }
     });
     
     // Add all item-level fields to SKU-level (now guaranteed no duplicates)
     lastLevel.headers.push(...itemLevelFields);
+    itemLevelFields.forEach(h => record(h, itemLevelRule, describeItemLevelStep(h, itemLevelRule), lastLevel.name));
     
     // CRITICAL: Do NOT add arbitrary description/name fields to SKU-level
     // Only Record Names from merged levels will be re-added during consolidation
     // This prevents "Short Description" from being added when "Name" was already selected
-    console.log(`🔍 DEBUG - Skipping automatic addition of description/name fields to prevent unwanted Record Name candidates`);
     
     // CRITICAL: Clear Record ID/Name of last level if they are in itemLevelFields
     // They will be re-selected later from the forced headers
     // BUT: We must add them back to headers BEFORE clearing to prevent property loss!
     if (lastLevelRecordId && itemLevelFields.includes(lastLevelRecordId)) {
-      console.log(`🔍 DEBUG - Clearing Record ID "${lastLevelRecordId}" from last level (will be in forced headers)`);
       // Add back to headers before clearing (if not already there)
       if (!lastLevel.headers.includes(lastLevelRecordId)) {
         lastLevel.headers.push(lastLevelRecordId);
-        console.log(`🔍 DEBUG - Added Record ID "${lastLevelRecordId}" back to headers before clearing`);
       }
       lastLevel.recordId = undefined;
     }
     if (lastLevelRecordName && itemLevelFields.includes(lastLevelRecordName)) {
-      console.log(`🔍 DEBUG - Clearing Record Name "${lastLevelRecordName}" from last level (will be in forced headers)`);
       // Add back to headers before clearing (if not already there)
       if (!lastLevel.headers.includes(lastLevelRecordName)) {
         lastLevel.headers.push(lastLevelRecordName);
-        console.log(`🔍 DEBUG - Added Record Name "${lastLevelRecordName}" back to headers before clearing`);
       }
       lastLevel.recordName = undefined;
     }
     
     // RE-SELECT Record ID and Record Name from the forced headers
     // ONLY if they were cleared (undefined), otherwise preserve them
-    console.log(`🔍 DEBUG - SKU-level headers BEFORE re-selection (${lastLevel.headers.length}):`, lastLevel.headers.slice(0, 20));
-    console.log(`🔍 DEBUG - Current Record ID: ${lastLevel.recordId}, Current Record Name: ${lastLevel.recordName}`);
-    
-    // Debug: Show which headers have "description" or "name"
-    const descNameHeaders = lastLevel.headers.filter(h => {
-      const lower = h.toLowerCase();
-      return (lower.includes('description') || lower.includes('name')) && !lower.includes('code');
-    });
-    console.log(`🔍 DEBUG - Description/Name headers available (${descNameHeaders.length}):`, descNameHeaders);
     
     // CRITICAL: Collect Record Names already used in OTHER levels to prevent duplication
     const usedRecordNamesInOtherLevels = consolidatedHierarchy
@@ -1284,28 +1354,23 @@ const determineHierarchy = (
       // Only update if currently undefined
       if (!lastLevel.recordId && newRecordId) {
         lastLevel.recordId = newRecordId;
-        console.log(`🔍 DEBUG - Re-selected Record ID for last level: ${newRecordId}`);
         // Remove from headers
         lastLevel.headers = lastLevel.headers.filter(h => h !== newRecordId);
+        record(newRecordId, 'record_id', 'Re-selected as SKU-level Record ID after item-level fields were moved down', lastLevel.name);
       }
       if (!lastLevel.recordName && newRecordName) {
         lastLevel.recordName = newRecordName;
-        console.log(`🔍 DEBUG - Re-selected Record Name for last level: ${newRecordName}`);
         // Remove from headers
         lastLevel.headers = lastLevel.headers.filter(h => h !== newRecordName);
+        record(newRecordName, 'record_name', 'Re-selected as SKU-level Record Name after item-level fields were moved down', lastLevel.name);
       }
-    } else {
-      console.log(`🔍 DEBUG - Keeping existing Record ID: ${lastLevel.recordId}, Record Name: ${lastLevel.recordName}`);
     }
-    
-    console.log('🔍 DEBUG - Last level after forcing and re-selection:', lastLevel.headers.length, 'headers');
   }
   
   // STEP 1: DEDUPLICATION FIRST - Remove properties that appear in multiple levels
   // This ensures accurate property counts for consolidation
   let tempHierarchy = [...consolidatedHierarchy];
   
-  console.log('🔍 DEBUG - Starting deduplication before consolidation...');
   const seenPropertiesPreConsolidation = new Set<string>();
   
   // Iterate from last level to first (bottom-up)
@@ -1317,24 +1382,18 @@ const determineHierarchy = (
     if (level.recordName) seenPropertiesPreConsolidation.add(level.recordName);
     
     // Remove properties that were already seen in lower levels
-    const beforeCount = level.headers.length;
     level.headers = level.headers.filter(h => {
       if (seenPropertiesPreConsolidation.has(h)) {
-        console.log(`🔍 DEBUG - [Pre-consolidation] Removing duplicate "${h}" from level ${i + 1}`);
+        record(h, 'deduplicated', `Also assigned to a lower level - removed from ${level.name}`);
         return false;
       }
       seenPropertiesPreConsolidation.add(h);
       return true;
     });
-    
-    if (beforeCount !== level.headers.length) {
-      console.log(`🔍 DEBUG - Level ${i + 1} after deduplication: ${level.headers.length} headers (was ${beforeCount})`);
-    }
   }
   
   // STEP 2: CONSOLIDATE LEVELS - Merge levels with < minPropertiesPerLevel into next level
   // Process from end to beginning to handle cascading merges
-  console.log('🔍 DEBUG - Starting consolidation after deduplication...');
   
   // Iterate backwards (except last level which is always kept)
   for (let i = tempHierarchy.length - 2; i >= 0; i--) {
@@ -1345,12 +1404,9 @@ const determineHierarchy = (
                               (currentLevel.recordId ? 1 : 0) + 
                               (currentLevel.recordName ? 1 : 0);
     
-    console.log(`🔍 DEBUG - Checking level ${i + 1}: ${totalPropsInLevel} props (${currentLevel.headers.length} headers + ${currentLevel.recordId ? 1 : 0} ID + ${currentLevel.recordName ? 1 : 0} Name) (min: ${minPropertiesPerLevel})`);
-    
     // If level has < minPropertiesPerLevel, merge with next level
     if (totalPropsInLevel < minPropertiesPerLevel) {
       const nextLevel = tempHierarchy[i + 1];
-      console.log(`🔍 DEBUG - Merging level ${i + 1} (${currentLevel.headers.length} props) into level ${i + 2} (${nextLevel.headers.length} props)`);
       
       // CRITICAL: Add Record ID and Record Name back to headers before merging
       // BUT skip if they are already Record ID/Name of the next level
@@ -1360,20 +1416,16 @@ const determineHierarchy = (
           currentLevel.recordId !== nextLevel.recordId && 
           currentLevel.recordId !== nextLevel.recordName) {
         currentLevelAllHeaders.push(currentLevel.recordId);
-        console.log(`🔍 DEBUG - Re-adding Record ID "${currentLevel.recordId}" from merged level`);
-      } else if (currentLevel.recordId) {
-        console.log(`🔍 DEBUG - Skipping Record ID "${currentLevel.recordId}" (already used in next level)`);
       }
       
       if (currentLevel.recordName && 
           currentLevel.recordName !== nextLevel.recordId && 
           currentLevel.recordName !== nextLevel.recordName) {
         currentLevelAllHeaders.push(currentLevel.recordName);
-        console.log(`🔍 DEBUG - Re-adding Record Name "${currentLevel.recordName}" from merged level`);
-      } else if (currentLevel.recordName) {
-        console.log(`🔍 DEBUG - Skipping Record Name "${currentLevel.recordName}" (already used in next level)`);
       }
       
+      currentLevelAllHeaders.forEach(h => record(h, 'level_merged', `${currentLevel.name} had ${totalPropsInLevel} properties (< ${minPropertiesPerLevel}) - merged into ${nextLevel.name}`, nextLevel.name));
+      
       // Merge current into next (with deduplication)
       const mergedHeaders = [...currentLevelAllHeaders, ...nextLevel.headers];
       nextLevel.headers = Array.from(new Set(mergedHeaders)); // Remove duplicates
@@ -1381,7 +1433,6 @@ const determineHierarchy = (
       // CRITICAL: If we re-added a Record Name, and it's now the Record Name of next level, REMOVE it from headers
       if (nextLevel.recordName && nextLevel.headers.includes(nextLevel.recordName)) {
         nextLevel.headers = nextLevel.headers.filter(h => h !== nextLevel.recordName);
-        console.log(`🔍 DEBUG - Removed Record Name "${nextLevel.recordName}" from merged level headers (already used as Record Name)`);
       }
       
       // Remove current level
@@ -1392,7 +1443,6 @@ const determineHierarchy = (
   const finalHierarchy = tempHierarchy;
   
   // STEP 3: FINAL DEDUPLICATION (after merges) - Catch any duplicates introduced during consolidation
-  console.log('🔍 DEBUG - Final deduplication check after consolidation...');
   const seenPropertiesFinal = new Set<string>();
   
   // Iterate from last level to first (bottom-up)
@@ -1406,7 +1456,7 @@ const determineHierarchy = (
     // Remove properties that were already seen in lower levels
     level.headers = level.headers.filter(h => {
       if (seenPropertiesFinal.has(h)) {
-        console.log(`🔍 DEBUG - [Post-consolidation] Removing duplicate "${h}" from level ${i + 1}`);
+        record(h, 'deduplicated', `Also assigned to a lower level after merging - removed from ${level.name}`);
         return false;
       }
       seenPropertiesFinal.add(h);
@@ -1431,9 +1481,6 @@ const determineHierarchy = (
       .filter(level => level !== lastLevel && level.recordName)
       .map(level => level.recordName!);
     
-    console.log(`🔍 DEBUG - RE-SELECTING Record Name for last level after consolidation...`);
-    console.log(`🔍 DEBUG - Last level headers AFTER consolidation (${lastLevel.headers.length}):`, lastLevel.headers.slice(0, 20));
-    
     const { recordName: newRecordName } = findRecordIdAndName(
       [...lastLevel.headers, lastLevel.recordId].filter(h => h !== undefined) as string[], 
       true, 
@@ -1442,7 +1489,6 @@ const determineHierarchy = (
     
     // Only update if we found a better Record Name
     if (newRecordName && newRecordName !== lastLevel.recordName) {
-      console.log(`🔍 DEBUG - UPDATING Record Name from "${lastLevel.recordName}" to "${newRecordName}"`);
       
       // Add old Record Name back to headers if it exists
       if (lastLevel.recordName && !lastLevel.headers.includes(lastLevel.recordName)) {
@@ -1454,13 +1500,10 @@ const determineHierarchy = (
       
       // Remove new Record Name from headers
       lastLevel.headers = lastLevel.headers.filter(h => h !== newRecordName);
-    } else {
-      console.log(`🔍 DEBUG - Keeping existing Record Name: "${lastLevel.recordName}"`);
+      record(newRecordName, 'record_name', 'Re-selected as SKU-level Record Name - a better candidate arrived when levels were merged', lastLevel.name);
     }
   }
   
-  console.log('🔍 DEBUG - Final hierarchy levels:', finalHierarchy.length);
-  
   // Count ALL unique properties (headers + Record IDs + Record Names)
   const allInHierarchy = new Set<string>();
   finalHierarchy.forEach(level => {
@@ -1473,13 +1516,6 @@ const determineHierarchy = (
   const totalRecordIds = finalHierarchy.filter(l => l.recordId).length;
   const totalRecordNames = finalHierarchy.filter(l => l.recordName).length;
   
-  console.log('🔍 DEBUG - Total headers in hierarchy (properties only):', totalInHierarchy);
-  console.log('🔍 DEBUG - Total Record IDs:', totalRecordIds);
-  console.log('🔍 DEBUG - Total Record Names:', totalRecordNames);
-  console.log('🔍 DEBUG - Total UNIQUE properties (including Record ID/Name):', allInHierarchy.size);
-  console.log('🔍 DEBUG - Original headers count:', headers.length);
-  console.log('🔍 DEBUG - Properties without values:', propertiesWithoutValues.length);
-  
   if (allInHierarchy.size !== headers.length) {
     const diff = headers.length - allInHierarchy.size;
     console.error(`❌ CRITICAL ERROR - ${Math.abs(diff)} properties ${diff > 0 ? 'MISSING' : 'DUPLICATED'}!`);
@@ -1497,28 +1533,11 @@ const determineHierarchy = (
               prop !== lastLevel.recordId && 
               prop !== lastLevel.recordName) {
             lastLevel.headers.push(prop);
+            record(prop, 'unclassified', 'Lost while levels were merged - recovered at SKU-level', lastLevel.name);
             console.log(`✅ RECOVERED - Added missing property "${prop}" to last level`);
           }
         });
       }
-      
-      // DEBUG: Check where these properties were lost (for future debugging)
-      console.log('\n🔍 DEBUG - Investigating missing properties:');
-      missing.forEach(prop => {
-        const inLevel1 = level1Headers.includes(prop);
-        const inLevel2 = level2Headers.includes(prop);
-        const inSku = skuHeaders.includes(prop);
-        const inItemLevel = itemLevelFields.includes(prop);
-        const score = cardinalityScores.find(s => s.header === prop);
-        
-        console.log(`  "${prop}":`);
-        console.log(`    - In level1Headers? ${inLevel1}`);
-        console.log(`    - In level2Headers? ${inLevel2}`);
-        console.log(`    - In skuHeaders? ${inSku}`);
-        console.log(`    - In itemLevelFields? ${inItemLevel}`);
-        console.log(`    - hierarchyScore: ${score?.hierarchyScore}`);
-        console.log(`    - completeness: ${score?.completeness}`);
-      });
     } else {
       // Find duplicates
       const headerCounts = new Map<string, number>();
@@ -1539,26 +1558,112 @@ const determineHierarchy = (
   } else {
     console.log('✅ SUCCESS - All properties accounted for!');
   }
-  
-  // DETAILED BREAKDOWN
-  console.log('\n📊 DETAILED PROPERTY BREAKDOWN:');
-  finalHierarchy.forEach((level, index) => {
-    console.log(`  Level ${index + 1} (${level.name}):`);
-    console.log(`    - Properties in list: ${level.headers.length}`);
-    console.log(`    - Record ID: ${level.recordId || 'none'}`);
-    console.log(`    - Record Name: ${level.recordName || 'none'}`);
-    console.log(`    - Total for this level: ${level.headers.length + (level.recordId ? 1 : 0) + (level.recordName ? 1 : 0)}`);
-  });
 
   return { hierarchy: finalHierarchy, properties, confidence, propertiesWithoutValues };
 };
 
+/**
+ * Builds the hierarchy from functional dependencies: each dependency level becomes a
+ * parent level keyed by its determinant column, holding only the columns that stay
+ * constant inside it. Everything that varies below the deepest level is SKU-level.
+ */
+const determineDependencyHierarchy = (
+  dependencyAnalysis: DependencyAnalysis,
+  cardinalityScores: CardinalityScore[],
+  headers: string[],
+  data: unknown[][],
+  itemLevelHeaders: string[] = [],
+  steps?: PlacementSteps,
+  itemLevelRule: ItemLevelRule = 'item_level_keyword'
+): { hierarchy: HierarchyLevel[]; properties: string[]; confidence: number; propertiesWithoutValues: string[] } => {
+  const hierarchy: HierarchyLevel[] = [];
+  const usedRecordNames: string[] = [];
+  const forcedToSku: string[] = [];
+  const record = (header: string, rule: PlacementRule, detail: string, level?: string) =>
+    recordPlacementStep(steps, header, { rule, detail, level });
+
+  dependencyAnalysis.levels.forEach((dependencyLevel, index) => {
+    const levelName = `${index === 0 ? 'Parent' : 'Child'} Level (${dependencyLevel.key})`;
+    record(dependencyLevel.key, 'record_id', `Determinant of dependency level ${index + 1} (${dependencyLevel.recordCount} distinct records)`, levelName);
+
+    const attributes = dependencyLevel.attributes
+      .filter(fd => {
+        record(fd.dependent, 'dependency', `${dependencyLevel.determinant.join(' + ')} → ${fd.dependent} holds for ${formatPercent(fd.strength)} of rows (threshold ${formatPercent(dependencyAnalysis.threshold)})`, levelName);
+        // CRITICAL: Item-level headers (EAN, weights, UoM) stay at SKU-level even when they hold here
+        if (itemLevelHeaders.includes(fd.dependent)) {
+          forcedToSku.push(fd.dependent);
+          record(fd.dependent, itemLevelRule, describeItemLevelStep(fd.dependent, itemLevelRule), 'SKU-Level Properties');
+          return false;
+        }
+        return true;
+      })
+      .map(fd => fd.dependent);
+
+    // Record Name: best-scoring attribute that is constant per record of this level
+    const recordName = attributes
+      .map(header => ({ header, score: scoreHeaderForRecordName(header, dependencyLevel.key, usedRecordNames) }))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)[0]?.header;
+    if (recordName) {
+      record(recordName, 'record_name', `Highest Record Name score among the attributes constant per ${dependencyLevel.key}`, levelName);
+      usedRecordNames.push(recordName);
+    }
+
+    hierarchy.push({
+      level: index + 1,
+      name: levelName,
+      headers: attributes.filter(header => header !== recordName),
+      recordId: dependencyLevel.key,
+      recordName,
+      cardinality: data.length > 0 ? dependencyLevel.recordCount / data.length : 0,
+    });
+  });
+
+  // SKU level: the item identifier plus every column that varies within the deepest parent level
+  const skuHeaders = [...forcedToSku, ...dependencyAnalysis.skuAttributes];
+  const skuRecordId = dependencyAnalysis.skuKey || suggestRecordId(headers, data) || undefined;
+  const skuRecordName = skuHeaders
+    .filter(header => header !== skuRecordId)
+    .map(header => ({ header, score: scoreHeaderForRecordName(header, skuRecordId || '', usedRecordNames) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)[0]?.header;
+
+  dependencyAnalysis.skuAttributes.forEach(header =>
+    record(header, 'dependency', 'Varies within the deepest parent level - SKU-level', 'SKU-Level Properties'));
+  if (skuRecordId) {
+    record(skuRecordId, 'record_id', dependencyAnalysis.skuKey ? 'Most unique column - item identifier' : 'Suggested Record ID for the whole sheet', 'SKU-Level Properties');
+  }
+  if (skuRecordName) {
+    record(skuRecordName, 'record_name', 'Highest Record Name score among the SKU-level columns', 'SKU-Level Properties');
+  }
+
+  hierarchy.push({
+    level: hierarchy.length + 1,
+    name: 'SKU-Level Properties',
+    headers: skuHeaders.filter(header => header !== skuRecordId && header !== skuRecordName),
+    recordId: skuRecordId,
+    recordName: skuRecordName,
+    cardinality: 1,
+  });
+
+  const propertiesWithoutValues = cardinalityScores
+    .filter(score => score.completeness < 0.1)
+    .map(score => score.header);
+
+  const confidence = hierarchy.length === 1 ? 0.7 : hierarchy.length === 2 ? 0.8 : hierarchy.length === 3 ? 0.9 : 0.95;
+
+  console.log(`🧬 Dependency hierarchy: ${hierarchy.map(level => `${level.name} [${level.headers.length}]`).join(' → ')}`);
+
+  return { hierarchy, properties: [], confidence, propertiesWithoutValues };
+};
+
 // NEW: Generate 3 preset hierarchy structures based on ACTUAL analysis results
 // CRITICAL: Uses the actual hierarchy from determineHierarchy to ensure consistent distribution
 const generateHierarchyPresets = (
   cardinalityScores: CardinalityScore[],
   headers: string[],
-  actualHierarchy: HierarchyLevel[]  // The ACTUAL hierarchy from initial analysis
+  actualHierarchy: HierarchyLevel[],  // The ACTUAL hierarchy from initial analysis
+  config: AnalysisConfig
 ): HierarchyAlternative[] => {
   const presets: HierarchyAlternative[] = [];
   
@@ -1586,11 +1691,11 @@ const generateHierarchyPresets = (
   
   // Legacy classification for backward compatibility (only used if actual hierarchy is empty)
   const sortedByScore = [...cardinalityScores].sort((a, b) => b.hierarchyScore - a.hierarchyScore);
-  const denseAttributes = sortedByScore.filter(s => s.completeness >= 0.5);
+  const denseAttributes = sortedByScore.filter(s => s.completeness >= config.scoring.mediumCompleteness);
   const topLevel = denseAttributes.filter(s => s.hierarchyScore >= 75);
   const midLevel = denseAttributes.filter(s => s.hierarchyScore >= 50 && s.hierarchyScore < 75);
   const variantLevel = denseAttributes.filter(s => s.hierarchyScore >= 25 && s.hierarchyScore < 50);
-  const skuLevel = sortedByScore.filter(s => s.hierarchyScore < 25 || s.cardinality >= 0.98);
+  const skuLevel = sortedByScore.filter(s => s.hierarchyScore < 25 || s.cardinality >= config.thresholds.sku);
   
   // Helper: Find best Record ID from headers (CRITICAL: use same logic as findBestRecordId)
   const findRecordIdForPreset = (levelHeaders: string[], isSkuLevel: boolean = false): string => {
@@ -1886,72 +1991,109 @@ const generateAlternativeHierarchies = (
   return alternatives.slice(0, 5); // Return max 5 alternatives
 };
 
-const detectMixedModel = (
+/**
+ * Replaces the result's hierarchy (edits, presets, forced SKU headers) and recomputes what
+ * follows from it: variant axes, taxonomy paths, orphaned records, Record ID/Name suggestions,
+ * the hierarchical/standalone split and where each traced header now sits.
+ */
+export const withHierarchy = (
+  result: AnalysisResult,
   hierarchy: HierarchyLevel[],
-  data: any[][],
   headers: string[],
-  orphanedRecords: OrphanedRecord[]
-): {
-  shouldUseMixed: boolean;
-  reasoning: string;
-  standalonePercentage: number;
-  hierarchicalPercentage: number;
-} => {
-  // If no hierarchy detected, no mixed model needed
-  if (hierarchy.length === 0 || (hierarchy.length === 1 && hierarchy[0].headers.length === 0)) {
+  data: unknown[][]
+): AnalysisResult => {
+  const variantAxes = detectVariantAxes(hierarchy, headers, data, getAxisHeaders(result.propertyRecommendations));
+  return {
+    ...result,
+    hierarchy: variantAxes.hierarchy,
+    variantAxisReport: variantAxes.report,
+    taxonomyPaths: generateTaxonomyPaths(variantAxes.hierarchy, data, headers),
+    orphanedRecords: detectOrphanedRecords(variantAxes.hierarchy, data, headers),
+    recordIdNameSuggestions: generateRecordIdNameSuggestions(variantAxes.hierarchy, headers, data),
+    mixedModelSuggestion: detectMixedModel(hierarchy, data, headers),
+    placementTrace: result.placementTrace && relocatePlacementTrace(result.placementTrace, variantAxes.hierarchy),
+  };
+};
+
+/**
+ * Columns that can be variant axes: picklists (Color, Size, Pack Size...), never identifiers or free text.
+ */
+export const getAxisHeaders = (propertyRecommendations: PropertyRecommendation[]): string[] =>
+  propertyRecommendations.filter(r => r.isPicklist || r.dataType === 'picklist').map(r => r.header);
+
+/**
+ * Splits the catalog into hierarchical and standalone products. A row is standalone
+ * when it lacks a parent-level value or is the only variant of its parent record.
+ * Blank SKU-level properties are ignored - they don't change where a product belongs.
+ * Exported so hierarchy edits can re-run it without a full analysis.
+ */
+export const detectMixedModel = (
+  hierarchy: HierarchyLevel[],
+  data: any[][],
+  headers: string[]
+): MixedModelSuggestion => {
+  // Without a parent level every product is standalone (Flat Model)
+  if (hierarchy.length < 2) {
     return {
       shouldUseMixed: false,
-      reasoning: 'No hierarchy detected - pure standalone model',
+      reasoning: 'No parent level in the hierarchy - pure standalone model',
       standalonePercentage: 100,
       hierarchicalPercentage: 0,
+      rowModels: data.map(() => 'standalone' as const),
+      standaloneProducts: data.map((_, rowIndex) => ({ row: rowIndex + 2, reason: 'no_parent_level' as const, missingHeaders: [] })),
     };
   }
 
-  const hierarchyHeaders = hierarchy.flatMap(h => h.headers);
-  
-  // Count products with missing hierarchy values
-  let productsWithMissingHierarchy = 0;
-  let productsWithCompleteHierarchy = 0;
-  
-  data.forEach((row) => {
-    let hasMissingHierarchyValue = false;
-    
-    hierarchyHeaders.forEach(header => {
-      const index = headers.indexOf(header);
-      const value = row[index];
-      if (value === null || value === undefined || value === '' || value === 'Unknown') {
-        hasMissingHierarchyValue = true;
-      }
-    });
-    
-    if (hasMissingHierarchyValue) {
-      productsWithMissingHierarchy++;
-    } else {
-      productsWithCompleteHierarchy++;
+  // Only the parent levels' Record ID/Name decide - an empty property, on the SKU level or an
+  // optional one on a parent level, does not make a product standalone
+  const parentLevels = hierarchy.slice(0, -1);
+  const parentHeaders = Array.from(new Set(parentLevels.flatMap(level =>
+    [level.recordId, level.recordName, ...level.headers].filter(Boolean) as string[]
+  ))).filter(header => headers.includes(header));
+  const parentRecordHeaders = Array.from(new Set(parentLevels.flatMap(level =>
+    [level.recordId, level.recordName].filter(Boolean) as string[]
+  ))).filter(header => headers.includes(header));
+  const directParent = parentLevels[parentLevels.length - 1];
+  const parentKeyHeaders = directParent.recordId && headers.includes(directParent.recordId)
+    ? [directParent.recordId]
+    : parentHeaders;
+
+  const isMissing = (value: unknown) =>
+    value === null || value === undefined || String(value).trim() === '' || value === 'Unknown';
+  const parentKey = (row: unknown[]) => parentKeyHeaders.map(h => String(row[headers.indexOf(h)] ?? '').trim()).join('||');
+
+  // Helper: variants per direct parent record
+  const variantCounts = new Map<string, number>();
+  data.forEach(row => {
+    const key = parentKey(row);
+    variantCounts.set(key, (variantCounts.get(key) || 0) + 1);
+  });
+
+  const standaloneProducts: StandaloneProduct[] = [];
+  const rowModels: ProductModelType[] = data.map((row, rowIndex) => {
+    const missingHeaders = parentRecordHeaders.filter(header => isMissing(row[headers.indexOf(header)]));
+    if (missingHeaders.length > 0) {
+      standaloneProducts.push({ row: rowIndex + 2, reason: 'missing_parent_values', missingHeaders });
+      return 'standalone';
     }
+    if (variantCounts.get(parentKey(row)) === 1) {
+      standaloneProducts.push({ row: rowIndex + 2, reason: 'single_variant', missingHeaders: [] });
+      return 'standalone';
+    }
+    return 'hierarchical';
   });
+
+  const totalProducts = Math.max(data.length, 1);
+  const standalonePercentage = (standaloneProducts.length / totalProducts) * 100;
+  const hierarchicalPercentage = 100 - standalonePercentage;
   
-  const totalProducts = data.length;
-  const standalonePercentage = (productsWithMissingHierarchy / totalProducts) * 100;
-  const hierarchicalPercentage = (productsWithCompleteHierarchy / totalProducts) * 100;
-  
-  // Suggest mixed model if:
-  // 1. Between 10% and 90% of products have missing hierarchy values
-  // 2. Or if there are many orphaned records
-  const orphanedPercentage = (orphanedRecords.length / totalProducts) * 100;
-  
-  const shouldUseMixed = 
-    (standalonePercentage >= 10 && standalonePercentage <= 90) ||
-    (orphanedPercentage >= 15);
+  // Suggest mixed model when between 10% and 90% of products are standalone
+  const shouldUseMixed = standalonePercentage >= 10 && standalonePercentage <= 90;
   
   let reasoning = '';
   
   if (shouldUseMixed) {
-    if (standalonePercentage >= 10 && standalonePercentage <= 90) {
-      reasoning = `Mixed model recommended: ${hierarchicalPercentage.toFixed(1)}% of products have complete hierarchy, while ${standalonePercentage.toFixed(1)}% can be standalone. This suggests the catalog contains products of different natures.`;
-    } else if (orphanedPercentage >= 15) {
-      reasoning = `Mixed model recommended: ${orphanedPercentage.toFixed(1)}% of products have hierarchy inconsistencies. Consider treating these products as standalone.`;
-    }
+    reasoning = `Mixed model recommended: ${hierarchicalPercentage.toFixed(1)}% of products have complete hierarchy, while ${standalonePercentage.toFixed(1)}% can be standalone. This suggests the catalog contains products of different natures.`;
   } else {
     if (standalonePercentage < 10) {
       reasoning = `Pure hierarchical model recommended: ${hierarchicalPercentage.toFixed(1)}% of products have complete hierarchy. Few products (${standalonePercentage.toFixed(1)}%) need special treatment.`;
@@ -1965,6 +2107,8 @@ const detectMixedModel = (
     reasoning,
     standalonePercentage,
     hierarchicalPercentage,
+    rowModels,
+    standaloneProducts,
   };
 };
 
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ANALYSIS_STAGES, AnalysisStage, analyzeProductData } from './analysisEngine';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { runAnalysisPipeline } from './analysisPipeline';
+import { buildTaxonomyTree } from './exportReport';
+import { validateData } from './dataValidation';
+import { CATALOG_FIXTURES } from '@/test/catalogs';
+
+describe('runAnalysisPipeline', () => {
+  const fixture = CATALOG_FIXTURES.find(f => f.name === 'apparel')!;
+  const stages: AnalysisStage[] = [];
+  const output = runAnalysisPipeline(
+    { headers: fixture.headers, data: fixture.data, allHeaders: fixture.headers, config: DEFAULT_ANALYSIS_CONFIG },
+    stage => stages.push(stage)
+  );
+
+  it('reports every stage once, in order', () => {
+    expect(stages).toEqual(ANALYSIS_STAGES);
+    expect(stages).toEqual(['cardinality', 'hierarchy', 'presets', 'validation', 'tree']);
+  });
+
+  it('returns what the analysis, validation and tree steps return on their own', () => {
+    const analysisResult = analyzeProductData(fixture.headers, fixture.data, DEFAULT_ANALYSIS_CONFIG);
+    const validation = validateData(
+      fixture.headers,
+      fixture.data,
+      analysisResult.hierarchy.flatMap(h => h.headers),
+      analysisResult.recordIdSuggestion || undefined,
+      analysisResult.recordNameSuggestion || undefined,
+      fixture.headers,
+      analysisResult.hierarchy
+    );
+    const taxonomyTree = buildTaxonomyTree(analysisResult.hierarchy, fixture.data, fixture.headers);
+
+    expect(output).toEqual({ analysisResult, validation, taxonomyTree });
+  });
+
+  it('runs without a progress callback', () => {
+    const quiet = runAnalysisPipeline({
+      headers: fixture.headers,
+      data: fixture.data,
+      allHeaders: fixture.headers,
+      config: DEFAULT_ANALYSIS_CONFIG,
+    });
+    expect(quiet).toEqual(output);
+  });
+});
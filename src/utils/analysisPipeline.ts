@@ -0,0 +1,59 @@
+import { AnalysisResult, AnalysisStage, analyzeProductData } from './analysisEngine';
+import { CustomTaxonomyConfig, TaxonomyTreeNode, buildCustomTaxonomyTree, buildTaxonomyTree } from './exportReport';
+import { ValidationResult, validateData } from './dataValidation';
+import { AnalysisConfig } from './analysisConfig';
+
+export interface AnalysisPipelineInput {
+  headers: string[];
+  data: unknown[][];
+  allHeaders: string[]; // Original headers including duplicates
+  config: AnalysisConfig;
+  forcedSkuHeaders?: string[];
+  taxonomyConfig?: CustomTaxonomyConfig | null;
+}
+
+export interface AnalysisPipelineOutput {
+  analysisResult: AnalysisResult;
+  taxonomyTree: TaxonomyTreeNode;
+  validation: ValidationResult;
+}
+
+/**
+ * Full analysis run: hierarchy analysis, taxonomy tree and data validation.
+ * Pure and DOM-free so it can run inside the analysis worker or on the main thread.
+ */
+export const runAnalysisPipeline = (
+  input: AnalysisPipelineInput,
+  onStage?: (stage: AnalysisStage) => void
+): AnalysisPipelineOutput => {
+  const { headers, data } = input;
+
+  const analysisResult = analyzeProductData(
+    headers,
+    data,
+    input.config,
+    input.forcedSkuHeaders,
+    onStage
+  );
+
+  // Validate data quality with Salsify compliance checks
+  // CRITICAL: Pass allHeaders to detect duplicate column names in original file
+  onStage?.('validation');
+  const validation = validateData(
+    headers,
+    data,
+    analysisResult.hierarchy.flatMap(h => h.headers),
+    analysisResult.recordIdSuggestion || undefined,
+    analysisResult.recordNameSuggestion || undefined,
+    input.allHeaders,
+    analysisResult.hierarchy
+  );
+
+  // Build taxonomy tree - use custom config if available, otherwise automatic
+  onStage?.('tree');
+  const taxonomyTree = input.taxonomyConfig && input.taxonomyConfig.levels.length > 0
+    ? buildCustomTaxonomyTree(input.taxonomyConfig, data, headers)
+    : buildTaxonomyTree(analysisResult.hierarchy, data, headers);
+
+  return { analysisResult, taxonomyTree, validation };
+};
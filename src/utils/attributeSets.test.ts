@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAttributeSets, getNodePathKey } from './attributeSets';
+
+describe('analyzeAttributeSets', () => {
+  const headers = ['Category', 'Sub Category', 'SKU', 'Allergens', 'Sugar (g)', 'Flavor'];
+  const data = [
+    ['Snacks', 'Crisps', 'S1', 'Milk', '', 'Salted'],
+    ['Snacks', 'Crisps', 'S2', 'Milk', '', ''],
+    ['Snacks', 'Nuts', 'S3', 'Nuts', '', 'Honey'],
+    ['Beverages', 'Soda', 'B1', '', '12', 'Cola'],
+    ['Beverages', 'Juice', 'B2', 'N/A', '9', 'Apple'],
+    ['', 'Misc', 'X1', '', '', ''],
+  ];
+  const result = analyzeAttributeSets(['Category', 'Sub Category'], headers, data);
+
+  it('measures completeness within each taxonomy node', () => {
+    const crisps = result.profiles[getNodePathKey(['Snacks', 'Crisps'])];
+    expect(crisps.productCount).toBe(2);
+    expect(crisps.attributes.find(a => a.header === 'Flavor')).toEqual({ header: 'Flavor', completeness: 0.5, status: 'optional' });
+    expect(result.profiles[getNodePathKey(['Beverages'])].attributes.find(a => a.header === 'Allergens')?.status).toBe('not_relevant');
+    expect(result.unassignedRows).toBe(1);
+  });
+
+  it('groups leaf categories with the same relevant attributes into named sets', () => {
+    expect(result.sets.map(set => ({ name: set.name, required: set.required, optional: set.optional }))).toEqual([
+      { name: 'Snacks', required: ['SKU', 'Allergens'], optional: ['Flavor'] },
+      { name: 'Beverages', required: ['SKU', 'Sugar (g)', 'Flavor'], optional: [] },
+    ]);
+    expect(result.sharedHeaders).toEqual(['SKU']);
+    expect(result.categorySpecificHeaders).toEqual(['Allergens', 'Sugar (g)']);
+  });
+});
@@ -0,0 +1,172 @@
+// Category-specific attribute sets (like Akeneo families or Salsify product types):
+// attribute completeness within every taxonomy node, and leaf categories with the
+// same relevant attributes grouped into one proposed set.
+
+export type AttributeRelevanceStatus = 'required' | 'optional' | 'not_relevant';
+
+export interface AttributeRelevance {
+  header: string;
+  completeness: number; // 0-1, share of the node's products with a value
+  status: AttributeRelevanceStatus;
+}
+
+export interface NodeAttributeProfile {
+  path: string[]; // Taxonomy node names from level 1 down
+  productCount: number;
+  attributes: AttributeRelevance[]; // Every evaluated header, in header order
+}
+
+export interface AttributeSet {
+  name: string;
+  nodePaths: string[][]; // Leaf categories using this set
+  productCount: number;
+  required: string[];
+  optional: string[];
+}
+
+export interface AttributeSetAnalysis {
+  taxonomyProperties: string[]; // Properties the taxonomy paths are built from
+  profiles: Record<string, NodeAttributeProfile>; // Keyed by getNodePathKey(path)
+  sets: AttributeSet[]; // Largest first
+  sharedHeaders: string[]; // Required in every set
+  categorySpecificHeaders: string[]; // Relevant in some leaf categories, not in others
+  unassignedRows: number; // Rows without a complete taxonomy path
+}
+
+export const REQUIRED_COMPLETENESS = 0.95; // At or above: required for the category
+export const OPTIONAL_COMPLETENESS = 0.1; // At or above: optional, below: not relevant
+
+const INVALID_VALUES = ['unknown', 'n/a', 'null', 'undefined'];
+
+export const getNodePathKey = (path: string[]): string => path.join(' > ');
+
+// Helper: same empty/placeholder rules as the taxonomy tree builders
+const hasValue = (value: unknown): boolean => {
+  if (value === null || value === undefined) return false;
+  const text = String(value).trim();
+  return text !== '' && !INVALID_VALUES.includes(text.toLowerCase());
+};
+
+const getStatus = (completeness: number): AttributeRelevanceStatus =>
+  completeness >= REQUIRED_COMPLETENESS ? 'required' : completeness >= OPTIONAL_COMPLETENESS ? 'optional' : 'not_relevant';
+
+// Helper: names from the shallowest level whose nodes belong to this set only - "Snacks", "Laptops, Tablets +3"
+const getSetName = (nodePaths: string[][], otherPaths: string[][]): string => {
+  const depth = nodePaths[0].length;
+  for (let d = 0; d < depth; d++) {
+    const names = Array.from(new Set(nodePaths.map(path => getNodePathKey(path.slice(0, d + 1)))));
+    const isExclusive = otherPaths.every(path => !names.includes(getNodePathKey(path.slice(0, d + 1))));
+    if (isExclusive) {
+      const labels = Array.from(new Set(nodePaths.map(path => path[d])));
+      return labels.length <= 2 ? labels.join(', ') : `${labels.slice(0, 2).join(', ')} +${labels.length - 2}`;
+    }
+  }
+  return getNodePathKey(nodePaths[0]);
+};
+
+/**
+ * Measures every attribute's completeness inside each taxonomy node and proposes
+ * attribute sets with required/optional flags. The taxonomy properties themselves
+ * are not evaluated.
+ */
+export const analyzeAttributeSets = (
+  taxonomyProperties: string[],
+  headers: string[],
+  data: unknown[][]
+): AttributeSetAnalysis => {
+  const taxonomyIndexes = taxonomyProperties.map(property => headers.indexOf(property));
+  const evaluated = headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }) => header && !taxonomyProperties.includes(header));
+
+  // Filled counts per node (every prefix of a row's path)
+  const nodes = new Map<string, { path: string[]; rows: number; filled: number[] }>();
+  const leafKeys = new Set<string>();
+  let unassignedRows = 0;
+
+  data.forEach(row => {
+    if (taxonomyIndexes.length === 0 || taxonomyIndexes.some(index => index < 0 || !hasValue(row[index]))) {
+      unassignedRows++;
+      return;
+    }
+    const path = taxonomyIndexes.map(index => String(row[index]).trim());
+    path.forEach((_, depth) => {
+      const nodePath = path.slice(0, depth + 1);
+      const key = getNodePathKey(nodePath);
+      let node = nodes.get(key);
+      if (!node) {
+        node = { path: nodePath, rows: 0, filled: evaluated.map(() => 0) };
+        nodes.set(key, node);
+      }
+      node.rows++;
+      evaluated.forEach(({ index }, i) => {
+        if (hasValue(row[index])) node.filled[i]++;
+      });
+    });
+    leafKeys.add(getNodePathKey(path));
+  });
+
+  const profiles: Record<string, NodeAttributeProfile> = {};
+  nodes.forEach((node, key) => {
+    profiles[key] = {
+      path: node.path,
+      productCount: node.rows,
+      attributes: evaluated.map(({ header }, i) => {
+        const completeness = node.filled[i] / node.rows;
+        return { header, completeness, status: getStatus(completeness) };
+      }),
+    };
+  });
+
+  // Leaf categories with the same relevant attributes share a set; flags come from their combined rows
+  const groups = new Map<string, { nodePaths: string[][]; rows: number; filled: number[] }>();
+  leafKeys.forEach(key => {
+    const node = nodes.get(key)!;
+    const signature = profiles[key].attributes
+      .filter(attribute => attribute.status !== 'not_relevant')
+      .map(attribute => attribute.header)
+      .join('|');
+    let group = groups.get(signature);
+    if (!group) {
+      group = { nodePaths: [], rows: 0, filled: evaluated.map(() => 0) };
+      groups.set(signature, group);
+    }
+    group.nodePaths.push(node.path);
+    group.rows += node.rows;
+    node.filled.forEach((count, i) => { group.filled[i] += count; });
+  });
+
+  const groupList = Array.from(groups.values());
+  const sets: AttributeSet[] = groupList
+    .map(group => {
+      const statuses = evaluated.map(({ header }, i) => ({ header, status: getStatus(group.filled[i] / group.rows) }));
+      return {
+        name: getSetName(group.nodePaths, groupList.filter(other => other !== group).flatMap(other => other.nodePaths)),
+        nodePaths: group.nodePaths,
+        productCount: group.rows,
+        required: statuses.filter(s => s.status === 'required').map(s => s.header),
+        optional: statuses.filter(s => s.status === 'optional').map(s => s.header),
+      };
+    })
+    .sort((a, b) => b.productCount - a.productCount);
+
+  const leafProfiles = Array.from(leafKeys).map(key => profiles[key]);
+  const sharedHeaders = sets.length > 0
+    ? evaluated.map(({ header }) => header).filter(header => sets.every(set => set.required.includes(header)))
+    : [];
+  const categorySpecificHeaders = evaluated
+    .map(({ header }, i) => ({ header, statuses: leafProfiles.map(profile => profile.attributes[i].status) }))
+    .filter(({ statuses }) => statuses.includes('not_relevant') && statuses.some(status => status !== 'not_relevant'))
+    .map(({ header }) => header);
+
+  console.log(`🗂️ Attribute sets: ${sets.length} sets for ${leafKeys.size} leaf categories, ${categorySpecificHeaders.length} category-specific attributes`);
+
+  return {
+    taxonomyProperties,
+    profiles,
+    sets,
+    sharedHeaders,
+    categorySpecificHeaders,
+    unassignedRows,
+  };
+};
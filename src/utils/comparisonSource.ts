@@ -0,0 +1,17 @@
+import { AnalysisProject, isProjectFile, parseProjectFile } from './projectFile';
+import { readTableFile } from './tableFile';
+
+export type ComparisonSource =
+  | { kind: 'project'; project: AnalysisProject }
+  | { kind: 'table'; label: string; headers: string[]; allHeaders: string[]; data: unknown[][]; notes: string[] };
+
+/**
+ * Reads one side of a comparison: a saved project as-is, or a data file with the
+ * detected defaults (dialect, first sheet, header range) - no confirmation steps.
+ */
+export const readComparisonSource = async (fileName: string, buffer: ArrayBuffer): Promise<ComparisonSource> => {
+  if (isProjectFile(fileName)) {
+    return { kind: 'project', project: await parseProjectFile(buffer) };
+  }
+  return { kind: 'table', ...readTableFile(fileName, buffer) };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { CardinalityScore, HierarchyLevel } from '@/types';
+import { AnalysisResult } from './analysisEngine';
+import { ValidationResult } from './dataValidation';
+import { buildDataModelWorkbook, createSheetNameRegistry } from './dataModelExport';
+
+const headers = ['Style', 'Title', 'SKU', 'Color', 'Size'];
+const hierarchy: HierarchyLevel[] = [
+  { level: 1, name: 'Style', headers: [], recordId: 'Style', recordName: 'Title', variantAxes: ['Color', 'Size'] },
+  { level: 2, name: 'Variant', headers: ['Color', 'Size'], recordId: 'SKU' },
+];
+const score = (header: string, uniqueCount: number, completeness: number) =>
+  ({ header, uniqueCount, completeness }) as CardinalityScore;
+const result = {
+  hierarchy,
+  propertyRecommendations: [
+    { header: 'Color', dataType: 'picklist', isPicklist: true, picklistValues: ['Red', 'Blue'], confidence: 0.9 },
+    { header: 'Size', dataType: 'picklist', isPicklist: true, picklistValues: ['S', ' '], confidence: 0.9 },
+  ],
+  cardinalityScores: [score('Style', 2, 1), score('Color', 2, 1), score('Size', 1, 0.75)],
+} as AnalysisResult;
+const data = [
+  ['ST1', '  Polo   Shirt ', 'A1', 'Red', 'S'],
+  ['ST1', 'Polo Shirt', 'A2', 'Blue', 'S'],
+  ['ST2', 'Tee', 'B1', 'Red', 'S'],
+  ['ST2', 'Tee', 'B2', 'Blue', null],
+];
+const validation: ValidationResult = {
+  warnings: [{
+    type: 'missing_hierarchy',
+    severity: 'medium',
+    title: 'Missing Size',
+    message: '1 row has no Size',
+    affectedRows: [5],
+    affectedCount: 1,
+    suggestion: 'Fill in Size',
+  }],
+  totalIssues: 1,
+  criticalIssues: 0,
+};
+
+describe('buildDataModelWorkbook', () => {
+  const { sheets, summary } = buildDataModelWorkbook(result, headers, data, validation);
+  const sheet = (name: string) => sheets.find(s => s.name === name)!.rows;
+
+  it('writes a sheet per level, tagging the SKU level, then picklists, issues and data', () => {
+    expect(sheets.map(s => s.name)).toEqual(['1 Style', '2 Variant (SKU)', 'Picklist Values', 'Validation Issues', 'Data']);
+    expect(summary).toEqual({ levelCount: 2, propertyCount: 5, picklistValueCount: 3, issueCount: 1, dataRows: 4 });
+  });
+
+  it('lists Record ID/Name first and flags variant axes', () => {
+    expect(sheet('1 Style').slice(1).map(row => row.slice(0, 2))).toEqual([['Style', 'Record ID'], ['Title', 'Record Name']]);
+    expect(sheet('2 Variant (SKU)').slice(1)).toEqual([
+      ['SKU', 'Record ID', 'string', 'No', '', '', ''],
+      ['Color', 'Variant Axis', 'picklist', 'Yes', 2, 2, '100.0%'],
+      ['Size', 'Variant Axis', 'picklist', 'Yes', 2, 1, '75.0%'],
+    ]);
+  });
+
+  it('keeps source row numbers in the data sheet and cleans text', () => {
+    const rows = sheet('Data');
+    expect(rows[0]).toEqual(['Style Record ID', 'Variant Record ID', ...headers]);
+    expect(rows[1]).toEqual(['ST1', 'A1', 'ST1', 'Polo Shirt', 'A1', 'Red', 'S']);
+    expect(rows[4][6]).toBe('');
+    expect(sheet('Validation Issues')[1]).toContain('5');
+  });
+
+  it('fails without a hierarchy', () => {
+    expect(() => buildDataModelWorkbook({ ...result, hierarchy: [] }, headers, data, null)).toThrow('No hierarchy to export');
+  });
+});
+
+describe('createSheetNameRegistry', () => {
+  it('strips invalid characters, truncates to 31 characters and numbers duplicates', () => {
+    const nextSheetName = createSheetNameRegistry();
+    expect(nextSheetName('Shoes/Boots [EU]')).toBe('Shoes Boots EU');
+    expect(nextSheetName('A very long level name that Excel cannot take')).toBe('A very long level name that Exc');
+    expect(nextSheetName('shoes boots eu')).toBe('shoes boots eu (2)');
+  });
+});
@@ -0,0 +1,188 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult } from './analysisEngine';
+import { ValidationResult } from './dataValidation';
+
+export interface DataModelSheet {
+  name: string; // Excel sheet name (≤ 31 chars, unique)
+  rows: unknown[][];
+}
+
+export interface DataModelWorkbook {
+  sheets: DataModelSheet[]; // Level sheets, Picklist Values, Validation Issues, Data
+  summary: {
+    levelCount: number;
+    propertyCount: number;
+    picklistValueCount: number;
+    issueCount: number;
+    dataRows: number;
+  };
+}
+
+const MAX_SHEET_NAME_LENGTH = 31; // Excel limit
+const MAX_LISTED_ROWS = 500; // Row references per issue - keeps cells under Excel's 32,767 char limit
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// Helper: Excel sheet names cannot contain []:*?/\ and must be unique (case-insensitive)
+export const createSheetNameRegistry = () => {
+  const used = new Set<string>();
+  return (value: string): string => {
+    const base = value.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').slice(0, MAX_SHEET_NAME_LENGTH).trim() || 'Sheet';
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      const tag = ` (${suffix++})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - tag.length) + tag;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+// Helper: trimmed text, numbers/booleans/dates kept as-is so Excel keeps their type
+const cleanValue = (value: unknown): unknown => {
+  if (isEmptyValue(value)) return '';
+  return typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value;
+};
+
+/**
+ * Builds the data model workbook handed to clients: one sheet per hierarchy level
+ * (properties, data types, picklist flags, Record ID/Name), picklist values, validation
+ * issues and the cleaned data with each level's Record ID in front.
+ * Data sheet row N is source row N, so validation row references point straight at it.
+ */
+export const buildDataModelWorkbook = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  validationResult: ValidationResult | null
+): DataModelWorkbook => {
+  const { hierarchy } = analysisResult;
+  if (hierarchy.length === 0) {
+    throw new Error('No hierarchy to export');
+  }
+
+  const recommendations = new Map(analysisResult.propertyRecommendations.map(r => [r.header, r]));
+  const scores = new Map(analysisResult.cardinalityScores.map(s => [s.header, s]));
+  const nextSheetName = createSheetNameRegistry();
+  const sheets: DataModelSheet[] = [];
+
+  // Level sheets - Record ID/Name first, then the level's own properties (variant axes flagged)
+  let propertyCount = 0;
+  const axisHeaders = new Set(hierarchy.flatMap(level => level.variantAxes ?? []));
+  hierarchy.forEach((level, index) => {
+    const rows: unknown[][] = [['Property', 'Role', 'Data Type', 'Picklist', 'Picklist Values', 'Unique Values', 'Completeness']];
+    const entries: { header: string; role: string }[] = [
+      ...(level.recordId ? [{ header: level.recordId, role: level.generatedKey ? 'Record ID (generated)' : 'Record ID' }] : []),
+      ...(level.recordName ? [{ header: level.recordName, role: level.generatedKey?.nameHeader ? 'Record Name (generated)' : 'Record Name' }] : []),
+      ...level.headers
+        .filter(h => h !== level.recordId && h !== level.recordName)
+        .map(header => ({ header, role: axisHeaders.has(header) ? 'Variant Axis' : 'Property' })),
+    ];
+
+    entries.forEach(({ header, role }) => {
+      const recommendation = recommendations.get(header);
+      const score = scores.get(header);
+      rows.push([
+        header,
+        role,
+        recommendation?.dataType || 'string',
+        recommendation?.isPicklist ? 'Yes' : 'No',
+        recommendation?.isPicklist ? recommendation.picklistValues?.length ?? 0 : '',
+        score ? score.uniqueCount : '',
+        score ? `${(score.completeness * 100).toFixed(1)}%` : '',
+      ]);
+    });
+
+    propertyCount += entries.length;
+    const needsSkuTag = index === hierarchy.length - 1 && !/sku/i.test(level.name);
+    sheets.push({ name: nextSheetName(`${index + 1} ${level.name}${needsSkuTag ? ' (SKU)' : ''}`), rows });
+  });
+
+  // Picklist values sheet
+  const picklistRows: unknown[][] = [['Level', 'Property', 'Value']];
+  hierarchy.forEach(level => {
+    [level.recordId, level.recordName, ...level.headers]
+      .filter((h, i, all): h is string => !!h && all.indexOf(h) === i)
+      .forEach(header => {
+        const recommendation = recommendations.get(header);
+        if (!recommendation?.isPicklist || !recommendation.picklistValues) return;
+        recommendation.picklistValues
+          .filter(value => value.trim() !== '')
+          .forEach(value => picklistRows.push([level.name, header, value]));
+      });
+  });
+  sheets.push({ name: nextSheetName('Picklist Values'), rows: picklistRows });
+
+  // Validation issues sheet - row references are Data sheet rows
+  const issueRows: unknown[][] = [['Severity', 'Type', 'Issue', 'Details', 'Suggestion', 'Affected Rows', 'Data Sheet Rows', 'Examples']];
+  validationResult?.warnings.forEach(warning => {
+    const listed = warning.affectedRows.slice(0, MAX_LISTED_ROWS).join(', ');
+    const more = warning.affectedRows.length > MAX_LISTED_ROWS ? ` … +${warning.affectedRows.length - MAX_LISTED_ROWS} more` : '';
+    issueRows.push([
+      warning.severity,
+      warning.type,
+      warning.title,
+      warning.message,
+      warning.suggestion,
+      warning.affectedCount,
+      listed + more,
+      (warning.examples || []).join('; '),
+    ]);
+  });
+  sheets.push({ name: nextSheetName('Validation Issues'), rows: issueRows });
+
+  // Cleaned data sheet - one Record ID column per level that has one
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const idColumns = hierarchy
+    .filter(level => level.recordId && columnIndex.has(level.recordId))
+    .map(level => ({ title: `${level.name} Record ID`, index: columnIndex.get(level.recordId!)! }));
+  const dataRows: unknown[][] = [[...idColumns.map(c => c.title), ...headers]];
+  data.forEach(row => {
+    dataRows.push([
+      ...idColumns.map(c => cleanValue(row[c.index])),
+      ...headers.map((_, i) => cleanValue(row[i])),
+    ]);
+  });
+  sheets.push({ name: nextSheetName('Data'), rows: dataRows });
+
+  const summary = {
+    levelCount: hierarchy.length,
+    propertyCount,
+    picklistValueCount: picklistRows.length - 1,
+    issueCount: issueRows.length - 1,
+    dataRows: data.length,
+  };
+  console.log(`📗 Data model workbook: ${summary.levelCount} level sheets, ${summary.propertyCount} properties, ${summary.picklistValueCount} picklist values, ${summary.issueCount} issues, ${summary.dataRows} data rows`);
+
+  return { sheets, summary };
+};
+
+/**
+ * Converts the sheet rows into an XLSX workbook, ready to write.
+ */
+export const createDataModelXlsx = (dataModel: DataModelWorkbook): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  dataModel.sheets.forEach(sheet => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name);
+  });
+  return workbook;
+};
+
+/**
+ * Downloads the data model workbook (.xlsx).
+ */
+export const downloadDataModelWorkbook = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  validationResult: ValidationResult | null
+): DataModelWorkbook => {
+  const dataModel = buildDataModelWorkbook(analysisResult, headers, data, validationResult);
+  const workbook = createDataModelXlsx(dataModel);
+
+  const fileName = `data-model-${new Date().toISOString().split('T')[0]}.xlsx`;
+  XLSX.writeFile(workbook, fileName);
+  return dataModel;
+};
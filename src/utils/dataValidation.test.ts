@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { validateData } from './dataValidation';
+
+describe('parent attribute conflicts', () => {
+  const headers = ['Style ID', 'Style Name', 'Fabric', 'SKU', 'Color'];
+  const hierarchy: HierarchyLevel[] = [
+    { level: 1, name: 'Style', headers: ['Fabric'], recordId: 'Style ID', recordName: 'Style Name' },
+    { level: 2, name: 'SKU', headers: ['Color'], recordId: 'SKU' },
+  ];
+  const data = [
+    ['S1', 'Parka', 'Cotton', 'S1-R', 'Red'],
+    ['S1', 'Parka', 'Wool', 'S1-B', 'Blue'],
+    ['S1', 'Parka', '', 'S1-G', 'Green'],
+    ['S1', 'Parka', 'Cotton', 'S1-W', 'White'],
+    ['S2', 'Parka', 'Linen', 'S2-R', 'Red'],
+    ['S2', 'Parka', 'Linen', 'S2-B', 'Blue'],
+    ['S3', 'Blazer', 'Silk', 'S3-R', 'Red'],
+    ['S3', 'Blazer Slim', 'Silk', 'S3-B', 'Red'],
+    ['', 'Gilet', 'Wool', 'X1', 'Red'],
+  ];
+  const conflicts = validateData(headers, data, ['Style ID'], 'SKU', 'SKU', headers, hierarchy)
+    .warnings.filter(w => w.type === 'parent_conflict');
+
+  it('groups rows by the parent Record ID and ignores blank values', () => {
+    const fabric = conflicts.find(w => w.title.includes('"Fabric"'))!;
+    expect(fabric.parentConflicts).toEqual([{
+      levelName: 'Style',
+      attribute: 'Fabric',
+      parentValue: 'S1',
+      values: [
+        { value: 'Cotton', rows: [2, 5] },
+        { value: 'Wool', rows: [3] },
+      ],
+    }]);
+    expect(fabric.affectedRows).toEqual([2, 3, 5]);
+    expect(fabric.message).toContain('1 of 3 parent records ("Style ID")');
+  });
+
+  it('checks the Record Name, but not across parents sharing a name', () => {
+    const name = conflicts.find(w => w.title.includes('"Style Name"'))!;
+    expect(name.parentConflicts!.map(c => c.parentValue)).toEqual(['S3']);
+    expect(name.parentConflicts![0].values).toEqual([
+      { value: 'Blazer', rows: [8] },
+      { value: 'Blazer Slim', rows: [9] },
+    ]);
+  });
+
+  it('leaves the SKU level out, since its attributes are expected to vary', () => {
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts.some(w => w.title.includes('"Color"'))).toBe(false);
+  });
+
+  it('reports nothing without a parent level', () => {
+    const flat = validateData(headers, data, [], 'SKU', 'SKU', headers, [hierarchy[1]]);
+    expect(flat.warnings.some(w => w.type === 'parent_conflict')).toBe(false);
+  });
+});
@@ -1,5 +1,14 @@
+import { HierarchyLevel } from '@/types';
+
+export interface ParentAttributeConflict {
+  levelName: string;
+  attribute: string;
+  parentValue: string; // Record ID value of the parent record
+  values: { value: string; rows: number[] }[]; // Excel row numbers per distinct value
+}
+
 export interface DataValidationWarning {
-  type: 'duplicate' | 'inconsistency' | 'normalization' | 'outlier' | 'missing_hierarchy' | 'salsify_compliance' | 'duplicate_header';
+  type: 'duplicate' | 'inconsistency' | 'normalization' | 'outlier' | 'missing_hierarchy' | 'salsify_compliance' | 'duplicate_header' | 'parent_conflict';
   severity: 'low' | 'medium' | 'high';
   title: string;
   message: string;
@@ -9,6 +18,7 @@ export interface DataValidationWarning {
   suggestion: string;
   examples?: string[];
   salsifyRule?: string; // Salsify-specific rule reference
+  parentConflicts?: ParentAttributeConflict[]; // For parent_conflict - conflicting parent records
 }
 
 export interface ValidationResult {
@@ -39,7 +49,8 @@ export const validateData = (
   hierarchyHeaders: string[],
   recordIdField?: string,
   recordNameField?: string,
-  allHeaders?: string[] // Original headers including duplicates
+  allHeaders?: string[], // Original headers including duplicates
+  hierarchy?: HierarchyLevel[] // Chosen hierarchy - parent levels are checked for conflicts
 ): ValidationResult => {
   const warnings: DataValidationWarning[] = [];
 
@@ -67,7 +78,11 @@ export const validateData = (
   const missingHierarchyWarnings = detectMissingHierarchyValues(headers, data, hierarchyHeaders);
   warnings.push(...missingHierarchyWarnings);
 
-  // 6. Outlier detection REMOVED - not useful for data quality assessment
+  // 6. Detect parent-level attributes that vary within a parent record
+  const parentConflictWarnings = detectParentAttributeConflicts(headers, data, hierarchy || []);
+  warnings.push(...parentConflictWarnings);
+
+  // 7. Outlier detection REMOVED - not useful for data quality assessment
   // const outlierWarnings = detectOutliers(headers, data);
   // warnings.push(...outlierWarnings);
 
@@ -368,7 +383,7 @@ const detectInconsistencies = (headers: string[], data: any[][]): DataValidation
         variations.forEach(variation => {
           data.forEach((row, rowIndex) => {
             if (String(row[colIndex] || '').trim() === variation) {
-              affectedRows.push(rowIndex);
+              affectedRows.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
             }
           });
         });
@@ -420,7 +435,7 @@ const detectMissingHierarchyValues = (
       
       const value = row[colIndex];
       if (value === null || value === undefined || String(value).trim() === '') {
-        missingRows.push(rowIndex);
+        missingRows.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
       }
     });
 
@@ -442,6 +457,84 @@ const detectMissingHierarchyValues = (
   return warnings;
 };
 
+/**
+ * Detect parent-level attributes with more than one value inside a parent record
+ * Rows are grouped by each parent level's Record ID - on import the parent keeps only one value
+ */
+const detectParentAttributeConflicts = (
+  headers: string[],
+  data: unknown[][],
+  hierarchy: HierarchyLevel[]
+): DataValidationWarning[] => {
+  const warnings: DataValidationWarning[] = [];
+
+  // The last level is SKU-level - its attributes are expected to vary
+  hierarchy.slice(0, -1).forEach(level => {
+    const idIndex = level.recordId ? headers.indexOf(level.recordId) : -1;
+    if (idIndex === -1) return;
+
+    const attributes = [...level.headers, ...(level.recordName ? [level.recordName] : [])]
+      .filter(header => header !== level.recordId && headers.includes(header));
+
+    // Group Excel rows by parent Record ID value
+    const parentRows = new Map<string, number[]>();
+    data.forEach((row, rowIndex) => {
+      const parentValue = String(row[idIndex] ?? '').trim();
+      if (!parentValue) return;
+      if (!parentRows.has(parentValue)) parentRows.set(parentValue, []);
+      parentRows.get(parentValue)!.push(rowIndex);
+    });
+
+    attributes.forEach(attribute => {
+      const colIndex = headers.indexOf(attribute);
+      const conflicts: ParentAttributeConflict[] = [];
+
+      parentRows.forEach((rowIndexes, parentValue) => {
+        const valueRows = new Map<string, number[]>();
+        rowIndexes.forEach(rowIndex => {
+          const value = String(data[rowIndex][colIndex] ?? '').trim();
+          if (!value) return; // Missing values are reported by detectMissingHierarchyValues
+          if (!valueRows.has(value)) valueRows.set(value, []);
+          valueRows.get(value)!.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
+        });
+
+        if (valueRows.size > 1) {
+          conflicts.push({
+            levelName: level.name,
+            attribute,
+            parentValue,
+            values: Array.from(valueRows.entries())
+              .map(([value, rows]) => ({ value, rows }))
+              .sort((a, b) => b.rows.length - a.rows.length),
+          });
+        }
+      });
+
+      if (conflicts.length === 0) return;
+
+      const affectedRows = conflicts.flatMap(c => c.values.flatMap(v => v.rows)).sort((a, b) => a - b);
+      const examples = conflicts.slice(0, 3).map(c =>
+        `"${c.parentValue}" → ${c.values.map(v => `"${v.value}" (Rows ${v.rows.slice(0, 3).join(', ')}${v.rows.length > 3 ? '...' : ''})`).join(', ')}`
+      );
+
+      warnings.push({
+        type: 'parent_conflict',
+        severity: conflicts.length / parentRows.size > 0.1 ? 'high' : 'medium',
+        title: `Conflicting "${attribute}" Values in ${level.name}`,
+        message: `${conflicts.length} of ${parentRows.size} parent records ("${level.recordId}") have more than one "${attribute}" value. Only one value can be kept on the parent.`,
+        affectedRows,
+        affectedCount: conflicts.length,
+        suggestion: `Align "${attribute}" within each "${level.recordId}", or move "${attribute}" to a lower level if it legitimately varies.`,
+        examples,
+        salsifyRule: 'Parent properties are inherited by all children - one value per parent',
+        parentConflicts: conflicts,
+      });
+    });
+  });
+
+  return warnings;
+};
+
 /**
  * Detect outliers in numeric fields
  */
@@ -471,7 +564,7 @@ const detectOutliers = (headers: string[], data: any[][]): DataValidationWarning
     data.forEach((row, rowIndex) => {
       const value = Number(row[colIndex]);
       if (!isNaN(value) && (value < lowerBound || value > upperBound)) {
-        outlierRows.push(rowIndex);
+        outlierRows.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
         outlierValues.push(value);
       }
     });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDelimitedTextOptions,
+  detectEncoding,
+  parseDelimitedText,
+  readDelimitedText,
+} from './delimitedTextParser';
+
+const utf8 = (text: string, bom = false): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(text);
+  return bom ? new Uint8Array([0xef, 0xbb, 0xbf, ...bytes]).buffer : bytes.buffer;
+};
+
+const utf16le = (text: string): ArrayBuffer => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    bytes[2 + i * 2] = text.charCodeAt(i) & 0xff;
+    bytes[3 + i * 2] = text.charCodeAt(i) >> 8;
+  }
+  return bytes.buffer;
+};
+
+// Latin-1 range only: Windows-1252 and Latin-1 share these code points
+const windows1252 = (text: string): ArrayBuffer => Uint8Array.from(text, char => char.charCodeAt(0)).buffer;
+
+describe('parseDelimitedText', () => {
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    const text = 'SKU;Name;Description\nA1;"Chair; oak";"Solid ""oak""\nseat"\nA2;Table;Plain\n';
+    expect(parseDelimitedText(text, ';')).toEqual([
+      ['SKU', 'Name', 'Description'],
+      ['A1', 'Chair; oak', 'Solid "oak"\nseat'],
+      ['A2', 'Table', 'Plain'],
+    ]);
+  });
+
+  it('accepts CRLF and CR line endings and drops empty lines', () => {
+    expect(parseDelimitedText('a,b\r\n1,2\r\n\r\n3,4\r5,6', ',')).toEqual([
+      ['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6'],
+    ]);
+  });
+
+  it('stops after maxRows', () => {
+    expect(parseDelimitedText('a\nb\nc\n', ',', '"', 2)).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('detectDelimitedTextOptions', () => {
+  it('sniffs a semicolon file with quoted multiline fields', () => {
+    const buffer = utf8('SKU;Name;Description\nA1;"Chair";"Solid ""oak""\nseat"\nA2;"Table";"Plain"\nA3;"Stool";"Three\nlegs"\n');
+    expect(detectDelimitedTextOptions(buffer, 'catalog.csv')).toMatchObject({
+      encoding: 'utf-8',
+      hasBom: false,
+      delimiter: ';',
+      quoteChar: '"',
+      hasHeader: true,
+    });
+  });
+
+  it('reads UTF-16LE with a BOM', () => {
+    const buffer = utf16le('SKU\tColor\nA1\tGrün\nA2\tBlau\n');
+    const detected = detectDelimitedTextOptions(buffer, 'export.txt');
+    expect(detected).toMatchObject({ encoding: 'utf-16le', hasBom: true, delimiter: '\t' });
+    expect(readDelimitedText(buffer, detected).rows).toEqual([['SKU', 'Color'], ['A1', 'Grün'], ['A2', 'Blau']]);
+  });
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    const buffer = windows1252('SKU,Material\nA1,Cuir végétal\nA2,Laine\n');
+    const detected = detectDelimitedTextOptions(buffer);
+    expect(detected).toMatchObject({ encoding: 'windows-1252', hasBom: false, delimiter: ',' });
+    expect(readDelimitedText(buffer, detected).rows[1]).toEqual(['A1', 'Cuir végétal']);
+  });
+
+  it('strips the UTF-8 BOM and reads CRLF line endings', () => {
+    const buffer = utf8('SKU,Name\r\nA1,Chair\r\nA2,Table\r\n', true);
+    const detected = detectDelimitedTextOptions(buffer);
+    expect(detected).toMatchObject({ encoding: 'utf-8', hasBom: true, delimiter: ',', hasHeader: true });
+    expect(readDelimitedText(buffer, detected).rows).toEqual([['SKU', 'Name'], ['A1', 'Chair'], ['A2', 'Table']]);
+  });
+
+  it('synthesizes a header for all-numeric rows', () => {
+    const buffer = utf8('1001,12.5,3\n1002,8.25,4\n1003,9,5\n');
+    const detected = detectDelimitedTextOptions(buffer);
+    expect(detected.hasHeader).toBe(false);
+
+    const result = readDelimitedText(buffer, detected);
+    expect(result).toMatchObject({ headerSynthesized: true, rowCount: 3, maxColumns: 3 });
+    expect(result.rows[0]).toEqual(['Column 1', 'Column 2', 'Column 3']);
+    expect(result.rows[1]).toEqual(['1001', '12.5', '3']);
+  });
+
+  it('handles an empty file', () => {
+    const buffer = new ArrayBuffer(0);
+    expect(detectEncoding(new Uint8Array(buffer))).toEqual({ encoding: 'utf-8', hasBom: false });
+
+    const detected = detectDelimitedTextOptions(buffer, 'empty.tsv');
+    expect(detected).toMatchObject({ delimiter: '\t', hasHeader: true, confidence: 0 });
+    expect(readDelimitedText(buffer, detected)).toEqual({ rows: [], headerSynthesized: false, rowCount: 0, maxColumns: 0 });
+  });
+});
@@ -0,0 +1,328 @@
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DelimitedTextOptions {
+  encoding: TextEncoding;
+  delimiter: string;
+  quoteChar: string;
+  hasHeader: boolean;
+}
+
+export interface DelimitedTextDetection extends DelimitedTextOptions {
+  hasBom: boolean;
+  confidence: number; // 0-1: how consistent the field counts are with the detected delimiter
+}
+
+export interface DelimitedTextResult {
+  rows: string[][]; // Header row first (synthesized when the file has no header)
+  headerSynthesized: boolean;
+  rowCount: number;
+  maxColumns: number;
+}
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+export const ENCODING_OPTIONS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+];
+
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv', '.tab', '.txt'];
+
+// Number of lines used to sniff the dialect - enough for a stable signal, cheap on large feeds
+const SNIFF_SAMPLE_LINES = 50;
+
+/**
+ * Check if a file should go through the delimited text reader instead of XLSX
+ */
+export const isDelimitedTextFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return DELIMITED_EXTENSIONS.some(ext => lower.endsWith(ext));
+};
+
+/**
+ * Detect text encoding from the byte order mark, falling back to strict UTF-8
+ * validation and finally Windows-1252 (the usual encoding of Excel "Save as CSV")
+ */
+export const detectEncoding = (bytes: Uint8Array): { encoding: TextEncoding; hasBom: boolean } => {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBom: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBom: true };
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBom: true };
+  }
+
+  // UTF-16 without BOM: ASCII text leaves every other byte as 0x00
+  const sample = bytes.subarray(0, Math.min(bytes.length, 1024));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte === 0) {
+      if (index % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  });
+  const halfSample = sample.length / 2;
+  if (halfSample > 0 && oddZeros / halfSample > 0.3 && evenZeros / halfSample < 0.05) {
+    return { encoding: 'utf-16le', hasBom: false };
+  }
+  if (halfSample > 0 && evenZeros / halfSample > 0.3 && oddZeros / halfSample < 0.05) {
+    return { encoding: 'utf-16be', hasBom: false };
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+};
+
+/**
+ * Decode raw bytes with the given encoding (BOM is always stripped)
+ */
+export const decodeText = (buffer: ArrayBuffer, encoding: TextEncoding): string => {
+  const text = new TextDecoder(encoding).decode(new Uint8Array(buffer));
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+};
+
+/**
+ * Parse delimited text into rows (RFC 4180 style)
+ * - Quoted fields may contain delimiters, line breaks and doubled quotes ("")
+ * - Accepts CRLF, LF and CR line endings
+ * - Completely empty lines are dropped
+ */
+export const parseDelimitedText = (
+  text: string,
+  delimiter: string,
+  quoteChar: string = '"',
+  maxRows?: number
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const pushRow = () => {
+    row.push(fieldWasQuoted ? field : field.trim());
+    const isEmpty = row.length === 1 && row[0] === '' && !fieldWasQuoted;
+    if (!isEmpty) rows.push(row);
+    row = [];
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (maxRows !== undefined && rows.length >= maxRows) break;
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quoteChar) {
+        if (text[i + 1] === quoteChar) {
+          field += quoteChar;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quoteChar && field.trim() === '') {
+      // Opening quote (leading whitespace before the quote is ignored)
+      inQuotes = true;
+      fieldWasQuoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(fieldWasQuoted ? field : field.trim());
+      field = '';
+      fieldWasQuoted = false;
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRow();
+    } else if (!fieldWasQuoted) {
+      field += char;
+    }
+    // Characters after a closing quote and before the delimiter are ignored
+  }
+
+  if (maxRows === undefined || rows.length < maxRows) {
+    if (field !== '' || row.length > 0 || fieldWasQuoted) {
+      pushRow();
+    }
+  }
+
+  return rows;
+};
+
+// Helper: Score how well a delimiter splits the sample into a consistent table
+const scoreDelimiter = (sample: string, delimiter: string, quoteChar: string): number => {
+  const rows = parseDelimitedText(sample, delimiter, quoteChar, SNIFF_SAMPLE_LINES);
+  if (rows.length === 0) return 0;
+
+  const counts = new Map<number, number>();
+  rows.forEach(r => counts.set(r.length, (counts.get(r.length) || 0) + 1));
+  const [modeWidth, modeFrequency] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+
+  // A single column means the delimiter never occurred
+  if (modeWidth < 2) return 0;
+
+  const consistency = modeFrequency / rows.length;
+  // Prefer wider tables slightly when consistency ties (log to avoid runaway bonus)
+  return consistency + Math.log2(modeWidth) * 0.01;
+};
+
+// Helper: Pick the quote character that actually wraps fields in the sample
+const detectQuoteChar = (sample: string, delimiter: string): string => {
+  const escaped = delimiter === '|' ? '\\|' : delimiter === '\t' ? '\\t' : delimiter;
+  const countWrapping = (quote: string) => {
+    const pattern = new RegExp(`(^|${escaped}|\\n)\\s*${quote}[^${quote}]*${quote}\\s*(?=${escaped}|\\r|\\n|$)`, 'g');
+    return (sample.match(pattern) || []).length;
+  };
+  const doubleCount = countWrapping('"');
+  const singleCount = countWrapping("'");
+  return singleCount > doubleCount ? "'" : '"';
+};
+
+// Helper: Check if a value looks numeric or date-like (typical data, never a header)
+const isDataLike = (value: string): boolean => {
+  const trimmed = value.trim();
+  if (trimmed === '') return false;
+  if (!isNaN(Number(trimmed.replace(',', '.')))) return true;
+  return /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}$/.test(trimmed);
+};
+
+/**
+ * Decide if the first row is a header row
+ * Compares the first row against the following rows: headers are non-empty,
+ * unique, and not numeric in columns where the data is numeric.
+ * Defaults to "has header" when the sample gives no signal either way
+ */
+export const detectHeaderRow = (rows: string[][]): boolean => {
+  if (rows.length < 2) return true;
+
+  const first = rows[0];
+  const body = rows.slice(1, SNIFF_SAMPLE_LINES);
+
+  // Duplicate or empty cells in the first row are unusual for a header
+  const nonEmpty = first.filter(c => c.trim() !== '');
+  const uniqueRatio = new Set(nonEmpty.map(c => c.trim().toLowerCase())).size / Math.max(first.length, 1);
+
+  let votesForHeader = 0;
+  let votesAgainst = 0;
+
+  first.forEach((cell, colIndex) => {
+    const columnValues = body.map(r => r[colIndex] ?? '').filter(v => v.trim() !== '');
+    if (columnValues.length === 0) return;
+
+    const numericRatio = columnValues.filter(isDataLike).length / columnValues.length;
+    if (numericRatio >= 0.8) {
+      // Numeric column: a text first cell is a header, a numeric one is data
+      if (isDataLike(cell)) votesAgainst++;
+      else if (cell.trim() !== '') votesForHeader++;
+    } else if (cell.trim() === '') {
+      votesAgainst++;
+    } else {
+      // Text column: only fixed-length codes give a signal (a header of another length stands out)
+      const lengths = new Set(columnValues.map(v => v.length));
+      if (lengths.size === 1 && !lengths.has(cell.length)) votesForHeader++;
+    }
+  });
+
+  if (uniqueRatio < 0.8) votesAgainst += Math.ceil(first.length / 2);
+
+  return votesForHeader >= votesAgainst;
+};
+
+/**
+ * Sniff encoding, delimiter, quote character and header row from raw file bytes
+ */
+export const detectDelimitedTextOptions = (buffer: ArrayBuffer, fileName: string = ''): DelimitedTextDetection => {
+  const { encoding, hasBom } = detectEncoding(new Uint8Array(buffer));
+  const text = decodeText(buffer, encoding);
+  const sample = text.slice(0, 64 * 1024);
+
+  // Extension hint: .tsv/.tab files are tab-separated unless the sample clearly says otherwise
+  const lowerName = fileName.toLowerCase();
+  const extensionHint = lowerName.endsWith('.tsv') || lowerName.endsWith('.tab') ? '\t' : null;
+
+  const scored = DELIMITER_OPTIONS.map(({ value }) => {
+    const quote = detectQuoteChar(sample, value);
+    const split = scoreDelimiter(sample, value, quote);
+    const score = split > 0 && value === extensionHint ? split + 0.05 : split;
+    return { delimiter: value, quoteChar: quote, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const best = scored[0].score > 0 ? scored[0] : { delimiter: extensionHint || ',', quoteChar: '"', score: 0 };
+  const sampleRows = parseDelimitedText(sample, best.delimiter, best.quoteChar, SNIFF_SAMPLE_LINES);
+
+  return {
+    encoding,
+    hasBom,
+    delimiter: best.delimiter,
+    quoteChar: best.quoteChar,
+    hasHeader: detectHeaderRow(sampleRows),
+    confidence: Math.min(best.score, 1),
+  };
+};
+
+/**
+ * Read a delimited text file with explicit options
+ * Returns rows with the header first - when the file has no header row,
+ * generic "Column N" names are generated so downstream steps always get a header
+ */
+export const readDelimitedText = (
+  buffer: ArrayBuffer,
+  options: DelimitedTextOptions,
+  maxRows?: number
+): DelimitedTextResult => {
+  const text = decodeText(buffer, options.encoding);
+  const parsed = parseDelimitedText(
+    text,
+    options.delimiter,
+    options.quoteChar,
+    maxRows !== undefined ? maxRows + 1 : undefined
+  );
+  const maxColumns = parsed.reduce((max, r) => Math.max(max, r.length), 0);
+
+  if (options.hasHeader) {
+    return {
+      rows: parsed,
+      headerSynthesized: false,
+      rowCount: Math.max(parsed.length - 1, 0),
+      maxColumns,
+    };
+  }
+
+  const syntheticHeader = Array.from({ length: maxColumns }, (_, i) => `Column ${i + 1}`);
+  const dataRows = maxRows !== undefined ? parsed.slice(0, maxRows) : parsed;
+  return {
+    rows: [syntheticHeader, ...dataRows],
+    headerSynthesized: true,
+    rowCount: dataRows.length,
+    maxColumns,
+  };
+};
+
+/**
+ * Human-readable delimiter label for UI and toasts
+ */
+export const describeDelimiter = (delimiter: string): string =>
+  DELIMITER_OPTIONS.find(o => o.value === delimiter)?.label || `"${delimiter}"`;
@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { describe, expect, it } from 'vitest';
+import { analyzeProductData } from './analysisEngine';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { runAnalysisPipeline } from './analysisPipeline';
+import { EXPORT_REPORT_SCHEMA_VERSION, ExportReport, generateExportReport } from './exportReport';
+import { addGeneratedKeyColumns, applyGeneratedKey } from './generatedKeys';
+import { CATALOG_FIXTURES } from '@/test/catalogs';
+
+// The schema published next to the app - every report has to validate against it
+const schema = JSON.parse(readFileSync(path.resolve(__dirname, '../../public/schemas/taxonomy-report-v1.schema.json'), 'utf-8'));
+const ajv = new Ajv2020({ allErrors: true });
+addFormats(ajv);
+const validateReport = ajv.compile(schema);
+
+const schemaErrors = (report: ExportReport): string[] => {
+  // Round-trip through JSON, like the downloaded file
+  validateReport(JSON.parse(JSON.stringify(report)));
+  return (validateReport.errors || []).map(error => `${error.instancePath} ${error.message}`);
+};
+
+describe.each(CATALOG_FIXTURES)('$name report', fixture => {
+  const { analysisResult, taxonomyTree, validation } = runAnalysisPipeline({
+    headers: fixture.headers,
+    data: fixture.data,
+    allHeaders: fixture.headers,
+    config: DEFAULT_ANALYSIS_CONFIG,
+  });
+  const report = generateExportReport(analysisResult, fixture.headers, fixture.data, {
+    taxonomyTree,
+    taxonomyConfig: null,
+    selectedPreset: null,
+    forcedSkuHeaders: [],
+    validationResult: validation,
+  });
+
+  it('matches the published schema', () => {
+    expect(report.schema_version).toBe(EXPORT_REPORT_SCHEMA_VERSION);
+    expect(schemaErrors(report)).toEqual([]);
+  });
+});
+
+describe('report with a preset, forced SKU headers and a generated key', () => {
+  const fixture = CATALOG_FIXTURES.find(f => f.name === 'apparel')!;
+  const forcedSkuHeaders = [analyzeProductData(fixture.headers, fixture.data, DEFAULT_ANALYSIS_CONFIG).hierarchy[0].headers[0]];
+  const analysisResult = analyzeProductData(fixture.headers, fixture.data, DEFAULT_ANALYSIS_CONFIG, forcedSkuHeaders);
+  const selectedPreset = analysisResult.hierarchyPresets[0];
+
+  const topLevel = analysisResult.hierarchy[0];
+  const keyedHierarchy = applyGeneratedKey(analysisResult.hierarchy, 0, fixture.headers, {
+    idMode: 'hash',
+    idTemplate: `KEY-{${topLevel.recordId}}`,
+    nameTemplate: `{${topLevel.recordName || topLevel.recordId}}`,
+  });
+  const keyedResult = { ...analysisResult, hierarchy: keyedHierarchy };
+  const keyedTable = addGeneratedKeyColumns(keyedHierarchy, fixture.headers, fixture.data);
+
+  const report = generateExportReport(keyedResult, keyedTable.headers, keyedTable.data, {
+    taxonomyTree: null,
+    taxonomyConfig: null,
+    selectedPreset,
+    forcedSkuHeaders,
+    validationResult: null,
+  });
+
+  it('records the manual decisions', () => {
+    expect(report.analysis_settings.selected_preset).toEqual({ name: selectedPreset.name, model_type: selectedPreset.modelType });
+    expect(report.analysis_settings.forced_sku_headers).toEqual(forcedSkuHeaders);
+    expect(report.hierarchy_structure.levels[0].generated_key).toMatchObject({ id_mode: 'hash', id_column: keyedHierarchy[0].recordId });
+    expect(report.hierarchy_structure.levels.some(level => level.variant_axis_issues)).toBe(true);
+  });
+
+  it('matches the published schema', () => {
+    expect(schemaErrors(report)).toEqual([]);
+  });
+
+  it('fails the schema once a field is added without publishing it', () => {
+    const drifted = { ...report, analysis_settings: { ...report.analysis_settings, unpublished: true } };
+    expect(schemaErrors(drifted as ExportReport)).toEqual(['/analysis_settings must NOT have additional properties']);
+  });
+});
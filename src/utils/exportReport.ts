@@ -1,4 +1,17 @@
-import { AnalysisResult } from './analysisEngine';
+import {
+  AnalysisResult,
+  HierarchyAlternative,
+  OrphanedRecord,
+  ProductDomain,
+  PropertyRecommendation,
+  StandaloneProduct,
+  UomSuggestion,
+} from './analysisEngine';
+import { AnalysisConfig } from './analysisConfig';
+import { DataValidationWarning, ParentAttributeConflict, ValidationResult } from './dataValidation';
+import { downloadBlob } from './fileDownload';
+import { addGeneratedKeyColumns } from './generatedKeys';
+import { PlacementLevel, PlacementRule, isMovedAfterAnalysis } from './placementTrace';
 import { HierarchyLevel } from '@/types';
 
 export interface TaxonomyTreeNode {
@@ -332,15 +345,270 @@ export const mapPropertiesToHierarchy = (
   return mappings;
 };
 
+// Bump on any change to the report shape and publish a matching schema in public/schemas/
+export const EXPORT_REPORT_SCHEMA_VERSION = '1.4.0';
+export const EXPORT_REPORT_SCHEMA_URL = '/schemas/taxonomy-report-v1.schema.json';
+
+const MAX_REPORTED_ROWS = 100; // Row lists in the report are capped, counts are not
+
+export interface ExportReportContext {
+  taxonomyTree: TaxonomyTreeNode | null; // Tree shown in the UI (custom or automatic)
+  taxonomyConfig: CustomTaxonomyConfig | null;
+  selectedPreset: HierarchyAlternative | null;
+  forcedSkuHeaders: string[];
+  validationResult: ValidationResult | null;
+}
+
+export interface ReportPropertySummary {
+  name: string;
+  data_type: string;
+  is_picklist: boolean;
+  picklist_values?: string[];
+  is_taxonomy: boolean;
+}
+
+export interface ReportPlacementLevel {
+  level_number: number;
+  level_name: string;
+  role: PlacementLevel['role'];
+}
+
+export interface ExportReport {
+  $schema: string;
+  schema_version: string;
+
+  report_metadata: {
+    generated_at: string;
+    total_products: number;
+    total_attributes_analyzed: number;
+    analysis_confidence: string;
+  };
+
+  // Settings the hierarchy was produced with - enough to reproduce it
+  analysis_settings: {
+    analysis_config: AnalysisConfig;
+    selected_preset: { name: string; model_type: HierarchyAlternative['modelType'] } | null;
+    forced_sku_headers: string[];
+    taxonomy_config: { levels: string[] } | null; // null = automatic taxonomy tree
+  };
+
+  product_domain: {
+    detected_type: ProductDomain['type'];
+    confidence: string;
+    indicators: string[];
+  };
+
+  product_identification: {
+    record_id: string;
+    record_name: string;
+    status: {
+      has_record_id: boolean;
+      has_record_name: boolean;
+    };
+  };
+
+  // The hierarchy as currently shown, including manual edits
+  hierarchy_structure: {
+    model_type: 'Standalone' | 'Hierarchical';
+    total_levels: number;
+    levels: {
+      level_number: number;
+      level_name: string;
+      record_id: string | null;
+      record_name: string | null;
+      properties: string[];
+      property_count: number;
+      // Since 1.2.0 - parent levels only: what tells the children apart, and the combinations that break it
+      variant_axes?: string[];
+      variant_axis_issues?: {
+        duplicate_count: number;
+        missing_count: number;
+        duplicates: { parent_id: string; values: string[]; rows: number[] }[];
+        missing: { parent_id: string; values: string[] }[];
+      };
+      // Since 1.3.0 - Record ID (and Name) generated from a template, with its uniqueness check
+      generated_key?: {
+        id_mode: 'concat' | 'hash';
+        id_template: string;
+        name_template: string | null;
+        id_column: string;
+        name_column: string | null;
+        replaced_record_id: string | null;
+        key_count: number;
+        is_unique: boolean;
+        blank_row_count: number;
+        blank_rows: number[];
+        collision_count: number;
+        collisions: { id: string; sources: string[][] }[];
+        parent_conflict_count: number;
+        parent_conflicts: { id: string; values: string[] }[];
+        name_conflict_count: number;
+        name_conflicts: { id: string; values: string[] }[];
+      };
+    }[];
+  };
+
+  taxonomy_tree: {
+    description: string;
+    source: 'custom' | 'automatic';
+    tree_structure: TaxonomyTreeNode;
+    ascii_representation: string;
+  };
+
+  alternative_hierarchies: {
+    name: string;
+    model_type: HierarchyAlternative['modelType'];
+    confidence: string;
+    reasoning: string;
+    levels: number;
+    hierarchy_structure: { level: number; name: string; properties: string[] }[];
+    sku_properties: string[];
+  }[];
+
+  property_to_hierarchy_mapping: {
+    summary: {
+      total_properties: number;
+      hierarchy_properties: number;
+      sku_properties: number;
+      taxonomy_properties: number;
+    };
+    taxonomy_properties: {
+      description: string;
+      properties: { name: string; data_type: PropertyRecommendation['dataType']; is_picklist: boolean }[];
+    };
+    by_hierarchy_level: Record<string, ReportPropertySummary[]>;
+    detailed_list: {
+      property_name: string;
+      data_type: string;
+      hierarchy_level: string;
+      is_picklist: boolean;
+      is_taxonomy: boolean;
+      picklist_values?: string[];
+      recommendation?: PropertyRecommendation;
+    }[];
+  };
+
+  best_practices_recommendations: {
+    uom_split_recommendations: {
+      property: string;
+      current_format: string;
+      recommended_format: {
+        value_property: string;
+        uom_property: string;
+        example_value: string;
+        example_uom: string;
+      };
+      detected_uom: string;
+      available_conversions?: UomSuggestion['suggestedConversions'];
+      impact: string;
+    }[];
+    critical_issues: {
+      type: 'missing_record_id' | 'missing_record_name' | 'orphaned_products';
+      severity: 'CRITICAL' | 'IMPORTANT';
+      message: string;
+      impact: string;
+      action_required: string;
+      affected_rows?: number[];
+    }[];
+    picklist_opportunities: {
+      property: string;
+      unique_values: number;
+      sample_values: string[];
+      recommendation: string;
+    }[];
+  };
+
+  record_id_and_name: {
+    suggested_record_id: string | null;
+    suggested_record_name: string | null;
+  };
+
+  data_quality: {
+    orphaned_records: {
+      count: number;
+      percentage: string;
+      details: { row_index: number; issues: string[]; severity: OrphanedRecord['severity'] }[];
+    };
+  };
+
+  // Hierarchical vs standalone split (since 1.1.0) - null for projects analyzed before it existed
+  mixed_model_analysis: {
+    should_use_mixed: boolean;
+    reasoning: string;
+    hierarchical_count: number;
+    standalone_count: number;
+    hierarchical_percentage: string;
+    standalone_percentage: string;
+    standalone_products: {
+      row: number; // Excel row number
+      reason: StandaloneProduct['reason'];
+      missing_headers: string[];
+    }[]; // First MAX_REPORTED_ROWS
+  } | null;
+
+  // Why each header sits on its level (since 1.4.0) - null for projects analyzed before it existed
+  placement_trace: {
+    header: string;
+    hierarchy_score: number;
+    cardinality: number;
+    completeness: number;
+    keyword_matches: string[];
+    steps: { rule: PlacementRule; detail: string; level: string | null }[];
+    analyzed_level: ReportPlacementLevel | null;
+    final_level: ReportPlacementLevel | null; // Differs from analyzed_level after edits, presets or forced SKU headers
+    moved_after_analysis: boolean;
+  }[] | null;
+
+  // Validation of the current hierarchy - null when validation has not run
+  validation: {
+    total_issues: number;
+    critical_issues: number;
+    warnings: {
+      type: DataValidationWarning['type'];
+      severity: DataValidationWarning['severity'];
+      title: string;
+      message: string;
+      suggestion: string;
+      affected_count: number;
+      affected_rows: number[]; // Excel row numbers, first MAX_REPORTED_ROWS
+      affected_columns?: number[];
+      examples?: string[];
+      salsify_rule?: string;
+      parent_conflicts?: ParentAttributeConflict[];
+    }[];
+  } | null;
+
+  uom_suggestions: {
+    property: string;
+    detected_uom: string;
+    should_split: boolean;
+    conversion_suggestions?: UomSuggestion['suggestedConversions'];
+  }[];
+
+  analysis_thresholds: {
+    parent_level_threshold: string;
+    children_min_threshold: string;
+    children_max_threshold: string;
+    sku_level_threshold: string;
+    description: string;
+  };
+}
+
 /**
- * Generate a comprehensive export report
+ * Generate a comprehensive export report (schema version EXPORT_REPORT_SCHEMA_VERSION)
+ * Reflects the current UI state: edited hierarchy, preset, forced SKU headers, taxonomy and validation
  */
 export const generateExportReport = (
   analysisResult: AnalysisResult,
   headers: string[],
-  data: any[][]
-): any => {
-  const taxonomyTree = buildTaxonomyTree(analysisResult.hierarchy, data, headers);
+  data: any[][],
+  context: ExportReportContext
+): ExportReport => {
+  const usesCustomTaxonomy = !!context.taxonomyConfig && context.taxonomyConfig.levels.length > 0;
+  const taxonomyTree = context.taxonomyTree
+    || (usesCustomTaxonomy
+      ? buildCustomTaxonomyTree(context.taxonomyConfig!, data, headers)
+      : buildTaxonomyTree(analysisResult.hierarchy, data, headers));
   const propertyMappings = mapPropertiesToHierarchy(analysisResult, headers);
 
   // Core: Property to Hierarchy Mapping
@@ -350,7 +618,17 @@ export const generateExportReport = (
     ? analysisResult.hierarchy[0].headers 
     : [];
 
+  const { thresholds } = analysisResult.config;
+  const percent = (value: number, digits: number) => (value * 100).toFixed(digits) + '%';
+  const mixedModel = analysisResult.mixedModelSuggestion;
+  const { checks: keyChecks } = addGeneratedKeyColumns(analysisResult.hierarchy, headers, data);
+  const placementLevel = (placement: PlacementLevel | null): ReportPlacementLevel | null =>
+    placement ? { level_number: placement.level, level_name: placement.name, role: placement.role } : null;
+
   return {
+    $schema: EXPORT_REPORT_SCHEMA_URL,
+    schema_version: EXPORT_REPORT_SCHEMA_VERSION,
+
     report_metadata: {
       generated_at: new Date().toISOString(),
       total_products: data.length,
@@ -358,6 +636,17 @@ export const generateExportReport = (
       analysis_confidence: (analysisResult.hierarchyConfidence * 100).toFixed(1) + '%',
     },
 
+    analysis_settings: {
+      analysis_config: analysisResult.config,
+      selected_preset: context.selectedPreset
+        ? { name: context.selectedPreset.name, model_type: context.selectedPreset.modelType }
+        : null,
+      forced_sku_headers: context.forcedSkuHeaders,
+      taxonomy_config: usesCustomTaxonomy
+        ? { levels: context.taxonomyConfig!.levels.map(level => level.property) }
+        : null,
+    },
+
     product_domain: {
       detected_type: analysisResult.productDomain.type,
       confidence: (analysisResult.productDomain.confidence * 100).toFixed(1) + '%',
@@ -380,28 +669,52 @@ export const generateExportReport = (
                    ? 'Standalone'
                    : 'Hierarchical',
       total_levels: analysisResult.hierarchy.filter(h => h.headers.length > 0).length,
-      levels: analysisResult.hierarchy.map((level, index) => ({
-        level_number: index + 1,
-        level_name: level.name,
-        properties: level.headers,
-        property_count: level.headers.length,
-      })),
-    },
-
-    mixed_model_analysis: (analysisResult as any).mixedModelSuggestion ? {
-      should_use_mixed: (analysisResult as any).mixedModelSuggestion.shouldUseMixed,
-      reasoning: (analysisResult as any).mixedModelSuggestion.reasoning,
-      hierarchical_products_percentage: (analysisResult as any).mixedModelSuggestion.hierarchicalPercentage.toFixed(1) + '%',
-      standalone_products_percentage: (analysisResult as any).mixedModelSuggestion.standalonePercentage.toFixed(1) + '%',
-    } : {
-      should_use_mixed: false,
-      reasoning: 'Mixed model analysis not available',
-      hierarchical_products_percentage: '100%',
-      standalone_products_percentage: '0%',
+      levels: analysisResult.hierarchy.map((level, index) => {
+        const axisLevel = analysisResult.variantAxisReport?.levels.find(l => l.levelName === level.name);
+        const keyCheck = keyChecks.find(check => check.idHeader === level.generatedKey?.idHeader);
+        return {
+          level_number: index + 1,
+          level_name: level.name,
+          record_id: level.recordId || null,
+          record_name: level.recordName || null,
+          properties: level.headers,
+          property_count: level.headers.length,
+          ...(level.variantAxes ? { variant_axes: level.variantAxes } : {}),
+          ...(axisLevel && axisLevel.axes.length > 0 ? {
+            variant_axis_issues: {
+              duplicate_count: axisLevel.duplicateCount,
+              missing_count: axisLevel.missingCount,
+              duplicates: axisLevel.duplicates.map(issue => ({ parent_id: issue.parentId, values: issue.values, rows: issue.rows })),
+              missing: axisLevel.missing.map(issue => ({ parent_id: issue.parentId, values: issue.values })),
+            },
+          } : {}),
+          ...(level.generatedKey && keyCheck ? {
+            generated_key: {
+              id_mode: level.generatedKey.idMode,
+              id_template: level.generatedKey.idTemplate,
+              name_template: level.generatedKey.nameTemplate || null,
+              id_column: level.generatedKey.idHeader,
+              name_column: level.generatedKey.nameHeader || null,
+              replaced_record_id: level.generatedKey.replacedRecordId || null,
+              key_count: keyCheck.keyCount,
+              is_unique: keyCheck.isUnique,
+              blank_row_count: keyCheck.blankRowCount,
+              blank_rows: keyCheck.blankRows,
+              collision_count: keyCheck.collisionCount,
+              collisions: keyCheck.collisions,
+              parent_conflict_count: keyCheck.parentConflictCount,
+              parent_conflicts: keyCheck.parentConflicts,
+              name_conflict_count: keyCheck.nameConflictCount,
+              name_conflicts: keyCheck.nameConflicts,
+            },
+          } : {}),
+        };
+      }),
     },
 
     taxonomy_tree: {
       description: 'Complete product taxonomy tree showing all category paths',
+      source: usesCustomTaxonomy ? 'custom' : 'automatic',
       tree_structure: taxonomyTree,
       ascii_representation: treeToAscii(taxonomyTree),
     },
@@ -448,7 +761,7 @@ export const generateExportReport = (
           is_taxonomy: taxonomyProperties.includes(prop.propertyName),
         });
         return acc;
-      }, {} as Record<string, any[]>),
+      }, {} as Record<string, ReportPropertySummary[]>),
       detailed_list: propertyMappings.map(prop => ({
         property_name: prop.propertyName,
         data_type: prop.dataType,
@@ -479,22 +792,22 @@ export const generateExportReport = (
         })),
       critical_issues: [
         ...(!analysisResult.recordIdSuggestion ? [{
-          type: 'missing_record_id',
-          severity: 'CRITICAL',
+          type: 'missing_record_id' as const,
+          severity: 'CRITICAL' as const,
           message: 'No unique Record ID detected',
           impact: 'Products cannot be imported or managed in Salsify',
           action_required: 'Add a column with unique identifiers for each product',
         }] : []),
         ...(!analysisResult.recordNameSuggestion ? [{
-          type: 'missing_record_name',
-          severity: 'IMPORTANT',
+          type: 'missing_record_name' as const,
+          severity: 'IMPORTANT' as const,
           message: 'No Record Name detected',
           impact: 'Makes product management and search difficult',
           action_required: 'Add a "Product Name" or "Title" column',
         }] : []),
         ...(analysisResult.orphanedRecords.length > 0 ? [{
-          type: 'orphaned_products',
-          severity: 'IMPORTANT',
+          type: 'orphaned_products' as const,
+          severity: 'IMPORTANT' as const,
           message: `${analysisResult.orphanedRecords.length} products with hierarchy issues`,
           impact: 'These products cannot be properly categorized',
           action_required: 'Review and fix hierarchy values or treat as standalone',
@@ -528,6 +841,50 @@ export const generateExportReport = (
       },
     },
 
+    mixed_model_analysis: mixedModel ? {
+      should_use_mixed: mixedModel.shouldUseMixed,
+      reasoning: mixedModel.reasoning,
+      hierarchical_count: mixedModel.rowModels.length - mixedModel.standaloneProducts.length,
+      standalone_count: mixedModel.standaloneProducts.length,
+      hierarchical_percentage: mixedModel.hierarchicalPercentage.toFixed(1) + '%',
+      standalone_percentage: mixedModel.standalonePercentage.toFixed(1) + '%',
+      standalone_products: mixedModel.standaloneProducts.slice(0, MAX_REPORTED_ROWS).map(product => ({
+        row: product.row,
+        reason: product.reason,
+        missing_headers: product.missingHeaders,
+      })),
+    } : null,
+
+    placement_trace: analysisResult.placementTrace ? analysisResult.placementTrace.map(entry => ({
+      header: entry.header,
+      hierarchy_score: entry.hierarchyScore,
+      cardinality: entry.cardinality,
+      completeness: entry.completeness,
+      keyword_matches: entry.keywordMatches,
+      steps: entry.steps.map(step => ({ rule: step.rule, detail: step.detail, level: step.level || null })),
+      analyzed_level: placementLevel(entry.analyzedLevel),
+      final_level: placementLevel(entry.finalLevel),
+      moved_after_analysis: isMovedAfterAnalysis(entry),
+    })) : null,
+
+    validation: context.validationResult ? {
+      total_issues: context.validationResult.totalIssues,
+      critical_issues: context.validationResult.criticalIssues,
+      warnings: context.validationResult.warnings.map(warning => ({
+        type: warning.type,
+        severity: warning.severity,
+        title: warning.title,
+        message: warning.message,
+        suggestion: warning.suggestion,
+        affected_count: warning.affectedCount,
+        affected_rows: warning.affectedRows.slice(0, MAX_REPORTED_ROWS),
+        affected_columns: warning.affectedColumns,
+        examples: warning.examples,
+        salsify_rule: warning.salsifyRule,
+        parent_conflicts: warning.parentConflicts,
+      })),
+    } : null,
+
     uom_suggestions: analysisResult.uomSuggestions.map(uom => ({
       property: uom.header,
       detected_uom: uom.detectedUom,
@@ -536,11 +893,27 @@ export const generateExportReport = (
     })),
 
     analysis_thresholds: {
-      parent_level_threshold: (analysisResult.thresholds.parent * 100).toFixed(1) + '%',
-      children_min_threshold: (analysisResult.thresholds.childrenMin * 100).toFixed(0) + '%',
-      children_max_threshold: (analysisResult.thresholds.childrenMax * 100).toFixed(0) + '%',
-      sku_level_threshold: (analysisResult.thresholds.sku * 100).toFixed(0) + '%',
-      description: '4-level cardinality thresholds: Parent (≤2%), Children (50-75%), SKU (≥98%)',
+      parent_level_threshold: percent(thresholds.parent, 1),
+      children_min_threshold: percent(thresholds.childrenMin, 0),
+      children_max_threshold: percent(thresholds.childrenMax, 0),
+      sku_level_threshold: percent(thresholds.sku, 0),
+      description: `Cardinality thresholds: Parent (≤${percent(thresholds.parent, 0)}), Children (${percent(thresholds.childrenMin, 0)}-${percent(thresholds.childrenMax, 0)}), SKU (≥${percent(thresholds.sku, 0)}); between bands, dense columns take the upper level`,
     },
   };
 };
+
+/**
+ * Downloads the JSON report
+ */
+export const downloadExportReport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  context: ExportReportContext
+): ExportReport => {
+  const report = generateExportReport(analysisResult, headers, data, context);
+
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `taxonomy-report-${new Date().toISOString().split('T')[0]}.json`);
+  return report;
+};
@@ -0,0 +1,17 @@
+// Browser downloads for the export files
+
+// Object URLs are revoked after this delay - revoking right after click() can cancel
+// downloads that the browser has not started yet (several files in a row)
+const REVOKE_DELAY_MS = 60_000;
+
+/**
+ * Downloads a blob under the given file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
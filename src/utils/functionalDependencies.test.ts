@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFunctionalDependencies, describeDependency } from './functionalDependencies';
+
+// Brand → Style → SKU, four sizes per style; Pack Type breaks once inside style S2
+const STYLES = [
+  { style: 'S1', name: 'Parka', brand: 'B1', fabric: 'Cotton', pack: 'Bag' },
+  { style: 'S2', name: 'Anorak', brand: 'B1', fabric: 'Wool', pack: 'Bag' },
+  { style: 'S3', name: 'Blazer', brand: 'B1', fabric: 'Cotton', pack: 'Box' },
+  { style: 'S4', name: 'Cardigan', brand: 'B2', fabric: 'Wool', pack: 'Bag' },
+  { style: 'S5', name: 'Duffle', brand: 'B2', fabric: 'Linen', pack: 'Box' },
+  { style: 'S6', name: 'Gilet', brand: 'B2', fabric: 'Linen', pack: 'Bag' },
+];
+const SIZES = ['S', 'M', 'L', 'XL'];
+const BRANDS: Record<string, { country: string; owner: string }> = {
+  B1: { country: 'Italy', owner: 'Holding A' },
+  B2: { country: 'France', owner: 'Holding B' },
+};
+
+// URL and Description come first so they would win the key search on ties if they were allowed
+const headers = [
+  'SKU', 'Product URL', 'Description', 'Brand', 'Brand Country', 'Brand Owner',
+  'Style', 'Style Name', 'Fabric', 'Pack Type', 'Size',
+];
+const data = STYLES.flatMap(s => SIZES.map(size => [
+  `${s.style}-${size}`,
+  `https://shop.example.com/${s.style}`,
+  `The ${s.name} is a warm and comfortable jacket made for long walks in the cold`,
+  s.brand,
+  BRANDS[s.brand].country,
+  BRANDS[s.brand].owner,
+  s.style,
+  s.name,
+  s.fabric,
+  s.style === 'S2' && size === 'L' ? 'Box' : s.pack,
+  size,
+]));
+
+describe('analyzeFunctionalDependencies', () => {
+  const analysis = analyzeFunctionalDependencies(headers, data);
+
+  it('finds the SKU key and the Brand → Style levels', () => {
+    expect(analysis.skuKey).toBe('SKU');
+    expect(analysis.levels.map(level => level.determinant)).toEqual([['Brand'], ['Brand', 'Style']]);
+    expect(analysis.levels.map(level => level.recordCount)).toEqual([2, 6]);
+    expect(analysis.levels[0].attributes.map(a => a.dependent)).toEqual(['Brand Country', 'Brand Owner']);
+    expect(analysis.analyzedRows).toBe(24);
+  });
+
+  it('never keys a level by URLs or free text, but keeps them as attributes', () => {
+    expect(analysis.levels.map(level => level.key)).not.toContain('Product URL');
+    expect(analysis.levels.map(level => level.key)).not.toContain('Description');
+    expect(analysis.levels[1].attributes.map(a => a.dependent)).toEqual(
+      expect.arrayContaining(['Product URL', 'Description', 'Style Name', 'Fabric'])
+    );
+  });
+
+  it('leaves a column that varies inside a style at SKU level and reports it as a near miss', () => {
+    expect(analysis.skuAttributes).toEqual(['Pack Type', 'Size']);
+    expect(analysis.nearMisses.map(fd => fd.dependent)).toEqual(['Pack Type']);
+    expect(analysis.nearMisses[0].strength).toBeCloseTo(23 / 24);
+  });
+
+  it('accepts the same column once the threshold is lowered', () => {
+    const lenient = analyzeFunctionalDependencies(headers, data, { threshold: 0.95 });
+    expect(lenient.threshold).toBe(0.95);
+    expect(lenient.levels[lenient.levels.length - 1].attributes.map(a => a.dependent)).toContain('Pack Type');
+    expect(lenient.nearMisses).toEqual([]);
+  });
+
+  it('does not split off a parent level that determines a single column', () => {
+    const withoutOwner = headers.filter(h => h !== 'Brand Owner');
+    const ownerIndex = headers.indexOf('Brand Owner');
+    const result = analyzeFunctionalDependencies(withoutOwner, data.map(row => row.filter((_, i) => i !== ownerIndex)));
+    expect(result.levels.map(level => level.key)).toEqual(['Style']);
+    expect(result.levels[0].attributes.map(a => a.dependent)).toEqual(expect.arrayContaining(['Brand', 'Brand Country']));
+  });
+
+  it('honors excluded keys', () => {
+    const result = analyzeFunctionalDependencies(headers, data, { excludeKeys: ['Style', 'Style Name'] });
+    expect(result.levels.map(level => level.key)).not.toContain('Style');
+    expect(result.levels.map(level => level.key)).not.toContain('Style Name');
+  });
+});
+
+describe('describeDependency', () => {
+  it('measures strength and lists the violating group with Excel row numbers', () => {
+    const fd = describeDependency(headers, data, ['Brand', 'Style'], 'Pack Type');
+    expect(fd).toMatchObject({
+      determinant: ['Brand', 'Style'],
+      dependent: 'Pack Type',
+      violatingRows: 1,
+      violatingGroups: 1,
+    });
+    expect(fd.strength).toBeCloseTo(23 / 24);
+    expect(fd.violations).toEqual([{
+      determinantValues: ['B1', 'S2'],
+      expectedValue: 'Bag',
+      conflictingValues: [{ value: 'Box', rows: [8] }],
+      violatingRows: 1,
+    }]);
+  });
+
+  it('holds fully when the dependent never varies inside a group', () => {
+    const fd = describeDependency(headers, data, ['Style'], 'Fabric');
+    expect(fd).toMatchObject({ strength: 1, violatingRows: 0, violatingGroups: 0, violations: [] });
+  });
+
+  it('ignores empty dependent values and labels empty keys', () => {
+    const rows = [
+      ['', 'Red'],
+      ['', 'Blue'],
+      ['K1', ''],
+      ['K1', 'Green'],
+    ];
+    const fd = describeDependency(['Key', 'Color'], rows, ['Key'], 'Color');
+    expect(fd.strength).toBeCloseTo(2 / 3);
+    expect(fd.violations).toEqual([{
+      determinantValues: ['(empty)'],
+      expectedValue: 'Red',
+      conflictingValues: [{ value: 'Blue', rows: [3] }],
+      violatingRows: 1,
+    }]);
+  });
+});
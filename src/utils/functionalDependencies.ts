@@ -0,0 +1,353 @@
+export type HierarchyDetectionMode = 'cardinality' | 'dependency';
+
+export interface DependencyViolation {
+  determinantValues: string[];
+  expectedValue: string; // majority value inside the group
+  conflictingValues: { value: string; rows: number[] }[]; // Excel-style row numbers
+  violatingRows: number;
+}
+
+export interface FunctionalDependency {
+  determinant: string[];
+  dependent: string;
+  strength: number; // share of rows that agree with their group's majority value
+  violatingRows: number;
+  violatingGroups: number;
+  violations: DependencyViolation[]; // worst groups first, capped
+}
+
+export interface DependencyLevel {
+  key: string; // column identifying a record at this level
+  determinant: string[]; // key path from the top level down to this level
+  recordCount: number; // distinct determinant combinations
+  attributes: FunctionalDependency[]; // columns whose values hold at this level
+}
+
+export interface DependencyAnalysis {
+  threshold: number;
+  levels: DependencyLevel[]; // parent levels only, top-down
+  skuKey: string | null; // most unique column (item identifier)
+  skuAttributes: string[]; // columns that vary below the deepest parent level
+  nearMisses: FunctionalDependency[]; // almost-dependencies that would be false parents
+  analyzedRows: number;
+}
+
+export interface DependencyOptions {
+  threshold?: number; // minimum strength for X → Y to hold
+  nearMissThreshold?: number; // strength from which a failed dependency is reported
+  minDependents?: number; // attributes a key must determine to form a level
+  maxLevels?: number;
+  maxRows?: number; // rows used for the search (all rows are used for the reported dependencies)
+  excludeKeys?: string[]; // columns that may never become a level key
+}
+
+const DEFAULT_OPTIONS: Required<DependencyOptions> = {
+  threshold: 0.98,
+  nearMissThreshold: 0.7,
+  minDependents: 1,
+  maxLevels: 3,
+  maxRows: 20000,
+  excludeKeys: [],
+};
+
+const MIN_KEY_COMPLETENESS = 0.6;
+const MIN_REFINEMENT = 1.2; // a child level must have at least 20% more records than its parent
+const MIN_SUPPORT = 0.5; // share of values that sit in groups with 2+ values (otherwise unverifiable)
+const MIN_SPLIT_SHARE = 0.2; // a coarser level must take at least this share of the split level's attributes
+const MIN_SPLIT_DEPENDENTS = 2; // ...and more than a single column (Fabric → Organic is no level)
+const MAX_KEY_LENGTH = 40; // average characters - longer values are descriptions, not codes or names
+const MAX_KEY_WORDS = 6; // average words - more is free text
+const URL_VALUE = /^(https?:\/\/|www\.)/i;
+const MAX_VIOLATION_EXAMPLES = 10;
+const MAX_ROWS_PER_VALUE = 5;
+
+/**
+ * Builds parent levels from approximate functional dependencies instead of
+ * per-column cardinality: a level key K is kept only when other columns
+ * actually hold constant inside each K group ("Brand, Style Code → Fabric").
+ */
+export const analyzeFunctionalDependencies = (
+  headers: string[],
+  data: unknown[][],
+  options: DependencyOptions = {}
+): DependencyAnalysis => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const searchData = data.length > config.maxRows ? data.slice(0, config.maxRows) : data;
+  const columns = encodeColumns(headers, searchData);
+
+  // SKU key: the most unique, well-filled column
+  const skuColumn = columns
+    .filter(c => c.completeness >= 0.9 && c.uniqueness >= 0.95)
+    .sort((a, b) => b.uniqueness - a.uniqueness || b.completeness - a.completeness)[0];
+  const skuKey = skuColumn ? skuColumn.header : null;
+
+  const keyCandidates = columns.filter(c =>
+    c.header !== skuKey &&
+    !config.excludeKeys.includes(c.header) &&
+    c.completeness >= MIN_KEY_COMPLETENESS &&
+    c.distinct >= 2 &&
+    c.uniqueness < 0.98 &&
+    !c.isFreeText // URLs and descriptions determine others by accident, they never identify a level
+  );
+
+  let remaining = columns.filter(c => c.header !== skuKey);
+  const chain: { column: EncodedColumn; groups: GroupIds; dependents: EncodedColumn[] }[] = [];
+
+  // STEP 1: Downward search - each level refines the previous one and must determine new attributes
+  let current: GroupIds = { ids: new Int32Array(searchData.length), count: 1 };
+  while (chain.length < config.maxLevels) {
+    let best: (typeof chain)[number] | null = null;
+
+    keyCandidates.forEach(candidate => {
+      if (!remaining.includes(candidate)) return;
+      const groups = refineGroups(current, candidate);
+      if (groups.count < current.count * MIN_REFINEMENT || groups.count >= searchData.length * 0.98) return;
+
+      const dependents = remaining.filter(c =>
+        c !== candidate && dependencyStrength(groups, c) >= config.threshold
+      );
+      if (dependents.length < config.minDependents) return;
+
+      const isBetter = !best ||
+        dependents.length > best.dependents.length ||
+        (dependents.length === best.dependents.length && groups.count < best.groups.count);
+      if (isBetter) {
+        best = { column: candidate, groups, dependents };
+      }
+    });
+
+    if (!best) break;
+    const chosen: (typeof chain)[number] = best;
+    chain.push(chosen);
+    remaining = remaining.filter(c => c !== chosen.column && !chosen.dependents.includes(c));
+    current = chosen.groups;
+  }
+
+  // STEP 2: Upward split - a coarser key among the top level's attributes (e.g. Brand above Style)
+  while (chain.length > 0 && chain.length < config.maxLevels) {
+    const top = chain[0];
+    let best: (typeof chain)[number] | null = null;
+
+    top.dependents.forEach(candidate => {
+      if (!keyCandidates.includes(candidate)) return;
+      const groups = refineGroups({ ids: new Int32Array(searchData.length), count: 1 }, candidate);
+      if (groups.count * MIN_REFINEMENT > top.groups.count) return;
+
+      const dependents = top.dependents.filter(c =>
+        c !== candidate && dependencyStrength(groups, c) >= config.threshold
+      );
+      if (dependents.length < Math.max(config.minDependents, MIN_SPLIT_DEPENDENTS)) return;
+      if (dependents.length < top.dependents.length * MIN_SPLIT_SHARE) return;
+      // The level being split must keep attributes of its own, otherwise it is an empty pass-through level
+      if (top.dependents.length - dependents.length - 1 < config.minDependents) return;
+
+      if (!best || dependents.length > best.dependents.length) {
+        best = { column: candidate, groups, dependents };
+      }
+    });
+
+    if (!best) break;
+    const chosen: (typeof chain)[number] = best;
+    top.dependents = top.dependents.filter(c => c !== chosen.column && !chosen.dependents.includes(c));
+    chain.unshift(chosen);
+  }
+
+  // Report dependencies on the full data, with the composite key path as determinant
+  const levels: DependencyLevel[] = chain.map((link, index) => {
+    const determinant = chain.slice(0, index + 1).map(l => l.column.header);
+    return {
+      key: link.column.header,
+      determinant,
+      recordCount: countDistinctKeys(headers, data, determinant),
+      attributes: link.dependents.map(c => describeDependency(headers, data, determinant, c.header)),
+    };
+  });
+
+  const assigned = new Set<string>(chain.flatMap(l => [l.column.header, ...l.dependents.map(c => c.header)]));
+  const skuAttributes = headers.filter(h => h && h !== skuKey && !assigned.has(h));
+
+  // Near misses: columns that almost hold at the deepest level - the false parents of cardinality mode
+  const deepest = levels[levels.length - 1];
+  const nearMisses = deepest
+    ? skuAttributes
+        .map(header => describeDependency(headers, data, deepest.determinant, header))
+        .filter(fd => fd.strength >= config.nearMissThreshold && fd.strength < config.threshold)
+        .sort((a, b) => b.strength - a.strength)
+    : [];
+
+  console.log(`🧬 Dependency analysis: ${levels.length} parent levels (${levels.map(l => l.key).join(' → ') || 'none'}), ${skuAttributes.length} SKU-level, ${nearMisses.length} near misses`);
+
+  return {
+    threshold: config.threshold,
+    levels,
+    skuKey,
+    skuAttributes,
+    nearMisses,
+    analyzedRows: data.length,
+  };
+};
+
+/**
+ * Measures X → Y on the given rows and collects the groups that break it.
+ */
+export const describeDependency = (
+  headers: string[],
+  data: unknown[][],
+  determinant: string[],
+  dependent: string
+): FunctionalDependency => {
+  const keyIndexes = determinant.map(h => headers.indexOf(h));
+  const valueIndex = headers.indexOf(dependent);
+  const groups = new Map<string, { keyValues: string[]; values: Map<string, number[]> }>();
+
+  data.forEach((row, rowIndex) => {
+    const value = cellText(row[valueIndex]);
+    if (value === '') return;
+    const keyValues = keyIndexes.map(i => cellText(row[i]));
+    const key = keyValues.join('\u0000');
+    if (!groups.has(key)) groups.set(key, { keyValues, values: new Map() });
+    const values = groups.get(key)!.values;
+    if (!values.has(value)) values.set(value, []);
+    values.get(value)!.push(rowIndex + 2); // Excel row number (header is row 1)
+  });
+
+  let total = 0;
+  let agreeing = 0;
+  const violations: DependencyViolation[] = [];
+
+  groups.forEach(group => {
+    const entries = Array.from(group.values.entries()).sort((a, b) => b[1].length - a[1].length);
+    const groupTotal = entries.reduce((sum, [, rows]) => sum + rows.length, 0);
+    total += groupTotal;
+    agreeing += entries[0][1].length;
+
+    if (entries.length > 1) {
+      violations.push({
+        determinantValues: group.keyValues.map(v => v || '(empty)'),
+        expectedValue: entries[0][0],
+        conflictingValues: entries.slice(1).map(([value, rows]) => ({
+          value,
+          rows: rows.slice(0, MAX_ROWS_PER_VALUE),
+        })),
+        violatingRows: groupTotal - entries[0][1].length,
+      });
+    }
+  });
+
+  violations.sort((a, b) => b.violatingRows - a.violatingRows);
+
+  return {
+    determinant,
+    dependent,
+    strength: total > 0 ? agreeing / total : 0,
+    violatingRows: total - agreeing,
+    violatingGroups: violations.length,
+    violations: violations.slice(0, MAX_VIOLATION_EXAMPLES),
+  };
+};
+
+interface EncodedColumn {
+  header: string;
+  valueIds: Int32Array; // 0 = empty, 1..distinct = value
+  distinct: number;
+  completeness: number;
+  uniqueness: number;
+  isFreeText: boolean; // URLs, descriptions and other long text
+}
+
+interface GroupIds {
+  ids: Int32Array;
+  count: number;
+}
+
+// Helper: encode every column as integer value ids once, so strength checks stay cheap
+const encodeColumns = (headers: string[], data: unknown[][]): EncodedColumn[] => {
+  return headers
+    .map((header, index) => {
+      const lookup = new Map<string, number>();
+      const valueIds = new Int32Array(data.length);
+      let nonEmpty = 0;
+      let urls = 0;
+      let length = 0;
+      let words = 0;
+      data.forEach((row, rowIndex) => {
+        const value = cellText(row[index]);
+        if (value === '') return;
+        nonEmpty++;
+        if (URL_VALUE.test(value)) urls++;
+        length += value.length;
+        words += value.split(/\s+/).length;
+        if (!lookup.has(value)) lookup.set(value, lookup.size + 1);
+        valueIds[rowIndex] = lookup.get(value)!;
+      });
+      return {
+        header,
+        valueIds,
+        distinct: lookup.size,
+        completeness: data.length > 0 ? nonEmpty / data.length : 0,
+        uniqueness: nonEmpty > 0 ? lookup.size / nonEmpty : 0,
+        isFreeText: nonEmpty > 0 &&
+          (urls / nonEmpty >= 0.5 || length / nonEmpty > MAX_KEY_LENGTH || words / nonEmpty > MAX_KEY_WORDS),
+      };
+    })
+    .filter(column => column.header);
+};
+
+// Helper: split every current group by the values of one more column
+const refineGroups = (current: GroupIds, column: EncodedColumn): GroupIds => {
+  const lookup = new Map<number, number>();
+  const ids = new Int32Array(current.ids.length);
+  for (let i = 0; i < ids.length; i++) {
+    const pair = current.ids[i] * (column.distinct + 1) + column.valueIds[i];
+    let id = lookup.get(pair);
+    if (id === undefined) {
+      id = lookup.size;
+      lookup.set(pair, id);
+    }
+    ids[i] = id;
+  }
+  return { ids, count: lookup.size };
+};
+
+// Helper: share of non-empty values matching their group's majority value (0 when unverifiable)
+const dependencyStrength = (groups: GroupIds, column: EncodedColumn): number => {
+  const pairCounts = new Map<number, number>();
+  const groupTotals = new Int32Array(groups.count);
+  let total = 0;
+
+  for (let i = 0; i < groups.ids.length; i++) {
+    const value = column.valueIds[i];
+    if (value === 0) continue;
+    const pair = groups.ids[i] * (column.distinct + 1) + value;
+    pairCounts.set(pair, (pairCounts.get(pair) || 0) + 1);
+    groupTotals[groups.ids[i]]++;
+    total++;
+  }
+  if (total < 2) return 0;
+
+  const groupMajority = new Int32Array(groups.count);
+  pairCounts.forEach((count, pair) => {
+    const group = Math.floor(pair / (column.distinct + 1));
+    if (count > groupMajority[group]) groupMajority[group] = count;
+  });
+
+  let agreeing = 0;
+  let supported = 0;
+  for (let g = 0; g < groups.count; g++) {
+    agreeing += groupMajority[g];
+    if (groupTotals[g] >= 2) supported += groupTotals[g];
+  }
+
+  // Groups with a single value can never disagree, so they prove nothing
+  if (supported / total < MIN_SUPPORT) return 0;
+  return agreeing / total;
+};
+
+const countDistinctKeys = (headers: string[], data: unknown[][], determinant: string[]): number => {
+  const indexes = determinant.map(h => headers.indexOf(h));
+  return new Set(data.map(row => indexes.map(i => cellText(row[i])).join('\u0000'))).size;
+};
+
+const cellText = (value: unknown): string => {
+  return value === null || value === undefined ? '' : String(value).trim();
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { setRecordField } from './hierarchyEditing';
+import {
+  addGeneratedKeyColumns,
+  applyGeneratedKey,
+  hashKey,
+  removeGeneratedKey,
+  syncGeneratedKeys,
+} from './generatedKeys';
+
+const headers = ['Brand', 'Model', 'Material', 'SKU', 'Size'];
+const data = [
+  ['Acme', 'Trail Runner', 'Mesh', 'A1', '40'],
+  ['Acme', 'Trail Runner', 'Mesh', 'A2', '41'],
+  ['Acme-Trail', 'Runner', 'Leather', 'B1', '40'],
+  ['Zeta', '', 'Mesh', 'C1', '42'],
+];
+const hierarchy: HierarchyLevel[] = [
+  { level: 1, name: 'Model', headers: ['Brand', 'Model'], recordId: 'Material' },
+  { level: 2, name: 'SKU', headers: ['Size'], recordId: 'SKU' },
+];
+
+describe('generated parent keys', () => {
+  const keyed = applyGeneratedKey(hierarchy, 0, headers, {
+    idMode: 'concat',
+    idTemplate: '{Brand}-{Model}',
+    nameTemplate: '{Brand} {Model} {Material}',
+  });
+
+  it('makes the generated columns the Record ID/Name and returns the replaced column to the properties', () => {
+    expect(keyed[0]).toMatchObject({
+      recordId: 'Generated Model ID',
+      recordName: 'Generated Model Name',
+      headers: ['Brand', 'Model', 'Material'],
+    });
+    expect(keyed[1]).toBe(hierarchy[1]);
+  });
+
+  it('adds the virtual columns and reports blank rows and concatenation collisions', () => {
+    const table = addGeneratedKeyColumns(keyed, headers, data);
+    expect(table.headers.slice(-2)).toEqual(['Generated Model ID', 'Generated Model Name']);
+    expect(table.data.map(row => row[5])).toEqual(['Acme-Trail-Runner', 'Acme-Trail-Runner', 'Acme-Trail-Runner', '']);
+    expect(table.data[3][6]).toBe('Zeta Mesh');
+    expect(table.checks[0]).toMatchObject({ keyCount: 1, blankRowCount: 1, blankRows: [5], collisionCount: 1, isUnique: false });
+    expect(table.checks[0].nameConflicts[0].values).toEqual(['Acme Trail Runner Mesh', 'Acme-Trail Runner Leather']);
+    expect(addGeneratedKeyColumns(keyed, table.headers, table.data).headers).toEqual(table.headers);
+  });
+
+  it('hashes the values behind the template prefix', () => {
+    const hashed = applyGeneratedKey(hierarchy, 0, headers, { idMode: 'hash', idTemplate: 'MOD-{Brand}{Model}' });
+    const table = addGeneratedKeyColumns(hashed, headers, data);
+    expect(table.data[0][5]).toBe(`MOD-${hashKey('Acme\u0000Trail Runner')}`);
+    expect(table.checks[0]).toMatchObject({ keyCount: 2, collisionCount: 0, isUnique: true });
+  });
+
+  it('rejects templates with unknown columns', () => {
+    expect(() => applyGeneratedKey(hierarchy, 0, headers, { idMode: 'concat', idTemplate: '{Style}' }))
+      .toThrow('Unknown columns in template: Style');
+  });
+
+  it('restores the replaced Record ID when the key is removed or replaced in an edit', () => {
+    expect(removeGeneratedKey(keyed, 0)[0]).toMatchObject({ recordId: 'Material', recordName: undefined, headers: ['Brand', 'Model'], generatedKey: undefined });
+
+    const named = applyGeneratedKey([{ ...hierarchy[0], recordName: 'Model', headers: ['Brand'] }, hierarchy[1]], 0, headers, {
+      idMode: 'concat',
+      idTemplate: '{Brand}-{Model}',
+      nameTemplate: '{Brand} {Model}',
+    });
+    const edited = syncGeneratedKeys(named, setRecordField(named, 0, 'recordId', 'Brand'));
+    expect(edited[0]).toMatchObject({ recordId: 'Brand', recordName: 'Model', headers: ['Material'], generatedKey: undefined });
+  });
+});
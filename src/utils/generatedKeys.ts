@@ -0,0 +1,376 @@
+import { GeneratedIdMode, GeneratedKeyConfig, HierarchyLevel } from '@/types';
+
+// Generated parent keys: Record IDs (and Names) built from attribute values for levels
+// without a code column. They live as virtual columns appended to the table, so every
+// export that reads the hierarchy's Record ID finds them like any other column.
+
+export interface KeyTemplate {
+  idMode: GeneratedIdMode;
+  idTemplate: string;
+  nameTemplate?: string;
+}
+
+export interface GeneratedKeyCollision {
+  id: string;
+  sources: string[][]; // Different template values that produce the same ID
+}
+
+export interface GeneratedKeyConflict {
+  id: string;
+  values: string[]; // Parent Record IDs or generated names seen for the same ID
+}
+
+export interface GeneratedKeyCheck {
+  levelName: string;
+  idHeader: string;
+  nameHeader?: string;
+  keyCount: number; // Distinct generated IDs
+  blankRowCount: number; // Rows with an empty template value - they get no ID
+  blankRows: number[]; // Excel row numbers, first MAX_REPORTED_ISSUES
+  collisionCount: number;
+  collisions: GeneratedKeyCollision[];
+  parentConflictCount: number; // IDs used under more than one parent record
+  parentConflicts: GeneratedKeyConflict[];
+  nameConflictCount: number; // IDs with more than one generated name
+  nameConflicts: GeneratedKeyConflict[];
+  isUnique: boolean; // No collisions and no parent conflicts
+}
+
+export interface KeyedTable {
+  headers: string[]; // Source headers + virtual key columns
+  data: unknown[][];
+  checks: GeneratedKeyCheck[]; // One per level with a generated key, top level first
+}
+
+const MAX_REPORTED_ISSUES = 20;
+const MAX_SUGGESTED_PARTS = 4;
+const MAX_CONCAT_PARTS = 2; // More parts than this are hashed by default - IDs stay short
+const MAX_PART_LENGTH = 40; // Longer average values are descriptions, not key parts
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+// Headers that name a real key column - "Style ID", "Model Code", "Article No"
+const KEY_HEADER = /(^|[\s_-])(id|code|key|no|nr|number|ref|sku)$|id$/i;
+
+const text = (value: unknown): string => String(value ?? '').trim();
+
+export const isLikelyKeyColumn = (header: string | undefined): boolean => !!header && KEY_HEADER.test(header.trim());
+
+/**
+ * Header names used as {placeholders} in a template, in order of appearance
+ */
+export const getTemplatePlaceholders = (template: string): string[] =>
+  Array.from(template.matchAll(PLACEHOLDER), match => match[1].trim());
+
+/**
+ * Placeholders that are not columns of the table
+ */
+export const findUnknownPlaceholders = (template: string, headers: string[]): string[] =>
+  getTemplatePlaceholders(template).filter(header => !headers.includes(header));
+
+/**
+ * FNV-1a hash as 8 uppercase hex characters - stable across runs and machines
+ */
+export const hashKey = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).toUpperCase().padStart(8, '0');
+};
+
+// Helper: template values of one row, undefined when any of them is empty
+const getTemplateValues = (template: string, row: unknown[], columnIndex: Map<string, number>): string[] | undefined => {
+  const values = getTemplatePlaceholders(template).map(header =>
+    columnIndex.has(header) ? text(row[columnIndex.get(header)!]) : ''
+  );
+  return values.length > 0 && values.every(value => value !== '') ? values : undefined;
+};
+
+/**
+ * Generated Record ID of one row. Concat fills the template with the values (spaces become
+ * hyphens); hash keeps the text before the first placeholder and appends a hash of the values.
+ * Rows with an empty template value get no ID.
+ */
+export const renderKeyId = (
+  idMode: GeneratedIdMode,
+  template: string,
+  row: unknown[],
+  columnIndex: Map<string, number>
+): string | undefined => {
+  const values = getTemplateValues(template, row, columnIndex);
+  if (!values) return undefined;
+  if (idMode === 'hash') {
+    const prefix = template.split('{')[0];
+    return `${prefix}${hashKey(values.join('\u0000'))}`;
+  }
+  let index = 0;
+  return template.replace(PLACEHOLDER, () => values[index++].replace(/\s+/g, '-')).trim();
+};
+
+/**
+ * Generated Record Name of one row - empty placeholders are left out
+ */
+export const renderKeyName = (
+  template: string,
+  row: unknown[],
+  columnIndex: Map<string, number>
+): string | undefined => {
+  const name = template
+    .replace(PLACEHOLDER, (_, header: string) => (columnIndex.has(header.trim()) ? text(row[columnIndex.get(header.trim())!]) : ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name || undefined;
+};
+
+// Helper: virtual column name that clashes with no source or other virtual column
+const getVirtualHeader = (base: string, taken: Set<string>): string => {
+  let header = base;
+  for (let n = 2; taken.has(header); n++) header = `${base} ${n}`;
+  taken.add(header);
+  return header;
+};
+
+// Helper: every virtual column used by any generated key
+const getVirtualHeaders = (hierarchy: HierarchyLevel[]): Set<string> =>
+  new Set(hierarchy.flatMap(level => (level.generatedKey
+    ? [level.generatedKey.idHeader, level.generatedKey.nameHeader].filter(Boolean) as string[]
+    : [])));
+
+/**
+ * Proposes a template from the level's own attributes: short, mostly filled columns,
+ * Record Name first. Two parts are concatenated, more are hashed; names skip code columns.
+ */
+export const suggestKeyTemplate = (level: HierarchyLevel, headers: string[], data: unknown[][]): KeyTemplate => {
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const virtual = level.generatedKey ? [level.generatedKey.idHeader, level.generatedKey.nameHeader] : [];
+  const candidates = [level.recordName, level.recordId, ...level.headers, level.generatedKey?.replacedRecordName, level.generatedKey?.replacedRecordId]
+    .filter((header): header is string => !!header && !virtual.includes(header) && columnIndex.has(header));
+
+  const parts = Array.from(new Set(candidates))
+    .filter(header => {
+      const values = data.map(row => text(row[columnIndex.get(header)!]));
+      const filled = values.filter(value => value !== '');
+      if (filled.length < data.length * 0.9 || filled.some(value => /^https?:\/\//i.test(value))) return false;
+      return filled.reduce((sum, value) => sum + value.length, 0) / filled.length <= MAX_PART_LENGTH;
+    })
+    .slice(0, MAX_SUGGESTED_PARTS);
+
+  const toPlaceholder = (header: string) => `{${header}}`;
+  return {
+    idMode: parts.length > MAX_CONCAT_PARTS ? 'hash' : 'concat',
+    idTemplate: parts.map(toPlaceholder).join('-'),
+    nameTemplate: parts.filter(header => !isLikelyKeyColumn(header)).slice(0, 3).map(toPlaceholder).join(' ') || undefined,
+  };
+};
+
+/**
+ * Makes a level's Record ID (and Name, when a name template is given) generated from the
+ * template. The columns they replace go back to the level's properties. Throws on
+ * placeholders that are not columns.
+ */
+export const applyGeneratedKey = (
+  hierarchy: HierarchyLevel[],
+  levelIndex: number,
+  headers: string[],
+  template: KeyTemplate
+): HierarchyLevel[] => {
+  const unknown = [template.idTemplate, template.nameTemplate || '']
+    .flatMap(t => findUnknownPlaceholders(t, headers));
+  if (getTemplatePlaceholders(template.idTemplate).length === 0) {
+    throw new Error('The ID template needs at least one {column} placeholder');
+  }
+  if (unknown.length > 0) {
+    throw new Error(`Unknown columns in template: ${Array.from(new Set(unknown)).join(', ')}`);
+  }
+
+  const base = removeGeneratedKey(hierarchy, levelIndex);
+  const level = base[levelIndex];
+  const taken = new Set([...headers, ...getVirtualHeaders(base)]);
+  const nameTemplate = template.nameTemplate?.trim() || undefined;
+
+  const generatedKey: GeneratedKeyConfig = {
+    idMode: template.idMode,
+    idTemplate: template.idTemplate.trim(),
+    nameTemplate,
+    idHeader: getVirtualHeader(`Generated ${level.name} ID`, taken),
+    nameHeader: nameTemplate ? getVirtualHeader(`Generated ${level.name} Name`, taken) : undefined,
+    replacedRecordId: level.recordId,
+    replacedRecordName: nameTemplate ? level.recordName : undefined,
+  };
+  const released = [generatedKey.replacedRecordId, generatedKey.replacedRecordName]
+    .filter((header): header is string => !!header && !level.headers.includes(header));
+
+  console.log(`🔑 ${level.name}: generated Record ID from "${generatedKey.idTemplate}" (${generatedKey.idMode})${nameTemplate ? `, name from "${nameTemplate}"` : ''}`);
+
+  return base.map((l, i) => i !== levelIndex ? l : {
+    ...l,
+    headers: [...l.headers, ...released],
+    recordId: generatedKey.idHeader,
+    recordName: generatedKey.nameHeader ?? l.recordName,
+    generatedKey,
+  });
+};
+
+/**
+ * Drops a level's generated key and gives the replaced columns their Record ID/Name role
+ * back - unless they have since moved to another level.
+ */
+export const removeGeneratedKey = (hierarchy: HierarchyLevel[], levelIndex: number): HierarchyLevel[] => {
+  const key = hierarchy[levelIndex]?.generatedKey;
+  if (!key) return hierarchy;
+
+  return hierarchy.map((level, i) => {
+    if (i !== levelIndex) return level;
+    const restore = (replaced: string | undefined) => (replaced && level.headers.includes(replaced) ? replaced : undefined);
+    const recordId = restore(key.replacedRecordId);
+    const recordName = key.nameHeader ? restore(key.replacedRecordName) : level.recordName;
+    return {
+      ...level,
+      headers: level.headers.filter(h => h !== recordId && h !== recordName),
+      recordId,
+      recordName,
+      generatedKey: undefined,
+    };
+  });
+};
+
+/**
+ * Keeps generated keys consistent after a manual edit: a level whose Record ID (or Name) was
+ * set to another column drops that part of its key, and virtual columns no longer holding a
+ * role are removed from every level.
+ */
+export const syncGeneratedKeys = (previous: HierarchyLevel[], edited: HierarchyLevel[]): HierarchyLevel[] => {
+  const virtual = getVirtualHeaders(previous);
+  if (virtual.size === 0) return edited;
+
+  const synced = edited.map(level => {
+    const key = level.generatedKey;
+    if (!key) return level;
+    if (level.recordId !== key.idHeader) {
+      // The generated name goes with the ID - the replaced name column takes its role back
+      const restoredName = key.replacedRecordName && level.headers.includes(key.replacedRecordName) ? key.replacedRecordName : undefined;
+      return key.nameHeader && level.recordName === key.nameHeader
+        ? { ...level, headers: level.headers.filter(h => h !== restoredName), recordName: restoredName, generatedKey: undefined }
+        : { ...level, generatedKey: undefined };
+    }
+    if (key.nameHeader && level.recordName !== key.nameHeader) {
+      return { ...level, generatedKey: { ...key, nameTemplate: undefined, nameHeader: undefined, replacedRecordName: undefined } };
+    }
+    return level;
+  });
+
+  const active = getVirtualHeaders(synced);
+  return synced.map(level => ({
+    ...level,
+    headers: level.headers.filter(h => !virtual.has(h)),
+    recordId: level.recordId && virtual.has(level.recordId) && !active.has(level.recordId) ? undefined : level.recordId,
+    recordName: level.recordName && virtual.has(level.recordName) && !active.has(level.recordName) ? undefined : level.recordName,
+  }));
+};
+
+// Helper: uniqueness, collisions and name/parent conflicts of one level's generated key
+const checkGeneratedKey = (
+  level: HierarchyLevel,
+  parentIdHeader: string | undefined,
+  data: unknown[][],
+  columnIndex: Map<string, number>
+): GeneratedKeyCheck => {
+  const key = level.generatedKey!;
+  const sourcesById = new Map<string, Map<string, string[]>>();
+  const parentsById = new Map<string, Set<string>>();
+  const namesById = new Map<string, Set<string>>();
+  const blankRows: number[] = [];
+
+  data.forEach((row, rowIndex) => {
+    const values = getTemplateValues(key.idTemplate, row, columnIndex);
+    const id = renderKeyId(key.idMode, key.idTemplate, row, columnIndex);
+    if (!values || !id) {
+      blankRows.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
+      return;
+    }
+    if (!sourcesById.has(id)) sourcesById.set(id, new Map());
+    sourcesById.get(id)!.set(values.join('\u0000'), values);
+
+    const parentId = parentIdHeader && columnIndex.has(parentIdHeader) ? text(row[columnIndex.get(parentIdHeader)!]) : '';
+    if (parentId) {
+      if (!parentsById.has(id)) parentsById.set(id, new Set());
+      parentsById.get(id)!.add(parentId);
+    }
+    const name = key.nameTemplate ? renderKeyName(key.nameTemplate, row, columnIndex) : undefined;
+    if (name) {
+      if (!namesById.has(id)) namesById.set(id, new Set());
+      namesById.get(id)!.add(name);
+    }
+  });
+
+  const collisions = Array.from(sourcesById.entries())
+    .filter(([, sources]) => sources.size > 1)
+    .map(([id, sources]) => ({ id, sources: Array.from(sources.values()) }));
+  const toConflicts = (byId: Map<string, Set<string>>) => Array.from(byId.entries())
+    .filter(([, values]) => values.size > 1)
+    .map(([id, values]) => ({ id, values: Array.from(values) }));
+  const parentConflicts = toConflicts(parentsById);
+  const nameConflicts = toConflicts(namesById);
+
+  return {
+    levelName: level.name,
+    idHeader: key.idHeader,
+    nameHeader: key.nameHeader,
+    keyCount: sourcesById.size,
+    blankRowCount: blankRows.length,
+    blankRows: blankRows.slice(0, MAX_REPORTED_ISSUES),
+    collisionCount: collisions.length,
+    collisions: collisions.slice(0, MAX_REPORTED_ISSUES),
+    parentConflictCount: parentConflicts.length,
+    parentConflicts: parentConflicts.slice(0, MAX_REPORTED_ISSUES),
+    nameConflictCount: nameConflicts.length,
+    nameConflicts: nameConflicts.slice(0, MAX_REPORTED_ISSUES),
+    isUnique: collisions.length === 0 && parentConflicts.length === 0,
+  };
+};
+
+/**
+ * Appends the virtual columns of every generated key to the table (top level first, so a
+ * generated parent ID can be checked against) and checks each key. Columns already in the
+ * table are kept, so the call is safe on a table that was keyed before. Without generated
+ * keys the source headers and data are returned as they are.
+ */
+export const addGeneratedKeyColumns = (
+  hierarchy: HierarchyLevel[],
+  headers: string[],
+  data: unknown[][]
+): KeyedTable => {
+  const keyedLevels = hierarchy.filter(level => level.generatedKey);
+  if (keyedLevels.length === 0) return { headers, data, checks: [] };
+
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const columns: { header: string; render: (row: unknown[]) => string | undefined }[] = [];
+  keyedLevels.forEach(level => {
+    const key = level.generatedKey!;
+    if (!columnIndex.has(key.idHeader)) {
+      columns.push({ header: key.idHeader, render: row => renderKeyId(key.idMode, key.idTemplate, row, columnIndex) });
+    }
+    if (key.nameTemplate && key.nameHeader && !columnIndex.has(key.nameHeader)) {
+      columns.push({ header: key.nameHeader, render: row => renderKeyName(key.nameTemplate!, row, columnIndex) });
+    }
+  });
+
+  const keyedHeaders = [...headers, ...columns.map(column => column.header)];
+  const keyedData = columns.length === 0
+    ? data
+    : data.map(row => [...headers.map((_, i) => row[i]), ...columns.map(column => column.render(row) ?? '')]);
+  const keyedIndex = new Map(keyedHeaders.map((h, i) => [h, i]));
+
+  const checks = keyedLevels.map(level => {
+    const index = hierarchy.indexOf(level);
+    const parent = hierarchy.slice(0, index).reverse().find(l => l.recordId);
+    return checkGeneratedKey(level, parent?.recordId, keyedData, keyedIndex);
+  });
+  checks.forEach(check => {
+    console.log(`🔑 ${check.levelName}: ${check.keyCount} generated IDs, ${check.blankRowCount} blank rows, ${check.collisionCount} collisions, ${check.parentConflictCount} parent conflicts`);
+  });
+
+  return { headers: keyedHeaders, data: keyedData, checks };
+};
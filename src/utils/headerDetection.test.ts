@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeaderRange } from './headerDetection';
+
+const dataRows = [
+  ['CH-01', 'Oslo Chair', 90, 45, 50],
+  ['CH-02', 'Bergen Chair', 85, 48, 52],
+  ['TB-01', 'Fjord Table', 75, 160, 90],
+  ['TB-02', 'Nord Table', 75, 200, 100],
+  ['SO-01', 'Lund Sofa', 80, 210, 95],
+];
+
+describe('detectHeaderRange', () => {
+  it('keeps a single header row as the default range', () => {
+    const detection = detectHeaderRange([['SKU', 'Name', 'Height', 'Width', 'Depth'], ...dataRows]);
+    expect(detection).toMatchObject({ headerRowIndex: 0, headerRowCount: 1, dataStartIndex: 1, isDefault: true });
+    expect(detection.flattenedHeaders).toEqual(['SKU', 'Name', 'Height', 'Width', 'Depth']);
+  });
+
+  it('flattens an unmerged group row with a sparse sub-header row below', () => {
+    const detection = detectHeaderRange([
+      ['SKU', 'Name', 'Dimensions', '', ''],
+      ['', '', 'Height', 'Width', 'Depth'],
+      ...dataRows,
+    ]);
+    expect(detection).toMatchObject({ headerRowIndex: 0, headerRowCount: 2, dataStartIndex: 2, dataEndIndex: 6 });
+    expect(detection.flattenedHeaders).toEqual([
+      'SKU',
+      'Name',
+      'Dimensions - Height',
+      'Dimensions - Width',
+      'Dimensions - Depth',
+    ]);
+  });
+
+  it('finds the grouped header below a title banner', () => {
+    const detection = detectHeaderRange([
+      ['Furniture price list 2024'],
+      [],
+      ['SKU', 'Name', 'Dimensions', '', ''],
+      ['', '', 'Height', 'Width', 'Depth'],
+      ...dataRows,
+    ]);
+    expect(detection).toMatchObject({ headerRowIndex: 2, headerRowCount: 2, dataStartIndex: 4 });
+    expect(detection.flattenedHeaders[4]).toBe('Dimensions - Depth');
+  });
+});
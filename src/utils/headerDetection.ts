@@ -0,0 +1,300 @@
+import * as XLSX from 'xlsx';
+
+export interface HeaderRange {
+  headerRowIndex: number; // first header row (0-based, in the loaded rows)
+  headerRowCount: number; // 1 for a plain header, 2-3 for grouped headers
+  dataStartIndex: number;
+  dataEndIndex: number; // inclusive
+  fillGroupLabels: boolean; // carry grouped labels ("Dimensions") across empty cells to the right
+}
+
+export interface HeaderRangeDetection extends HeaderRange {
+  confidence: number;
+  flattenedHeaders: string[];
+  isDefault: boolean; // row 0 is a single header row and every row is data
+}
+
+export const MAX_HEADER_ROWS = 3;
+const HEADER_SEARCH_ROWS = 20;
+const SUPPORT_SAMPLE_ROWS = 5;
+const FOOTER_PATTERN = /^(total|subtotal|grand total|sum|generated|exported|printed|page)\b/i;
+
+/**
+ * Copies the top-left value of every merged range into all of its cells,
+ * so merged group headers and vertically merged headers survive flattening.
+ */
+export const fillMergedCells = (worksheet: XLSX.WorkSheet): void => {
+  const merges = worksheet['!merges'] || [];
+  merges.forEach(range => {
+    const origin = worksheet[XLSX.utils.encode_cell(range.s)];
+    if (!origin) return;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (r === range.s.r && c === range.s.c) continue;
+        worksheet[XLSX.utils.encode_cell({ r, c })] = { ...origin };
+      }
+    }
+  });
+};
+
+/**
+ * Scores the first rows as header candidates and detects title banners,
+ * grouped multi-row headers and trailing footer rows.
+ */
+export const detectHeaderRange = (rows: unknown[][]): HeaderRangeDetection => {
+  const lastIndex = rows.length - 1;
+  const fallback: HeaderRange = {
+    headerRowIndex: 0,
+    headerRowCount: 1,
+    dataStartIndex: 1,
+    dataEndIndex: Math.max(1, lastIndex),
+    fillGroupLabels: true,
+  };
+  if (rows.length < 2) {
+    return { ...fallback, confidence: 0, flattenedHeaders: flattenHeaders(rows, fallback), isDefault: true };
+  }
+
+  const profiles = rows.map(profileRow);
+  const width = Math.max(1, ...profiles.slice(0, HEADER_SEARCH_ROWS + SUPPORT_SAMPLE_ROWS).map(p => p.nonEmpty));
+
+  // Score every candidate row; the header is the fullest, most textual, most distinct row with data below
+  const candidates = Math.min(HEADER_SEARCH_ROWS, lastIndex);
+  let bestIndex = 0;
+  let bestScore = -1;
+  for (let r = 0; r < candidates; r++) {
+    const score = scoreHeaderCandidate(profiles, r, width) - (labelsRepeatBelow(rows, r) ? 0.3 : 0);
+    // Only replace on a clear improvement so the earliest plausible row wins ties
+    if (score > bestScore + 0.05) {
+      bestScore = score;
+      bestIndex = r;
+    }
+  }
+
+  // A merged group row can tie with its sub-header row; the column labels live in the lower row
+  while (
+    bestIndex < lastIndex - 1 &&
+    isGroupHeaderRow(rows[bestIndex], rows[bestIndex + 1]) &&
+    !labelsRepeatBelow(rows, bestIndex + 1)
+  ) {
+    bestIndex++;
+  }
+
+  // Walk upwards over grouped header rows ("Dimensions" above "Height / Width / Depth")
+  let headerRowIndex = bestIndex;
+  while (
+    headerRowIndex > 0 &&
+    bestIndex - headerRowIndex + 1 < MAX_HEADER_ROWS &&
+    isGroupHeaderRow(rows[headerRowIndex - 1], rows[bestIndex])
+  ) {
+    headerRowIndex--;
+  }
+
+  // Unmerged group row with a sparse sub-header row, on either side of the best-scoring row
+  if (headerRowIndex === bestIndex) {
+    if (
+      bestIndex < lastIndex - 1 &&
+      isSubHeaderRow(rows[bestIndex], rows[bestIndex + 1]) &&
+      !labelsRepeatBelow(rows, bestIndex + 1)
+    ) {
+      bestIndex++;
+    } else if (bestIndex > 0 && isSubHeaderRow(rows[bestIndex - 1], rows[bestIndex])) {
+      headerRowIndex--;
+    }
+  }
+
+  // Trailing footer rows ("Total", "Generated on ...") are sparse and set apart from the data
+  let dataEndIndex = lastIndex;
+  const footerLimit = Math.ceil(width * 0.35);
+  while (dataEndIndex > bestIndex + 1 && profiles[dataEndIndex].nonEmpty <= footerLimit) {
+    const firstCell = cellText((rows[dataEndIndex] || []).find(cell => cellText(cell) !== ''));
+    const isSetApart = profiles[dataEndIndex - 1].nonEmpty === 0 || FOOTER_PATTERN.test(firstCell);
+    if (!isSetApart) break;
+    dataEndIndex--;
+  }
+  // Drop the blank separator rows above the footer as well
+  while (dataEndIndex > bestIndex + 1 && profiles[dataEndIndex].nonEmpty === 0) {
+    dataEndIndex--;
+  }
+
+  const range: HeaderRange = {
+    headerRowIndex,
+    headerRowCount: bestIndex - headerRowIndex + 1,
+    dataStartIndex: bestIndex + 1,
+    dataEndIndex,
+    fillGroupLabels: true,
+  };
+
+  const isDefault = range.headerRowIndex === 0 && range.headerRowCount === 1 && range.dataEndIndex === lastIndex;
+  console.log(`🧭 Header detection: rows ${range.headerRowIndex + 1}-${bestIndex + 1}, data ${range.dataStartIndex + 1}-${range.dataEndIndex + 1} (score ${bestScore.toFixed(2)})`);
+
+  return {
+    ...range,
+    confidence: Math.max(0, Math.min(1, bestScore)),
+    flattenedHeaders: flattenHeaders(rows, range),
+    isDefault,
+  };
+};
+
+/**
+ * Flattens the header rows of a range into one name per column,
+ * joining group and column labels as "Dimensions - Height".
+ */
+export const flattenHeaders = (rows: unknown[][], range: HeaderRange): string[] => {
+  const headerRows = rows.slice(range.headerRowIndex, range.headerRowIndex + range.headerRowCount);
+  const bottomRow = headerRows[headerRows.length - 1] || [];
+  const columnCount = Math.max(0, ...headerRows.map(row => row.length));
+
+  // Forward-fill each upper row so an unmerged group label covers its columns
+  const filledRows = headerRows.map((row, rowIndex) => {
+    if (rowIndex === headerRows.length - 1 || !range.fillGroupLabels) {
+      return Array.from({ length: columnCount }, (_, c) => cellText(row[c]));
+    }
+    let carry = '';
+    return Array.from({ length: columnCount }, (_, c) => {
+      const value = cellText(row[c]);
+      if (value) {
+        carry = value;
+        return value;
+      }
+      // A column without a bottom label is not part of the group
+      if (!cellText(bottomRow[c])) {
+        carry = '';
+      }
+      return carry;
+    });
+  });
+
+  return Array.from({ length: columnCount }, (_, c) => {
+    const parts: string[] = [];
+    filledRows.forEach(row => {
+      const part = row[c];
+      if (part && parts[parts.length - 1] !== part) {
+        parts.push(part);
+      }
+    });
+    return parts.join(' - ');
+  });
+};
+
+/**
+ * Returns header-first rows for the confirmed range.
+ */
+export const applyHeaderRange = (rows: unknown[][], range: HeaderRange): unknown[][] => {
+  const headers = flattenHeaders(rows, range);
+  const body = rows.slice(range.dataStartIndex, range.dataEndIndex + 1);
+  return [headers, ...body];
+};
+
+interface RowProfile {
+  nonEmpty: number;
+  textCells: number;
+  numericCells: number;
+  distinct: number;
+}
+
+// Helper: per-row shape used by the header scoring
+const profileRow = (row: unknown[]): RowProfile => {
+  const values = (row || []).map(cellText).filter(v => v !== '');
+  const numericCells = values.filter(isNumericLike).length;
+  return {
+    nonEmpty: values.length,
+    textCells: values.length - numericCells,
+    numericCells,
+    distinct: new Set(values.map(v => v.toLowerCase())).size,
+  };
+};
+
+const scoreHeaderCandidate = (profiles: RowProfile[], index: number, width: number): number => {
+  const profile = profiles[index];
+  if (profile.nonEmpty < 2 && width > 1) return 0;
+
+  // Headers often leave a few columns unnamed, so fill saturates before the full width
+  const fill = Math.min(1, profile.nonEmpty / (width * 0.5));
+  const textRatio = profile.textCells / profile.nonEmpty;
+  const uniqueness = profile.distinct / profile.nonEmpty;
+
+  // Rows below a header are about as wide, and usually contain some numbers
+  const below = profiles.slice(index + 1, index + 1 + SUPPORT_SAMPLE_ROWS);
+  const support = below.length > 0
+    ? below.filter(p => p.nonEmpty >= profile.nonEmpty * 0.5).length / below.length
+    : 0;
+  const numericBelow = below.some(p => p.numericCells > 0) ? 1 : 0;
+  const numericPenalty = profile.numericCells > 0 ? 0.2 : 0;
+
+  return fill * 0.4 + textRatio * 0.25 + uniqueness * 0.15 + support * 0.15 + numericBelow * 0.05 - numericPenalty;
+};
+
+/**
+ * A group row only has text labels sitting above labelled header columns,
+ * with fewer distinct labels than the header row. Each label either repeats the
+ * header below it (vertical merge) or spans several columns. A single label in
+ * the first column is treated as a title banner rather than a group.
+ */
+const isGroupHeaderRow = (candidateRow: unknown[], headerRow: unknown[]): boolean => {
+  const candidate = profileRow(candidateRow);
+  const header = profileRow(headerRow);
+  if (candidate.nonEmpty === 0 || candidate.numericCells > 0 || header.numericCells > 0) return false;
+  if (candidate.distinct >= header.distinct) return false;
+
+  const labelColumns: number[] = [];
+  (candidateRow || []).forEach((cell, index) => {
+    if (cellText(cell) !== '') labelColumns.push(index);
+  });
+  if (!labelColumns.every(index => cellText((headerRow || [])[index]) !== '')) return false;
+
+  const spansGroup = labelColumns.every(index => {
+    const label = cellText(candidateRow[index]);
+    if (label.toLowerCase() === cellText(headerRow[index]).toLowerCase()) return true;
+    if (cellText(candidateRow[index - 1]) === label) return true;
+    const next = cellText(candidateRow[index + 1]);
+    return cellText(headerRow[index + 1]) !== '' && (next === '' || next === label);
+  });
+  if (!spansGroup) return false;
+
+  return candidate.distinct >= 2 || labelColumns[0] > 0;
+};
+
+/**
+ * A sub-header row only has text labels, left blank under plain column labels, that
+ * fill the blanks to the right of a group label ("Height / Width / Depth" under an
+ * unmerged "Dimensions"). Every label in a blank column continues the run to its left.
+ */
+const isSubHeaderRow = (groupRow: unknown[], candidateRow: unknown[]): boolean => {
+  const candidate = profileRow(candidateRow);
+  if (candidate.nonEmpty < 2 || candidate.numericCells > 0) return false;
+
+  let fillsBlank = false;
+  let leavesLabel = false;
+  const columnCount = Math.max((groupRow || []).length, (candidateRow || []).length);
+  for (let c = 0; c < columnCount; c++) {
+    const label = cellText((groupRow || [])[c]);
+    const sub = cellText(candidateRow[c]);
+    if (!sub) {
+      if (label) leavesLabel = true;
+      continue;
+    }
+    if (!label) {
+      if (c === 0 || !cellText(candidateRow[c - 1])) return false;
+      fillsBlank = true;
+    }
+  }
+  return fillsBlank && leavesLabel;
+};
+
+// Helper: header labels almost never reappear in their own column, data values often do
+const labelsRepeatBelow = (rows: unknown[][], index: number): boolean => {
+  const row = rows[index] || [];
+  const below = rows.slice(index + 1, index + 1 + HEADER_SEARCH_ROWS);
+  return row.some((cell, column) => {
+    const label = cellText(cell).toLowerCase();
+    return label !== '' && below.some(other => cellText((other || [])[column]).toLowerCase() === label);
+  });
+};
+
+const cellText = (value: unknown): string => {
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+const isNumericLike = (value: string): boolean => {
+  return /^[-+]?[\d.,]+%?$/.test(value) && /\d/.test(value);
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { analyzeProductData } from './analysisEngine';
+import { EXPORT_REPORT_SCHEMA_VERSION } from './exportReport';
+import { analyzeTable, getOutputFileName, renderAnalysisOutput } from './headlessAnalysis';
+import { readTableFile } from './tableFile';
+
+// Style → color → size catalog: 12 styles × 3 colors × 4 sizes
+const headers = ['Brand', 'Style Number', 'Style Name', 'Fabric', 'Retail Price', 'Color', 'Size', 'SKU'];
+const data: string[][] = [];
+for (let style = 1; style <= 12; style++) {
+  const styleNumber = `ST-${String(style).padStart(4, '0')}`;
+  ['Black', 'Navy', 'White'].forEach(color => {
+    ['S', 'M', 'L', 'XL'].forEach(size => {
+      data.push([
+        style <= 6 ? 'Northfold' : 'Tidewater', styleNumber, `Style ${style}, "relaxed"`,
+        ['Cotton', 'Linen', 'Wool'][style % 3], (29 + style * 3.5).toFixed(2), color, size, `${styleNumber}-${color}-${size}`,
+      ]);
+    });
+  });
+}
+
+// Write the catalog as a quoted CSV file, as the CLI reads it
+const csv = [headers, ...data]
+  .map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(','))
+  .join('\r\n');
+
+describe('headless analysis', () => {
+  const table = readTableFile('suppliers/apparel.csv', new TextEncoder().encode(csv).buffer);
+  const analysis = analyzeTable(table, DEFAULT_ANALYSIS_CONFIG);
+
+  it('reads the file with the detected defaults', () => {
+    expect(table.headers).toEqual(headers);
+    expect(table.data).toHaveLength(data.length);
+    expect(table.data[0][2]).toBe('Style 1, "relaxed"');
+    expect(table.notes[0]).toBe('Read as utf-8 text with delimiter Comma (,)');
+  });
+
+  it('analyzes the table like the page does', () => {
+    expect(analysis.config).toBe(DEFAULT_ANALYSIS_CONFIG);
+    expect(analysis.analysisResult).toEqual(analyzeProductData(table.headers, table.data, DEFAULT_ANALYSIS_CONFIG));
+    expect(analysis.taxonomyTree).toBeTruthy();
+  });
+
+  it('renders the JSON report', () => {
+    const report = JSON.parse(new TextDecoder().decode(renderAnalysisOutput(analysis, 'json')));
+    expect(report.schema_version).toBe(EXPORT_REPORT_SCHEMA_VERSION);
+  });
+
+  it('renders the data model workbook', () => {
+    const bytes = renderAnalysisOutput(analysis, 'xlsx');
+    expect(String.fromCharCode(bytes[0], bytes[1])).toBe('PK');
+  });
+
+  it('renders the PDF report', () => {
+    const bytes = renderAnalysisOutput(analysis, 'pdf');
+    expect(String.fromCharCode(...bytes.slice(0, 4))).toBe('%PDF');
+  });
+
+  it('rejects an unknown format', () => {
+    expect(() => renderAnalysisOutput(analysis, 'csv' as never)).toThrow('Unknown output format "csv" - use json, xlsx, pdf');
+  });
+
+  it('names output files after the source file', () => {
+    expect(getOutputFileName('suppliers/acme.xlsx', 'pdf')).toBe('acme.taxonomy.pdf');
+    expect(getOutputFileName('C:\\data\\feed.v2.csv', 'json')).toBe('feed.v2.taxonomy.json');
+  });
+});
@@ -0,0 +1,67 @@
+import * as XLSX from 'xlsx';
+import { AnalysisConfig } from './analysisConfig';
+import { AnalysisPipelineOutput, runAnalysisPipeline } from './analysisPipeline';
+import { generateExportReport } from './exportReport';
+import { buildDataModelWorkbook, createDataModelXlsx } from './dataModelExport';
+import { buildPDFReport } from './pdfExport';
+import { TableFile } from './tableFile';
+
+export type AnalysisOutputFormat = 'json' | 'xlsx' | 'pdf';
+export const ANALYSIS_OUTPUT_FORMATS: AnalysisOutputFormat[] = ['json', 'xlsx', 'pdf'];
+
+export interface TableAnalysis extends AnalysisPipelineOutput {
+  table: TableFile;
+  config: AnalysisConfig;
+}
+
+/**
+ * Runs the full pipeline on a table with no manual decisions (no forced SKU
+ * headers, preset or custom taxonomy) - what the page shows right after "Analyze".
+ */
+export const analyzeTable = (table: TableFile, config: AnalysisConfig): TableAnalysis => {
+  const output = runAnalysisPipeline({
+    headers: table.headers,
+    data: table.data,
+    allHeaders: table.allHeaders,
+    config,
+  });
+  return { ...output, table, config };
+};
+
+/**
+ * Renders an analysis as file contents: the JSON report, the data model
+ * workbook (.xlsx) or the PDF report. Same content as the page's exports.
+ */
+export const renderAnalysisOutput = (analysis: TableAnalysis, format: AnalysisOutputFormat): Uint8Array => {
+  const { analysisResult, taxonomyTree, validation, table } = analysis;
+
+  switch (format) {
+    case 'json': {
+      const report = generateExportReport(analysisResult, table.headers, table.data, {
+        taxonomyTree,
+        taxonomyConfig: null,
+        selectedPreset: null,
+        forcedSkuHeaders: [],
+        validationResult: validation,
+      });
+      return new TextEncoder().encode(JSON.stringify(report, null, 2));
+    }
+    case 'xlsx': {
+      const dataModel = buildDataModelWorkbook(analysisResult, table.headers, table.data, validation);
+      const bytes: ArrayBuffer = XLSX.write(createDataModelXlsx(dataModel), { type: 'array', bookType: 'xlsx' });
+      return new Uint8Array(bytes);
+    }
+    case 'pdf': {
+      const doc = buildPDFReport(analysisResult, table.headers, table.data, taxonomyTree, validation);
+      return new Uint8Array(doc.output('arraybuffer'));
+    }
+    default:
+      throw new Error(`Unknown output format "${format}" - use ${ANALYSIS_OUTPUT_FORMATS.join(', ')}`);
+  }
+};
+
+// Helper: "suppliers/acme.xlsx" + pdf → "acme.taxonomy.pdf"
+export const getOutputFileName = (sourceFileName: string, format: AnalysisOutputFormat): string => {
+  const baseName = sourceFileName.split(/[\\/]/).pop() || 'analysis';
+  return `${baseName.replace(/\.[^.]+$/, '')}.taxonomy.${format}`;
+};
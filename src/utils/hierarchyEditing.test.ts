@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import {
+  addLevel,
+  diffLevelAssignments,
+  getAssignedProperties,
+  moveProperty,
+  removeLevel,
+  renameLevel,
+  setRecordField,
+} from './hierarchyEditing';
+
+const createHierarchy = (): HierarchyLevel[] => [
+  { level: 1, name: 'Style', headers: ['Brand', 'Fabric'], recordId: 'Style ID', recordName: 'Style Name' },
+  { level: 2, name: 'Color', headers: ['Color', 'Swatch'], recordId: 'Color Code' },
+  { level: 3, name: 'SKU', headers: ['Size', 'EAN'], recordId: 'SKU' },
+];
+
+// Every edit runs against a deep-frozen hierarchy, so any mutation throws
+const freeze = (hierarchy: HierarchyLevel[]): HierarchyLevel[] =>
+  Object.freeze(hierarchy.map(level => Object.freeze({ ...level, headers: Object.freeze([...level.headers]) as string[] }))) as HierarchyLevel[];
+
+describe('hierarchy edits', () => {
+  const hierarchy = freeze(createHierarchy());
+
+  it('never mutate the input hierarchy', () => {
+    moveProperty(hierarchy, 'Fabric', 2);
+    addLevel(hierarchy, 'Family');
+    removeLevel(hierarchy, 1);
+    renameLevel(hierarchy, 0, 'Model');
+    setRecordField(hierarchy, 0, 'recordId', 'Brand');
+    setRecordField(hierarchy, 1, 'recordName', 'Color');
+    expect(hierarchy).toEqual(createHierarchy());
+  });
+
+  it('moves a property to another level', () => {
+    const moved = moveProperty(hierarchy, 'Fabric', 1);
+    expect(moved.map(level => level.headers)).toEqual([['Brand'], ['Color', 'Swatch', 'Fabric'], ['Size', 'EAN']]);
+  });
+
+  it('releases a Record ID or Name that is moved away', () => {
+    const moved = moveProperty(hierarchy, 'Style Name', 2);
+    expect(moved[0].recordName).toBeUndefined();
+    expect(moved[2].headers).toEqual(['Size', 'EAN', 'Style Name']);
+    expect(() => moveProperty(hierarchy, 'Brand', 3)).toThrow('Level 4 does not exist');
+  });
+
+  it('adds a level above the SKU level and renumbers', () => {
+    const added = addLevel(hierarchy, 'Fit');
+    expect(added.map(level => [level.level, level.name])).toEqual([[1, 'Style'], [2, 'Color'], [3, 'Fit'], [4, 'SKU']]);
+    expect(addLevel(hierarchy, 'Brand', 0)[0]).toEqual({ level: 1, name: 'Brand', headers: [] });
+  });
+
+  it('moves the properties of a removed level down, or up for the SKU level', () => {
+    const removed = removeLevel(hierarchy, 1);
+    expect(removed.map(level => [level.level, level.name])).toEqual([[1, 'Style'], [2, 'SKU']]);
+    expect(removed[1].headers).toEqual(['Size', 'EAN', 'Color Code', 'Color', 'Swatch']);
+
+    const removedSku = removeLevel(hierarchy, 2);
+    expect(removedSku[1].headers).toEqual(['Color', 'Swatch', 'SKU', 'Size', 'EAN']);
+    expect(() => removeLevel([hierarchy[0]], 0)).toThrow('A hierarchy needs at least one level');
+  });
+
+  it('renames only the given level', () => {
+    expect(renameLevel(hierarchy, 1, 'Colorway').map(level => level.name)).toEqual(['Style', 'Colorway', 'SKU']);
+  });
+
+  it('swaps the Record ID, returning the previous one to the headers', () => {
+    const swapped = setRecordField(hierarchy, 0, 'recordId', 'Brand');
+    expect(swapped[0]).toMatchObject({ recordId: 'Brand', recordName: 'Style Name', headers: ['Fabric', 'Style ID'] });
+  });
+
+  it('takes a Record Name from another level and releases it there', () => {
+    const swapped = setRecordField(hierarchy, 1, 'recordName', 'Style Name');
+    expect(swapped[0].recordName).toBeUndefined();
+    expect(swapped[1]).toMatchObject({ recordId: 'Color Code', recordName: 'Style Name', headers: ['Color', 'Swatch'] });
+  });
+
+  it('clears a Record Name back into the headers and ignores no-op changes', () => {
+    const cleared = setRecordField(hierarchy, 0, 'recordName', undefined);
+    expect(cleared[0]).toMatchObject({ recordName: undefined, headers: ['Brand', 'Fabric', 'Style Name'] });
+    expect(setRecordField(hierarchy, 0, 'recordId', 'Style ID')).toBe(hierarchy);
+  });
+
+  it('keeps every assigned property across edits', () => {
+    const edited = setRecordField(moveProperty(removeLevel(hierarchy, 1), 'Swatch', 0), 0, 'recordId', 'Brand');
+    expect(getAssignedProperties(edited)).toEqual(getAssignedProperties(hierarchy));
+  });
+});
+
+describe('diffLevelAssignments', () => {
+  const hierarchy = createHierarchy();
+
+  it('lists properties that changed level', () => {
+    expect(diffLevelAssignments(hierarchy, moveProperty(hierarchy, 'Fabric', 1))).toEqual([{
+      header: 'Fabric',
+      from: { level: 1, name: 'Style', isSkuLevel: false },
+      to: { level: 2, name: 'Color', isSkuLevel: false },
+    }]);
+  });
+
+  it('ignores role swaps within a level and renames', () => {
+    expect(diffLevelAssignments(hierarchy, setRecordField(hierarchy, 0, 'recordId', 'Brand'))).toEqual([]);
+    expect(diffLevelAssignments(hierarchy, renameLevel(hierarchy, 0, 'Model'))).toEqual([]);
+  });
+
+  it('treats the SKU level as the same level when a level is added', () => {
+    const changes = diffLevelAssignments(hierarchy, addLevel(hierarchy, 'Fit'));
+    expect(changes).toEqual([]);
+  });
+
+  it('reports properties that appear or disappear', () => {
+    const trimmed = hierarchy.map(level => ({ ...level, headers: level.headers.filter(h => h !== 'EAN') }));
+    expect(diffLevelAssignments(hierarchy, trimmed)).toEqual([
+      { header: 'EAN', from: { level: 3, name: 'SKU', isSkuLevel: true }, to: null },
+    ]);
+  });
+});
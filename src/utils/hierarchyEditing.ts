@@ -0,0 +1,142 @@
+import { HierarchyLevel } from '@/types';
+
+export type RecordField = 'recordId' | 'recordName';
+
+// Helper: copy levels so edits never mutate the hierarchy held in AnalysisResult or a preset
+const cloneHierarchy = (hierarchy: HierarchyLevel[]): HierarchyLevel[] =>
+  hierarchy.map(level => ({ ...level, headers: [...level.headers] }));
+
+// Helper: level numbers always follow array order
+const renumber = (hierarchy: HierarchyLevel[]): HierarchyLevel[] =>
+  hierarchy.map((level, index) => ({ ...level, level: index + 1 }));
+
+/**
+ * Every property assigned somewhere in the hierarchy (headers, Record IDs and Record Names).
+ */
+export const getAssignedProperties = (hierarchy: HierarchyLevel[]): Set<string> => {
+  const assigned = new Set<string>();
+  hierarchy.forEach(level => {
+    level.headers.forEach(h => assigned.add(h));
+    if (level.recordId) assigned.add(level.recordId);
+    if (level.recordName) assigned.add(level.recordName);
+  });
+  return assigned;
+};
+
+/**
+ * Moves a property to another level's headers. A property used as Record ID or
+ * Record Name is released from that role, so it only ever lives in one level.
+ */
+export const moveProperty = (hierarchy: HierarchyLevel[], property: string, targetIndex: number): HierarchyLevel[] => {
+  if (targetIndex < 0 || targetIndex >= hierarchy.length) {
+    throw new Error(`Level ${targetIndex + 1} does not exist`);
+  }
+
+  const updated = cloneHierarchy(hierarchy).map(level => ({
+    ...level,
+    headers: level.headers.filter(h => h !== property),
+    recordId: level.recordId === property ? undefined : level.recordId,
+    recordName: level.recordName === property ? undefined : level.recordName,
+  }));
+  updated[targetIndex].headers.push(property);
+  return updated;
+};
+
+/**
+ * Inserts an empty level at the given position (defaults to just above the SKU level).
+ */
+export const addLevel = (hierarchy: HierarchyLevel[], name: string, index = Math.max(hierarchy.length - 1, 0)): HierarchyLevel[] => {
+  const updated = cloneHierarchy(hierarchy);
+  updated.splice(index, 0, { level: index + 1, name, headers: [] });
+  return renumber(updated);
+};
+
+/**
+ * Removes a level. Its properties move to the next level down (or up, for the SKU level)
+ * so nothing is lost - the same rule the SKU-forcing consolidation follows.
+ */
+export const removeLevel = (hierarchy: HierarchyLevel[], index: number): HierarchyLevel[] => {
+  if (hierarchy.length <= 1) {
+    throw new Error('A hierarchy needs at least one level');
+  }
+
+  const updated = cloneHierarchy(hierarchy);
+  const [removed] = updated.splice(index, 1);
+  const target = updated[Math.min(index, updated.length - 1)];
+  const moved = [removed.recordId, removed.recordName, ...removed.headers].filter(Boolean) as string[];
+  moved.forEach(property => {
+    if (!target.headers.includes(property) && property !== target.recordId && property !== target.recordName) {
+      target.headers.push(property);
+    }
+  });
+  return renumber(updated);
+};
+
+export const renameLevel = (hierarchy: HierarchyLevel[], index: number, name: string): HierarchyLevel[] =>
+  cloneHierarchy(hierarchy).map((level, i) => (i === index ? { ...level, name } : level));
+
+/**
+ * Sets a level's Record ID or Record Name. The chosen property leaves the level's headers
+ * (and any other role it had), while the previous value goes back to the headers.
+ */
+export const setRecordField = (
+  hierarchy: HierarchyLevel[],
+  index: number,
+  field: RecordField,
+  property: string | undefined
+): HierarchyLevel[] => {
+  const previous = hierarchy[index]?.[field];
+  if (previous === property) return hierarchy;
+
+  let updated = property ? moveProperty(hierarchy, property, index) : cloneHierarchy(hierarchy);
+  updated = updated.map((level, i) => {
+    if (i !== index) return level;
+    const headers = level.headers.filter(h => h !== property);
+    if (previous && previous !== property) headers.push(previous);
+    return { ...level, headers, [field]: property };
+  });
+  return updated;
+};
+
+export interface LevelAssignment {
+  level: number;
+  name: string;
+  isSkuLevel: boolean;
+}
+
+export interface LevelAssignmentChange {
+  header: string;
+  from: LevelAssignment | null; // null = not assigned before
+  to: LevelAssignment | null;
+}
+
+// Helper: which level each property lives in (headers, Record ID or Record Name)
+const mapAssignments = (hierarchy: HierarchyLevel[]): Map<string, LevelAssignment> => {
+  const assignments = new Map<string, LevelAssignment>();
+  hierarchy.forEach((level, index) => {
+    const assignment = { level: level.level, name: level.name, isSkuLevel: index === hierarchy.length - 1 };
+    [level.recordId, level.recordName, ...level.headers].forEach(header => {
+      if (header && !assignments.has(header)) {
+        assignments.set(header, assignment);
+      }
+    });
+  });
+  return assignments;
+};
+
+// Helper: the SKU level stays the same level even when the number of levels changes
+const assignmentKey = (assignment: LevelAssignment | null): string =>
+  !assignment ? 'none' : assignment.isSkuLevel ? 'sku' : `level${assignment.level}`;
+
+/**
+ * Properties that sit in a different level in `after` than in `before`, in header order of `before`.
+ */
+export const diffLevelAssignments = (before: HierarchyLevel[], after: HierarchyLevel[]): LevelAssignmentChange[] => {
+  const beforeMap = mapAssignments(before);
+  const afterMap = mapAssignments(after);
+  const headers = Array.from(new Set([...beforeMap.keys(), ...afterMap.keys()]));
+
+  return headers
+    .map(header => ({ header, from: beforeMap.get(header) || null, to: afterMap.get(header) || null }))
+    .filter(change => assignmentKey(change.from) !== assignmentKey(change.to));
+};
@@ -0,0 +1,218 @@
+import { HierarchyLevel } from '@/types';
+import { ParentAttributeConflict } from './dataValidation';
+
+export interface LevelRecord {
+  id: string; // Record ID value, as "S2/BLK" when the same value occurs under several parents
+  name?: string;
+  parentId?: string; // id of the parent level's record (undefined on the top level)
+  values: Record<string, unknown>; // Property values owned by this level
+  rowIndexes: number[]; // 0-based data rows that make up this record
+}
+
+export interface LevelRecordTable {
+  level: HierarchyLevel;
+  idHeader: string;
+  nameHeader?: string;
+  properties: string[]; // Properties owned by this level (excluding Record ID/Name)
+  records: LevelRecord[];
+  rowsWithoutId: number; // Rows skipped at this level because the Record ID is empty
+  conflicts: ParentAttributeConflict[]; // Records whose rows disagree on a name, parent or property value
+}
+
+// Helper: same emptiness rule as the cardinality scores
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Splits the source rows into one deduplicated record table per hierarchy level.
+ * Records below the top level are deduplicated per parent, so BLK under S1 and BLK under S2
+ * are two records ("S1/BLK" and "S2/BLK"). Parent records take the first non-empty value of
+ * each property and report every property (name included) whose rows disagree; SKU-level
+ * records are one per row. Levels without a Record ID cannot form records, so their
+ * properties move down to the next level that has one.
+ */
+export const buildLevelRecords = (
+  hierarchy: HierarchyLevel[],
+  headers: string[],
+  data: unknown[][]
+): LevelRecordTable[] => {
+  if (hierarchy.length === 0) return [];
+
+  const skuLevel = hierarchy[hierarchy.length - 1];
+  if (!skuLevel.recordId) {
+    throw new Error(`The SKU level "${skuLevel.name}" needs a Record ID before records can be built`);
+  }
+
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const valueAt = (row: unknown[], header: string | undefined): unknown =>
+    header && columnIndex.has(header) ? row[columnIndex.get(header)!] : undefined;
+
+  // Levels without Record ID hand their properties to the next level down
+  const tables: LevelRecordTable[] = [];
+  let carried: string[] = [];
+  hierarchy.forEach(level => {
+    const ownProperties = [...carried, ...level.headers];
+    if (!level.recordId) {
+      carried = [...ownProperties, ...(level.recordName ? [level.recordName] : [])];
+      console.warn(`⚠️ Level "${level.name}" has no Record ID - its properties move to the next level`);
+      return;
+    }
+    carried = [];
+    tables.push({
+      level,
+      idHeader: level.recordId,
+      nameHeader: level.recordName,
+      properties: ownProperties.filter(h => h !== level.recordId && h !== level.recordName),
+      records: [],
+      rowsWithoutId: 0,
+      conflicts: [],
+    });
+  });
+
+  // Record of the previous level each data row belongs to
+  let parentRecordByRow: (LevelRecord | undefined)[] = [];
+
+  tables.forEach((table, tableIndex) => {
+    const isSkuTable = tableIndex === tables.length - 1;
+    const recordByRow: (LevelRecord | undefined)[] = new Array(data.length);
+    // Parent levels only: parent id + Record ID → record
+    const recordsByKey = new Map<string, LevelRecord>();
+    // Parent levels only: parent id + Record ID → checked column → value → Excel rows
+    const observed = new Map<string, Map<string, Map<string, number[]>>>();
+    const checkedColumns = [...(table.nameHeader ? [table.nameHeader] : []), ...table.properties];
+
+    data.forEach((row, rowIndex) => {
+      const rawId = valueAt(row, table.idHeader);
+      if (isEmpty(rawId)) {
+        table.rowsWithoutId++;
+        return;
+      }
+      const id = String(rawId).trim();
+      const parentId = parentRecordByRow[rowIndex]?.id;
+      const recordKey = `${parentId ?? ''}\u0000${id}`;
+
+      if (!isSkuTable) {
+        if (!observed.has(recordKey)) observed.set(recordKey, new Map());
+        const columns = observed.get(recordKey)!;
+        checkedColumns.forEach(column => {
+          const value = valueAt(row, column);
+          if (isEmpty(value)) return;
+          if (!columns.has(column)) columns.set(column, new Map());
+          const values = columns.get(column)!;
+          const key = String(value).trim();
+          if (!values.has(key)) values.set(key, []);
+          values.get(key)!.push(rowIndex + 2); // +2 for Excel row number (header + 0-index)
+        });
+      }
+
+      // SKU level: one record per row, duplicates are kept for validation to flag
+      const existing = isSkuTable ? undefined : recordsByKey.get(recordKey);
+      if (existing) {
+        existing.rowIndexes.push(rowIndex);
+        recordByRow[rowIndex] = existing;
+        if (!existing.name && !isEmpty(valueAt(row, table.nameHeader))) {
+          existing.name = String(valueAt(row, table.nameHeader));
+        }
+        table.properties.forEach(property => {
+          if (isEmpty(existing.values[property]) && !isEmpty(valueAt(row, property))) {
+            existing.values[property] = valueAt(row, property);
+          }
+        });
+        return;
+      }
+
+      const rawName = valueAt(row, table.nameHeader);
+      const record: LevelRecord = {
+        id,
+        name: isEmpty(rawName) ? undefined : String(rawName),
+        parentId,
+        values: Object.fromEntries(table.properties.map(property => [property, valueAt(row, property)])),
+        rowIndexes: [rowIndex],
+      };
+      table.records.push(record);
+      recordByRow[rowIndex] = record;
+      if (!isSkuTable) recordsByKey.set(recordKey, record);
+    });
+
+    // A Record ID that repeats under several parents gets its parent's id as prefix
+    if (!isSkuTable) {
+      const parentCounts = new Map<string, number>();
+      table.records.forEach(record => parentCounts.set(record.id, (parentCounts.get(record.id) ?? 0) + 1));
+      table.records.forEach(record => {
+        if (parentCounts.get(record.id)! > 1) record.id = `${record.parentId ?? ''}/${record.id}`;
+      });
+    }
+    parentRecordByRow = recordByRow;
+
+    observed.forEach((columns, recordKey) => {
+      columns.forEach((values, column) => {
+        if (values.size < 2) return;
+        table.conflicts.push({
+          levelName: table.level.name,
+          attribute: column,
+          parentValue: recordsByKey.get(recordKey)!.id,
+          values: Array.from(values.entries()).map(([value, rows]) => ({ value, rows })),
+        });
+      });
+    });
+
+    console.log(`🧱 ${table.level.name}: ${table.records.length} records from ${data.length} rows (${table.rowsWithoutId} without Record ID, ${table.conflicts.length} conflicts)`);
+  });
+
+  return tables;
+};
+
+/**
+ * Greedy search for the attributes that tell records apart within their group (by default
+ * their parent), most distinguishing first. Candidate filtering is up to the caller.
+ */
+export const findDistinguishingAttributes = (
+  records: LevelRecord[],
+  candidates: string[],
+  maxAttributes: number,
+  groupOf: (record: LevelRecord) => string = record => record.parentId ?? ''
+): { attributes: string[]; ambiguousRecords: number } => {
+  const countCombinations = (attributes: string[]): number =>
+    new Set(records.map(r => [groupOf(r), ...attributes.map(a => String(r.values[a] ?? '').trim())].join('\u0000'))).size;
+
+  const attributes: string[] = [];
+  let combinations = countCombinations(attributes);
+  while (combinations < records.length && attributes.length < maxAttributes) {
+    let best: { attribute: string; combinations: number } | null = null;
+    candidates
+      .filter(c => !attributes.includes(c))
+      .forEach(attribute => {
+        const count = countCombinations([...attributes, attribute]);
+        if (count > combinations && (!best || count > best.combinations)) {
+          best = { attribute, combinations: count };
+        }
+      });
+    if (!best) break;
+    const chosen: { attribute: string; combinations: number } = best;
+    attributes.push(chosen.attribute);
+    combinations = chosen.combinations;
+  }
+
+  return { attributes, ambiguousRecords: records.length - combinations };
+};
+
+// Identifier, barcode and link columns tell records apart but never define a variant
+const IDENTIFIER_HEADER = /\b(upc|ean|gtin|sku|barcode|isbn|mpn|asin|id|code|number|url|link|image)\b/i;
+
+/**
+ * True for columns that identify records rather than describe them: named like an identifier,
+ * or never repeating a value once the records span several groups (by default their parent).
+ * A single product in S/M/L/XL keeps Size - uniqueness alone says nothing within one group.
+ */
+export const isIdentifierLike = (
+  header: string,
+  records: LevelRecord[],
+  valueOf: (record: LevelRecord) => unknown,
+  groupOf: (record: LevelRecord) => string = record => record.parentId ?? ''
+): boolean => {
+  if (IDENTIFIER_HEADER.test(header)) return true;
+  if (new Set(records.map(groupOf)).size < 2) return false;
+
+  const values = records.map(valueOf).filter(v => !isEmpty(v)).map(v => String(v).trim());
+  return values.length > 1 && new Set(values).size === values.length;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { buildLevelRecordExport } from './levelRecordExport';
+
+const headers = ['Style', 'Style Name', 'Color Code', 'Color', 'SKU', 'Size'];
+const hierarchy: HierarchyLevel[] = [
+  { level: 1, name: 'Style', headers: [], recordId: 'Style', recordName: 'Style Name' },
+  { level: 2, name: 'Colour', headers: ['Color'], recordId: 'Color Code' },
+  { level: 3, name: 'SKU', headers: ['Size'], recordId: 'SKU' },
+];
+const data = [
+  ['S1', 'Polo', 'BLK', 'Black', 'S1-BLK-S', 'S'],
+  ['S1', 'Polo', 'BLK', 'Black', 'S1-BLK-M', 'M'],
+  ['S1', 'Polo', 'WHT', 'White', 'S1-WHT-S', 'S'],
+  ['S2', 'Tee', 'BLK', 'Black', 'S2-BLK-S', 'S'],
+  ['S2', 'Tee', 'BLK', 'Black', 'S2-BLK-M', 'M'],
+];
+
+describe('buildLevelRecordExport', () => {
+  const { files, summary } = buildLevelRecordExport(hierarchy, headers, data);
+
+  it('writes one row per record with its parent ID', () => {
+    expect(files.map(f => f.fileName)).toEqual(['records-1-style', 'records-2-colour', 'records-3-sku']);
+    expect(files[0].rows).toEqual([['Style', 'Style Name'], ['S1', 'Polo'], ['S2', 'Tee']]);
+    expect(files[2].rows[0]).toEqual(['SKU', 'Parent ID (Color Code)', 'Size']);
+    expect(files[2].rows).toHaveLength(6);
+  });
+
+  it('keeps a colour code shared by two styles as one record per style', () => {
+    expect(files[1].rows).toEqual([
+      ['Color Code', 'Parent ID (Style)', 'Color'],
+      ['S1/BLK', 'S1', 'Black'],
+      ['WHT', 'S1', 'White'],
+      ['S2/BLK', 'S2', 'Black'],
+    ]);
+    expect(files[2].rows.slice(1).map(row => row[1])).toEqual(['S1/BLK', 'S1/BLK', 'WHT', 'S2/BLK', 'S2/BLK']);
+    expect(summary.conflictCount).toBe(0);
+  });
+
+  it('reports conflicting values within the same record', () => {
+    const conflicting = data.map((row, i) => (i === 1 ? ['S1', 'Polo', 'BLK', 'Jet Black', 'S1-BLK-M', 'M'] : row));
+    const { conflicts, summary: conflictSummary } = buildLevelRecordExport(hierarchy, headers, conflicting);
+    expect(conflictSummary.conflictCount).toBe(1);
+    expect(conflicts[1]).toEqual(['Colour', 'S1/BLK', 'Color', 'Black', 'Jet Black (rows 3)']);
+  });
+});
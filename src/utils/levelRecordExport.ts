@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import { HierarchyLevel } from '@/types';
+import { buildLevelRecords } from './hierarchyRecords';
+import { createSheetNameRegistry } from './dataModelExport';
+import { downloadBlob } from './fileDownload';
+
+export type LevelRecordFileFormat = 'csv' | 'xlsx';
+
+export interface LevelRecordFile {
+  levelName: string;
+  fileName: string; // Without extension
+  rows: unknown[][];
+}
+
+export interface LevelRecordExport {
+  files: LevelRecordFile[]; // One per level with a Record ID, top level first
+  conflicts: unknown[][]; // Conflicting values found while deduplicating parent records
+  summary: {
+    levels: { name: string; records: number; conflicts: number }[];
+    conflictCount: number;
+    skippedRows: number; // SKU rows without Record ID
+  };
+}
+
+// Helper: lowercase, hyphen-separated file name part
+const toFileSlug = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'level';
+
+/**
+ * Applies the hierarchy to the source rows: one deduplicated table per level with the
+ * level's Record ID, Record Name, parent Record ID and its own properties
+ * (e.g. one row per style, one per colour variant, one per SKU).
+ */
+export const buildLevelRecordExport = (
+  hierarchy: HierarchyLevel[],
+  headers: string[],
+  data: unknown[][]
+): LevelRecordExport => {
+  const tables = buildLevelRecords(hierarchy, headers, data);
+  if (tables.length === 0) {
+    throw new Error('No hierarchy to export');
+  }
+
+  const files: LevelRecordFile[] = [];
+  tables.forEach((table, index) => {
+    const parentTable = index > 0 ? tables[index - 1] : null;
+    const columns = [
+      table.idHeader,
+      ...(table.nameHeader ? [table.nameHeader] : []),
+      ...(parentTable ? [`Parent ID (${parentTable.idHeader})`] : []),
+      ...table.properties,
+    ];
+
+    const rows: unknown[][] = [columns];
+    table.records.forEach(record => {
+      rows.push([
+        record.id,
+        ...(table.nameHeader ? [record.name ?? ''] : []),
+        ...(parentTable ? [record.parentId ?? ''] : []),
+        ...table.properties.map(property => {
+          const value = record.values[property];
+          return value === null || value === undefined ? '' : value;
+        }),
+      ]);
+    });
+
+    files.push({
+      levelName: table.level.name,
+      fileName: `records-${index + 1}-${toFileSlug(table.level.name)}`,
+      rows,
+    });
+  });
+
+  // Conflicts - first value wins in the record tables, the others are listed here
+  const conflicts: unknown[][] = [['Level', 'Record ID', 'Column', 'Kept Value', 'Other Values (Excel rows)']];
+  tables.forEach(table => {
+    table.conflicts.forEach(conflict => {
+      const [kept, ...others] = conflict.values;
+      conflicts.push([
+        conflict.levelName,
+        conflict.parentValue,
+        conflict.attribute,
+        kept.value,
+        others.map(v => `${v.value} (rows ${v.rows.slice(0, 10).join(', ')}${v.rows.length > 10 ? ', …' : ''})`).join('; '),
+      ]);
+    });
+  });
+
+  const summary = {
+    levels: tables.map(t => ({ name: t.level.name, records: t.records.length, conflicts: t.conflicts.length })),
+    conflictCount: conflicts.length - 1,
+    skippedRows: tables[tables.length - 1].rowsWithoutId,
+  };
+  console.log(`🗂️ Level records: ${summary.levels.map(l => `${l.name} ${l.records}`).join(', ')} - ${summary.conflictCount} conflicts`);
+
+  return { files, conflicts, summary };
+};
+
+/**
+ * Downloads the level record tables - one CSV per level (plus a conflicts CSV when there are
+ * conflicts) or one workbook with a sheet per level and a Conflicts sheet.
+ */
+export const downloadLevelRecordExport = (
+  hierarchy: HierarchyLevel[],
+  headers: string[],
+  data: unknown[][],
+  format: LevelRecordFileFormat
+): LevelRecordExport => {
+  const levelRecordExport = buildLevelRecordExport(hierarchy, headers, data);
+  const date = new Date().toISOString().split('T')[0];
+
+  if (format === 'xlsx') {
+    const nextSheetName = createSheetNameRegistry();
+    const workbook = XLSX.utils.book_new();
+    levelRecordExport.files.forEach(file => {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(file.rows), nextSheetName(file.levelName));
+    });
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(levelRecordExport.conflicts), nextSheetName('Conflicts'));
+    XLSX.writeFile(workbook, `level-records-${date}.xlsx`);
+    return levelRecordExport;
+  }
+
+  const csvFiles = [
+    ...levelRecordExport.files,
+    ...(levelRecordExport.summary.conflictCount > 0
+      ? [{ levelName: 'Conflicts', fileName: 'records-conflicts', rows: levelRecordExport.conflicts }]
+      : []),
+  ];
+  csvFiles.forEach(file => {
+    const sheet = XLSX.utils.aoa_to_sheet(file.rows);
+    const blob = new Blob([XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${file.fileName}-${date}.csv`);
+  });
+
+  return levelRecordExport;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectLongFormat, pivotLongFormat } from './longFormatPivot';
+
+const headers = ['Material', 'Brand', 'Characteristic', 'Value', 'UoM', 'Changed On'];
+const data = [
+  ['M-1', 'Acme', 'Weight', 2.5, 'kg', '2024-01-02'],
+  ['M-1', 'Acme', 'Colour', 'Red', '', '2024-01-03'],
+  ['M-1', 'Acme', 'Colour', 'Blue', '', '2024-01-03'],
+  ['M-2', 'Zeta', 'Weight', 800, 'g', '2024-01-02'],
+  ['M-2', 'Zeta', 'Colour', 'Green', '', '2024-01-02'],
+  ['M-3', 'Zeta', 'Weight', 1.2, 'kg', '2024-01-05'],
+  ['', 'Zeta', 'Weight', 1, 'kg', '2024-01-05'],
+];
+
+describe('long format', () => {
+  it('detects the entity, attribute, value and unit columns', () => {
+    expect(detectLongFormat(headers, data)).toMatchObject({
+      isLongFormat: true,
+      entityColumn: 'Material',
+      attributeColumn: 'Characteristic',
+      valueColumn: 'Value',
+      uomColumn: 'UoM',
+      attributeCount: 2,
+    });
+  });
+
+  it('leaves wide tables alone', () => {
+    const wide = detectLongFormat(['SKU', 'Name', 'Colour'], [['1', 'Chair', 'Red'], ['2', 'Table', 'Oak']]);
+    expect(wide.isLongFormat).toBe(false);
+  });
+
+  it('pivots to one row per entity with UoM companions and joined multi-values', () => {
+    const result = pivotLongFormat(headers, data, detectLongFormat(headers, data), { multiValueSeparator: ' | ' });
+    expect(result.headers).toEqual(['Material', 'Brand', 'Weight', 'Weight UoM', 'Colour']);
+    expect(result.data).toEqual([
+      ['M-1', 'Acme', 2.5, 'kg', 'Red | Blue'],
+      ['M-2', 'Zeta', 800, 'g', 'Green'],
+      ['M-3', 'Zeta', 1.2, 'kg', null],
+    ]);
+    expect(result).toMatchObject({
+      entityCount: 3,
+      multiValuedAttributes: ['Colour'],
+      uomAttributes: ['Weight'],
+      mixedUomAttributes: ['Weight'],
+      passthroughColumns: ['Brand'],
+      droppedColumns: ['Changed On'],
+      skippedRows: 1,
+    });
+  });
+
+  it('requires distinct entity, attribute and value columns', () => {
+    const mapping = { entityColumn: 'Material', attributeColumn: 'Value', valueColumn: 'Value', uomColumn: null };
+    expect(() => pivotLongFormat(headers, data, mapping)).toThrow('must be different columns');
+  });
+});
@@ -0,0 +1,269 @@
+export interface LongFormatMapping {
+  entityColumn: string; // SKU / item identifier - one wide row per entity
+  attributeColumn: string; // attribute name - becomes a wide column
+  valueColumn: string;
+  uomColumn: string | null; // kept as a "<attribute> UoM" companion column
+}
+
+export interface LongFormatDetection extends LongFormatMapping {
+  isLongFormat: boolean;
+  confidence: number;
+  rowsPerEntity: number;
+  attributeCount: number;
+}
+
+export interface LongFormatPivotOptions {
+  multiValueSeparator: string;
+}
+
+export interface LongFormatPivotResult {
+  headers: string[];
+  data: unknown[][];
+  entityCount: number;
+  attributeCount: number;
+  multiValuedAttributes: string[]; // attributes with several values for at least one entity
+  uomAttributes: string[]; // attributes that received a UoM companion column
+  mixedUomAttributes: string[]; // attributes recorded in more than one unit
+  passthroughColumns: string[]; // entity-level columns carried over as-is
+  droppedColumns: string[]; // row-level columns that vary within an entity
+  skippedRows: number; // rows without entity or attribute
+}
+
+export const MULTI_VALUE_SEPARATORS = [
+  { value: ' | ', label: 'Pipe ( | )' },
+  { value: '; ', label: 'Semicolon ( ; )' },
+  { value: ', ', label: 'Comma ( , )' },
+];
+
+const MAX_LONG_FORMAT_COLUMNS = 10;
+const ATTRIBUTE_HINT = /(attribute|attr\b|property|characteristic|feature|spec|merkmal|field name|parameter)/i;
+const VALUE_HINT = /(value|wert|valor|valeur)/i;
+const UOM_HINT = /(\buom\b|\bunit|unit of measure|measure unit|einheit)/i;
+const STRONG_ENTITY_HINT = /(sku|material|article|item)/i;
+const ENTITY_HINT = /(sku|\bid\b|code|item|material|article|product|part|ean|gtin)/i;
+
+/**
+ * Detects an EAV "long" table (SKU, Attribute, Value, UoM) from header names,
+ * then checks the shape: entities repeat, and each entity/attribute pair is mostly unique.
+ * Always returns a best-guess mapping so the user can pivot manually.
+ */
+export const detectLongFormat = (headers: string[], data: unknown[][]): LongFormatDetection => {
+  const used = new Set<string>();
+  const pick = (predicate: (header: string) => boolean): string => {
+    const match = headers.find(h => h && !used.has(h) && predicate(h));
+    if (match) used.add(match);
+    return match || '';
+  };
+
+  const uomColumn = pick(h => UOM_HINT.test(h));
+  const attributeColumn = pick(h => ATTRIBUTE_HINT.test(h) && !VALUE_HINT.test(h));
+  const valueColumn = pick(h => VALUE_HINT.test(h));
+  const entityColumn = pick(h => STRONG_ENTITY_HINT.test(h)) || pick(h => ENTITY_HINT.test(h)) || pick(() => true);
+
+  const mapping: LongFormatMapping = {
+    entityColumn,
+    attributeColumn,
+    valueColumn,
+    uomColumn: uomColumn || null,
+  };
+
+  const entityIndex = headers.indexOf(entityColumn);
+  const attributeIndex = headers.indexOf(attributeColumn);
+  const entities = new Set<string>();
+  const attributes = new Set<string>();
+  const pairs = new Set<string>();
+  let pairRows = 0;
+
+  data.forEach(row => {
+    const entity = entityIndex >= 0 ? cellText(row[entityIndex]) : '';
+    const attribute = attributeIndex >= 0 ? cellText(row[attributeIndex]) : '';
+    if (entity) entities.add(entity);
+    if (attribute) attributes.add(attribute);
+    if (entity && attribute) {
+      pairs.add(`${entity}\u0000${attribute}`);
+      pairRows++;
+    }
+  });
+
+  const rowsPerEntity = entities.size > 0 ? data.length / entities.size : 0;
+  const pairUniqueness = pairRows > 0 ? pairs.size / pairRows : 0;
+  const hasColumns = !!attributeColumn && !!valueColumn && entityIndex >= 0;
+
+  const confidence = hasColumns
+    ? (Math.min(1, Math.max(0, rowsPerEntity - 1)) + pairUniqueness + (attributes.size <= data.length * 0.5 ? 1 : 0)) / 3
+    : 0;
+
+  const isLongFormat = hasColumns &&
+    headers.length <= MAX_LONG_FORMAT_COLUMNS &&
+    rowsPerEntity >= 1.5 &&
+    confidence >= 0.6;
+
+  if (isLongFormat) {
+    console.log(`🔄 Long format detected: ${entities.size} entities × ${attributes.size} attributes (${rowsPerEntity.toFixed(1)} rows/entity)`);
+  }
+
+  return {
+    ...mapping,
+    isLongFormat,
+    confidence,
+    rowsPerEntity,
+    attributeCount: attributes.size,
+  };
+};
+
+/**
+ * Pivots a long table into one row per entity and one column per attribute.
+ * Repeated entity/attribute pairs are joined with the separator; other columns that
+ * are constant per entity are carried over, the rest are dropped and reported.
+ */
+export const pivotLongFormat = (
+  headers: string[],
+  data: unknown[][],
+  mapping: LongFormatMapping,
+  options: LongFormatPivotOptions = { multiValueSeparator: MULTI_VALUE_SEPARATORS[0].value }
+): LongFormatPivotResult => {
+  const entityIndex = headers.indexOf(mapping.entityColumn);
+  const attributeIndex = headers.indexOf(mapping.attributeColumn);
+  const valueIndex = headers.indexOf(mapping.valueColumn);
+  const uomIndex = mapping.uomColumn ? headers.indexOf(mapping.uomColumn) : -1;
+
+  if (entityIndex === -1 || attributeIndex === -1 || valueIndex === -1) {
+    throw new Error('Entity, attribute and value columns are required to pivot long-format data');
+  }
+  if (new Set([entityIndex, attributeIndex, valueIndex, uomIndex].filter(i => i >= 0)).size !== (uomIndex >= 0 ? 4 : 3)) {
+    throw new Error('Entity, attribute, value and unit columns must be different columns');
+  }
+
+  const otherIndexes = headers
+    .map((_, index) => index)
+    .filter(index => ![entityIndex, attributeIndex, valueIndex, uomIndex].includes(index) && headers[index]);
+
+  // Collect values per entity (in first-seen order) and per attribute
+  const entityOrder: string[] = [];
+  const attributeOrder: string[] = [];
+  const seenAttributes = new Set<string>();
+  const values = new Map<string, Map<string, unknown[]>>();
+  const units = new Map<string, Map<string, string[]>>();
+  const otherValues = new Map<string, Map<number, Set<string>>>();
+  const firstOtherValue = new Map<string, Map<number, unknown>>();
+  const attributeUnits = new Map<string, Set<string>>();
+  let skippedRows = 0;
+
+  data.forEach(row => {
+    const entity = cellText(row[entityIndex]);
+    const attribute = cellText(row[attributeIndex]);
+    if (!entity || !attribute) {
+      skippedRows++;
+      return;
+    }
+
+    if (!values.has(entity)) {
+      entityOrder.push(entity);
+      values.set(entity, new Map());
+      units.set(entity, new Map());
+      otherValues.set(entity, new Map());
+      firstOtherValue.set(entity, new Map());
+    }
+    if (!seenAttributes.has(attribute)) {
+      seenAttributes.add(attribute);
+      attributeOrder.push(attribute);
+    }
+
+    const entityValues = values.get(entity)!;
+    if (!entityValues.has(attribute)) entityValues.set(attribute, []);
+    const value = row[valueIndex];
+    if (cellText(value) !== '' && !entityValues.get(attribute)!.some(v => cellText(v) === cellText(value))) {
+      entityValues.get(attribute)!.push(value);
+    }
+
+    if (uomIndex >= 0) {
+      const unit = cellText(row[uomIndex]);
+      if (unit) {
+        const entityUnits = units.get(entity)!;
+        if (!entityUnits.has(attribute)) entityUnits.set(attribute, []);
+        if (!entityUnits.get(attribute)!.includes(unit)) entityUnits.get(attribute)!.push(unit);
+        if (!attributeUnits.has(attribute)) attributeUnits.set(attribute, new Set());
+        attributeUnits.get(attribute)!.add(unit);
+      }
+    }
+
+    otherIndexes.forEach(index => {
+      const text = cellText(row[index]);
+      if (!text) return;
+      const seen = otherValues.get(entity)!;
+      if (!seen.has(index)) seen.set(index, new Set());
+      seen.get(index)!.add(text);
+      if (!firstOtherValue.get(entity)!.has(index)) firstOtherValue.get(entity)!.set(index, row[index]);
+    });
+  });
+
+  // Columns that hold one value per entity (e.g. product name, brand) are entity-level
+  const passthroughIndexes = otherIndexes.filter(index =>
+    entityOrder.every(entity => (otherValues.get(entity)!.get(index)?.size || 0) <= 1)
+  );
+  const droppedIndexes = otherIndexes.filter(index => !passthroughIndexes.includes(index));
+
+  const fixedHeaders = [mapping.entityColumn, ...passthroughIndexes.map(i => headers[i])];
+  const usedNames = new Set(fixedHeaders);
+  const uniqueName = (name: string): string => {
+    let candidate = name;
+    let suffix = 2;
+    while (usedNames.has(candidate)) {
+      candidate = `${name} (${suffix++})`;
+    }
+    usedNames.add(candidate);
+    return candidate;
+  };
+
+  const attributeColumns = attributeOrder.map(attribute => {
+    const hasUom = attributeUnits.has(attribute);
+    const name = uniqueName(attribute);
+    return { attribute, name, uomName: hasUom ? uniqueName(`${name} UoM`) : null };
+  });
+
+  const pivotHeaders = [
+    ...fixedHeaders,
+    ...attributeColumns.flatMap(col => (col.uomName ? [col.name, col.uomName] : [col.name])),
+  ];
+
+  const multiValued = new Set<string>();
+  const pivotData = entityOrder.map(entity => {
+    const row: unknown[] = [entity];
+    passthroughIndexes.forEach(index => {
+      row.push(firstOtherValue.get(entity)!.get(index) ?? null);
+    });
+    attributeColumns.forEach(col => {
+      const cellValues = values.get(entity)!.get(col.attribute) || [];
+      if (cellValues.length > 1) multiValued.add(col.attribute);
+      row.push(
+        cellValues.length === 0 ? null
+          : cellValues.length === 1 ? cellValues[0]
+          : cellValues.map(cellText).join(options.multiValueSeparator)
+      );
+      if (col.uomName) {
+        const cellUnits = units.get(entity)!.get(col.attribute) || [];
+        row.push(cellUnits.length > 0 ? cellUnits.join(options.multiValueSeparator) : null);
+      }
+    });
+    return row;
+  });
+
+  console.log(`🔄 Pivoted ${data.length} long rows → ${pivotData.length} rows × ${pivotHeaders.length} columns`);
+
+  return {
+    headers: pivotHeaders,
+    data: pivotData,
+    entityCount: entityOrder.length,
+    attributeCount: attributeOrder.length,
+    multiValuedAttributes: attributeOrder.filter(a => multiValued.has(a)),
+    uomAttributes: attributeOrder.filter(a => attributeUnits.has(a)),
+    mixedUomAttributes: attributeOrder.filter(a => (attributeUnits.get(a)?.size || 0) > 1),
+    passthroughColumns: passthroughIndexes.map(i => headers[i]),
+    droppedColumns: droppedIndexes.map(i => headers[i]),
+    skippedRows,
+  };
+};
+
+const cellText = (value: unknown): string => {
+  return value === null || value === undefined ? '' : String(value).trim();
+};
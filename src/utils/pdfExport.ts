@@ -1,7 +1,8 @@
-import jsPDF from 'jspdf';
+import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { AnalysisResult } from './analysisEngine';
 import { TaxonomyTreeNode } from './exportReport';
+import { DataValidationWarning, ValidationResult } from './dataValidation';
 
 // Extend jsPDF type to include autoTable
 declare module 'jspdf' {
@@ -56,15 +57,15 @@ const treeToCleanAscii = (node: TaxonomyTreeNode, prefix: string = '', isLast: b
 };
 
 /**
- * Generate a comprehensive PDF report
+ * Builds the comprehensive PDF report without saving it (works outside the browser)
  */
-export const generatePDFReport = (
+export const buildPDFReport = (
   analysisResult: AnalysisResult,
   headers: string[],
   data: any[][],
   taxonomyTree: TaxonomyTreeNode,
   validationResult?: any
-): void => {
+): jsPDF => {
   const doc = new jsPDF();
   let yPosition = 20;
 
@@ -515,10 +516,10 @@ export const generatePDFReport = (
   if (!analysisResult.recordIdSuggestion) criticalIssues.push('Missing Record ID - Required for Salsify import');
   if (!analysisResult.recordNameSuggestion) criticalIssues.push('Missing Record Name - Recommended for display');
   
-  // Add validation warnings to critical issues (EXCLUDE duplicate_header - shown in Best Practices)
+  // Add validation warnings to critical issues (EXCLUDE duplicate_header and parent_conflict - shown in Best Practices)
   if (validationResult && validationResult.warnings) {
     const highSeverityWarnings = validationResult.warnings.filter((w: any) => 
-      w.severity === 'high' && w.type !== 'duplicate_header'
+      w.severity === 'high' && w.type !== 'duplicate_header' && w.type !== 'parent_conflict'
     );
     highSeverityWarnings.forEach((w: any) => {
       const rowsText = w.affectedRows && w.affectedRows.length > 0 
@@ -615,6 +616,66 @@ export const generatePDFReport = (
     yPosition += 8;
   }
   
+  // Parent-Level Conflicts - parent attributes with several values inside one parent record
+  const parentConflictWarnings: DataValidationWarning[] = (validationResult?.warnings || [])
+    .filter((w: DataValidationWarning) => w.type === 'parent_conflict');
+  if (parentConflictWarnings.length > 0) {
+    const conflictRows = parentConflictWarnings.flatMap(w =>
+      (w.parentConflicts || []).slice(0, 3).map(conflict => [
+        conflict.attribute,
+        conflict.parentValue,
+        conflict.values
+          .map(v => `${v.value} (rows ${v.rows.slice(0, 3).join(', ')}${v.rows.length > 3 ? '...' : ''})`)
+          .join('; '),
+      ])
+    );
+
+    checkPageBreak(40);
+    doc.setFillColor(...COLORS.warningLight);
+    doc.roundedRect(15, yPosition, 180, 22, 3, 3, 'F');
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...COLORS.warning);
+    doc.text(`Parent-Level Conflicts (${parentConflictWarnings.length} properties)`, 22, yPosition + 10);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...COLORS.black);
+    doc.text('These parent properties have more than one value within a parent record. Only one value can be kept.', 22, yPosition + 17);
+    yPosition += 26;
+
+    autoTable(doc, {
+      startY: yPosition,
+      head: [['Property', 'Parent', 'Values (Excel rows)']],
+      body: conflictRows,
+      theme: 'striped',
+      headStyles: { fillColor: COLORS.warning, fontSize: 8 },
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+        textColor: COLORS.black,
+        font: 'helvetica',
+      },
+      columnStyles: {
+        0: { cellWidth: 40, fontStyle: 'bold' },
+        1: { cellWidth: 35 },
+        2: { cellWidth: 105 },
+      },
+      margin: { left: 15, right: 15 },
+      tableWidth: 180,
+    });
+
+    yPosition = doc.lastAutoTable.finalY + 5;
+    const hiddenParents = parentConflictWarnings.reduce((sum, w) => sum + Math.max(0, w.affectedCount - 3), 0);
+    if (hiddenParents > 0) {
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'italic');
+      doc.setTextColor(...COLORS.gray);
+      doc.text(`... and ${hiddenParents} more conflicting parents`, 15, yPosition);
+      yPosition += 8;
+    }
+    yPosition += 8;
+  }
+
   // UOM Split Recommendations
   const uomSplits = analysisResult.uomSuggestions.filter(uom => uom.suggestedSplit);
   if (uomSplits.length > 0) {
@@ -643,6 +704,34 @@ export const generatePDFReport = (
     yPosition += 5;
   }
   
+  // Mixed Model - products that don't fit the parent-variant structure
+  const mixedModel = analysisResult.mixedModelSuggestion;
+  if (mixedModel?.shouldUseMixed) {
+    const reasoningLines: string[] = doc.splitTextToSize(mixedModel.reasoning, 166);
+    const boxHeight = 26 + reasoningLines.length * 5;
+    checkPageBreak(boxHeight + 5);
+    doc.setFillColor(...COLORS.grayLight);
+    doc.roundedRect(15, yPosition, 180, boxHeight, 3, 3, 'F');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...COLORS.primary);
+    doc.text('Mixed Model Structure', 22, yPosition + 10);
+    yPosition += 16;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.black);
+    doc.text(
+      `${mixedModel.hierarchicalPercentage.toFixed(1)}% hierarchical (Parent-Variant)  |  ${mixedModel.standalonePercentage.toFixed(1)}% standalone (${mixedModel.standaloneProducts.length} products)`,
+      25,
+      yPosition
+    );
+    yPosition += 6;
+    doc.setTextColor(...COLORS.gray);
+    doc.text(reasoningLines, 25, yPosition);
+    yPosition += reasoningLines.length * 5 + 9;
+  }
+
   // General Recommendations
   const recommendations: string[] = [];
   
@@ -652,9 +741,15 @@ export const generatePDFReport = (
   if (!analysisResult.recordNameSuggestion) {
     recommendations.push('Define a Record Name field - Recommended for product display');
   }
+  if (parentConflictWarnings.length > 0) {
+    recommendations.push(`Resolve conflicting values in ${parentConflictWarnings.length} parent-level properties, or move them to a lower level`);
+  }
   if (uomSplits.length > 0) {
     recommendations.push(`Split ${uomSplits.length} UOM fields into separate value and unit columns`);
   }
+  if (mixedModel?.shouldUseMixed) {
+    recommendations.push(`Import ${mixedModel.standaloneProducts.length} standalone products separately from the parent-variant catalog`);
+  }
   
   if (recommendations.length > 0) {
     checkPageBreak(20 + recommendations.length * 10);
@@ -802,6 +897,21 @@ export const generatePDFReport = (
     doc.text(`Page ${i} of ${pageCount}`, 195, 291, { align: 'right' });
   }
 
+  return doc;
+};
+
+/**
+ * Generate a comprehensive PDF report
+ */
+export const generatePDFReport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  taxonomyTree: TaxonomyTreeNode,
+  validationResult?: ValidationResult | null
+): void => {
+  const doc = buildPDFReport(analysisResult, headers, data, taxonomyTree, validationResult);
+
   // Save the PDF
   const fileName = `product-data-model-${new Date().toISOString().split('T')[0]}.pdf`;
   doc.save(fileName);
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeProductData, withHierarchy } from './analysisEngine';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import { addLevel, moveProperty } from './hierarchyEditing';
+import { isMovedAfterAnalysis } from './placementTrace';
+import { CATALOG_FIXTURES } from '@/test/catalogs';
+
+describe('placement trace', () => {
+  const fixture = CATALOG_FIXTURES.find(f => f.name === 'apparel')!;
+  const result = analyzeProductData(fixture.headers, fixture.data, DEFAULT_ANALYSIS_CONFIG);
+  const traceOf = (header: string) => result.placementTrace.find(t => t.header === header)!;
+
+  it('traces every header with at least one rule and its final level', () => {
+    expect(result.placementTrace.map(t => t.header)).toEqual(fixture.headers);
+    result.placementTrace.forEach(t => {
+      expect(t.steps.length).toBeGreaterThan(0);
+      expect(t.finalLevel).not.toBeNull();
+    });
+  });
+
+  it('records the score bucket with the compared values', () => {
+    const brand = traceOf('Brand');
+    expect(brand.steps[0]).toMatchObject({ rule: 'score_classification' });
+    expect(brand.steps[0].detail).toContain(`hierarchyScore ${brand.hierarchyScore}`);
+    expect(brand.finalLevel).toEqual({ level: 1, name: result.hierarchy[0].name, role: 'property' });
+  });
+
+  it('explains item-level keyword matches and Record ID selection', () => {
+    const ean = traceOf('EAN');
+    expect(ean.keywordMatches).toEqual(['ean']);
+    expect(ean.steps.map(s => s.rule)).toContain('item_level_keyword');
+    expect(traceOf('SKU').steps.at(-1)).toMatchObject({ rule: 'record_id' });
+    expect(traceOf('SKU').finalLevel?.role).toBe('record_id');
+  });
+
+  it('follows edits made after the analysis', () => {
+    const edited = withHierarchy(result, moveProperty(result.hierarchy, 'Brand', 1), fixture.headers, fixture.data);
+    const brand = edited.placementTrace.find(t => t.header === 'Brand')!;
+    expect(brand.analyzedLevel?.level).toBe(1);
+    expect(brand.finalLevel?.level).toBe(2);
+    expect(isMovedAfterAnalysis(brand)).toBe(true);
+    expect(brand.steps).toEqual(traceOf('Brand').steps);
+  });
+
+  it('recomputes the taxonomy paths, orphaned records and Record ID/Name suggestions after edits', () => {
+    const edited = withHierarchy(result, addLevel(result.hierarchy, 'Colourway'), fixture.headers, fixture.data);
+    expect(edited.recordIdNameSuggestions.map(s => s.levelName)).toEqual(edited.hierarchy.map(level => level.name));
+
+    const moved = withHierarchy(result, moveProperty(result.hierarchy, 'Brand', 1), fixture.headers, fixture.data);
+    const brandSegment = moved.hierarchy.flatMap(level => level.headers).indexOf('Brand');
+    const brands = new Set(fixture.data.map(row => row[fixture.headers.indexOf('Brand')]));
+    expect(moved.taxonomyPaths.every(path => brands.has(path.path[brandSegment]))).toBe(true);
+    expect(moved.orphanedRecords).toEqual(result.orphanedRecords);
+  });
+});
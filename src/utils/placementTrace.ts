@@ -0,0 +1,114 @@
+import { CardinalityScore, HierarchyLevel } from '@/types';
+
+// Placement trace: why the analysis put each header on its level, step by step, so the
+// UI and the JSON report can explain a placement instead of the console.
+
+export type PlacementRule =
+  | 'score_classification' // Bucketed by hierarchyScore, completeness and cardinality
+  | 'dependency' // Constant within a functional-dependency level (dependency mode)
+  | 'item_level_keyword' // Header name matched item-level keywords (EAN, weight, price...)
+  | 'user_forced_sku' // Selected as forced SKU-level header
+  | 'level_merged' // Its level had too few properties and was merged into the next one
+  | 'unclassified' // Matched no bucket and fell through to SKU-level
+  | 'record_id' // Selected as the level's Record ID
+  | 'record_name' // Selected as the level's Record Name
+  | 'deduplicated'; // Removed from a higher level because a lower level already has it
+
+export const PLACEMENT_RULE_LABELS: Record<PlacementRule, string> = {
+  score_classification: 'Score bucket',
+  dependency: 'Functional dependency',
+  item_level_keyword: 'Item-level keyword',
+  user_forced_sku: 'Forced to SKU-level',
+  level_merged: 'Level merged',
+  unclassified: 'Unclassified',
+  record_id: 'Record ID',
+  record_name: 'Record Name',
+  deduplicated: 'Deduplicated',
+};
+
+export type PlacementRole = 'record_id' | 'record_name' | 'property';
+
+export interface PlacementStep {
+  rule: PlacementRule;
+  detail: string; // Human-readable, with the values that were compared
+  level?: string; // Level the step placed the header in
+}
+
+export interface PlacementLevel {
+  level: number;
+  name: string;
+  role: PlacementRole;
+}
+
+export interface PlacementTrace {
+  header: string;
+  hierarchyScore: number;
+  cardinality: number;
+  completeness: number;
+  keywordMatches: string[]; // Item-level keywords found in the header name
+  steps: PlacementStep[]; // In the order the rules fired
+  analyzedLevel: PlacementLevel | null; // Where the analysis put it
+  finalLevel: PlacementLevel | null; // Where it is now (edits, presets, forced SKU headers)
+}
+
+/** Steps collected per header while the hierarchy is built. */
+export type PlacementSteps = Map<string, PlacementStep[]>;
+
+export const recordPlacementStep = (steps: PlacementSteps | undefined, header: string, step: PlacementStep): void => {
+  if (!steps) return;
+  if (!steps.has(header)) steps.set(header, []);
+  steps.get(header)!.push(step);
+};
+
+/**
+ * Level and role of a header in a hierarchy, or null when it is not assigned.
+ */
+export const findPlacement = (hierarchy: HierarchyLevel[], header: string): PlacementLevel | null => {
+  for (const level of hierarchy) {
+    const role: PlacementRole | undefined = level.recordId === header
+      ? 'record_id'
+      : level.recordName === header
+        ? 'record_name'
+        : level.headers.includes(header) ? 'property' : undefined;
+    if (role) return { level: level.level, name: level.name, role };
+  }
+  return null;
+};
+
+/**
+ * One trace per header, in column order, from the recorded steps and the analysed hierarchy.
+ */
+export const buildPlacementTrace = (
+  headers: string[],
+  cardinalityScores: CardinalityScore[],
+  hierarchy: HierarchyLevel[],
+  steps: PlacementSteps,
+  findKeywords: (header: string) => string[]
+): PlacementTrace[] =>
+  headers.map(header => {
+    const score = cardinalityScores.find(s => s.header === header);
+    const placement = findPlacement(hierarchy, header);
+    return {
+      header,
+      hierarchyScore: score?.hierarchyScore ?? 0,
+      cardinality: score?.cardinality ?? 0,
+      completeness: score?.completeness ?? 0,
+      keywordMatches: findKeywords(header),
+      steps: steps.get(header) ?? [],
+      analyzedLevel: placement,
+      finalLevel: placement,
+    };
+  });
+
+/**
+ * Points every trace at the header's level in a replaced hierarchy, keeping the analysis steps.
+ */
+export const relocatePlacementTrace = (trace: PlacementTrace[], hierarchy: HierarchyLevel[]): PlacementTrace[] =>
+  trace.map(entry => ({ ...entry, finalLevel: findPlacement(hierarchy, entry.header) }));
+
+/**
+ * True when the header is no longer where the analysis put it.
+ */
+export const isMovedAfterAnalysis = (entry: PlacementTrace): boolean =>
+  entry.analyzedLevel?.level !== entry.finalLevel?.level ||
+  entry.analyzedLevel?.role !== entry.finalLevel?.role;
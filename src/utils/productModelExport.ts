@@ -0,0 +1,76 @@
+import * as XLSX from 'xlsx';
+import { MixedModelSuggestion, ProductModelType, StandaloneProduct } from './analysisEngine';
+import { downloadBlob } from './fileDownload';
+
+export type ProductModelFileFormat = 'csv' | 'xlsx';
+
+export const STANDALONE_REASON_LABELS: Record<StandaloneProduct['reason'], string> = {
+  missing_parent_values: 'Missing parent values',
+  single_variant: 'Only variant of its parent',
+  no_parent_level: 'No parent level',
+};
+
+export const describeStandaloneReason = (product: StandaloneProduct): string =>
+  product.reason === 'missing_parent_values'
+    ? `${STANDALONE_REASON_LABELS[product.reason]}: ${product.missingHeaders.join(', ')}`
+    : STANDALONE_REASON_LABELS[product.reason];
+
+/**
+ * Source rows of one product model with their Excel row number first. The standalone
+ * subset also says why each row is standalone.
+ */
+export const buildProductModelSubset = (
+  headers: string[],
+  data: unknown[][],
+  suggestion: MixedModelSuggestion,
+  model: ProductModelType
+): unknown[][] => {
+  const reasons = new Map(suggestion.standaloneProducts.map(product => [product.row, describeStandaloneReason(product)]));
+  const rows: unknown[][] = [
+    ['Source Row', ...headers, ...(model === 'standalone' ? ['Standalone Reason'] : [])],
+  ];
+
+  data.forEach((row, rowIndex) => {
+    if (suggestion.rowModels[rowIndex] !== model) return;
+    const excelRow = rowIndex + 2;
+    rows.push([
+      excelRow,
+      ...headers.map((_, colIndex) => row[colIndex] ?? ''),
+      ...(model === 'standalone' ? [reasons.get(excelRow) || ''] : []),
+    ]);
+  });
+
+  return rows;
+};
+
+/**
+ * Downloads the hierarchical or standalone products as CSV or a one-sheet workbook,
+ * so they can be imported separately. Returns the number of products exported.
+ */
+export const downloadProductModelSubset = (
+  headers: string[],
+  data: unknown[][],
+  suggestion: MixedModelSuggestion,
+  model: ProductModelType,
+  format: ProductModelFileFormat
+): number => {
+  const rows = buildProductModelSubset(headers, data, suggestion, model);
+  if (rows.length === 1) {
+    throw new Error(`No ${model} products to export`);
+  }
+
+  const date = new Date().toISOString().split('T')[0];
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const fileName = `${model}-products-${date}`;
+
+  if (format === 'xlsx') {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, model === 'standalone' ? 'Standalone' : 'Hierarchical');
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+  } else {
+    const blob = new Blob([XLSX.utils.sheet_to_csv(sheet)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `${fileName}.csv`);
+  }
+
+  return rows.length - 1;
+};
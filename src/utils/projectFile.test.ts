@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ANALYSIS_CONFIG } from './analysisConfig';
+import {
+  PROJECT_FORMAT_VERSION,
+  ProjectState,
+  createProject,
+  isProjectFile,
+  parseProjectFile,
+  serializeProject,
+  validateProject,
+} from './projectFile';
+
+const state: ProjectState = {
+  allHeaders: ['SKU', 'Name'],
+  selectedHeaders: ['SKU', 'Name'],
+  headers: ['SKU', 'Name'],
+  data: [['A1', 'Chair'], ['A2', 'Table']],
+  showHeaderSelection: false,
+  analysisConfig: DEFAULT_ANALYSIS_CONFIG,
+  forcedSkuHeaders: [],
+  selectedPreset: null,
+  taxonomyConfig: null,
+  analysisResult: null,
+  taxonomyTree: null,
+  validationResult: null,
+};
+
+describe('project files', () => {
+  const project = createProject('catalog.xlsx', state);
+
+  it('recognizes the project extension', () => {
+    expect(isProjectFile('Catalog.TAXPROJ')).toBe(true);
+    expect(isProjectFile('catalog.xlsx')).toBe(false);
+  });
+
+  it('round-trips through the gzip file', async () => {
+    const blob = await serializeProject(project);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b]);
+    expect(await parseProjectFile(await blob.arrayBuffer())).toEqual(project);
+  });
+
+  it('also reads plain JSON', async () => {
+    const buffer = new TextEncoder().encode(JSON.stringify(project)).buffer;
+    expect((await parseProjectFile(buffer)).state.data).toEqual(state.data);
+  });
+
+  it('rejects damaged, foreign, newer and incomplete files', async () => {
+    await expect(parseProjectFile(new TextEncoder().encode('{"format":').buffer)).rejects.toThrow('damaged');
+    expect(() => validateProject({ format: 'other' })).toThrow('not a Product Taxonomy Analyzer project');
+    expect(() => validateProject({ ...project, version: PROJECT_FORMAT_VERSION + 1 })).toThrow('newer than this app supports');
+    expect(() => validateProject({ ...project, state: { ...state, data: undefined } })).toThrow('missing data');
+  });
+});
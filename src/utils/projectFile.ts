@@ -0,0 +1,108 @@
+import { AnalysisResult, HierarchyAlternative } from './analysisEngine';
+import { AnalysisConfig } from './analysisConfig';
+import { ValidationResult } from './dataValidation';
+import { CustomTaxonomyConfig, TaxonomyTreeNode } from './exportReport';
+import { downloadBlob } from './fileDownload';
+
+export const PROJECT_FORMAT = 'product-taxonomy-project';
+export const PROJECT_FORMAT_VERSION = 1; // Bump when ProjectState changes shape
+export const PROJECT_FILE_EXTENSION = '.taxproj';
+
+// Everything Index needs to put the analysis screen back exactly as it was
+export interface ProjectState {
+  allHeaders: string[]; // Headers as loaded (including unselected and duplicate ones)
+  selectedHeaders: string[];
+  headers: string[]; // Analyzed headers
+  data: unknown[][]; // Rows of the analyzed headers (all headers while still selecting)
+  showHeaderSelection: boolean;
+  analysisConfig: AnalysisConfig;
+  forcedSkuHeaders: string[];
+  selectedPreset: HierarchyAlternative | null;
+  taxonomyConfig: CustomTaxonomyConfig | null;
+  analysisResult: AnalysisResult | null; // Includes manual hierarchy edits
+  taxonomyTree: TaxonomyTreeNode | null;
+  validationResult: ValidationResult | null;
+}
+
+export interface AnalysisProject {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string; // Source file or sheet name
+  savedAt: string;
+  state: ProjectState;
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export const isProjectFile = (fileName: string): boolean =>
+  fileName.toLowerCase().endsWith(PROJECT_FILE_EXTENSION);
+
+export const createProject = (name: string, state: ProjectState): AnalysisProject => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  name,
+  savedAt: new Date().toISOString(),
+  state,
+});
+
+/**
+ * Checks a parsed project and returns it typed - throws with a readable reason otherwise
+ */
+export const validateProject = (value: unknown): AnalysisProject => {
+  const project = value as Partial<AnalysisProject> | null;
+  if (!project || typeof project !== 'object' || project.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not a Product Taxonomy Analyzer project');
+  }
+  if (typeof project.version !== 'number' || project.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Project format version ${project.version} is newer than this app supports (${PROJECT_FORMAT_VERSION})`);
+  }
+
+  const state = project.state as Partial<ProjectState> | undefined;
+  const arrays: (keyof ProjectState)[] = ['allHeaders', 'selectedHeaders', 'headers', 'data', 'forcedSkuHeaders'];
+  const missing = arrays.filter(key => !Array.isArray(state?.[key]));
+  if (!state || missing.length > 0 || !state.analysisConfig) {
+    throw new Error(`The project file is incomplete${missing.length > 0 ? ` (missing ${missing.join(', ')})` : ''}`);
+  }
+  if (state.analysisResult && !Array.isArray(state.analysisResult.hierarchy)) {
+    throw new Error('The project file has an invalid analysis result');
+  }
+
+  return project as AnalysisProject;
+};
+
+/**
+ * Serializes a project as gzip-compressed JSON
+ */
+export const serializeProject = async (project: AnalysisProject): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(project)], { type: 'application/json' });
+  const compressed = json.stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(compressed).blob();
+};
+
+/**
+ * Reads a project file - gzip-compressed or plain JSON
+ */
+export const parseProjectFile = async (buffer: ArrayBuffer): Promise<AnalysisProject> => {
+  const bytes = new Uint8Array(buffer);
+  const isGzip = bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+  const text = isGzip
+    ? await new Response(new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : new TextDecoder().decode(bytes);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The project file is damaged and could not be read');
+  }
+  return validateProject(parsed);
+};
+
+/**
+ * Downloads the project as <name>-<date>.taxproj
+ */
+export const downloadProject = async (project: AnalysisProject): Promise<void> => {
+  const blob = await serializeProject(project);
+  const baseName = project.name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+  downloadBlob(blob, `${baseName}-${project.savedAt.split('T')[0]}${PROJECT_FILE_EXTENSION}`);
+};
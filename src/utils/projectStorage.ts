@@ -0,0 +1,60 @@
+import { AnalysisProject, validateProject } from './projectFile';
+
+// IndexedDB keeps the latest autosave - localStorage is too small for source data
+const DB_NAME = 'product-taxonomy-analyzer';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+
+// Helper: one short-lived connection per operation
+const withStore = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      if (!open.result.objectStoreNames.contains(STORE_NAME)) {
+        open.result.createObjectStore(STORE_NAME);
+      }
+    };
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => {
+        db.close();
+        resolve(request.result as T);
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    };
+  });
+
+export const saveAutosavedProject = (project: AnalysisProject): Promise<void> =>
+  withStore<IDBValidKey>('readwrite', store => store.put(project, AUTOSAVE_KEY)).then(() => undefined);
+
+/**
+ * Latest autosave, or null when there is none or it cannot be restored
+ */
+export const loadAutosavedProject = async (): Promise<AnalysisProject | null> => {
+  const stored = await withStore<unknown>('readonly', store => store.get(AUTOSAVE_KEY));
+  if (!stored) return null;
+  try {
+    return validateProject(stored);
+  } catch (error) {
+    console.warn('⚠️ Ignoring autosaved project:', error);
+    return null;
+  }
+};
+
+export const clearAutosavedProject = (): Promise<void> =>
+  withStore<undefined>('readwrite', store => store.delete(AUTOSAVE_KEY)).then(() => undefined);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { AnalysisResult, PropertyRecommendation } from './analysisEngine';
+import { buildSalsifyImport } from './salsifyExport';
+
+const headers = ['Style', 'Title', 'Brand', 'SKU', 'Size', 'Price'];
+const hierarchy: HierarchyLevel[] = [
+  { level: 1, name: 'Style', headers: ['Brand'], recordId: 'Style', recordName: 'Title' },
+  { level: 2, name: 'SKU', headers: ['Size', 'Price'], recordId: 'SKU' },
+];
+const recommendation = (header: string, dataType: PropertyRecommendation['dataType'], picklistValues?: string[]) =>
+  ({ header, dataType, isPicklist: !!picklistValues, picklistValues, confidence: 0.9 });
+const result = {
+  hierarchy,
+  propertyRecommendations: [
+    recommendation('Brand', 'picklist', ['Acme', 'Zeta']),
+    recommendation('Size', 'picklist', ['S', 'M']),
+    recommendation('Price', 'number'),
+  ],
+} as AnalysisResult;
+const data = [
+  ['T1', 'Tee', 'Acme', 'T1-S', 'S', 20],
+  ['T1', 'Tee', 'Acme', 'T1-M', 'M', 22],
+  ['T2', 'Polo', 'Zeta', 'T2-S', 'S', 30],
+  ['T2', 'Polo', 'Zeta', '', 'M', 31],
+];
+
+describe('buildSalsifyImport', () => {
+  const salsify = buildSalsifyImport(result, headers, data);
+
+  it('defines the SKU Record ID as product ID and every level property with its type', () => {
+    expect(salsify.properties).toEqual([
+      ['salsify:id', 'salsify:name', 'salsify:data_type', 'salsify:attribute_group'],
+      ['SKU', 'SKU', 'string', 'Identification'],
+      ['Title', 'Title', 'string', 'Identification'],
+      ['Brand', 'Brand', 'enumerated', 'Style'],
+      ['Size', 'Size', 'enumerated', 'SKU'],
+      ['Price', 'Price', 'number', 'SKU'],
+    ]);
+    expect(salsify.picklists.slice(1)).toEqual([
+      ['Brand', 'Acme', 'Acme'],
+      ['Brand', 'Zeta', 'Zeta'],
+      ['Size', 'S', 'S'],
+      ['Size', 'M', 'M'],
+    ]);
+  });
+
+  it('lists parents before SKUs, linked through salsify:parent_id', () => {
+    expect(salsify.products).toEqual([
+      ['SKU', 'Title', 'salsify:parent_id', 'Brand', 'Size', 'Price'],
+      ['T1', 'Tee', '', 'Acme', '', ''],
+      ['T2', 'Polo', '', 'Zeta', '', ''],
+      ['T1-S', '', 'T1', '', 'S', 20],
+      ['T1-M', '', 'T1', '', 'M', 22],
+      ['T2-S', '', 'T2', '', 'S', 30],
+    ]);
+    expect(salsify.summary).toMatchObject({ parentCount: 2, productCount: 3, skippedRows: 1 });
+  });
+});
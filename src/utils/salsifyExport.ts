@@ -0,0 +1,132 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult, PropertyRecommendation } from './analysisEngine';
+import { buildLevelRecords } from './hierarchyRecords';
+
+export interface SalsifyImport {
+  properties: unknown[][]; // Property definitions (salsify:id, salsify:data_type, ...)
+  picklists: unknown[][]; // Enumerated values per picklist property
+  products: unknown[][]; // Parent records first, then SKUs, linked via salsify:parent_id
+  summary: {
+    propertyCount: number;
+    picklistValueCount: number;
+    parentCount: number;
+    productCount: number;
+    skippedRows: number; // SKU rows without Record ID
+  };
+}
+
+// Salsify data types for the analyzer's property types
+const SALSIFY_DATA_TYPES: Record<PropertyRecommendation['dataType'], string> = {
+  string: 'string',
+  picklist: 'enumerated',
+  number: 'number',
+  date: 'date',
+  yes_no: 'boolean',
+  rich_text: 'rich_text',
+  html: 'html',
+  link: 'link',
+  digital_asset: 'digital_asset',
+};
+
+const SALSIFY_PARENT_ID = 'salsify:parent_id';
+
+/**
+ * Builds Salsify import sheets from the chosen hierarchy.
+ * One product ID property holds every level's Record ID (the SKU level's Record ID header),
+ * so parents and SKUs live in the same product sheet and link through salsify:parent_id.
+ */
+export const buildSalsifyImport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][]
+): SalsifyImport => {
+  const tables = buildLevelRecords(analysisResult.hierarchy, headers, data);
+  if (tables.length === 0) {
+    throw new Error('No hierarchy to export');
+  }
+
+  const skuTable = tables[tables.length - 1];
+  const idProperty = skuTable.idHeader;
+  // CRITICAL: Name values of all levels share one property, so pick the first level that has one
+  const nameProperty = skuTable.nameHeader || tables.find(t => t.nameHeader)?.nameHeader;
+  const recommendations = new Map(analysisResult.propertyRecommendations.map(r => [r.header, r]));
+
+  // Record ID/Name headers of parent levels become the product ID/name values of those records
+  const identityHeaders = new Set(tables.flatMap(t => [t.idHeader, t.nameHeader].filter(Boolean) as string[]));
+  const propertyColumns = tables.flatMap(t => t.properties).filter(h => !identityHeaders.has(h));
+
+  // Properties sheet
+  const properties: unknown[][] = [['salsify:id', 'salsify:name', 'salsify:data_type', 'salsify:attribute_group']];
+  properties.push([idProperty, idProperty, 'string', 'Identification']);
+  if (nameProperty) properties.push([nameProperty, nameProperty, 'string', 'Identification']);
+  tables.forEach(table => {
+    table.properties
+      .filter(h => !identityHeaders.has(h))
+      .forEach(header => {
+        const dataType = recommendations.get(header)?.dataType || 'string';
+        properties.push([header, header, SALSIFY_DATA_TYPES[dataType], table.level.name]);
+      });
+  });
+
+  // Picklist values sheet
+  const picklists: unknown[][] = [['salsify:attribute_id', 'salsify:id', 'salsify:name']];
+  propertyColumns.forEach(header => {
+    const recommendation = recommendations.get(header);
+    if (!recommendation?.isPicklist || !recommendation.picklistValues) return;
+    recommendation.picklistValues
+      .filter(value => value.trim() !== '')
+      .forEach(value => picklists.push([header, value, value]));
+  });
+
+  // Products sheet - parents before children so Salsify can resolve salsify:parent_id
+  const columns = [idProperty, ...(nameProperty ? [nameProperty] : []), SALSIFY_PARENT_ID, ...propertyColumns];
+  const products: unknown[][] = [columns];
+  tables.forEach(table => {
+    table.records.forEach(record => {
+      const row: unknown[] = [record.id];
+      if (nameProperty) row.push(record.name ?? '');
+      row.push(record.parentId ?? '');
+      propertyColumns.forEach(header => {
+        const value = record.values[header];
+        row.push(value === null || value === undefined ? '' : value);
+      });
+      products.push(row);
+    });
+  });
+
+  const parentCount = tables.slice(0, -1).reduce((sum, t) => sum + t.records.length, 0);
+  console.log(`📦 Salsify import: ${properties.length - 1} properties, ${picklists.length - 1} picklist values, ${parentCount} parents, ${skuTable.records.length} products`);
+
+  return {
+    properties,
+    picklists,
+    products,
+    summary: {
+      propertyCount: properties.length - 1,
+      picklistValueCount: picklists.length - 1,
+      parentCount,
+      productCount: skuTable.records.length,
+      skippedRows: skuTable.rowsWithoutId,
+    },
+  };
+};
+
+/**
+ * Downloads the Salsify import as one workbook (Properties, Picklist Values, Products).
+ */
+export const downloadSalsifyImport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][]
+): SalsifyImport => {
+  const salsifyImport = buildSalsifyImport(analysisResult, headers, data);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(salsifyImport.properties), 'Properties');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(salsifyImport.picklists), 'Picklist Values');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(salsifyImport.products), 'Products');
+
+  const fileName = `salsify-import-${new Date().toISOString().split('T')[0]}.xlsx`;
+  XLSX.writeFile(workbook, fileName);
+  return salsifyImport;
+};
@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { extractSheetTables, joinSheets, suggestJoinKey, withHeaderRange } from './sheetJoin';
+
+const buildWorkbook = (sheets: Record<string, unknown[][]>): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  });
+  return workbook;
+};
+
+describe('sheet join', () => {
+  const workbook = buildWorkbook({
+    Products: [
+      ['SKU', 'Name', 'Price'],
+      ['1001', 'Oslo Chair', 199],
+      ['1002', 'Bergen Chair', 249],
+      ['1003', 'Fjord Table', 599],
+      ['', 'Unnumbered', 10],
+    ],
+    Attributes: [
+      ['Item', 'Colour', 'Price'],
+      [1001, 'Black', 189],
+      [1002, 'Oak', 239],
+      [1002, 'Walnut', 259],
+      [2001, 'Grey', 99],
+    ],
+    Empty: [],
+  });
+  const sheets = extractSheetTables(workbook);
+
+  it('reads every non-empty sheet as header-first rows', () => {
+    expect(sheets.map(s => s.name)).toEqual(['Products', 'Attributes']);
+    expect(sheets[0]).toMatchObject({ rowCount: 4, columnCount: 3 });
+  });
+
+  it('suggests the column whose values overlap the base keys', () => {
+    expect(suggestJoinKey(sheets[1], sheets[0], 'SKU')).toBe('Item');
+  });
+
+  it('left-joins by key and reports unmatched, duplicate and renamed columns', () => {
+    const result = joinSheets(sheets, {
+      base: { sheetName: 'Products', keyColumn: 'SKU' },
+      joins: [{ sheetName: 'Attributes', keyColumn: 'Item' }],
+    });
+
+    expect(result.rows[0]).toEqual(['SKU', 'Name', 'Price', 'Colour', 'Price (Attributes)']);
+    expect(result.rows.slice(1, 4)).toEqual([
+      ['1001', 'Oslo Chair', 199, 'Black', 189],
+      ['1002', 'Bergen Chair', 249, 'Oak', 239],
+      ['1003', 'Fjord Table', 599, null, null],
+    ]);
+    expect(result.baseRowsWithoutKey).toBe(1);
+    expect(result.reports[0]).toMatchObject({
+      matchedRows: 2,
+      baseKeysWithoutMatch: ['1003'],
+      sheetKeysWithoutMatch: ['2001'],
+      duplicateKeys: ['1002'],
+      renamedHeaders: [{ original: 'Price', renamed: 'Price (Attributes)' }],
+    });
+  });
+
+  it('re-reads a sheet with a confirmed header range before joining', () => {
+    const [report] = extractSheetTables(buildWorkbook({
+      Report: [
+        ['Price list 2024'],
+        [],
+        ['Item', 'Colour'],
+        [1001, 'Black'],
+        [1002, 'Oak'],
+        ['Total', 2],
+      ],
+    }));
+    const confirmed = withHeaderRange(report, { ...report.headerRange, headerRowIndex: 2, dataStartIndex: 3, dataEndIndex: 4 });
+    expect(confirmed.rows).toEqual([['Item', 'Colour'], [1001, 'Black'], [1002, 'Oak']]);
+    expect(confirmed).toMatchObject({ rowCount: 2, columnCount: 2, headerRange: { flattenedHeaders: ['Item', 'Colour'] } });
+
+    const result = joinSheets([sheets[0], confirmed], {
+      base: { sheetName: 'Products', keyColumn: 'SKU' },
+      joins: [{ sheetName: 'Report', keyColumn: 'Item' }],
+    });
+    expect(result.reports[0]).toMatchObject({ matchedRows: 2, sheetKeysWithoutMatch: [] });
+  });
+
+  it('fails on an unknown key column', () => {
+    expect(() => joinSheets(sheets, { base: { sheetName: 'Products', keyColumn: 'EAN' }, joins: [] }))
+      .toThrow('Key column "EAN" not found in sheet "Products"');
+  });
+});
@@ -0,0 +1,245 @@
+import * as XLSX from 'xlsx';
+import { HeaderRange, HeaderRangeDetection, fillMergedCells, detectHeaderRange, applyHeaderRange } from './headerDetection';
+
+export interface SheetTable {
+  name: string;
+  rows: unknown[][]; // rows[0] is the (flattened) header row
+  rawRows: unknown[][]; // sheet as stored, including banners and grouped headers
+  headerRange: HeaderRangeDetection;
+  rowCount: number; // data rows, excluding the header
+  columnCount: number;
+}
+
+export interface SheetJoinSpec {
+  sheetName: string;
+  keyColumn: string;
+}
+
+export interface SheetJoinConfig {
+  base: SheetJoinSpec;
+  joins: SheetJoinSpec[];
+}
+
+export interface UnmatchedKeyReport {
+  sheetName: string;
+  keyColumn: string;
+  matchedRows: number; // base rows that found a partner in this sheet
+  baseKeysWithoutMatch: string[]; // base keys missing from this sheet
+  sheetKeysWithoutMatch: string[]; // keys only in this sheet - their data is dropped
+  duplicateKeys: string[]; // keys repeated in this sheet - the first row wins
+  renamedHeaders: { original: string; renamed: string }[];
+}
+
+export interface SheetJoinResult {
+  rows: unknown[][]; // rows[0] is the merged header row
+  baseRowsWithoutKey: number;
+  reports: UnmatchedKeyReport[];
+}
+
+/**
+ * Reads every sheet of a workbook as header-first row arrays, using the
+ * detected header range of each sheet. Completely empty sheets are skipped.
+ */
+export const extractSheetTables = (workbook: XLSX.WorkBook): SheetTable[] => {
+  return workbook.SheetNames
+    .map(name => {
+      const worksheet = workbook.Sheets[name];
+      fillMergedCells(worksheet);
+      const rawRows: unknown[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
+
+      // Trailing blank rows carry no information; inner blank rows help header detection
+      while (rawRows.length > 0 && !rawRows[rawRows.length - 1].some(cell => !isEmptyCell(cell))) {
+        rawRows.pop();
+      }
+
+      const headerRange = detectHeaderRange(rawRows);
+      const rows = readTableRows(rawRows, headerRange);
+
+      return {
+        name,
+        rows,
+        rawRows,
+        headerRange,
+        rowCount: rows.length - 1,
+        columnCount: rows[0].length,
+      };
+    })
+    .filter(sheet => sheet.rawRows.length > 0);
+};
+
+/**
+ * Re-reads a sheet with the header range the user confirmed, so joins use the same
+ * header and data rows as a single confirmed sheet.
+ */
+export const withHeaderRange = (sheet: SheetTable, range: HeaderRange): SheetTable => {
+  const rows = readTableRows(sheet.rawRows, range);
+  return {
+    ...sheet,
+    rows,
+    headerRange: { ...sheet.headerRange, ...range, flattenedHeaders: getSheetHeaders({ ...sheet, rows }) },
+    rowCount: rows.length - 1,
+    columnCount: rows[0].length,
+  };
+};
+
+export const getSheetHeaders = (sheet: SheetTable): string[] => {
+  return ((sheet.rows[0] || []) as unknown[]).map(h => (isEmptyCell(h) ? '' : String(h).trim()));
+};
+
+/**
+ * Suggests a join key for a sheet: a header shared with the base key name,
+ * otherwise the first column whose values look most like the base keys.
+ */
+export const suggestJoinKey = (sheet: SheetTable, baseSheet: SheetTable, baseKeyColumn: string): string => {
+  const headers = getSheetHeaders(sheet);
+  const exact = headers.find(h => h.toLowerCase() === baseKeyColumn.toLowerCase());
+  if (exact) return exact;
+
+  const baseKeys = collectKeys(baseSheet, baseKeyColumn);
+  let bestHeader = headers[0] || '';
+  let bestOverlap = 0;
+
+  headers.forEach(header => {
+    if (!header) return;
+    const keys = collectKeys(sheet, header);
+    let overlap = 0;
+    keys.forEach(key => {
+      if (baseKeys.has(key)) overlap++;
+    });
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      bestHeader = header;
+    }
+  });
+
+  return bestHeader;
+};
+
+/**
+ * Left-joins every sheet in `config.joins` onto the base sheet by key.
+ * All base rows are kept; keys are compared as trimmed strings so that
+ * "1001" and 1001 match across sheets.
+ */
+export const joinSheets = (sheets: SheetTable[], config: SheetJoinConfig): SheetJoinResult => {
+  const baseSheet = sheets.find(s => s.name === config.base.sheetName);
+  if (!baseSheet) {
+    throw new Error(`Sheet "${config.base.sheetName}" not found`);
+  }
+
+  const baseHeaders = getSheetHeaders(baseSheet);
+  const baseKeyIndex = baseHeaders.indexOf(config.base.keyColumn);
+  if (baseKeyIndex === -1) {
+    throw new Error(`Key column "${config.base.keyColumn}" not found in sheet "${baseSheet.name}"`);
+  }
+
+  const mergedHeaders = [...baseHeaders];
+  const mergedRows = baseSheet.rows.slice(1).map(row => {
+    const padded = [...row];
+    while (padded.length < baseHeaders.length) padded.push(null);
+    return padded;
+  });
+  const baseKeys = mergedRows.map(row => normalizeKey(row[baseKeyIndex]));
+  const baseKeySet = new Set(baseKeys.filter(key => key !== ''));
+  const baseRowsWithoutKey = baseKeys.filter(key => key === '').length;
+
+  const reports: UnmatchedKeyReport[] = config.joins.map(spec => {
+    const sheet = sheets.find(s => s.name === spec.sheetName);
+    if (!sheet) {
+      throw new Error(`Sheet "${spec.sheetName}" not found`);
+    }
+
+    const headers = getSheetHeaders(sheet);
+    const keyIndex = headers.indexOf(spec.keyColumn);
+    if (keyIndex === -1) {
+      throw new Error(`Key column "${spec.keyColumn}" not found in sheet "${sheet.name}"`);
+    }
+
+    // Index the joined sheet by key (first occurrence wins)
+    const rowsByKey = new Map<string, unknown[]>();
+    const duplicateKeys = new Set<string>();
+    sheet.rows.slice(1).forEach(row => {
+      const key = normalizeKey(row[keyIndex]);
+      if (key === '') return;
+      if (rowsByKey.has(key)) {
+        duplicateKeys.add(key);
+        return;
+      }
+      rowsByKey.set(key, row);
+    });
+
+    // Append every non-key column, renaming on collision with existing headers
+    const columnIndexes: number[] = [];
+    const renamedHeaders: { original: string; renamed: string }[] = [];
+    headers.forEach((header, index) => {
+      if (index === keyIndex || !header) return;
+      let name = header;
+      if (mergedHeaders.includes(name)) {
+        name = `${header} (${sheet.name})`;
+        renamedHeaders.push({ original: header, renamed: name });
+      }
+      mergedHeaders.push(name);
+      columnIndexes.push(index);
+    });
+
+    let matchedRows = 0;
+    const baseKeysWithoutMatch = new Set<string>();
+    mergedRows.forEach((row, rowIndex) => {
+      const key = baseKeys[rowIndex];
+      const match = key !== '' ? rowsByKey.get(key) : undefined;
+      if (match) {
+        matchedRows++;
+      } else if (key !== '') {
+        baseKeysWithoutMatch.add(key);
+      }
+      columnIndexes.forEach(index => {
+        row.push(match && !isEmptyCell(match[index]) ? match[index] : null);
+      });
+    });
+
+    const sheetKeysWithoutMatch = Array.from(rowsByKey.keys()).filter(key => !baseKeySet.has(key));
+
+    console.log(`🔗 Joined "${sheet.name}" on "${spec.keyColumn}": ${matchedRows}/${mergedRows.length} base rows matched, ${sheetKeysWithoutMatch.length} sheet keys unmatched`);
+
+    return {
+      sheetName: sheet.name,
+      keyColumn: spec.keyColumn,
+      matchedRows,
+      baseKeysWithoutMatch: Array.from(baseKeysWithoutMatch),
+      sheetKeysWithoutMatch,
+      duplicateKeys: Array.from(duplicateKeys),
+      renamedHeaders,
+    };
+  });
+
+  return {
+    rows: [mergedHeaders, ...mergedRows],
+    baseRowsWithoutKey,
+    reports,
+  };
+};
+
+// Helper: header row plus the non-blank data rows of a range
+const readTableRows = (rawRows: unknown[][], range: HeaderRange): unknown[][] => {
+  const [headers = [], ...body] = applyHeaderRange(rawRows, range);
+  return [headers, ...body.filter(row => row && row.some(cell => !isEmptyCell(cell)))];
+};
+
+// Helper: collect the distinct normalized keys of one column
+const collectKeys = (sheet: SheetTable, column: string): Set<string> => {
+  const index = getSheetHeaders(sheet).indexOf(column);
+  const keys = new Set<string>();
+  if (index === -1) return keys;
+  sheet.rows.slice(1).forEach(row => {
+    const key = normalizeKey(row[index]);
+    if (key !== '') keys.add(key);
+  });
+  return keys;
+};
+
+const normalizeKey = (value: unknown): string => {
+  return isEmptyCell(value) ? '' : String(value).trim();
+};
+
+const isEmptyCell = (value: unknown): boolean => {
+  return value === null || value === undefined || String(value).trim() === '';
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { AnalysisResult } from './analysisEngine';
+import { buildShopifyExport } from './shopifyExport';
+
+const headers = ['Style', 'Title', 'SKU', 'Size', 'EAN', 'Price'];
+const hierarchy: HierarchyLevel[] = [
+  { level: 1, name: 'Product', headers: [], recordId: 'Style', recordName: 'Title' },
+  { level: 2, name: 'SKU', headers: ['Size', 'EAN', 'Price'], recordId: 'SKU' },
+];
+const result = { hierarchy } as AnalysisResult;
+
+const sizedRows = (style: string, sizes: string[], firstEan: number) =>
+  sizes.map((size, i) => [style, `Tee ${style}`, `${style}-${size}`, size, String(firstEan + i), '25.00']);
+
+const optionColumn = (rows: unknown[][]) => rows.slice(1).map(row => [row[7], row[8]]);
+
+describe('buildShopifyExport', () => {
+  it('uses Size as option for a single product where every SKU has its own size', () => {
+    const data = sizedRows('T1', ['S', 'M', 'L', 'XL'], 5000);
+    const { rows, summary } = buildShopifyExport(result, headers, data);
+    expect(summary.optionNames).toEqual(['Size']);
+    expect(optionColumn(rows)).toEqual([['Size', 'S'], ['', 'M'], ['', 'L'], ['', 'XL']]);
+  });
+
+  it('uses Size as option for two products in three sizes, never the barcode', () => {
+    const data = [...sizedRows('T1', ['S', 'M', 'L'], 5000), ...sizedRows('T2', ['S', 'M', 'L'], 6000)];
+    const { summary } = buildShopifyExport(result, headers, data);
+    expect(summary).toMatchObject({ productCount: 2, variantCount: 6, optionNames: ['Size'] });
+  });
+
+  describe('with several option axes', () => {
+    const gridHeaders = ['Style', 'Title', 'SKU', 'Color', 'Size', 'Fit', 'Sleeve', 'EAN', 'Price'];
+    const gridResult = {
+      hierarchy: [
+        { level: 1, name: 'Product', headers: [], recordId: 'Style', recordName: 'Title' },
+        { level: 2, name: 'SKU', headers: ['Color', 'Size', 'Fit', 'Sleeve', 'EAN', 'Price'], recordId: 'SKU' },
+      ],
+    } as AnalysisResult;
+
+    // Every combination of the given axis values, one SKU each
+    const gridRows = (style: string, axes: string[][]) => {
+      const combinations = axes.reduce<string[][]>((acc, values) => acc.flatMap(c => values.map(v => [...c, v])), [[]]);
+      return combinations.map((values, i) => {
+        const [color = 'Black', size = 'M', fit = 'Regular', sleeve = 'Short'] = values;
+        return [style, `Shirt ${style}`, `${style}-${i + 1}`, color, size, fit, sleeve, String(7000 + i), '39.00'];
+      });
+    };
+    const optionColumns = (rows: unknown[][]) => rows.slice(1).map(row => row.slice(7, 13));
+
+    it('fills Option1-3 and lists every axis in the summary', () => {
+      const data = gridRows('P1', [['Black', 'White'], ['S', 'M']]);
+      const { rows, summary } = buildShopifyExport(gridResult, gridHeaders, data);
+      expect(summary).toMatchObject({ productCount: 1, variantCount: 4, optionNames: ['Color', 'Size'], skippedRows: 0 });
+      expect(optionColumns(rows)).toEqual([
+        ['Color', 'Black', 'Size', 'S', '', ''],
+        ['', 'Black', '', 'M', '', ''],
+        ['', 'White', '', 'S', '', ''],
+        ['', 'White', '', 'M', '', ''],
+      ]);
+    });
+
+    it('uses all three options when a product needs them', () => {
+      const data = gridRows('P1', [['Black', 'White'], ['S', 'M'], ['Regular', 'Slim']]);
+      const { rows, summary } = buildShopifyExport(gridResult, gridHeaders, data);
+      expect(summary.optionNames).toEqual(['Color', 'Size', 'Fit']);
+      expect(optionColumns(rows)[0]).toEqual(['Color', 'Black', 'Size', 'S', 'Fit', 'Regular']);
+      expect(optionColumns(rows)[7]).toEqual(['', 'White', '', 'M', '', 'Slim']);
+    });
+
+    it('throws when a product needs four option axes', () => {
+      const data = gridRows('P1', [['Black', 'White'], ['S', 'M'], ['Regular', 'Slim'], ['Short', 'Long']]);
+      expect(() => buildShopifyExport(gridResult, gridHeaders, data)).toThrow(
+        '1 products cannot be exported to Shopify: "P1" needs more than 3 option axes (Color, Size, Fit, Sleeve)'
+      );
+    });
+
+    it('throws when a product has more variants than the limit', () => {
+      const data = [...gridRows('P1', [['Black', 'White'], ['S', 'M']]), ...gridRows('P2', [['Black'], ['S', 'M']])];
+      expect(() => buildShopifyExport(gridResult, gridHeaders, data, { maxVariants: 3 })).toThrow(
+        '1 products cannot be exported to Shopify: "P1" has 4 variants (limit 3)'
+      );
+    });
+
+    it('throws when variants cannot be told apart', () => {
+      const data = gridRows('P1', [['Black', 'White']]);
+      data.push([...data[0].slice(0, 2), 'P1-3', ...data[0].slice(3, 7), '7002', '39.00']);
+      expect(() => buildShopifyExport(gridResult, gridHeaders, data)).toThrow(
+        '1 products cannot be exported to Shopify: "P1" has 1 variants that no attribute tells apart'
+      );
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult } from './analysisEngine';
+import { LevelRecord, buildLevelRecords, findDistinguishingAttributes, isIdentifierLike } from './hierarchyRecords';
+
+export interface ShopifyExportOptions {
+  maxVariants?: number; // Variants allowed per product
+}
+
+export interface ShopifyExport {
+  rows: unknown[][];
+  summary: {
+    productCount: number;
+    variantCount: number;
+    optionNames: string[]; // Every option axis used by at least one product
+    skippedRows: number; // SKU rows without Record ID
+  };
+}
+
+const SHOPIFY_COLUMNS = [
+  'Handle', 'Title', 'Body (HTML)', 'Vendor', 'Type', 'Tags', 'Published',
+  'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Option3 Name', 'Option3 Value',
+  'Variant SKU', 'Variant Grams', 'Variant Inventory Policy', 'Variant Fulfillment Service',
+  'Variant Price', 'Variant Compare At Price', 'Variant Requires Shipping', 'Variant Taxable',
+  'Variant Barcode', 'Variant Weight Unit', 'Status',
+];
+
+const MAX_OPTIONS = 3; // Shopify allows three options per product
+const DEFAULT_MAX_VARIANTS = 100; // Shopify's product CSV variant limit
+
+// Source columns that map onto Shopify fields - never used as option axes
+const FIELD_KEYWORDS = {
+  barcode: ['ean', 'gtin', 'upc', 'barcode', 'isbn'],
+  weight: ['weight', 'gewicht', 'peso'],
+  comparePrice: ['compare', 'msrp', 'rrp', 'list price'],
+  price: ['price', 'preis', 'preço'],
+  vendor: ['brand', 'vendor', 'manufacturer'],
+  type: ['product type', 'category', 'type'],
+  body: ['description', 'body', 'long text'],
+};
+
+const WEIGHT_UNITS: { unit: string; pattern: RegExp; grams: number }[] = [
+  { unit: 'kg', pattern: /\bkg\b|kilo/i, grams: 1000 },
+  { unit: 'lb', pattern: /\blbs?\b|pound/i, grams: 453.592 },
+  { unit: 'oz', pattern: /\boz\b|ounce/i, grams: 28.3495 },
+  { unit: 'g', pattern: /\bg\b|gram/i, grams: 1 },
+];
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// Helper: first header matching any keyword (keyword order = priority)
+const findHeader = (headers: string[], keywords: string[], exclude: string[] = []): string | undefined => {
+  for (const keyword of keywords) {
+    const match = headers.find(h => !exclude.includes(h) && h.toLowerCase().includes(keyword));
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Helper: Shopify handles are lowercase, hyphen-separated and unique
+const createHandleRegistry = () => {
+  const used = new Set<string>();
+  return (value: string): string => {
+    const base = value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'product';
+    let handle = base;
+    let suffix = 2;
+    while (used.has(handle)) handle = `${base}-${suffix++}`;
+    used.add(handle);
+    return handle;
+  };
+};
+
+/**
+ * Builds a Shopify product CSV: top-level records become products and SKU rows become variants.
+ * Option axes are the attributes that vary under each product (at most three) - throws when a
+ * product needs more axes or has more variants than Shopify allows.
+ */
+export const buildShopifyExport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  options: ShopifyExportOptions = {}
+): ShopifyExport => {
+  const maxVariants = options.maxVariants ?? DEFAULT_MAX_VARIANTS;
+  const tables = buildLevelRecords(analysisResult.hierarchy, headers, data);
+  if (tables.length === 0) {
+    throw new Error('No hierarchy to export');
+  }
+
+  const productTable = tables[0];
+  const skuTable = tables[tables.length - 1];
+  const isFlat = tables.length === 1;
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const valueAt = (rowIndex: number, header: string | undefined): unknown =>
+    header && columnIndex.has(header) ? data[rowIndex][columnIndex.get(header)!] : undefined;
+  const text = (value: unknown): string => (isEmptyValue(value) ? '' : String(value).trim());
+
+  // Shopify field columns
+  const identityHeaders = tables.flatMap(t => [t.idHeader, t.nameHeader].filter(Boolean) as string[]);
+  const barcodeHeader = findHeader(headers, FIELD_KEYWORDS.barcode, identityHeaders);
+  const weightHeader = findHeader(headers, FIELD_KEYWORDS.weight);
+  const comparePriceHeader = findHeader(headers, FIELD_KEYWORDS.comparePrice);
+  const priceHeader = findHeader(headers, FIELD_KEYWORDS.price, comparePriceHeader ? [comparePriceHeader] : []);
+  const vendorHeader = findHeader(headers, FIELD_KEYWORDS.vendor);
+  const typeHeader = findHeader(headers, FIELD_KEYWORDS.type);
+  const bodyHeader = findHeader(headers, FIELD_KEYWORDS.body);
+  const fieldHeaders = [barcodeHeader, weightHeader, comparePriceHeader, priceHeader, vendorHeader, typeHeader, bodyHeader]
+    .filter(Boolean) as string[];
+  const weightUnit = WEIGHT_UNITS.find(u => weightHeader && u.pattern.test(weightHeader)) || WEIGHT_UNITS[3];
+
+  // Variants per product
+  const variantsByProduct = new Map<string, LevelRecord[]>();
+  const productOf = (record: LevelRecord): string =>
+    isFlat ? record.id : text(valueAt(record.rowIndexes[0], productTable.idHeader));
+  skuTable.records.forEach(record => {
+    const productId = productOf(record);
+    if (!productId) return;
+    if (!variantsByProduct.has(productId)) variantsByProduct.set(productId, []);
+    variantsByProduct.get(productId)!.push(record);
+  });
+
+  // Option candidates: properties below the product level (readable values before codes on ties),
+  // excluding SKU identifiers and Shopify fields
+  const lowerHeaders = tables.slice(1).flatMap(t => [...t.properties, t.nameHeader, t.idHeader].filter(Boolean) as string[]);
+  const candidates = Array.from(new Set(lowerHeaders)).filter(header => {
+    if (header === skuTable.idHeader || fieldHeaders.includes(header)) return false;
+    // Identifier-like columns never become options - judged across products, not across the catalog
+    return !isIdentifierLike(header, skuTable.records, r => valueAt(r.rowIndexes[0], header), productOf);
+  });
+
+  // Option axes per product - collect every violation before failing
+  const problems: string[] = [];
+  const axesByProduct = new Map<string, string[]>();
+  variantsByProduct.forEach((variants, productId) => {
+    if (variants.length > maxVariants) {
+      problems.push(`"${productId}" has ${variants.length} variants (limit ${maxVariants})`);
+      return;
+    }
+    if (variants.length === 1) {
+      axesByProduct.set(productId, []);
+      return;
+    }
+
+    // Values read from the source row so attributes of intermediate levels count too
+    const variantRecords = variants.map(v => ({
+      ...v,
+      values: Object.fromEntries(candidates.map(c => [c, text(valueAt(v.rowIndexes[0], c))])),
+    }));
+    const productCandidates = candidates.filter(c => variantRecords.every(v => v.values[c] !== ''));
+    const { attributes, ambiguousRecords } = findDistinguishingAttributes(
+      variantRecords,
+      productCandidates,
+      MAX_OPTIONS + 1, // One extra step tells "needs more than three" apart from "cannot be told apart"
+      () => ''
+    );
+    if (attributes.length > MAX_OPTIONS) {
+      problems.push(`"${productId}" needs more than ${MAX_OPTIONS} option axes (${attributes.join(', ')})`);
+    } else if (ambiguousRecords > 0) {
+      problems.push(`"${productId}" has ${ambiguousRecords} variants that no attribute tells apart`);
+    } else {
+      axesByProduct.set(productId, attributes);
+    }
+  });
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, 3).join('; ');
+    throw new Error(`${problems.length} products cannot be exported to Shopify: ${shown}${problems.length > 3 ? '; …' : ''}`);
+  }
+
+  // CSV rows - product fields only on each product's first row
+  const productRecords = new Map(productTable.records.map(r => [r.id, r]));
+  const nextHandle = createHandleRegistry();
+  const rows: unknown[][] = [SHOPIFY_COLUMNS];
+  const optionNames = new Set<string>();
+
+  variantsByProduct.forEach((variants, productId) => {
+    const product = productRecords.get(productId);
+    const firstRow = variants[0].rowIndexes[0];
+    const title = product?.name || variants[0].name || productId;
+    const handle = nextHandle(title === productId ? productId : `${title} ${productId}`);
+    const axes = axesByProduct.get(productId) || [];
+    axes.forEach(axis => optionNames.add(axis));
+
+    variants.forEach((variant, index) => {
+      const rowIndex = variant.rowIndexes[0];
+      const isFirst = index === 0;
+      const optionCells: unknown[] = [];
+      for (let i = 0; i < MAX_OPTIONS; i++) {
+        const axis = axes[i];
+        if (axes.length === 0 && i === 0) {
+          // Shopify's convention for products without options
+          optionCells.push(isFirst ? 'Title' : '', 'Default Title');
+        } else {
+          optionCells.push(isFirst && axis ? axis : '', axis ? text(valueAt(rowIndex, axis)) : '');
+        }
+      }
+
+      const weight = Number(valueAt(rowIndex, weightHeader));
+      const grams = weightHeader && !isNaN(weight) && !isEmptyValue(valueAt(rowIndex, weightHeader))
+        ? Math.round(weight * weightUnit.grams)
+        : '';
+
+      rows.push([
+        handle,
+        isFirst ? title : '',
+        isFirst ? text(valueAt(firstRow, bodyHeader)) : '',
+        isFirst ? text(valueAt(firstRow, vendorHeader)) : '',
+        isFirst ? text(valueAt(firstRow, typeHeader)) : '',
+        '',
+        isFirst ? 'TRUE' : '',
+        ...optionCells,
+        variant.id,
+        grams,
+        'deny',
+        'manual',
+        text(valueAt(rowIndex, priceHeader)),
+        text(valueAt(rowIndex, comparePriceHeader)),
+        'TRUE',
+        'TRUE',
+        text(valueAt(rowIndex, barcodeHeader)),
+        weightHeader ? weightUnit.unit : '',
+        isFirst ? 'active' : '',
+      ]);
+    });
+  });
+
+  const variantCount = rows.length - 1;
+  console.log(`🛍️ Shopify export: ${variantsByProduct.size} products, ${variantCount} variants, options: ${Array.from(optionNames).join(', ') || 'none'}`);
+
+  return {
+    rows,
+    summary: {
+      productCount: variantsByProduct.size,
+      variantCount,
+      optionNames: Array.from(optionNames),
+      skippedRows: skuTable.rowsWithoutId,
+    },
+  };
+};
+
+/**
+ * Downloads the Shopify product CSV.
+ */
+export const downloadShopifyExport = (
+  analysisResult: AnalysisResult,
+  headers: string[],
+  data: unknown[][],
+  options: ShopifyExportOptions = {}
+): ShopifyExport => {
+  const shopifyExport = buildShopifyExport(analysisResult, headers, data, options);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(shopifyExport.rows), 'Products');
+  const fileName = `shopify-products-${new Date().toISOString().split('T')[0]}.csv`;
+  XLSX.writeFile(workbook, fileName, { bookType: 'csv' });
+  return shopifyExport;
+};
@@ -0,0 +1,76 @@
+import * as XLSX from 'xlsx';
+import { detectDelimitedTextOptions, describeDelimiter, isDelimitedTextFile, readDelimitedText } from './delimitedTextParser';
+import { extractSheetTables } from './sheetJoin';
+import { applyHeaderRange, detectHeaderRange } from './headerDetection';
+import { detectLongFormat } from './longFormatPivot';
+
+export interface TableFile {
+  label: string; // File name, plus the sheet for workbooks with several sheets
+  headers: string[]; // Unique, non-empty headers
+  allHeaders: string[]; // Original header row including duplicates (for validation)
+  data: unknown[][];
+  notes: string[]; // Defaults that were applied without confirmation
+}
+
+export const TABLE_FILE_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.tab', '.txt'];
+
+export const isTableFile = (fileName: string): boolean =>
+  TABLE_FILE_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+const isEmptyCell = (cell: unknown): boolean =>
+  cell === null || cell === undefined || String(cell).trim() === '';
+
+/**
+ * Reads a data file with the detected defaults - dialect, first sheet and header
+ * range - and none of the confirmation steps of the upload flow. Runs without a DOM.
+ */
+export const readTableFile = (fileName: string, buffer: ArrayBuffer): TableFile => {
+  const notes: string[] = [];
+  let label = fileName;
+  let rows: unknown[][];
+
+  if (isDelimitedTextFile(fileName)) {
+    const options = detectDelimitedTextOptions(buffer, fileName);
+    notes.push(`Read as ${options.encoding} text with delimiter ${describeDelimiter(options.delimiter)}`);
+    const textRows = readDelimitedText(buffer, options).rows;
+    const range = detectHeaderRange(textRows);
+    if (!range.isDefault) {
+      notes.push(`Using header row ${range.headerRowIndex + 1} and data rows ${range.dataStartIndex + 1}-${range.dataEndIndex + 1}`);
+    }
+    rows = range.isDefault ? textRows : applyHeaderRange(textRows, range);
+  } else {
+    const sheets = extractSheetTables(XLSX.read(buffer, { type: 'array' }));
+    if (sheets.length === 0) {
+      throw new Error(`"${fileName}" has no data`);
+    }
+    if (sheets.length > 1) {
+      notes.push(`Using the first sheet "${sheets[0].name}" of ${sheets.length}`);
+      label = `${fileName} (${sheets[0].name})`;
+    }
+    rows = sheets[0].rows;
+  }
+
+  // Same cleanup as the upload flow; duplicate headers keep their first column
+  const allHeaders = (rows[0] || []).map(h => (isEmptyCell(h) ? '' : String(h).trim()));
+  const columns = allHeaders
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }, i, all) => header !== '' && all.findIndex(c => c.header === header) === i);
+  if (columns.length < allHeaders.filter(h => h !== '').length) {
+    notes.push('Duplicate column names found - only the first occurrence is analyzed');
+  }
+
+  const data = rows
+    .slice(1)
+    .filter(row => row && row.some(cell => !isEmptyCell(cell)))
+    .map(row => columns.map(({ index }) => row[index]));
+  if (data.length === 0) {
+    throw new Error(`"${fileName}" must contain a header row and at least one data row`);
+  }
+
+  const headers = columns.map(c => c.header);
+  if (detectLongFormat(headers, data).isLongFormat) {
+    notes.push('Looks like attribute/value (long) format - pivot it in the app for a meaningful hierarchy');
+  }
+
+  return { label, headers, allHeaders, data, notes };
+};
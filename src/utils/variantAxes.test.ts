@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { HierarchyLevel } from '@/types';
+import { detectVariantAxes } from './variantAxes';
+
+const level = (name: string, recordId: string, headers: string[]): HierarchyLevel => ({
+  level: 0,
+  name,
+  headers,
+  recordId,
+});
+
+describe('detectVariantAxes', () => {
+  const headers = ['Style', 'Brand', 'SKU', 'Color', 'Size', 'Cases per Pallet', 'UPC'];
+  const hierarchy = [level('Style', 'Style', ['Brand']), level('SKU', 'SKU', ['Color', 'Size', 'Cases per Pallet', 'UPC'])];
+  const data = [
+    ['ST1', 'Acme', 'A1', 'Red', 'S', '10', '001'],
+    ['ST1', 'Acme', 'A2', 'Red', 'M', '12', '002'],
+    ['ST1', 'Acme', 'A3', 'Blue', 'S', '14', '003'],
+    ['ST1', 'Acme', 'A4', 'Blue', 'S', '16', '004'],
+    ['ST2', 'Acme', 'B1', 'Red', 'S', '10', '005'],
+    ['ST2', 'Acme', 'B2', 'Red', 'M', '12', '006'],
+    ['ST2', 'Acme', 'B3', 'Blue', 'S', '14', '007'],
+    ['ST2', 'Acme', 'B4', 'Blue', 'M', '16', '008'],
+    ['ST3', 'Zeta', 'C1', 'Green', 'L', '10', '009'],
+    ['ST3', 'Zeta', 'C2', 'Green', 'XL', '12', '010'],
+  ];
+  const axisHeaders = ['Brand', 'Color', 'Size', 'Cases per Pallet', 'UPC'];
+  const result = detectVariantAxes(hierarchy, headers, data, axisHeaders);
+
+  it('stores the axes from the child level on the parent level', () => {
+    expect(result.hierarchy[0].variantAxes).toEqual(['Size', 'Color']);
+    expect(result.hierarchy[1].variantAxes).toBeUndefined();
+    expect(result.report.levels[0]).toMatchObject({ levelName: 'Style', childLevelName: 'SKU', parentCount: 3, childCount: 10 });
+  });
+
+  it('never picks identifier or logistics columns as axes', () => {
+    expect(result.hierarchy[0].variantAxes).not.toContain('UPC');
+    expect(result.hierarchy[0].variantAxes).not.toContain('Cases per Pallet');
+  });
+
+  it('takes parent properties that vary between a parent\'s children, not the ones constant per parent', () => {
+    const colorOnStyle = [level('Style', 'Style', ['Brand', 'Color']), level('SKU', 'SKU', ['Size', 'Cases per Pallet', 'UPC'])];
+    const misplaced = detectVariantAxes(colorOnStyle, headers, data, axisHeaders);
+    expect(misplaced.hierarchy[0].variantAxes).toEqual(['Size', 'Color']);
+    expect(misplaced.report.levels[0]).toMatchObject({ duplicateCount: 1, missingCount: 1 });
+  });
+
+  it('reports duplicated and missing axis combinations per parent', () => {
+    const report = result.report.levels[0];
+    expect(report.duplicateCount).toBe(1);
+    expect(report.duplicates[0]).toEqual({ parentId: 'ST1', values: ['S', 'Blue'], childIds: ['A3', 'A4'], rows: [4, 5] });
+    expect(report.missingCount).toBe(1);
+    expect(report.missing[0]).toMatchObject({ parentId: 'ST1', values: ['M', 'Blue'] });
+  });
+
+  it('leaves single-level hierarchies without axes', () => {
+    const flat = detectVariantAxes([level('SKU', 'SKU', ['Size'])], headers, data, axisHeaders);
+    expect(flat.report.levels).toEqual([]);
+    expect(flat.hierarchy[0].variantAxes).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+import { HierarchyLevel } from '@/types';
+import { LevelRecord, buildLevelRecords, findDistinguishingAttributes } from './hierarchyRecords';
+
+// Variant axes: the child attributes that tell a parent's children apart (e.g. Colour + Size),
+// stored on the parent level as HierarchyLevel.variantAxes.
+
+export interface AxisCombinationIssue {
+  parentId: string;
+  values: string[]; // One value per axis, in axis order
+  childIds: string[]; // Duplicates only - the children sharing the combination
+  rows: number[]; // Excel row numbers of those children (duplicates only)
+}
+
+export interface LevelVariantAxes {
+  levelName: string; // Parent level
+  childLevelName: string;
+  axes: string[];
+  parentCount: number;
+  childCount: number;
+  duplicateCount: number; // Combinations used by more than one child of the same parent
+  missingCount: number; // Combinations of the parent's axis values no child has
+  duplicates: AxisCombinationIssue[]; // First MAX_REPORTED_ISSUES
+  missing: AxisCombinationIssue[]; // First MAX_REPORTED_ISSUES
+}
+
+export interface VariantAxisReport {
+  levels: LevelVariantAxes[]; // One per parent level with a Record ID, top level first
+}
+
+const MAX_AXES = 4;
+const MAX_AXIS_VALUES = 100; // More distinct values than this is an identifier, not an axis
+const MAX_REPORTED_ISSUES = 50;
+const MAX_GRID_SIZE = 1000; // Missing combinations are only listed for grids up to this size
+
+// Identifiers, prices and links can tell variants apart but are never what defines them
+const NON_AXIS_HEADER = /\b(upc|ean|gtin|sku|barcode|isbn|mpn|id|code|number|price|cost|msrp|url|link|image)\b/i;
+// Logistics and unit-of-measure columns follow from the variant (Cases per Pallet, Weight), they don't define it
+const LOGISTICS_HEADER = /\b(pallets?|cases? per|units? per|layers?|uom|unit of measure|weight|height|width|depth|length|dimensions?|volume|qty|quantity|stock|lead time|shelf life)\b/i;
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const text = (value: unknown): string => String(value ?? '').trim();
+
+// Helper: low-cardinality attributes filled for all or none of a parent's children
+// (Storage can be an axis for laptops and empty for monitors)
+const getAxisCandidates = (records: LevelRecord[], properties: string[]): string[] =>
+  properties.filter(property => {
+    if (NON_AXIS_HEADER.test(property) || LOGISTICS_HEADER.test(property)) return false;
+    const values = records.map(r => r.values[property]);
+    if (values.some(v => /^https?:\/\//i.test(text(v)))) return false;
+
+    const filledByParent = new Map<string, Set<boolean>>();
+    records.forEach(r => {
+      const parentId = r.parentId ?? '';
+      if (!filledByParent.has(parentId)) filledByParent.set(parentId, new Set());
+      filledByParent.get(parentId)!.add(!isEmptyValue(r.values[property]));
+    });
+    if (Array.from(filledByParent.values()).some(filled => filled.size > 1)) return false;
+
+    const distinct = new Set(values.filter(v => !isEmptyValue(v)).map(text)).size;
+    return distinct > 1 && distinct <= MAX_AXIS_VALUES && distinct < records.length * 0.5;
+  });
+
+// Helper: parent properties that vary between the children of one parent record but are
+// constant within each child - an axis the hierarchy keeps on the parent level (Color on a style)
+const getVaryingParentProperties = (
+  parentRecords: LevelRecord[],
+  childRecords: LevelRecord[],
+  properties: string[],
+  columnIndex: Map<string, number>,
+  data: unknown[][]
+): string[] => {
+  const distinctIn = (rowIndexes: number[], property: string) =>
+    new Set(rowIndexes.map(rowIndex => text(data[rowIndex][columnIndex.get(property)!]))).size;
+  return properties.filter(property =>
+    columnIndex.has(property) &&
+    parentRecords.some(record => distinctIn(record.rowIndexes, property) > 1) &&
+    childRecords.every(record => distinctIn(record.rowIndexes, property) === 1)
+  );
+};
+
+// Helper: drop axes the others already cover, so the set stays minimal
+const pruneAxes = (records: LevelRecord[], axes: string[]): string[] => {
+  const combinations = (attributes: string[]) =>
+    new Set(records.map(r => [r.parentId ?? '', ...attributes.map(a => text(r.values[a]))].join('\u0000'))).size;
+  const target = combinations(axes);
+  return axes.reduce<string[]>((kept, axis, index) => {
+    const without = [...kept, ...axes.slice(index + 1)];
+    return without.length > 0 && combinations(without) === target ? kept : [...kept, axis];
+  }, []);
+};
+
+// Helper: duplicate and missing axis combinations per parent
+const findCombinationIssues = (records: LevelRecord[], axes: string[]) => {
+  const byParent = new Map<string, LevelRecord[]>();
+  records.forEach(record => {
+    const parentId = record.parentId ?? '';
+    if (!byParent.has(parentId)) byParent.set(parentId, []);
+    byParent.get(parentId)!.push(record);
+  });
+
+  const duplicates: AxisCombinationIssue[] = [];
+  const missing: AxisCombinationIssue[] = [];
+  let duplicateCount = 0;
+  let missingCount = 0;
+
+  byParent.forEach((children, parentId) => {
+    const combinations = new Map<string, LevelRecord[]>();
+    children.forEach(child => {
+      const key = axes.map(a => text(child.values[a])).join('\u0000');
+      if (!combinations.has(key)) combinations.set(key, []);
+      combinations.get(key)!.push(child);
+    });
+
+    combinations.forEach((sharing, key) => {
+      if (sharing.length < 2) return;
+      duplicateCount++;
+      if (duplicates.length < MAX_REPORTED_ISSUES) {
+        duplicates.push({
+          parentId,
+          values: key.split('\u0000'),
+          childIds: sharing.map(child => child.id),
+          rows: sharing.flatMap(child => child.rowIndexes.map(rowIndex => rowIndex + 2)),
+        });
+      }
+    });
+
+    // A single axis cannot have gaps - every value present is a child
+    if (axes.length < 2) return;
+    const axisValues = axes.map(a => Array.from(new Set(children.map(child => text(child.values[a])))));
+    const gridSize = axisValues.reduce((size, values) => size * values.length, 1);
+    if (gridSize > MAX_GRID_SIZE) return;
+
+    const grid = axisValues.reduce<string[][]>(
+      (combos, values) => combos.flatMap(combo => values.map(value => [...combo, value])),
+      [[]]
+    );
+    grid.forEach(values => {
+      if (combinations.has(values.join('\u0000'))) return;
+      missingCount++;
+      if (missing.length < MAX_REPORTED_ISSUES) {
+        missing.push({ parentId, values, childIds: [], rows: [] });
+      }
+    });
+  });
+
+  return { duplicates, missing, duplicateCount, missingCount };
+};
+
+/**
+ * Finds, for every parent level, the minimal set of child attributes that tells its
+ * children apart within a parent, with duplicated and missing axis combinations.
+ * Only axisHeaders (picklist-like columns) can be axes: the child level's own, and parent
+ * properties that vary between a parent's children - never identifiers or logistics/UoM columns.
+ * Returns the hierarchy with variantAxes set on parent levels (cleared on the others).
+ */
+export const detectVariantAxes = (
+  hierarchy: HierarchyLevel[],
+  headers: string[],
+  data: unknown[][],
+  axisHeaders: string[]
+): { hierarchy: HierarchyLevel[]; report: VariantAxisReport } => {
+  const cleared = hierarchy.map(level => ({ ...level, variantAxes: undefined }));
+  if (hierarchy.length < 2 || !hierarchy[hierarchy.length - 1].recordId) {
+    return { hierarchy: cleared, report: { levels: [] } };
+  }
+
+  const tables = buildLevelRecords(hierarchy, headers, data);
+  const columnIndex = new Map(headers.map((h, i) => [h, i]));
+  const levels: LevelVariantAxes[] = [];
+  const axesByLevel = new Map<HierarchyLevel, string[]>();
+
+  tables.slice(0, -1).forEach((parentTable, index) => {
+    const childTable = tables[index + 1];
+    const childRecords = childTable.records.filter(record => record.parentId !== undefined);
+    const parentPool = getVaryingParentProperties(
+      parentTable.records,
+      childRecords,
+      parentTable.properties.filter(header => axisHeaders.includes(header)),
+      columnIndex,
+      data
+    );
+    const pool = [...childTable.properties.filter(header => axisHeaders.includes(header)), ...parentPool];
+    // Parent values read from each child's first source row (the parent record only keeps one)
+    const records = childRecords.map(record => ({
+      ...record,
+      values: {
+        ...record.values,
+        ...Object.fromEntries(parentPool.map(header => [header, data[record.rowIndexes[0]][columnIndex.get(header)!]])),
+      },
+    }));
+    const candidates = getAxisCandidates(records, pool);
+    const { attributes } = findDistinguishingAttributes(records, candidates, MAX_AXES);
+    const axes = pruneAxes(records, attributes);
+    const issues = axes.length > 0
+      ? findCombinationIssues(records, axes)
+      : { duplicates: [], missing: [], duplicateCount: 0, missingCount: 0 };
+
+    axesByLevel.set(parentTable.level, axes);
+    levels.push({
+      levelName: parentTable.level.name,
+      childLevelName: childTable.level.name,
+      axes,
+      parentCount: parentTable.records.length,
+      childCount: records.length,
+      ...issues,
+    });
+    console.log(`🎛️ ${parentTable.level.name} → ${childTable.level.name}: axes ${axes.join(' + ') || 'none'} (${issues.duplicateCount} duplicate, ${issues.missingCount} missing combinations)`);
+  });
+
+  return {
+    hierarchy: hierarchy.map((level, index) => ({
+      ...cleared[index],
+      variantAxes: axesByLevel.get(level),
+    })),
+    report: { levels },
+  };
+};
@@ -0,0 +1,35 @@
+import { AnalysisStage } from '@/utils/analysisEngine';
+import { AnalysisPipelineInput, AnalysisPipelineOutput } from '@/utils/analysisPipeline';
+
+// Main thread → worker
+export interface AnalyzeRequest {
+  type: 'analyze';
+  requestId: number;
+  input: AnalysisPipelineInput;
+}
+
+export type AnalysisWorkerRequest = AnalyzeRequest;
+
+// Worker → main thread
+export interface AnalysisProgressMessage {
+  type: 'progress';
+  requestId: number;
+  stage: AnalysisStage;
+  stageIndex: number; // 0-based position in ANALYSIS_STAGES
+  stageCount: number;
+}
+
+export interface AnalysisResultMessage {
+  type: 'result';
+  requestId: number;
+  output: AnalysisPipelineOutput;
+  durationMs: number;
+}
+
+export interface AnalysisErrorMessage {
+  type: 'error';
+  requestId: number;
+  message: string;
+}
+
+export type AnalysisWorkerResponse = AnalysisProgressMessage | AnalysisResultMessage | AnalysisErrorMessage;
@@ -0,0 +1,40 @@
+import { ANALYSIS_STAGES } from '@/utils/analysisEngine';
+import { runAnalysisPipeline } from '@/utils/analysisPipeline';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysisProtocol';
+
+// Runs the analysis pipeline off the main thread. Cancellation terminates the worker,
+// since the pipeline is synchronous and cannot be interrupted between messages.
+const post = (message: AnalysisWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== 'analyze') return;
+
+  const startedAt = performance.now();
+  try {
+    const output = runAnalysisPipeline(request.input, stage => {
+      post({
+        type: 'progress',
+        requestId: request.requestId,
+        stage,
+        stageIndex: ANALYSIS_STAGES.indexOf(stage),
+        stageCount: ANALYSIS_STAGES.length,
+      });
+    });
+
+    post({
+      type: 'result',
+      requestId: request.requestId,
+      output,
+      durationMs: performance.now() - startedAt,
+    });
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,30 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Node build of the UI-free engine and the CLI: `npm run build:lib` → dist-lib/
+// Dependencies (xlsx, jspdf) stay external and are loaded from node_modules.
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    ssr: true,
+    outDir: "dist-lib",
+    emptyOutDir: true,
+    target: "node18",
+    rollupOptions: {
+      input: {
+        engine: path.resolve(__dirname, "src/engine/index.ts"),
+        analyze: path.resolve(__dirname, "src/cli/analyze.ts"),
+      },
+      output: {
+        format: "es",
+        entryFileNames: "[name].js",
+        chunkFileNames: "chunks/[name]-[hash].js",
+      },
+    },
+  },
+});